@@ -0,0 +1,133 @@
+// ============================================================================
+// Blob Index
+// ============================================================================
+//
+// Under denyPaths rules, a file's content must not be readable by its hash
+// (`cat-file -p <sha>`, `show <sha>`) any more than by its path. Blobs have
+// no path of their own, so every blob in the snapshot history is indexed
+// with whether it ever appeared at a denied path. The index is built once
+// per repository from `git log --raw` and extended incrementally as new
+// snapshots arrive. Blobs that are not in the index (unreachable objects, or
+// anything newer than HEAD) are treated as denied.
+
+import { log } from './logger';
+import { PolicyViolationError } from './git-policy';
+import { PathRules, objectArguments } from './path-rules';
+
+// Run git for the index (bypassing the deny checks). Resolves to stdout, or
+// null when git fails.
+type GitReader = (repoPath: string, argv: string[]) => Promise<string | null>;
+
+type BlobStatus = 'allowed' | 'denied' | 'unknown';
+
+interface IndexedHistory {
+  head: string | null;
+  rules: PathRules;
+  blobs: Map<string, boolean>;  // blob SHA -> seen at a denied path
+}
+
+const NULL_SHA = /^0+$/;
+
+// Commands that print paths relative to a subtree given as `rev:dir`, which
+// the deny filter could not match against the rules
+const SUBTREE_COMMANDS = new Set(['diff', 'diff-tree', 'grep']);
+
+class BlobIndex {
+  private readonly indexes = new Map<string, IndexedHistory>();
+
+  constructor(private readonly git: GitReader) {}
+
+  /**
+   * Whether a blob may be read: 'denied' when it appeared at a denied path
+   * anywhere in the history reachable from `head`, 'unknown' when it is not
+   * in that history at all.
+   */
+  async blobStatus(repoPath: string, head: string | null, sha: string, rules: PathRules): Promise<BlobStatus> {
+    let index = this.indexes.get(repoPath);
+    if (!index || index.head !== head || index.rules !== rules) {
+      index = await this.update(repoPath, head, rules, index?.rules === rules ? index : undefined);
+      this.indexes.set(repoPath, index);
+    }
+    const denied = index.blobs.get(sha);
+    if (denied === undefined) return 'unknown';
+    return denied ? 'denied' : 'allowed';
+  }
+
+  /**
+   * Resolve the object arguments of a command (see objectArguments) and
+   * reject blobs that are denied or unknown, and subtrees whose paths could
+   * not be filtered. Throws a PolicyViolationError. `resolve` runs the
+   * lookups when the command runs somewhere other than the shadow repository.
+   */
+  async checkObjectArguments(
+    repoPath: string,
+    head: string | null,
+    argv: readonly string[],
+    rules: PathRules,
+    resolve: GitReader = this.git
+  ): Promise<void> {
+    if (!rules.active) return;
+
+    for (const arg of objectArguments(argv)) {
+      const type = (await resolve(repoPath, ['cat-file', '-t', arg]))?.trim();
+      if (type === 'tree' && SUBTREE_COMMANDS.has(argv[0]) && /:[^/]/.test(arg)) {
+        throw new PolicyViolationError(
+          `'${arg}' names a subdirectory, whose paths cannot be checked against the denyPaths rules. ` +
+            `Give the revision and the path separately (e.g. '${argv[0]} ${arg.slice(0, arg.indexOf(':'))} -- ${arg.slice(arg.indexOf(':') + 1)}').`,
+          'deny-paths.subtree'
+        );
+      }
+      if (type !== 'blob') continue;
+
+      const sha = (await resolve(repoPath, ['rev-parse', '--verify', '--quiet', arg]))?.trim();
+      const status = sha ? await this.blobStatus(repoPath, head, sha, rules) : 'unknown';
+      if (status === 'denied') {
+        throw new PolicyViolationError(`'${arg}' is the content of a file denied by the denyPaths rules.`, 'deny-paths.objects');
+      }
+      if (status === 'unknown') {
+        throw new PolicyViolationError(
+          `'${arg}' is not a file in the snapshot history, so it cannot be checked against the denyPaths rules.`,
+          'deny-paths.objects'
+        );
+      }
+    }
+  }
+
+  private async update(
+    repoPath: string,
+    head: string | null,
+    rules: PathRules,
+    previous: IndexedHistory | undefined
+  ): Promise<IndexedHistory> {
+    const blobs = new Map(previous?.blobs);
+    if (!head) return { head, rules, blobs };
+
+    const range = previous?.head ? `${previous.head}..${head}` : head;
+    const argv = ['log', '--format=', '--raw', '--no-abbrev', '--no-renames', '--root', '-m', '-z', range];
+    let output = await this.git(repoPath, argv);
+    if (output === null && previous) {
+      // The previous HEAD is gone (history rewritten): start over
+      blobs.clear();
+      output = await this.git(repoPath, [...argv.slice(0, -1), head]);
+    }
+    if (output === null) return { head: null, rules, blobs };
+
+    // Entries are ":<mode> <mode> <sha> <sha> <status>\0<path>\0"
+    const fields = output.split('\0');
+    for (let i = 0; i + 1 < fields.length; i++) {
+      const meta = fields[i].replace(/^\n+/, '');
+      if (!meta.startsWith(':')) continue;
+      const [oldMode, newMode, oldSha, newSha] = meta.slice(1).split(' ');
+      const denied = rules.match(fields[++i]) !== null;
+      for (const [mode, sha] of [[oldMode, oldSha], [newMode, newSha]]) {
+        if (NULL_SHA.test(sha) || mode === '160000') continue;
+        blobs.set(sha, denied || blobs.get(sha) === true);
+      }
+    }
+
+    log('debug', `Indexed ${blobs.size} blobs of ${repoPath} for denyPaths checks`);
+    return { head, rules, blobs };
+  }
+}
+
+export { BlobIndex, BlobStatus, GitReader };
@@ -0,0 +1,395 @@
+// ============================================================================
+// Server Configuration
+// ============================================================================
+//
+// Limits and policies come from an optional JSON file, `mcp-config.json` next
+// to repos.json (or the file given with --config):
+//
+//   {
+//     "timeoutMs": 10000,
+//     "maxBufferSize": 10485760,
+//     "maxCommandLength": 1000,
+//     "maxConcurrent": 4,
+//     "objectCacheSize": 33554432,
+//     "logLevel": "info",
+//     "allowedCommands": ["log", "diff", "show"],
+//     "denyPaths": [".env*", "secrets/**", "*.pem"],
+//     "repoAccess": "allowlisted",
+//     "allowedRoots": ["~/work"],
+//     "redactSecrets": true,
+//     "redactionPatterns": [{ "name": "internal-token", "pattern": "itk_[a-z0-9]{32}" }],
+//     "repos": {
+//       "big-monorepo": { "timeoutMs": 30000, "maxBufferSize": 52428800, "denyPaths": ["deploy/keys/"] }
+//     }
+//   }
+//
+// Every key is optional. Per-repo entries are keyed by repository name or
+// path and override the limits and allowed commands for that repository;
+// their `denyPaths` add to the global ones. Files matching `denyPaths` are
+// never readable through the server (see path-rules.ts).
+// `repoAccess` and `allowedRoots` decide which paths outside repos.json can
+// be queried (see repo-access.ts). Secrets are redacted from all output
+// unless `redactSecrets` is false; `redactionPatterns` adds detectors to the
+// built-in ones (see redaction.ts). Output of commands on fixed commits,
+// trees and blobs is cached in up to `objectCacheSize` bytes (0 turns the
+// cache off; see object-cache.ts). The SHADOWGIT_TIMEOUT,
+// SHADOWGIT_MAX_CONCURRENT and LOG_LEVEL environment variables override the
+// file's global values. The whole file is validated at startup and every
+// problem is reported at once.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMMAND_POLICIES } from './git-policy';
+import { LogLevel, log } from './logger';
+import { RedactionPattern } from './redaction';
+import { REPO_ACCESS_MODES, RepoAccessMode, RepoAccessPolicy, canonicalPath } from './repo-access';
+
+const LOG_LEVEL_NAMES: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Limits that can be set globally and per repository
+interface RepoSettings {
+  timeoutMs: number;
+  maxBufferSize: number;
+  maxCommandLength: number;
+  allowedCommands: string[];
+  denyPaths: string[];
+}
+
+interface ServerConfig extends RepoSettings, RepoAccessPolicy {
+  maxConcurrent: number;
+  objectCacheSize: number;
+  logLevel: LogLevel;
+  redactSecrets: boolean;
+  redactionPatterns: RedactionPattern[];
+  repos: Record<string, Partial<RepoSettings>>;
+}
+
+class ConfigError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  timeoutMs: 10000,                 // 10 seconds
+  maxBufferSize: 10 * 1024 * 1024,  // 10MB
+  maxCommandLength: 1000,
+  maxConcurrent: 4,
+  objectCacheSize: 32 * 1024 * 1024,  // 32MB
+  logLevel: 'info',
+  allowedCommands: Object.keys(COMMAND_POLICIES),
+  denyPaths: [],
+  repoAccess: 'any',
+  allowedRoots: [],
+  redactSecrets: true,
+  redactionPatterns: [],
+  repos: {}
+};
+
+// ----------------------------------------------------------------------------
+// Validation
+// ----------------------------------------------------------------------------
+
+type SettingReader = (value: unknown, where: string, problems: string[]) => unknown;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function positiveInteger(value: unknown, where: string, problems: string[]): number | undefined {
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value;
+  problems.push(`${where} must be a positive integer (got ${JSON.stringify(value)})`);
+  return undefined;
+}
+
+function nonNegativeInteger(value: unknown, where: string, problems: string[]): number | undefined {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value;
+  problems.push(`${where} must be a non-negative integer (got ${JSON.stringify(value)})`);
+  return undefined;
+}
+
+function logLevel(value: unknown, where: string, problems: string[]): LogLevel | undefined {
+  if (LOG_LEVEL_NAMES.includes(value as LogLevel)) return value as LogLevel;
+  problems.push(`${where} must be one of ${LOG_LEVEL_NAMES.join(', ')} (got ${JSON.stringify(value)})`);
+  return undefined;
+}
+
+function commandList(value: unknown, where: string, problems: string[]): string[] | undefined {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    problems.push(`${where} must be an array of git command names`);
+    return undefined;
+  }
+  // Only commands with an argument policy can be allowed; the list can
+  // narrow the read-only set but never extend it
+  const unknown = value.filter(command => !(command in COMMAND_POLICIES));
+  if (unknown.length > 0) {
+    problems.push(
+      `${where} contains unsupported commands: ${unknown.join(', ')} ` +
+      `(supported: ${Object.keys(COMMAND_POLICIES).join(', ')})`
+    );
+    return undefined;
+  }
+  return Array.from(new Set(value));
+}
+
+function denyPatterns(value: unknown, where: string, problems: string[]): string[] | undefined {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    problems.push(`${where} must be an array of gitignore-style path patterns`);
+    return undefined;
+  }
+  const start = problems.length;
+  for (const pattern of value) {
+    if (pattern.trim() === '' || pattern.trim() === '/' || pattern.startsWith('#')) {
+      problems.push(`${where} contains an empty pattern or comment (${JSON.stringify(pattern)})`);
+    } else if (pattern.startsWith('!')) {
+      problems.push(`${where} cannot contain negated patterns (${JSON.stringify(pattern)}); list only the paths to deny`);
+    }
+  }
+  return problems.length === start ? Array.from(new Set(value)) : undefined;
+}
+
+function repoAccess(value: unknown, where: string, problems: string[]): RepoAccessMode | undefined {
+  if (REPO_ACCESS_MODES.includes(value as RepoAccessMode)) return value as RepoAccessMode;
+  problems.push(`${where} must be one of ${REPO_ACCESS_MODES.join(', ')} (got ${JSON.stringify(value)})`);
+  return undefined;
+}
+
+function rootList(value: unknown, where: string, problems: string[]): string[] | undefined {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    problems.push(`${where} must be an array of directory paths`);
+    return undefined;
+  }
+  const relative = value.filter(root => !path.isAbsolute(root) && root !== '~' && !root.startsWith('~/'));
+  if (relative.length > 0) {
+    problems.push(`${where} must contain absolute paths (got ${relative.map(root => JSON.stringify(root)).join(', ')})`);
+    return undefined;
+  }
+  return value;
+}
+
+function boolean(value: unknown, where: string, problems: string[]): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  problems.push(`${where} must be true or false (got ${JSON.stringify(value)})`);
+  return undefined;
+}
+
+function redactionPatterns(value: unknown, where: string, problems: string[]): RedactionPattern[] | undefined {
+  if (!Array.isArray(value)) {
+    problems.push(`${where} must be an array of {"name", "pattern", "flags"} objects`);
+    return undefined;
+  }
+  const start = problems.length;
+  value.forEach((entry: unknown, index: number) => {
+    const at = `${where}[${index}]`;
+    if (!isObject(entry)) {
+      problems.push(`${at} must be an object with a "name" and a "pattern"`);
+      return;
+    }
+    const unknown = Object.keys(entry).filter(key => !['name', 'pattern', 'flags'].includes(key));
+    if (unknown.length > 0) {
+      problems.push(`${at} has unknown keys: ${unknown.join(', ')} (expected name, pattern, flags)`);
+    }
+    if (typeof entry.name !== 'string' || !/^[a-z0-9-]+$/i.test(entry.name)) {
+      problems.push(`${at}.name must be a word such as "internal-token" (letters, digits and dashes)`);
+    }
+    if (entry.flags !== undefined && (typeof entry.flags !== 'string' || !/^[imsu]*$/.test(entry.flags))) {
+      problems.push(`${at}.flags may only contain i, m, s and u`);
+    }
+    if (typeof entry.pattern !== 'string' || entry.pattern === '') {
+      problems.push(`${at}.pattern must be a non-empty regular expression string`);
+      return;
+    }
+    try {
+      new RegExp(entry.pattern, typeof entry.flags === 'string' ? entry.flags : '');
+    } catch (error) {
+      problems.push(`${at}.pattern is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  return problems.length === start ? value as RedactionPattern[] : undefined;
+}
+
+const REPO_SETTINGS: Record<keyof RepoSettings, SettingReader> = {
+  timeoutMs: positiveInteger,
+  maxBufferSize: positiveInteger,
+  maxCommandLength: positiveInteger,
+  allowedCommands: commandList,
+  denyPaths: denyPatterns
+};
+
+const GLOBAL_SETTINGS: Record<Exclude<keyof ServerConfig, 'repos'>, SettingReader> = {
+  ...REPO_SETTINGS,
+  maxConcurrent: positiveInteger,
+  objectCacheSize: nonNegativeInteger,
+  logLevel,
+  repoAccess,
+  allowedRoots: rootList,
+  redactSecrets: boolean,
+  redactionPatterns
+};
+
+function readSettings(
+  data: Record<string, unknown>,
+  readers: Record<string, SettingReader>,
+  prefix: string,
+  problems: string[],
+  ignored: string[] = []
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (ignored.includes(key)) continue;
+    const reader = readers[key];
+    if (!reader) {
+      problems.push(`Unknown key '${prefix}${key}' (expected one of: ${[...Object.keys(readers), ...ignored].join(', ')})`);
+      continue;
+    }
+    const parsed = reader(value, `'${prefix}${key}'`, problems);
+    if (parsed !== undefined) settings[key] = parsed;
+  }
+  return settings;
+}
+
+/**
+ * Validate parsed config JSON and merge it over the defaults. Throws a
+ * ConfigError listing every unknown key and invalid value.
+ */
+function parseConfig(data: unknown, source: string): ServerConfig {
+  if (!isObject(data)) {
+    throw new ConfigError(source, ['The configuration must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+  const settings = readSettings(data, GLOBAL_SETTINGS, '', problems, ['repos']);
+
+  const repos: Record<string, Partial<RepoSettings>> = {};
+  if (data.repos !== undefined) {
+    if (!isObject(data.repos)) {
+      problems.push("'repos' must be an object mapping repository names or paths to settings");
+    } else {
+      for (const [repo, overrides] of Object.entries(data.repos)) {
+        if (!isObject(overrides)) {
+          problems.push(`'repos.${repo}' must be an object`);
+          continue;
+        }
+        repos[repo] = readSettings(overrides, REPO_SETTINGS, `repos.${repo}.`, problems) as Partial<RepoSettings>;
+      }
+    }
+  }
+
+  const roots = settings.allowedRoots as string[] | undefined;
+  if (roots && roots.length > 0 && settings.repoAccess !== 'allowlisted') {
+    problems.push(`'allowedRoots' only applies when 'repoAccess' is "allowlisted"`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(source, problems);
+  }
+  return { ...DEFAULT_CONFIG, ...settings, repos } as ServerConfig;
+}
+
+/**
+ * Apply the environment variable overrides. Invalid values are reported like
+ * problems in the file.
+ */
+function applyEnvironment(config: ServerConfig, env: NodeJS.ProcessEnv): ServerConfig {
+  const problems: string[] = [];
+  const integer = (name: string): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === '') return undefined;
+    return positiveInteger(/^\d+$/.test(value) ? parseInt(value, 10) : value, name, problems);
+  };
+
+  const timeoutMs = integer('SHADOWGIT_TIMEOUT');
+  const maxConcurrent = integer('SHADOWGIT_MAX_CONCURRENT');
+  const level = env.LOG_LEVEL ? logLevel(env.LOG_LEVEL.toLowerCase(), 'LOG_LEVEL', problems) : undefined;
+
+  if (problems.length > 0) {
+    throw new ConfigError('environment', problems);
+  }
+  return {
+    ...config,
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+    ...(maxConcurrent !== undefined ? { maxConcurrent } : {}),
+    ...(level !== undefined ? { logLevel: level } : {})
+  };
+}
+
+/**
+ * Load the configuration file and apply environment overrides. A missing
+ * file means defaults, unless it was named explicitly with --config.
+ */
+function loadConfig(filePath: string, explicit: boolean, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  let config = DEFAULT_CONFIG;
+  if (fs.existsSync(filePath)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new ConfigError(filePath, [`Cannot read the file as JSON: ${error instanceof Error ? error.message : error}`]);
+    }
+    config = parseConfig(data, filePath);
+    log('info', `Loaded configuration from ${filePath}`);
+  } else if (explicit) {
+    throw new ConfigError(filePath, ['The file does not exist']);
+  }
+  return applyEnvironment(config, env);
+}
+
+/**
+ * The --config path from the command line, if given (`--config <file>` or
+ * `--config=<file>`).
+ */
+function configPathFromArgs(argv: readonly string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--config=')) return argv[i].slice('--config='.length);
+    if (argv[i] === '--config') {
+      const value = argv[i + 1];
+      if (!value || value.startsWith('--')) {
+        throw new ConfigError('command line', ['--config requires a file path']);
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Effective settings for a repository: its entry in `repos` (matched by
+ * registered name or by path) over the global values. Deny patterns from
+ * both apply. Paths are compared canonically, so another spelling of the
+ * same directory (a trailing slash, a symlink) gets the same settings.
+ */
+function repoSettings(
+  config: ServerConfig,
+  repoPath: string,
+  repos: ReadonlyMap<string, string>
+): RepoSettings {
+  const global: RepoSettings = {
+    timeoutMs: config.timeoutMs,
+    maxBufferSize: config.maxBufferSize,
+    maxCommandLength: config.maxCommandLength,
+    allowedCommands: config.allowedCommands,
+    denyPaths: config.denyPaths
+  };
+  const canonical = canonicalPath(repoPath);
+  const overrides = Object.entries(config.repos)
+    .filter(([key]) => {
+      const registered = repos.get(key);
+      return canonicalPath(key) === canonical || (registered !== undefined && canonicalPath(registered) === canonical);
+    })
+    .map(([, settings]) => settings);
+  const denyPaths = [global.denyPaths, ...overrides.map(settings => settings.denyPaths ?? [])].flat();
+  return { ...Object.assign(global, ...overrides), denyPaths: Array.from(new Set(denyPaths)) };
+}
+
+export {
+  ConfigError,
+  DEFAULT_CONFIG,
+  RepoSettings,
+  ServerConfig,
+  applyEnvironment,
+  configPathFromArgs,
+  loadConfig,
+  parseConfig,
+  repoSettings
+};
@@ -0,0 +1,147 @@
+// ============================================================================
+// Git Command Parsing
+// ============================================================================
+//
+// Commands arrive from the AI as a single string. They are tokenized here with
+// POSIX-shell quoting rules and then executed as an argv array, so no shell is
+// ever involved and the arguments that get validated are exactly the arguments
+// that reach git.
+
+// Characters a shell would treat as operators or expansions. Outside of quotes
+// they are rejected outright rather than passed through as literals, so a
+// command never silently means something different from what the caller typed.
+const UNQUOTED_METACHARACTERS = new Set([';', '|', '&', '<', '>', '(', ')', '$', '`', '\n', '\r']);
+
+// Inside double quotes a shell still expands these.
+const DOUBLE_QUOTED_METACHARACTERS = new Set(['$', '`']);
+
+// Characters a backslash escapes inside double quotes (POSIX).
+const DOUBLE_QUOTE_ESCAPABLE = new Set(['$', '`', '"', '\\', '\n']);
+
+class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
+function describeCharacter(char: string): string {
+  switch (char) {
+    case '\n':
+      return 'newline';
+    case '\r':
+      return 'carriage return';
+    default:
+      return `'${char}'`;
+  }
+}
+
+/**
+ * Split a command line into arguments.
+ *
+ * Supports single quotes (fully literal), double quotes (literal except for
+ * backslash escapes) and backslash escapes outside of quotes. Shell operators,
+ * redirections, command substitution and variable expansion are rejected with
+ * a CommandParseError instead of being interpreted.
+ */
+function tokenizeCommand(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === ' ' || char === '\t') {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new CommandParseError('Unterminated single quote.');
+      }
+      current += command.slice(i + 1, end);
+      inToken = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      i++;
+      let closed = false;
+      while (i < command.length) {
+        const inner = command[i];
+        if (inner === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+        if (inner === '\\' && i + 1 < command.length && DOUBLE_QUOTE_ESCAPABLE.has(command[i + 1])) {
+          current += command[i + 1];
+          i += 2;
+          continue;
+        }
+        if (DOUBLE_QUOTED_METACHARACTERS.has(inner)) {
+          throw new CommandParseError(
+            `Shell expansion character ${describeCharacter(inner)} is not allowed. Use single quotes for a literal value.`
+          );
+        }
+        current += inner;
+        i++;
+      }
+      if (!closed) {
+        throw new CommandParseError('Unterminated double quote.');
+      }
+      inToken = true;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (i + 1 >= command.length) {
+        throw new CommandParseError('Trailing backslash with nothing to escape.');
+      }
+      current += command[i + 1];
+      inToken = true;
+      i += 2;
+      continue;
+    }
+
+    if (UNQUOTED_METACHARACTERS.has(char)) {
+      throw new CommandParseError(
+        `Shell metacharacter ${describeCharacter(char)} is not allowed. Quote it if it is part of an argument.`
+      );
+    }
+
+    current += char;
+    inToken = true;
+    i++;
+  }
+
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+// Arguments made only of these characters need no quoting
+const PLAIN_ARGUMENT = /^[\w@%+=:,./^~-]+$/;
+
+/**
+ * Quote one argument so tokenizeCommand reads it back unchanged. Used when
+ * the server builds a command string itself (e.g. for prompts).
+ */
+function quoteArgument(value: string): string {
+  if (PLAIN_ARGUMENT.test(value)) return value;
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export { CommandParseError, quoteArgument, tokenizeCommand };
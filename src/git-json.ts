@@ -0,0 +1,462 @@
+// ============================================================================
+// Structured Git Output
+// ============================================================================
+//
+// Backs the `format: "json"` mode of the git tool. The caller's validated argv
+// is rewritten to request machine-readable output (a delimited --format for
+// commits, --numstat for file stats, plain unified patches for diffs) and the
+// result is parsed into typed objects, so the AI never has to re-parse
+// porcelain text.
+
+// Field and record separators for the commit --format string. Neither can
+// appear in refs, hashes or identities, and they practically never appear in
+// commit messages.
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+const COMMIT_FORMAT = `--format=${[
+  '%x1e%H', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%B'
+].join('%x1f')}%x1f`;
+
+const COMMIT_HEADER_FIELDS = 9;
+
+const JSON_COMMANDS = new Set(['log', 'show', 'diff', 'diff-tree']);
+
+// Presentation flags that would corrupt the machine-readable output. They
+// are dropped in JSON mode, since the JSON result replaces the presentation.
+const PRESENTATION_FLAGS = new Set([
+  '--oneline', '--pretty', '--format', '--graph', '--stat', '--shortstat', '--numstat',
+  '--name-only', '--name-status', '--raw', '--summary', '--compact-summary', '--dirstat',
+  '--dirstat-by-file', '--cumulative', '--color', '--no-color', '--color-moved',
+  '--color-moved-ws', '--word-diff', '--word-diff-regex', '--color-words', '-z',
+  '--abbrev-commit', '--no-abbrev-commit', '--decorate', '--no-decorate', '--patch-with-stat',
+  '--patch-with-raw', '--relative-date', '--date', '--left-right', '--show-linear-break',
+  '--log-size', '--line-prefix', '--expand-tabs', '--no-expand-tabs', '--parents', '--children',
+  '--src-prefix', '--dst-prefix', '--no-prefix', '--default-prefix', '--output-indicator-new',
+  '--output-indicator-old', '--output-indicator-context', '--check', '--exit-code', '--quiet',
+  '--source', '--stat-width', '--stat-name-width', '--stat-graph-width', '--stat-count',
+  '--no-commit-id', '-s', '--no-patch', '-p', '-u', '--patch'
+]);
+
+// Presentation flags that take a separate value (--date relative).
+const PRESENTATION_VALUE_FLAGS = new Set([
+  '--format', '--date', '--word-diff-regex', '--line-prefix', '--src-prefix', '--dst-prefix',
+  '--output-indicator-new', '--output-indicator-old', '--output-indicator-context',
+  '--stat-width', '--stat-name-width', '--stat-graph-width', '--stat-count'
+]);
+
+const PATCH_FLAGS = new Set(['-p', '-u', '--patch', '-W', '--function-context']);
+
+// For `show`, any of these means the caller did not want the patch.
+const NO_PATCH_FLAGS = new Set([
+  '-s', '--no-patch', '--stat', '--numstat', '--shortstat', '--name-only', '--name-status',
+  '--raw', '--summary', '--compact-summary', '--dirstat'
+]);
+
+const DIFF_OUTPUT_FLAGS = [
+  '--no-color', '--no-ext-diff', '--no-textconv', '--src-prefix=a/', '--dst-prefix=b/'
+];
+
+// ----------------------------------------------------------------------------
+// Types
+// ----------------------------------------------------------------------------
+
+interface Person {
+  name: string;
+  email: string;
+}
+
+interface FileStat {
+  path: string;
+  oldPath?: string;      // set for renames and copies
+  additions: number | null; // null for binary files
+  deletions: number | null;
+}
+
+interface DiffLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+  noNewlineAtEnd?: boolean;
+}
+
+interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;     // function/section context after the @@ marker
+  lines: DiffLine[];
+}
+
+interface DiffFile {
+  oldPath: string | null; // null when the file was added
+  newPath: string | null; // null when the file was deleted
+  status: 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+interface Commit {
+  sha: string;
+  parents: string[];
+  author: Person;
+  authoredAt: string;   // ISO 8601
+  committer: Person;
+  committedAt: string;  // ISO 8601
+  subject: string;
+  message: string;
+  files: FileStat[];
+  diff?: DiffFile[];
+}
+
+type StructuredGitOutput =
+  | { command: 'log' | 'show'; commits: Commit[] }
+  | { command: 'diff' | 'diff-tree'; files: DiffFile[] };
+
+class JsonFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonFormatError';
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Command preparation
+// ----------------------------------------------------------------------------
+
+function flagName(arg: string): string {
+  const equalsIndex = arg.indexOf('=');
+  return equalsIndex === -1 ? arg : arg.slice(0, equalsIndex);
+}
+
+/**
+ * Rewrite a validated argv so git emits output that the parsers below
+ * understand. Throws a JsonFormatError for commands without a JSON form.
+ */
+function prepareJsonCommand(argv: readonly string[]): string[] {
+  const [command, ...args] = argv;
+  if (!JSON_COMMANDS.has(command)) {
+    throw new JsonFormatError(
+      `format "json" is only supported for ${Array.from(JSON_COMMANDS).join(', ')} (got '${command}').`
+    );
+  }
+
+  const kept: string[] = [];
+  let endOfOptions = false;
+  let patchRequested = false;
+  let patchSuppressed = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (endOfOptions || !arg.startsWith('-')) {
+      kept.push(arg);
+      continue;
+    }
+    if (arg === '--') {
+      endOfOptions = true;
+      kept.push(arg);
+      continue;
+    }
+
+    const name = flagName(arg);
+    if (PATCH_FLAGS.has(name) || name.startsWith('-U') || name === '--unified') patchRequested = true;
+    if (NO_PATCH_FLAGS.has(name)) patchSuppressed = true;
+
+    if (PRESENTATION_FLAGS.has(name)) {
+      const takesSeparateValue = PRESENTATION_VALUE_FLAGS.has(name) && name === arg;
+      if (takesSeparateValue && i + 1 < args.length && !args[i + 1].startsWith('-')) i++;
+      continue;
+    }
+    kept.push(arg);
+  }
+
+  // Our flags go before any '--' so they are not taken as paths
+  const insertAt = endOfOptions ? kept.indexOf('--') : kept.length;
+  const extra: string[] = [];
+
+  if (command === 'log' || command === 'show') {
+    const includePatch = patchRequested || (command === 'show' && !patchSuppressed);
+    extra.push(COMMIT_FORMAT, '--numstat', '--diff-merges=first-parent', ...DIFF_OUTPUT_FLAGS);
+    if (includePatch) extra.push('--patch');
+  } else {
+    extra.push('--patch', ...DIFF_OUTPUT_FLAGS);
+    if (command === 'diff-tree') extra.push('-r', '--no-commit-id');
+  }
+
+  kept.splice(insertAt, 0, ...extra);
+  return [command, ...kept];
+}
+
+// ----------------------------------------------------------------------------
+// Parsing
+// ----------------------------------------------------------------------------
+
+/**
+ * Decode a path as printed by git, which wraps paths containing special
+ * characters in double quotes with C-style and octal (UTF-8 byte) escapes.
+ */
+function unquotePath(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"') || value.length < 2) {
+    return value;
+  }
+  const bytes: number[] = [];
+  const body = value.slice(1, -1);
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, a: 7, b: 8, f: 12, v: 11, '"': 34, '\\': 92 };
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf8'));
+      continue;
+    }
+    const next = body[i + 1];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function stripPrefix(value: string, prefix: string): string {
+  return value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+// "a/x b/x" in a `diff --git` header. Only unambiguous when both sides are
+// unquoted and identical, which is the common case; other forms are resolved
+// from the ---/+++ or rename lines that follow.
+function parseDiffHeaderPaths(rest: string): { oldPath: string; newPath: string } | null {
+  if (rest.startsWith('"')) return null;
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === ' ') {
+    const oldPath = stripPrefix(rest.slice(0, half), 'a/');
+    const newPath = stripPrefix(rest.slice(half + 1), 'b/');
+    if (oldPath === newPath) return { oldPath, newPath };
+  }
+  return null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Parse unified `diff --git` output into files, hunks and numbered lines.
+ */
+function parseDiff(output: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const lines = output.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      const paths = parseDiffHeaderPaths(line.slice('diff --git '.length));
+      file = {
+        oldPath: paths?.oldPath ?? null,
+        newPath: paths?.newPath ?? null,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: []
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const inHunk = hunk !== null &&
+      (oldLine < hunk.oldStart + hunk.oldLines || newLine < hunk.newStart + hunk.newLines);
+    if (hunk && inHunk && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-') || line === '')) {
+      // Inside a hunk every line starts with a marker; an empty line is a
+      // context line whose trailing space was stripped.
+      const marker = line[0] ?? ' ';
+      const content = line.slice(1);
+      if (marker === '+') {
+        hunk.lines.push({ type: 'add', content, newLine: newLine++ });
+        file.additions++;
+      } else if (marker === '-') {
+        hunk.lines.push({ type: 'delete', content, oldLine: oldLine++ });
+        file.deletions++;
+      } else {
+        hunk.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+      }
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      const last = hunk?.lines[hunk.lines.length - 1];
+      if (last) last.noNewlineAtEnd = true;
+      continue;
+    }
+
+    const hunkMatch = HUNK_HEADER.exec(line);
+    if (hunkMatch) {
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[3], 10);
+      hunk = {
+        header: line,
+        oldStart: oldLine,
+        oldLines: hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10),
+        newStart: newLine,
+        newLines: hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10),
+        ...(hunkMatch[5] ? { section: hunkMatch[5] } : {}),
+        lines: []
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    // Extended header lines (between `diff --git` and the first hunk)
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquotePath(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.newPath = unquotePath(line.slice('rename to '.length));
+    } else if (line.startsWith('copy from ')) {
+      file.status = 'copied';
+      file.oldPath = unquotePath(line.slice('copy from '.length));
+    } else if (line.startsWith('copy to ')) {
+      file.newPath = unquotePath(line.slice('copy to '.length));
+    } else if (line.startsWith('--- ')) {
+      // git terminates paths containing spaces with a tab on these lines
+      const value = line.slice(4).replace(/\t$/, '');
+      if (value !== '/dev/null') file.oldPath = stripPrefix(unquotePath(value), 'a/');
+    } else if (line.startsWith('+++ ')) {
+      const value = line.slice(4).replace(/\t$/, '');
+      if (value !== '/dev/null') file.newPath = stripPrefix(unquotePath(value), 'b/');
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  for (const parsed of files) {
+    if (parsed.status === 'added') parsed.oldPath = null;
+    if (parsed.status === 'deleted') parsed.newPath = null;
+  }
+  return files;
+}
+
+/**
+ * The text of a patch from the first line matching `start` (a diff or hunk
+ * header) to its end, or '' when there is none. Only newlines are trimmed:
+ * a blank context line at the end of a hunk is a space.
+ */
+function patchText(output: string, start: RegExp): string {
+  const index = output.search(start);
+  return index === -1 ? '' : output.slice(index).replace(/\n+$/, '');
+}
+
+// Expand numstat rename notation: "src/{old => new}/a.ts" or "old.ts => new.ts"
+function parseNumstatPath(value: string): { path: string; oldPath?: string } {
+  const braced = /^(.*)\{(.*) => (.*)\}(.*)$/.exec(value);
+  if (braced) {
+    const [, prefix, from, to, suffix] = braced;
+    const join = (middle: string): string => `${prefix}${middle}${suffix}`.replace('//', '/');
+    return { path: join(to), oldPath: join(from) };
+  }
+  const arrow = value.indexOf(' => ');
+  if (arrow !== -1) {
+    return { path: value.slice(arrow + 4), oldPath: value.slice(0, arrow) };
+  }
+  return { path: unquotePath(value) };
+}
+
+const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.*)$/;
+
+/**
+ * Parse output produced by prepareJsonCommand for log/show.
+ */
+function parseCommits(output: string): Commit[] {
+  const records = output.split(RECORD_SEPARATOR).slice(1);
+
+  return records.map(record => {
+    const fields = record.split(FIELD_SEPARATOR);
+    const [sha, parents, authorName, authorEmail, authoredAt, committerName, committerEmail, committedAt, body] = fields;
+    const trailer = fields.slice(COMMIT_HEADER_FIELDS).join(FIELD_SEPARATOR);
+    const message = (body ?? '').replace(/\n+$/, '');
+
+    const files: FileStat[] = [];
+    const patchStart = trailer.search(/^diff --git /m);
+    const statSection = patchStart === -1 ? trailer : trailer.slice(0, patchStart);
+    for (const line of statSection.split('\n')) {
+      const match = NUMSTAT_LINE.exec(line);
+      if (!match) continue;
+      files.push({
+        ...parseNumstatPath(match[3]),
+        additions: match[1] === '-' ? null : parseInt(match[1], 10),
+        deletions: match[2] === '-' ? null : parseInt(match[2], 10)
+      });
+    }
+
+    const commit: Commit = {
+      sha,
+      parents: parents ? parents.split(' ') : [],
+      author: { name: authorName, email: authorEmail },
+      authoredAt,
+      committer: { name: committerName, email: committerEmail },
+      committedAt,
+      subject: message.split('\n')[0],
+      message,
+      files
+    };
+    if (patchStart !== -1) {
+      commit.diff = parseDiff(trailer.slice(patchStart));
+    }
+    return commit;
+  });
+}
+
+/**
+ * Parse the output of a command prepared by prepareJsonCommand.
+ */
+function parseJsonOutput(command: string, output: string): StructuredGitOutput {
+  switch (command) {
+    case 'log':
+    case 'show': {
+      const commits = parseCommits(output);
+      if (commits.length === 0 && output.trim() !== '' && command === 'show') {
+        throw new JsonFormatError('format "json" for show supports commits only. Use the text format for blobs, trees and tags.');
+      }
+      return { command, commits };
+    }
+    case 'diff':
+    case 'diff-tree':
+      return { command, files: parseDiff(output) };
+    default:
+      throw new JsonFormatError(`format "json" is not supported for '${command}'.`);
+  }
+}
+
+export {
+  Commit,
+  DIFF_OUTPUT_FLAGS,
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  FileStat,
+  JsonFormatError,
+  StructuredGitOutput,
+  parseCommits,
+  parseDiff,
+  parseJsonOutput,
+  parseNumstatPath,
+  patchText,
+  prepareJsonCommand,
+  unquotePath
+};
@@ -0,0 +1,542 @@
+// ============================================================================
+// Git Argument Policy
+// ============================================================================
+//
+// Every subcommand the server allows has an explicit policy listing the flags
+// it may be given. Validation runs on the tokenized argv (see git-command.ts),
+// so a flag is only accepted when it is an exact, allowlisted option name - no
+// substring matching and no reliance on git's option abbreviation.
+
+interface CommandPolicy {
+  // Flags that take no value, or only an optional value attached with '='
+  // (--stat=80) or directly to a short flag (-M90%).
+  flags: readonly string[];
+  // Flags that require a value, given as --flag=value, --flag value, -Xvalue
+  // or -X value.
+  valueFlags?: readonly string[];
+  // Accept numeric limits such as -5.
+  numericLimit?: boolean;
+  // Which non-flag arguments (revisions, paths, patterns) are accepted:
+  // 'any', 'none', or 'list-mode' (only together with -l/--list).
+  positionals: 'any' | 'none' | 'list-mode';
+  // First positional arguments that select a writing sub-action.
+  deniedActions?: readonly string[];
+  // Reject positionals that point outside the work tree. Given such a
+  // path, diff compares plain files as if --no-index had been passed.
+  insideWorkTree?: boolean;
+}
+
+// A validated command split into its options and non-flag arguments
+interface ParsedArguments {
+  options: Array<{ name: string; value?: string }>;
+  positionals: Array<{ value: string; index: number }>;  // index in argv
+  separator: number;  // argv index of '--', or -1
+}
+
+interface DeniedFlagRule {
+  rule: string;
+  reason: string;
+  flags: readonly string[];
+}
+
+class PolicyViolationError extends Error {
+  constructor(message: string, public readonly rule: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+// Flags that are never allowed, whatever the subcommand. These are reported
+// with a dedicated rule name even though the per-command allowlists below
+// would reject them too.
+const DENIED_FLAG_RULES: readonly DeniedFlagRule[] = [
+  {
+    rule: 'no-file-output',
+    reason: 'writes output to a file',
+    flags: ['--output']
+  },
+  {
+    rule: 'no-external-programs',
+    reason: 'runs an external program',
+    flags: ['--ext-diff', '--textconv', '--filters', '--exec', '--upload-pack', '--receive-pack', '--open-files-in-pager']
+  },
+  {
+    rule: 'no-repository-override',
+    reason: 'changes which repository or configuration git uses',
+    flags: ['--git-dir', '--work-tree', '--config', '--namespace', '--exec-path', '--super-prefix']
+  },
+  {
+    rule: 'no-outside-files',
+    reason: 'reads files outside the repository',
+    flags: ['--no-index', '--contents', '--exclude-from', '--ignore-revs-file', '--orderfile']
+  }
+];
+
+// ----------------------------------------------------------------------------
+// Shared flag groups
+// ----------------------------------------------------------------------------
+
+const DIFF_FLAGS = [
+  '-p', '-u', '--patch', '-s', '--no-patch', '--raw', '--patch-with-raw', '--patch-with-stat',
+  '-t', '--indent-heuristic', '--no-indent-heuristic', '--minimal', '--patience', '--histogram',
+  '--stat', '--compact-summary', '--numstat', '--shortstat', '--dirstat', '--cumulative',
+  '--dirstat-by-file', '--summary', '-z', '--name-only', '--name-status', '--submodule',
+  '--color', '--no-color', '--color-moved', '--no-color-moved', '--color-moved-ws',
+  '--no-color-moved-ws', '--word-diff', '--color-words', '--no-renames', '--rename-empty',
+  '--no-rename-empty', '--check', '--ws-error-highlight', '--full-index', '--binary', '--abbrev',
+  '--no-abbrev', '-B', '--break-rewrites', '-M', '--find-renames', '-C', '--find-copies',
+  '--find-copies-harder', '-D', '--irreversible-delete', '--pickaxe-all', '--pickaxe-regex',
+  '-R', '--relative', '--no-relative', '-a', '--text', '--ignore-cr-at-eol',
+  '--ignore-space-at-eol', '-b', '--ignore-space-change', '-w', '--ignore-all-space',
+  '--ignore-blank-lines', '-W', '--function-context', '--exit-code', '--quiet', '--no-ext-diff',
+  '--no-textconv', '--ignore-submodules', '--no-prefix', '--default-prefix',
+  '--ita-invisible-in-index', '--ita-visible-in-index'
+];
+
+const DIFF_VALUE_FLAGS = [
+  '-U', '--unified', '--output-indicator-new', '--output-indicator-old',
+  '--output-indicator-context', '--anchored', '--diff-algorithm', '--word-diff-regex',
+  '-l', '--diff-filter', '-S', '-G', '--find-object', '--skip-to', '--rotate-to',
+  '-I', '--ignore-matching-lines', '--inter-hunk-context', '--src-prefix', '--dst-prefix',
+  '--line-prefix', '--stat-width', '--stat-name-width', '--stat-graph-width', '--stat-count'
+];
+
+const REVISION_FLAGS = [
+  '--all-match', '--invert-grep', '-i', '--regexp-ignore-case', '--basic-regexp', '-E',
+  '--extended-regexp', '-F', '--fixed-strings', '-P', '--perl-regexp', '--remove-empty',
+  '--merges', '--no-merges', '--no-min-parents', '--no-max-parents', '--first-parent',
+  '--exclude-first-parent-only', '--not', '--all', '--branches', '--tags', '--remotes', '--reflog',
+  '--alternate-refs', '--single-worktree', '--ignore-missing', '--cherry-mark', '--cherry-pick',
+  '--left-only', '--right-only', '--cherry', '-g', '--walk-reflogs', '--merge', '--boundary',
+  '--simplify-by-decoration', '--show-pulls', '--full-history', '--dense', '--sparse',
+  '--simplify-merges', '--ancestry-path', '--date-order', '--author-date-order', '--topo-order',
+  '--reverse', '--no-walk', '--do-walk', '--pretty', '--abbrev-commit', '--no-abbrev-commit',
+  '--oneline', '--expand-tabs', '--no-expand-tabs', '--notes', '--no-notes', '--relative-date',
+  '--parents', '--children', '--left-right', '--graph', '--show-linear-break', '--decorate',
+  '--no-decorate', '--source', '--use-mailmap', '--mailmap', '--no-mailmap', '--full-diff',
+  '--log-size', '--follow', '--no-diff-merges', '--cc', '--dd', '-m', '--combined-all-paths',
+  '--count', '--objects', '--objects-edge', '--timestamp', '--in-commit-order',
+  '--no-object-names', '--header'
+];
+
+const REVISION_VALUE_FLAGS = [
+  '-n', '--max-count', '--skip', '--since', '--after', '--until', '--before', '--since-as-filter',
+  '--author', '--committer', '--grep', '--grep-reflog', '--min-parents', '--max-parents',
+  '--glob', '--exclude', '--format', '--encoding', '--date', '--decorate-refs',
+  '--decorate-refs-exclude', '-L', '--diff-merges', '--max-age', '--min-age'
+];
+
+const LOG_POLICY: CommandPolicy = {
+  flags: [...REVISION_FLAGS, ...DIFF_FLAGS],
+  valueFlags: [...REVISION_VALUE_FLAGS, ...DIFF_VALUE_FLAGS],
+  numericLimit: true,
+  positionals: 'any'
+};
+
+const REF_FILTER_FLAGS = ['--column', '--no-column', '--color', '--no-color', '-i', '--ignore-case', '--omit-empty'];
+
+const REF_FILTER_VALUE_FLAGS = ['--sort', '--format', '--contains', '--no-contains', '--merged', '--no-merged', '--points-at'];
+
+// ----------------------------------------------------------------------------
+// Per-command policies
+// ----------------------------------------------------------------------------
+
+const COMMAND_POLICIES: Record<string, CommandPolicy> = {
+  'log': LOG_POLICY,
+  'show': LOG_POLICY,
+  'diff': {
+    flags: [...DIFF_FLAGS, '--cached', '--staged', '--merge-base', '-1', '-2', '-3', '--base', '--ours', '--theirs'],
+    valueFlags: DIFF_VALUE_FLAGS,
+    positionals: 'any',
+    insideWorkTree: true
+  },
+  'diff-tree': {
+    flags: [
+      ...DIFF_FLAGS, '-r', '--root', '-m', '--cc', '--combined-all-paths', '--no-commit-id', '-v',
+      '--pretty', '--always', '--merge-base'
+    ],
+    valueFlags: [...DIFF_VALUE_FLAGS, '--format', '--encoding'],
+    positionals: 'any'
+  },
+  'blame': {
+    flags: [
+      '-b', '--root', '--show-stats', '-l', '-t', '--reverse', '--first-parent', '-p', '--porcelain',
+      '--line-porcelain', '--incremental', '--progress', '--no-progress', '-M', '-C', '--color-lines',
+      '--color-by-age', '--minimal', '-s', '-e', '--show-email', '-w', '--abbrev', '-c', '-f',
+      '--show-name', '-n', '--show-number'
+    ],
+    valueFlags: ['-L', '--encoding', '--date', '--ignore-rev'],
+    positionals: 'any'
+  },
+  'grep': {
+    flags: [
+      '--cached', '--untracked', '--no-exclude-standard', '--exclude-standard', '--recurse-submodules',
+      '-a', '--text', '--no-textconv', '-i', '--ignore-case', '-I', '-r', '--recursive',
+      '--no-recursive', '-w', '--word-regexp', '-v', '--invert-match', '-h', '-H', '--full-name',
+      '-E', '--extended-regexp', '-G', '--basic-regexp', '-P', '--perl-regexp', '-F',
+      '--fixed-strings', '-n', '--line-number', '--column', '-l', '--files-with-matches',
+      '--name-only', '-L', '--files-without-match', '-z', '--null', '-o', '--only-matching', '-c',
+      '--count', '--color', '--no-color', '--break', '--heading', '-p', '--show-function', '-W',
+      '--function-context', '--and', '--or', '--not', '--all-match', '-q', '--quiet'
+    ],
+    valueFlags: [
+      '--max-depth', '-C', '-A', '-B', '--context', '--after-context', '--before-context', '-m',
+      '--max-count', '--threads', '-e'
+    ],
+    numericLimit: true,
+    positionals: 'any'
+  },
+  'status': {
+    flags: [
+      '-s', '--short', '-b', '--branch', '--show-stash', '--porcelain', '--long', '-v', '--verbose',
+      '--untracked-files', '--ignore-submodules', '--ignored', '-z', '--column', '--no-column',
+      '--ahead-behind', '--no-ahead-behind', '--renames', '--no-renames', '--find-renames'
+    ],
+    valueFlags: ['-u'],
+    positionals: 'any'
+  },
+  'rev-parse': {
+    flags: [
+      '--abbrev-ref', '--symbolic', '--symbolic-full-name', '--short', '--verify', '-q', '--quiet',
+      '--sq', '--not', '--all', '--branches', '--tags', '--remotes', '--show-toplevel',
+      '--show-prefix', '--show-cdup', '--is-inside-work-tree', '--is-inside-git-dir',
+      '--is-bare-repository', '--is-shallow-repository', '--show-object-format', '--revs-only',
+      '--no-revs', '--flags', '--no-flags', '--absolute-git-dir', '--git-common-dir'
+    ],
+    valueFlags: ['--glob', '--exclude', '--default', '--since', '--after', '--until', '--before', '--disambiguate'],
+    positionals: 'any'
+  },
+  'rev-list': LOG_POLICY,
+  'ls-files': {
+    flags: [
+      '-c', '--cached', '-d', '--deleted', '-m', '--modified', '-o', '--others', '-i', '--ignored',
+      '-s', '--stage', '--directory', '--no-empty-directory', '-u', '--unmerged', '-k', '--killed',
+      '-z', '--exclude-standard', '--error-unmatch', '-t', '-v', '-f', '--full-name',
+      '--recurse-submodules', '--abbrev', '--eol', '--deduplicate', '--sparse'
+    ],
+    valueFlags: ['-x', '--exclude', '--exclude-per-directory', '--with-tree', '--format'],
+    positionals: 'any'
+  },
+  'cat-file': {
+    flags: [
+      '-t', '-s', '-e', '-p', '--batch', '--batch-check', '--batch-all-objects', '--buffer',
+      '--follow-symlinks', '--unordered', '--allow-unknown-type', '-Z', '--use-mailmap', '--mailmap'
+    ],
+    positionals: 'any'
+  },
+  'shortlog': {
+    flags: [...REVISION_FLAGS, '--numbered', '-s', '--summary', '-e', '--email', '-w', '--committer'],
+    valueFlags: [...REVISION_VALUE_FLAGS, '--group'],
+    numericLimit: true,
+    positionals: 'any'
+  },
+  'reflog': {
+    ...LOG_POLICY,
+    deniedActions: ['expire', 'delete', 'drop']
+  },
+  'describe': {
+    flags: ['--tags', '--all', '--always', '--long', '--abbrev', '--contains', '--exact-match', '--first-parent'],
+    valueFlags: ['--match', '--exclude', '--candidates'],
+    positionals: 'any'
+  },
+  'branch': {
+    flags: [
+      ...REF_FILTER_FLAGS, '-l', '--list', '-a', '--all', '-r', '--remotes', '-v', '--verbose',
+      '--abbrev', '--no-abbrev', '--show-current'
+    ],
+    valueFlags: REF_FILTER_VALUE_FLAGS,
+    positionals: 'list-mode'
+  },
+  'tag': {
+    flags: [...REF_FILTER_FLAGS, '-l', '--list', '-n'],
+    valueFlags: REF_FILTER_VALUE_FLAGS,
+    positionals: 'list-mode'
+  },
+  'for-each-ref': {
+    flags: [
+      '--color', '--shell', '--perl', '--python', '--tcl', '--ignore-case', '--omit-empty',
+      '--include-root-refs'
+    ],
+    valueFlags: ['--count', '--sort', '--format', '--points-at', '--merged', '--no-merged', '--contains', '--no-contains', '--exclude'],
+    positionals: 'any'
+  },
+  'ls-tree': {
+    flags: [
+      '-d', '-r', '-t', '-l', '--long', '-z', '--name-only', '--name-status', '--object-only',
+      '--full-name', '--full-tree', '--abbrev'
+    ],
+    valueFlags: ['--format'],
+    positionals: 'any'
+  },
+  'merge-base': {
+    flags: ['-a', '--all', '--octopus', '--independent', '--is-ancestor', '--fork-point'],
+    positionals: 'any'
+  },
+  'cherry': {
+    flags: ['-v', '--abbrev'],
+    positionals: 'any'
+  },
+  'count-objects': {
+    flags: ['-v', '--verbose', '-H', '--human-readable'],
+    positionals: 'none'
+  }
+};
+
+const LIST_MODE_FLAGS = new Set(['-l', '--list']);
+
+// Remainder of a short-flag bundle that is an attached optional value rather
+// than further flags (-M90%, -B50%/70%, -w76,4,8, -n3).
+const ATTACHED_SHORT_VALUE = /^[\d%,./]+$/;
+
+// True for absolute paths and relative ones that climb above the directory
+// git runs in (the work tree root)
+function leavesWorkTree(value: string): boolean {
+  if (/^([\\/]|[A-Za-z]:[\\/])/.test(value)) return true;
+  let depth = 0;
+  for (const segment of value.split(/[\\/]/)) {
+    if (segment === '..') depth--;
+    else if (segment !== '' && segment !== '.') depth++;
+    if (depth < 0) return true;
+  }
+  return false;
+}
+
+function findDeniedFlagRule(flag: string): DeniedFlagRule | undefined {
+  return DENIED_FLAG_RULES.find(rule => rule.flags.includes(flag));
+}
+
+function rejectFlag(command: string, flag: string): never {
+  const denied = findDeniedFlagRule(flag);
+  if (denied) {
+    throw new PolicyViolationError(
+      `Argument '${flag}' is not allowed because it ${denied.reason}.`,
+      denied.rule
+    );
+  }
+  throw new PolicyViolationError(
+    `Argument '${flag}' is not allowed for '${command}'.`,
+    `${command}.allowed-flags`
+  );
+}
+
+/**
+ * Validate a tokenized git command (argv[0] is the subcommand) against the
+ * policy table. Throws a PolicyViolationError naming the rule that rejected
+ * the command.
+ */
+function validateGitArguments(argv: readonly string[]): void {
+  const [command, ...args] = argv;
+  const policy = COMMAND_POLICIES[command];
+  if (!policy) {
+    throw new PolicyViolationError(
+      `Command '${command}' is not allowed. Only read-only commands are permitted.`,
+      'safe-commands'
+    );
+  }
+
+  const flags = new Set(policy.flags);
+  const valueFlags = new Set(policy.valueFlags ?? []);
+  const positionals: string[] = [];
+  let listMode = false;
+  let endOfOptions = false;
+
+  // A separately given value is only consumed when it does not itself look
+  // like an option, so every option-like token is always validated.
+  const consumesNext = (index: number): boolean =>
+    index + 1 < args.length && !args[index + 1].startsWith('-');
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (endOfOptions || !arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    if (arg === '--' || arg === '--end-of-options') {
+      endOfOptions = true;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const equalsIndex = arg.indexOf('=');
+      const name = equalsIndex === -1 ? arg : arg.slice(0, equalsIndex);
+      if (valueFlags.has(name)) {
+        if (equalsIndex === -1 && consumesNext(i)) i++;
+      } else if (!flags.has(name) || findDeniedFlagRule(name)) {
+        rejectFlag(command, name);
+      }
+      if (LIST_MODE_FLAGS.has(name)) listMode = true;
+      continue;
+    }
+
+    if (/^-\d+$/.test(arg)) {
+      if (!policy.numericLimit && !flags.has(arg)) {
+        rejectFlag(command, arg);
+      }
+      continue;
+    }
+
+    // Short flag, possibly bundled (-sn) or with an attached value (-n5)
+    for (let j = 1; j < arg.length; j++) {
+      const name = `-${arg[j]}`;
+      const rest = arg.slice(j + 1);
+      if (valueFlags.has(name)) {
+        if (rest === '' && consumesNext(i)) i++;
+        break;
+      }
+      if (!flags.has(name)) {
+        rejectFlag(command, name);
+      }
+      if (LIST_MODE_FLAGS.has(name)) listMode = true;
+      if (ATTACHED_SHORT_VALUE.test(rest)) break;
+    }
+  }
+
+  if (positionals.length > 0) {
+    if (policy.positionals === 'none') {
+      throw new PolicyViolationError(
+        `'${command}' does not accept arguments (got '${positionals[0]}').`,
+        `${command}.no-arguments`
+      );
+    }
+    if (policy.positionals === 'list-mode' && !listMode) {
+      throw new PolicyViolationError(
+        `'${command} ${positionals[0]}' would create or modify a ref. Use '${command} --list <pattern>' to filter.`,
+        `${command}.list-only`
+      );
+    }
+    if (policy.deniedActions?.includes(positionals[0])) {
+      throw new PolicyViolationError(
+        `'${command} ${positionals[0]}' modifies the repository.`,
+        `${command}.read-only-actions`
+      );
+    }
+    const outside = policy.insideWorkTree ? positionals.find(leavesWorkTree) : undefined;
+    if (outside !== undefined) {
+      throw new PolicyViolationError(
+        `'${outside}' is outside the repository; '${command}' only compares files inside it.`,
+        'no-outside-files'
+      );
+    }
+  }
+}
+
+/**
+ * Check a git command built by the server itself (for a tool, resource or
+ * prompt) against the flags denied to every command, and keep diff inside
+ * the work tree. Such commands use options the git tool does not offer, so
+ * the per-command allowlists do not apply; values of the command's value
+ * flags are skipped whatever they look like, as git reads them.
+ */
+function checkDeniedFlags(argv: readonly string[]): void {
+  const [command, ...args] = argv;
+  const policy = COMMAND_POLICIES[command];
+  const valueFlags = new Set(policy?.valueFlags ?? []);
+  const positionals: string[] = [];
+  let endOfOptions = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (endOfOptions || !arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    if (arg === '--' || arg === '--end-of-options') {
+      endOfOptions = true;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const name = arg.split('=', 1)[0];
+      if (findDeniedFlagRule(name)) rejectFlag(command, name);
+      if (valueFlags.has(name) && !arg.includes('=')) i++;
+      continue;
+    }
+
+    // Short flags are never denied; only find where a separate value is
+    for (let j = 1; j < arg.length; j++) {
+      if (valueFlags.has(`-${arg[j]}`)) {
+        if (j === arg.length - 1) i++;
+        break;
+      }
+      if (ATTACHED_SHORT_VALUE.test(arg.slice(j + 1))) break;
+    }
+  }
+
+  const outside = policy?.insideWorkTree ? positionals.find(leavesWorkTree) : undefined;
+  if (outside !== undefined) {
+    throw new PolicyViolationError(
+      `'${outside}' is outside the repository; '${command}' only compares files inside it.`,
+      'no-outside-files'
+    );
+  }
+}
+
+/**
+ * Split a command that passed validateGitArguments into options (with their
+ * values) and positional arguments, using the same value rules.
+ */
+function splitArguments(argv: readonly string[]): ParsedArguments {
+  const policy = COMMAND_POLICIES[argv[0]];
+  const valueFlags = new Set(policy?.valueFlags ?? []);
+  const parsed: ParsedArguments = { options: [], positionals: [], separator: -1 };
+  const separateValue = (index: number): string | undefined =>
+    index + 1 < argv.length && !argv[index + 1].startsWith('-') ? argv[index + 1] : undefined;
+
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (parsed.separator !== -1 || !arg.startsWith('-') || arg === '-') {
+      parsed.positionals.push({ value: arg, index: i });
+      continue;
+    }
+
+    if (arg === '--' || arg === '--end-of-options') {
+      parsed.separator = i;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const equalsIndex = arg.indexOf('=');
+      const name = equalsIndex === -1 ? arg : arg.slice(0, equalsIndex);
+      let value = equalsIndex === -1 ? undefined : arg.slice(equalsIndex + 1);
+      if (value === undefined && valueFlags.has(name)) {
+        value = separateValue(i);
+        if (value !== undefined) i++;
+      }
+      parsed.options.push({ name, value });
+      continue;
+    }
+
+    if (/^-\d+$/.test(arg)) {
+      parsed.options.push({ name: arg });
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const name = `-${arg[j]}`;
+      const rest = arg.slice(j + 1);
+      if (valueFlags.has(name)) {
+        let value: string | undefined = rest;
+        if (rest === '') {
+          value = separateValue(i);
+          if (value !== undefined) i++;
+        }
+        parsed.options.push({ name, value });
+        break;
+      }
+      if (ATTACHED_SHORT_VALUE.test(rest)) {
+        parsed.options.push({ name, value: rest });
+        break;
+      }
+      parsed.options.push({ name });
+    }
+  }
+
+  return parsed;
+}
+
+export { COMMAND_POLICIES, ParsedArguments, PolicyViolationError, checkDeniedFlags, splitArguments, validateGitArguments };
@@ -0,0 +1,227 @@
+// ============================================================================
+// Git Process Runner
+// ============================================================================
+//
+// Runs git as an asynchronous child process so a slow query never blocks the
+// event loop (and with it the stdio transport and every other request). A
+// fixed number of processes run at once; the rest wait in a FIFO queue. Each
+// run can be cancelled through an AbortSignal, which removes it from the queue
+// or kills the running process. Output can also be read a window at a time, so
+// arbitrarily large output is paged instead of hitting the buffer limit; a
+// window is only returned once git has exited successfully.
+
+import { spawn } from 'child_process';
+
+type GitFailureReason = 'spawn' | 'timeout' | 'max-buffer' | 'cancelled' | 'exit';
+
+class GitExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: GitFailureReason,
+    public readonly details: {
+      code?: string;       // errno code when the process could not be spawned
+      exitCode?: number;   // exit status when git ran and failed
+      stderr?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'GitExecutionError';
+  }
+}
+
+interface GitRunnerOptions {
+  maxConcurrent: number;
+  timeoutMs: number;
+  maxBufferSize: number;
+}
+
+interface GitRunOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  signal?: AbortSignal;
+  // Per-run limits, e.g. for one repository; default to the runner's
+  timeoutMs?: number;
+  maxBufferSize?: number;
+}
+
+// A byte range of stdout: `limit` bytes starting at `skip`
+interface OutputWindow {
+  skip: number;
+  limit: number;
+}
+
+interface WindowedOutput {
+  output: Buffer;
+  // False when git produced more output after the window
+  complete: boolean;
+}
+
+class GitRunner {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(private readonly options: GitRunnerOptions) {}
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run `git <argv>` and resolve with its stdout. Rejects with a
+   * GitExecutionError describing why the command did not complete.
+   */
+  async run(argv: readonly string[], runOptions: GitRunOptions): Promise<string> {
+    await this.acquire(runOptions.signal);
+    try {
+      return (await this.spawnGit(argv, runOptions)).output.toString('utf8');
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Run `git <argv>` and keep only one window of its stdout. Bytes outside
+   * the window are discarded as they stream in, so the buffer limit does not
+   * apply. git still runs to the end: output of a command that later fails
+   * is never returned.
+   */
+  async runWindow(argv: readonly string[], runOptions: GitRunOptions, window: OutputWindow): Promise<WindowedOutput> {
+    await this.acquire(runOptions.signal);
+    try {
+      return await this.spawnGit(argv, runOptions, window);
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new GitExecutionError('Command cancelled before it started', 'cancelled'));
+    }
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = (): void => {
+        const index = this.queue.indexOf(start);
+        if (index !== -1) this.queue.splice(index, 1);
+        reject(new GitExecutionError('Command cancelled while queued', 'cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.queue.shift();
+    if (next) next();
+  }
+
+  private spawnGit(
+    argv: readonly string[],
+    { cwd, env, signal, ...limits }: GitRunOptions,
+    window?: OutputWindow
+  ): Promise<WindowedOutput> {
+    const timeoutMs = limits.timeoutMs ?? this.options.timeoutMs;
+    const maxBufferSize = limits.maxBufferSize ?? this.options.maxBufferSize;
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', argv, {
+        cwd,
+        env,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        windowsHide: true
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let stdoutSize = 0;
+      let failure: GitExecutionError | null = null;
+      let settled = false;
+      let pastWindow = false;
+
+      const fail = (error: GitExecutionError): void => {
+        if (failure) return;
+        failure = error;
+        child.kill('SIGTERM');
+      };
+
+      const timer = setTimeout(() => {
+        fail(new GitExecutionError(`Command timed out after ${timeoutMs}ms`, 'timeout'));
+      }, timeoutMs);
+
+      const onAbort = (): void => {
+        fail(new GitExecutionError('Command cancelled', 'cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const finish = (action: () => void): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        action();
+      };
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        const chunkStart = stdoutSize;
+        stdoutSize += chunk.length;
+        if (window) {
+          if (pastWindow) return;
+          const end = window.skip + window.limit;
+          const from = Math.max(window.skip - chunkStart, 0);
+          const to = Math.min(end - chunkStart, chunk.length);
+          if (to > from) stdout.push(chunk.subarray(from, to));
+          // The rest is drained without being kept, until the exit status
+          // tells whether the window can be used
+          if (stdoutSize > end) pastWindow = true;
+          return;
+        }
+        if (stdoutSize > maxBufferSize) {
+          fail(new GitExecutionError(`Output exceeded ${maxBufferSize} bytes`, 'max-buffer'));
+          return;
+        }
+        stdout.push(chunk);
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr.push(chunk);
+      });
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        finish(() => reject(new GitExecutionError(error.message, 'spawn', { code: error.code })));
+      });
+
+      child.on('close', (exitCode) => {
+        finish(() => {
+          if (failure) {
+            reject(failure);
+            return;
+          }
+          const stderrText = Buffer.concat(stderr).toString('utf8');
+          if (exitCode !== 0) {
+            reject(new GitExecutionError(
+              `Command failed with exit code ${exitCode}${stderrText ? `: ${stderrText.trim()}` : ''}`,
+              'exit',
+              { exitCode: exitCode ?? undefined, stderr: stderrText }
+            ));
+            return;
+          }
+          resolve({ output: Buffer.concat(stdout), complete: !pastWindow });
+        });
+      });
+    });
+  }
+}
+
+export { GitExecutionError, GitRunOptions, GitRunner, GitRunnerOptions, OutputWindow, WindowedOutput };
@@ -0,0 +1,30 @@
+// ============================================================================
+// Logging
+// ============================================================================
+//
+// All logs go to stderr; stdout is reserved for the MCP stdio transport.
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+// Until the configuration is loaded (see config.ts), LOG_LEVEL applies
+let currentLogLevel = LOG_LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LOG_LEVELS.info;
+
+const setLogLevel = (level: LogLevel): void => {
+  currentLogLevel = LOG_LEVELS[level];
+};
+
+const log = (level: LogLevel, message: string): void => {
+  if (LOG_LEVELS[level] >= currentLogLevel) {
+    const timestamp = new Date().toISOString();
+    process.stderr.write(`[${timestamp}] [shadowgit-mcp] [${level.toUpperCase()}] ${message}\n`);
+  }
+};
+
+export { LogLevel, log, setLogLevel };
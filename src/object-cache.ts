@@ -0,0 +1,205 @@
+// ============================================================================
+// Object Cache
+// ============================================================================
+//
+// While debugging, an AI asks for the same `show <sha>`, `ls-tree <sha>` and
+// `diff <sha1> <sha2>` again and again. Commands that only read commits,
+// trees and blobs print the same output every time for the same objects, so
+// their results are kept in an in-memory LRU cache bounded in bytes.
+//
+// A command is cached only in its resolved form: every revision it names
+// (`HEAD`, `main~2`, `abc123..HEAD`) is first resolved to a full object name
+// and the command is rewritten to use those. When a new snapshot moves HEAD,
+// `show HEAD` resolves to a different commit and misses the cache. Commands
+// that read refs, the index, the working tree or the clock (`--decorate`,
+// `--all`, `--cached`, `--since`, relative dates, a diff against the working
+// tree, ...) are never cached. Settings outside the object store (git
+// configuration, .gitattributes, .mailmap) are assumed not to change while
+// the server runs.
+
+import { splitArguments } from './git-policy';
+import { log } from './logger';
+
+// An argument split around the revisions it names: literal text at even
+// indexes, revisions at odd ones (`HEAD~1..HEAD` is ['', 'HEAD~1', '..', 'HEAD', ''])
+type ArgumentTemplate = string[];
+
+interface ObjectQuery {
+  revisions: string[];  // distinct revisions to resolve to object names
+  templates: ArgumentTemplate[];
+}
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+}
+
+// Commands whose output depends only on the objects they name
+const OBJECT_COMMANDS = new Set(['show', 'diff', 'diff-tree', 'ls-tree', 'cat-file']);
+
+// Options that bring in refs, reflogs, notes, the index or the current time
+const MUTABLE_OPTIONS = new Set([
+  '--all', '--branches', '--tags', '--remotes', '--reflog', '--alternate-refs', '--glob', '--exclude',
+  '-g', '--walk-reflogs', '--merge', '--decorate', '--source', '--simplify-by-decoration', '--notes',
+  '--relative-date', '--since', '--after', '--until', '--before', '--since-as-filter', '--max-age',
+  '--min-age', '--cached', '--staged', '--base', '--ours', '--theirs', '-1', '-2', '-3',
+  '--ita-invisible-in-index', '--ita-visible-in-index', '--batch', '--batch-check', '--batch-all-objects'
+]);
+
+// --date styles relative to the current time
+const RELATIVE_DATE = /^(relative|human|auto)/;
+
+// Format placeholders for relative dates, ref names, reflogs, notes and describe
+const MUTABLE_PLACEHOLDER = /%(?:[ac][rh]|[dDSN]|g|\(describe)/;
+
+const OBJECT_NAME = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+const OBJECT_TYPES = new Set(['blob', 'tree', 'commit', 'tag']);
+
+// Revisions that expand to several commits, which a single object name
+// cannot stand in for
+const MULTI_REVISION = /\^[@!]$|\^-\d*$/;
+
+function isMutableOption(name: string, value: string | undefined): boolean {
+  if (MUTABLE_OPTIONS.has(name)) return true;
+  if (name === '--date') return value === undefined || RELATIVE_DATE.test(value);
+  if (name === '--format' || name === '--pretty') return value !== undefined && MUTABLE_PLACEHOLDER.test(value);
+  return false;
+}
+
+// The template for one revision argument, or null when it cannot be pinned
+// to fixed objects (the index `:path`, `A^@`, ...)
+function revisionTemplate(value: string): ArgumentTemplate | null {
+  if (value.startsWith(':') || MULTI_REVISION.test(value)) return null;
+
+  const range = /^(.*?)(\.\.\.?)(.*)$/.exec(value);
+  if (range && !range[1].includes(':')) {
+    const [, from, dots, to] = range;
+    if (to.includes(':')) return null;
+    return ['', from || 'HEAD', dots, to || 'HEAD', ''];
+  }
+  if (value.startsWith('^')) return ['^', value.slice(1), ''];
+
+  const colon = value.indexOf(':');
+  return colon === -1 ? ['', value, ''] : ['', value.slice(0, colon), value.slice(colon)];
+}
+
+/**
+ * The revisions a command reads, when its output depends only on the
+ * objects they resolve to; null when the command must not be cached.
+ */
+function objectQuery(argv: readonly string[]): ObjectQuery | null {
+  const [command] = argv;
+  if (!OBJECT_COMMANDS.has(command)) return null;
+
+  const { options, positionals, separator } = splitArguments(argv);
+  if (options.some(({ name, value }) => isMutableOption(name, value))) return null;
+
+  // Everything before '--' names a revision, except the paths of ls-tree
+  // and cat-file's object type
+  let revisionArgs = positionals.filter(({ index }) => separator === -1 || index < separator);
+  if (command === 'ls-tree') revisionArgs = revisionArgs.slice(0, 1);
+  if (command === 'cat-file' && OBJECT_TYPES.has(revisionArgs[0]?.value)) revisionArgs = revisionArgs.slice(1);
+
+  const templates: ArgumentTemplate[] = argv.map(arg => [arg]);
+  for (const { value, index } of revisionArgs) {
+    const template = revisionTemplate(value);
+    if (!template) return null;
+    templates[index] = template;
+  }
+
+  const revisions = templates.flatMap(template => template.filter((_, i) => i % 2 === 1));
+  const endpoints = revisionArgs.reduce((count, { value }) => count + (/\.\./.test(value) ? 2 : 1), 0);
+  if (command === 'show' && revisionArgs.length === 0) {
+    // `show` alone shows HEAD
+    templates.splice(separator === -1 ? argv.length : separator, 0, ['', 'HEAD', '']);
+    revisions.push('HEAD');
+  } else if (command === 'diff' ? endpoints < 2 : revisionArgs.length === 0) {
+    // diff compares the working tree or index unless given two revisions
+    return null;
+  }
+  return { revisions: Array.from(new Set(revisions)), templates };
+}
+
+/**
+ * The command with each revision replaced by the object name it resolved to.
+ */
+function resolveQuery(query: ObjectQuery, objects: ReadonlyMap<string, string>): string[] {
+  return query.templates.map(template =>
+    template.map((part, i) => (i % 2 === 1 ? objects.get(part) ?? part : part)).join('')
+  );
+}
+
+/**
+ * Whether a revision is already a full object name and needs no lookup.
+ */
+function isObjectName(revision: string): boolean {
+  return OBJECT_NAME.test(revision);
+}
+
+// ----------------------------------------------------------------------------
+// Cache
+// ----------------------------------------------------------------------------
+
+class ObjectCache<T> {
+  private readonly entries = new Map<string, { value: T; bytes: number }>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly maxBytes: number, private readonly sizeOf: (value: T) => number) {}
+
+  get enabled(): boolean {
+    return this.maxBytes > 0;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      log('debug', `Object cache miss (${this.describe()})`);
+      return undefined;
+    }
+    // Re-insert to mark it most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    log('debug', `Object cache hit (${this.describe()})`);
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries to stay within
+   * the byte limit. Values larger than a quarter of the limit are not kept.
+   */
+  set(key: string, value: T): void {
+    const bytes = this.sizeOf(value) + key.length;
+    if (!this.enabled || bytes > this.maxBytes / 4) return;
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.entries.delete(key);
+      this.bytes -= existing.bytes;
+    }
+    this.entries.set(key, { value, bytes });
+    this.bytes += bytes;
+
+    for (const [oldest, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size, bytes: this.bytes };
+  }
+
+  private describe(): string {
+    return `${this.hits} hits, ${this.misses} misses, ${this.entries.size} entries, ${this.bytes} bytes`;
+  }
+}
+
+export { CacheStats, ObjectCache, ObjectQuery, isObjectName, objectQuery, resolveQuery };
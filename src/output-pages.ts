@@ -0,0 +1,237 @@
+// ============================================================================
+// Output Pagination
+// ============================================================================
+//
+// Long-running ShadowGit repositories make `log -p` produce megabytes. Instead
+// of failing, the git tool returns output one page at a time: a page is a
+// byte range of git's stdout, ending on a commit or file boundary where
+// possible, and the response carries a cursor for the next page. With a
+// `max_tokens` budget a page is condensed rather than cut: commit headers,
+// stats and file headers are kept, and hunks are added until the budget runs
+// out, every file's first hunk before any file's second.
+//
+// Cursors are signed with a key that lives as long as the process, so they
+// cannot be edited to start reading at an arbitrary byte (e.g. in the middle
+// of a diff hidden by denyPaths rules).
+
+import { createHmac, randomBytes } from 'crypto';
+
+// Bytes of git output per page
+const PAGE_SIZE = 100 * 1024;
+
+// Rough size of a token in characters, used to turn max_tokens into a budget
+const CHARS_PER_TOKEN = 4;
+
+const CURSOR_KEY = randomBytes(32);
+
+// Lines that start a new commit or file in log/show/diff output
+const SECTION_START = /^(commit [0-9a-f]{7,}|diff --(git|cc|combined) )/;
+
+// Lines inside a diff hunk
+const HUNK_LINE = /^[ +\-\\]/;
+
+// Room reserved for the omitted-hunks note of each condensed file
+const OMISSION_NOTE_ALLOWANCE = 120;
+
+interface OutputCursor {
+  repo: string;
+  command: string;
+  offset: number;        // bytes of output already returned
+  head: string | null;   // snapshot HEAD pointed to when the first page was read
+  maxTokens?: number;
+  hiding?: string;       // denied file whose hidden diff the page starts inside
+  privateKey?: boolean;  // the page starts inside a private key block
+}
+
+interface OutputSection {
+  start: number;      // character offset in the page
+  header: string[];   // commit header, message and stats, or a file's diff header
+  hunks: string[][];  // hunks, each starting with its @@ line
+}
+
+interface CondensedOutput {
+  text: string;
+  consumed: number;      // characters of the page covered by `text`
+  omittedHunks: number;
+}
+
+// ----------------------------------------------------------------------------
+// Cursors
+// ----------------------------------------------------------------------------
+
+function signature(payload: string): string {
+  return createHmac('sha256', CURSOR_KEY).update(payload).digest('base64url');
+}
+
+function encodeOutputCursor(cursor: OutputCursor): string {
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  return `${payload}.${signature(payload)}`;
+}
+
+/**
+ * Decode a cursor from a previous response, or null if it is malformed or
+ * was not issued by this process.
+ */
+function decodeOutputCursor(value: string): OutputCursor | null {
+  const [payload, mac] = value.split('.');
+  if (!mac || mac !== signature(payload)) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.repo === 'string' &&
+      typeof cursor.command === 'string' &&
+      Number.isInteger(cursor.offset) && cursor.offset >= 0 &&
+      (cursor.head === null || typeof cursor.head === 'string') &&
+      (cursor.maxTokens === undefined || Number.isInteger(cursor.maxTokens)) &&
+      (cursor.hiding === undefined || typeof cursor.hiding === 'string') &&
+      (cursor.privateKey === undefined || typeof cursor.privateKey === 'boolean')
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+// ----------------------------------------------------------------------------
+// Pages
+// ----------------------------------------------------------------------------
+
+/**
+ * Bytes of `data` to return as a page. Complete output is returned whole;
+ * otherwise the page ends at the last commit or file boundary in its second
+ * half, else at the last line break, else (one huge line) on a character
+ * boundary.
+ */
+function pageLength(data: Buffer, complete: boolean): number {
+  if (complete) return data.length;
+
+  const boundary = Math.max(data.lastIndexOf('\ncommit '), data.lastIndexOf('\ndiff --git '));
+  if (boundary >= data.length / 2) return boundary + 1;
+
+  const lineEnd = data.lastIndexOf('\n');
+  if (lineEnd !== -1) return lineEnd + 1;
+
+  // Do not split a multi-byte UTF-8 character
+  let end = data.length;
+  while (end > 0 && (data[end - 1] & 0xc0) === 0x80) end--;
+  if (end > 0 && data[end - 1] >= 0xc0) end--;
+  return end > 0 ? end : data.length;
+}
+
+function splitSections(text: string): OutputSection[] {
+  const sections: OutputSection[] = [];
+  let current: OutputSection | null = null;
+  let inDiff = false;
+  let inHunk = false;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const endsHunk = inHunk && !HUNK_LINE.test(line) && !line.startsWith('@@');
+    if (!current || SECTION_START.test(line) || endsHunk) {
+      current = { start: offset, header: [], hunks: [] };
+      sections.push(current);
+      inDiff = line.startsWith('diff --');
+      inHunk = false;
+    }
+
+    if (inDiff && line.startsWith('@@')) {
+      current.hunks.push([line]);
+      inHunk = true;
+    } else if (inHunk) {
+      current.hunks[current.hunks.length - 1].push(line);
+    } else {
+      current.header.push(line);
+    }
+    offset += line.length + 1;
+  }
+
+  return sections;
+}
+
+function linesSize(lines: string[]): number {
+  return lines.reduce((total, line) => total + line.length + 1, 0);
+}
+
+function omissionNote(hunks: string[][]): string {
+  const lines = hunks.reduce((total, hunk) => total + hunk.length, 0);
+  return `[... ${hunks.length} more hunk${hunks.length === 1 ? '' : 's'} (${lines} lines) omitted to fit max_tokens; ` +
+    'narrow the command to this file to see them ...]';
+}
+
+/**
+ * Fit a page into `maxChars`. Whole commits and files are kept in order
+ * (headers, messages, stats) and the rest are left for the next page; hunks
+ * are then added round-robin, so every file shows its first hunk before any
+ * file shows its second. Omitted hunks are replaced by a note. Output with no
+ * structure to keep is cut at a line break.
+ */
+function condenseOutput(text: string, maxChars: number): CondensedOutput {
+  if (text.length <= maxChars) {
+    return { text, consumed: text.length, omittedHunks: 0 };
+  }
+
+  const body = text.endsWith('\n') ? text.slice(0, -1) : text;
+  const sections = splitSections(body);
+
+  let used = 0;
+  const kept: OutputSection[] = [];
+  for (const section of sections) {
+    const cost = linesSize(section.header) + (section.hunks.length > 0 ? OMISSION_NOTE_ALLOWANCE : 0);
+    if (used + cost > maxChars) break;
+    kept.push(section);
+    used += cost;
+  }
+
+  // Not even the first header fits: cut it at a line break
+  if (kept.length === 0) {
+    const lineEnd = text.lastIndexOf('\n', maxChars - 1);
+    let consumed = lineEnd > 0 ? lineEnd + 1 : maxChars;
+    // Do not split a surrogate pair
+    if (lineEnd <= 0 && /[\ud800-\udbff]/.test(text[consumed - 1])) consumed--;
+    return { text: text.slice(0, consumed), consumed, omittedHunks: 0 };
+  }
+
+  const taken = kept.map(() => 0);
+  for (let round = 0, added = true; added; round++) {
+    added = false;
+    kept.forEach((section, i) => {
+      if (taken[i] !== round || round >= section.hunks.length) return;
+      const cost = linesSize(section.hunks[round]);
+      if (used + cost > maxChars) return;
+      used += cost;
+      taken[i]++;
+      added = true;
+    });
+  }
+
+  let omittedHunks = 0;
+  const lines: string[] = [];
+  kept.forEach((section, i) => {
+    lines.push(...section.header);
+    section.hunks.slice(0, taken[i]).forEach(hunk => lines.push(...hunk));
+    const omitted = section.hunks.slice(taken[i]);
+    if (omitted.length > 0) {
+      lines.push(omissionNote(omitted));
+      omittedHunks += omitted.length;
+    }
+  });
+
+  const next = sections[kept.length];
+  return {
+    text: `${lines.join('\n')}\n`,
+    consumed: next ? next.start : text.length,
+    omittedHunks
+  };
+}
+
+export {
+  CHARS_PER_TOKEN,
+  OutputCursor,
+  PAGE_SIZE,
+  condenseOutput,
+  decodeOutputCursor,
+  encodeOutputCursor,
+  pageLength
+};
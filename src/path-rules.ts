@@ -0,0 +1,448 @@
+// ============================================================================
+// Path Deny Rules
+// ============================================================================
+//
+// Redaction catches secrets by their shape; deny rules keep whole files out
+// of reach by their path. `denyPaths` takes gitignore-style patterns
+// (`.env*`, `secrets/**`, `*.pem`): a pattern without a slash matches a file
+// or directory name at any depth, one with a slash is relative to the
+// repository root, `*` and `?` stay within a path segment and `**` spans
+// segments. A denied directory denies everything inside it. Negation (`!`)
+// is not supported.
+//
+// The rules are enforced in three places:
+//
+//   arguments   paths, `rev:path` and `-L ...:path` naming a denied file are
+//               rejected, after resolving `.` and `..` as git does, as are
+//               paths leaving the repository and output options the filter
+//               below cannot see through (--graph, --line-prefix, ...)
+//   objects     blobs named by hash are looked up in an index of the snapshot
+//               history (see blob-index.ts), so content cannot be fetched by
+//               its SHA either
+//   output      diffs of denied files are cut out of log/show/diff output,
+//               blame output naming a denied file is refused, and grep and
+//               pickaxe searches (-S, -G) are given pathspecs that exclude
+//               denied files
+
+import { unquotePath } from './git-json';
+import { PolicyViolationError, splitArguments } from './git-policy';
+
+interface DenyRule {
+  pattern: string;   // as configured
+  glob: string;      // without leading/trailing slashes
+  anchored: boolean; // relative to the repository root
+  regex: RegExp;
+}
+
+interface FilteredDiff {
+  text: string;
+  hiding: string | null;  // denied file whose diff continues past the end of the text
+  hiddenFiles: number;
+}
+
+// Commands whose output can contain diffs
+const DIFF_OUTPUT_COMMANDS = new Set(['log', 'show', 'diff', 'diff-tree', 'reflog']);
+
+// Options that search the content of every changed file
+const CONTENT_SEARCH_OPTIONS = new Set(['-S', '-G', '--find-object']);
+
+// The file a blame porcelain or incremental entry comes from
+const BLAME_FILENAME = /^filename (.+)$/;
+
+// Commands whose arguments can name a blob whose content they print
+const OBJECT_COMMANDS = new Set(['show', 'cat-file', 'diff', 'diff-tree', 'grep']);
+
+const OBJECT_TYPES = new Set(['blob', 'tree', 'commit', 'tag']);
+
+// Diff output options that move, recolor or reformat the lines the output
+// filter relies on. Prefixes are accepted at their defaults.
+const UNFILTERABLE_DIFF_OPTIONS = new Set([
+  '--line-prefix', '--no-prefix', '--graph', '--word-diff', '--word-diff-regex', '--color-words',
+  '--check', '--output-indicator-new', '--output-indicator-old', '--output-indicator-context'
+]);
+
+const DEFAULT_PREFIXES: Record<string, string> = { '--src-prefix': 'a/', '--dst-prefix': 'b/' };
+
+const DIFF_START = /^diff --(git|cc|combined) (.*)$/;
+
+// Header lines that name a file
+const PATH_LINE = /^(rename from|rename to|copy from|copy to|---|\+\+\+) (.+)$/;
+
+// Lines that can belong to a file's diff after its `diff` line: extended
+// headers, hunks, and binary patch data (base85 lines)
+const SECTION_LINE = new RegExp([
+  String.raw`^[ +\-\\@]`,
+  String.raw`^(index|old mode|new mode|deleted file mode|new file mode|mode|similarity index|dissimilarity index) `,
+  String.raw`^(rename|copy) (from|to) `,
+  String.raw`^Binary files `,
+  String.raw`^GIT binary patch$`,
+  String.raw`^(literal|delta) \d+$`,
+  '^[0-9A-Za-z!#$%&()*+;<=>?@^_`{|}~-]+$'
+].join('|'));
+
+// ----------------------------------------------------------------------------
+// Matching
+// ----------------------------------------------------------------------------
+
+function escapeRegex(char: string): string {
+  return /[\\^$.*+?()[\]{}|]/.test(char) ? `\\${char}` : char;
+}
+
+function globToRegex(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    const segmentStart = i === 0 || glob[i - 1] === '/';
+
+    if (char === '*' && glob[i + 1] === '*' && segmentStart) {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+        continue;
+      }
+      if (i + 2 === glob.length) {
+        source += '.*';
+        i += 1;
+        continue;
+      }
+    }
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', glob[i + 1] === ']' ? i + 2 : i + 1);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const members = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\(?!\\)/g, '\\\\');
+      source += `[${members}]`;
+      i = close;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegex(glob[i + 1]);
+      i++;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return source;
+}
+
+// Resolve `.` and `..` segments and repeated slashes, like git does for the
+// paths it is given. Null when the path climbs above the repository root.
+function normalizePath(filePath: string): string | null {
+  const parts: string[] = [];
+  for (const part of filePath.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part !== '..') {
+      parts.push(part);
+    } else if (parts.pop() === undefined) {
+      return null;
+    }
+  }
+  return parts.join('/');
+}
+
+class PathRules {
+  private readonly rules: DenyRule[];
+
+  constructor(patterns: readonly string[]) {
+    this.rules = patterns.map(pattern => {
+      const glob = pattern.trim().replace(/^\//, '').replace(/\/+$/, '');
+      const anchored = pattern.trim().replace(/\/+$/, '').includes('/');
+      return { pattern, glob, anchored, regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegex(glob)}$`) };
+    });
+  }
+
+  get active(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * The pattern that denies `filePath` (relative to the repository root), or
+   * null when the path is readable. A path is denied when it or any of its
+   * parent directories matches. Paths leaving the repository match no rule;
+   * arguments naming one are rejected by checkDeniedArguments.
+   */
+  match(filePath: string): string | null {
+    const parts = (normalizePath(filePath) ?? '').split('/').filter(Boolean);
+    for (const rule of this.rules) {
+      for (let length = 1; length <= parts.length; length++) {
+        if (rule.regex.test(parts.slice(0, length).join('/'))) return rule.pattern;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Pathspecs that make git skip every denied path (and its contents). They
+   * can be appended to a command without '--', since magic pathspecs are
+   * never mistaken for revisions.
+   */
+  excludePathspecs(): string[] {
+    return this.rules.flatMap(({ glob, anchored }) => {
+      const base = anchored ? glob : `**/${glob}`;
+      return [`:(top,exclude,glob)${base}`, `:(top,exclude,glob)${base}/**`];
+    });
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Arguments
+// ----------------------------------------------------------------------------
+
+// Paths an argument may name: itself as a pathspec, and whatever follows a
+// colon (`HEAD:path`, `:0:path`, `:(top)path`). Exclude pathspecs name none.
+function argumentPaths(value: string): string[] {
+  if (/^:[!^]/.test(value)) return [];
+  const magic = /^:\(([^)]*)\)(.*)$/.exec(value);
+  if (magic) {
+    return magic[1].split(',').includes('exclude') ? [] : [magic[2]];
+  }
+  const paths = [value];
+  for (let colon = value.indexOf(':'); colon !== -1; colon = value.indexOf(':', colon + 1)) {
+    paths.push(value.slice(colon + 1));
+  }
+  return paths;
+}
+
+// Index of grep's pattern argument, which is not a path
+function grepPatternIndex(argv: readonly string[]): number {
+  const { options, positionals } = splitArguments(argv);
+  if (options.some(option => option.name === '-e')) return -1;
+  return positionals[0]?.index ?? -1;
+}
+
+/**
+ * Reject a validated command that names a denied path, or asks for output
+ * the deny filter cannot process. Throws a PolicyViolationError.
+ */
+function checkDeniedArguments(argv: readonly string[], rules: PathRules): void {
+  if (!rules.active) return;
+  const [command] = argv;
+  const { options, positionals } = splitArguments(argv);
+
+  const rejectOption = (name: string, reason: string): never => {
+    throw new PolicyViolationError(
+      `Argument '${name}' cannot be used while denyPaths rules are configured, because ${reason}.`,
+      'deny-paths.output-format'
+    );
+  };
+
+  if (DIFF_OUTPUT_COMMANDS.has(command)) {
+    for (const { name, value } of options) {
+      const unfilterable =
+        UNFILTERABLE_DIFF_OPTIONS.has(name) ||
+        (name in DEFAULT_PREFIXES && value !== DEFAULT_PREFIXES[name]) ||
+        (name === '--color' && value !== 'never') ||
+        (name === '--relative' && value !== undefined);
+      if (unfilterable) rejectOption(name, 'diffs of denied files could not be filtered from its output');
+    }
+  }
+
+  if (command === 'cat-file' && options.some(option => option.name === '--batch-all-objects') &&
+      options.some(option => option.name === '--batch')) {
+    rejectOption('--batch-all-objects', 'together with --batch it prints the content of every object');
+  }
+
+  const denied = (candidate: string): void => {
+    const normalized = normalizePath(candidate);
+    if (normalized === null) {
+      throw new PolicyViolationError(`Path '${candidate}' leaves the repository.`, 'deny-paths');
+    }
+    const rule = rules.match(normalized);
+    if (rule) {
+      throw new PolicyViolationError(`Path '${normalized}' is denied by the denyPaths rule "${rule}".`, 'deny-paths');
+    }
+  };
+
+  const patternIndex = command === 'grep' ? grepPatternIndex(argv) : -1;
+  for (const { value, index } of positionals) {
+    if (index !== patternIndex) argumentPaths(value).forEach(denied);
+  }
+
+  // log -L <range>:<file>
+  if (command !== 'blame') {
+    for (const { name, value } of options) {
+      if (name === '-L' && value?.includes(':')) denied(value.slice(value.lastIndexOf(':') + 1));
+    }
+  }
+}
+
+/**
+ * Whether a command searches file contents (grep, or a diff command with
+ * -S, -G or --find-object), so denied files must be excluded from it with
+ * excludePathspecs() to keep matches in them from showing.
+ */
+function searchesContent(argv: readonly string[]): boolean {
+  if (argv[0] === 'grep') return true;
+  return DIFF_OUTPUT_COMMANDS.has(argv[0]) || argv[0] === 'rev-list'
+    ? splitArguments(argv).options.some(option => CONTENT_SEARCH_OPTIONS.has(option.name))
+    : false;
+}
+
+/**
+ * Arguments that may name an object whose content the command prints, to be
+ * checked against the blob index: revisions of show, cat-file, diff,
+ * diff-tree and grep (everything before '--', except grep's pattern).
+ */
+function objectArguments(argv: readonly string[]): string[] {
+  if (!OBJECT_COMMANDS.has(argv[0])) return [];
+  const { positionals, separator } = splitArguments(argv);
+  const patternIndex = argv[0] === 'grep' ? grepPatternIndex(argv) : -1;
+  // `cat-file <type> <object>` names the type first
+  const typeIndex = argv[0] === 'cat-file' && OBJECT_TYPES.has(positionals[0]?.value) ? positionals[0].index : -1;
+  return positionals
+    .filter(({ index }) => (separator === -1 || index < separator || argv[0] === 'cat-file') && index !== patternIndex)
+    .filter(({ index }) => index !== typeIndex)
+    .map(({ value }) => value);
+}
+
+// ----------------------------------------------------------------------------
+// Output
+// ----------------------------------------------------------------------------
+
+function filtersDiffOutput(command: string): boolean {
+  return DIFF_OUTPUT_COMMANDS.has(command);
+}
+
+// A path as printed by git, with and without its a/ b/ (or i/ w/ ...) prefix
+function printedPaths(value: string): string[] {
+  const unquoted = unquotePath(value.replace(/\t$/, ''));
+  if (unquoted === '/dev/null') return [];
+  return /^[a-z]\//.test(unquoted) ? [unquoted.slice(2), unquoted] : [unquoted];
+}
+
+// Paths named by a `diff --git` line. Unless both sides are identical, every
+// way of splitting the line into two paths is considered.
+function diffHeaderPaths(kind: string, rest: string): string[] {
+  if (kind !== 'git') return printedPaths(rest);
+
+  if (rest.startsWith('"')) {
+    const end = /^"(?:[^"\\]|\\.)*"/.exec(rest);
+    if (!end) return [];
+    return [...printedPaths(end[0]), ...printedPaths(rest.slice(end[0].length + 1))];
+  }
+
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === ' ' && rest.slice(2, half) === rest.slice(half + 3)) {
+    return printedPaths(rest.slice(0, half));
+  }
+  const paths: string[] = [];
+  for (let space = rest.indexOf(' '); space !== -1; space = rest.indexOf(' ', space + 1)) {
+    paths.push(...printedPaths(rest.slice(0, space)), ...printedPaths(rest.slice(space + 1)));
+  }
+  return paths;
+}
+
+function firstDenied(paths: string[], rules: PathRules): { path: string; rule: string } | null {
+  for (const candidate of paths) {
+    const rule = rules.match(candidate);
+    if (rule) return { path: normalizePath(candidate) ?? candidate, rule };
+  }
+  return null;
+}
+
+/**
+ * Reject blame output whose porcelain or incremental entries come from a
+ * denied file, in case git blamed one under a name the argument check did
+ * not recognize. Throws a PolicyViolationError.
+ */
+function checkBlameOutput(text: string, rules: PathRules): void {
+  for (const line of text.split('\n')) {
+    const filename = BLAME_FILENAME.exec(line);
+    const denied = filename ? firstDenied([unquotePath(filename[1])], rules) : null;
+    if (denied) {
+      throw new PolicyViolationError(`Blame output comes from '${denied.path}', which is denied by the denyPaths rule "${denied.rule}".`, 'deny-paths');
+    }
+  }
+}
+
+function hiddenNote(path: string, rule: string | null): string {
+  return rule
+    ? `[diff of ${path} hidden: denied by the denyPaths rule "${rule}"]`
+    : '[diff hidden: its file name could not be read to check it against the denyPaths rules]';
+}
+
+/**
+ * Cut the diffs of denied files out of log/show/diff output, leaving a note
+ * in their place. `hiding` continues a denied file's diff from the previous
+ * page; the result says whether this text ends inside one.
+ */
+function filterDiffOutput(text: string, rules: PathRules, hiding: string | null = null): FilteredDiff {
+  const kept: string[] = [];
+  let announced = hiding === null;
+  let heldBlank = false;  // an empty line while hiding: binary patches continue after one
+  let inHeader = false;
+  let hiddenFiles = 0;
+
+  const hide = (path: string, rule: string | null): void => {
+    hiding = path;
+    announced = true;
+    hiddenFiles++;
+    kept.push(hiddenNote(path, rule));
+  };
+
+  for (const line of text.split('\n')) {
+    const start = DIFF_START.exec(line);
+    if (start) {
+      heldBlank = false;
+      hiding = null;
+      inHeader = true;
+      const paths = diffHeaderPaths(start[1], start[2]);
+      const denied = paths.length > 0 ? firstDenied(paths, rules) : { path: '(unknown)', rule: null };
+      if (denied) {
+        hide(denied.path, denied.rule);
+      } else {
+        kept.push(line);
+      }
+      continue;
+    }
+
+    if (hiding !== null) {
+      if (line === '') {
+        heldBlank = true;
+        continue;
+      }
+      if (SECTION_LINE.test(line)) {
+        heldBlank = false;
+        if (!announced) hide(hiding, rules.match(hiding));
+        continue;
+      }
+      hiding = null;
+      inHeader = false;
+      if (heldBlank) kept.push('');
+      heldBlank = false;
+      kept.push(line);
+      continue;
+    }
+
+    // A rename or the ---/+++ lines can name a denied file the `diff` line
+    // did not show plainly
+    if (inHeader) {
+      const pathLine = PATH_LINE.exec(line);
+      const denied = pathLine ? firstDenied(printedPaths(pathLine[2]), rules) : null;
+      if (denied) {
+        hide(denied.path, denied.rule);
+        continue;
+      }
+      if (line.startsWith('@@') || line === 'GIT binary patch' || !SECTION_LINE.test(line)) inHeader = false;
+    }
+    kept.push(line);
+  }
+
+  if (heldBlank && hiding === null) kept.push('');
+  return { text: kept.join('\n'), hiding, hiddenFiles };
+}
+
+export {
+  FilteredDiff,
+  PathRules,
+  checkBlameOutput,
+  checkDeniedArguments,
+  filterDiffOutput,
+  filtersDiffOutput,
+  objectArguments,
+  searchesContent
+};
@@ -0,0 +1,223 @@
+// ============================================================================
+// Debugging Prompts
+// ============================================================================
+//
+// Ready-made prompts for the questions people ask most about their shadow
+// history. Each prompt fetches the relevant history up front and embeds it in
+// the message, so the conversation starts with the evidence instead of a
+// round of tool calls. History is fetched with ordinary git command strings
+// that go through the same parsing, policy checks and runner as the git tool.
+
+import { quoteArgument } from './git-command';
+import { Args, optionalString, requireString } from './tools/args';
+import { TimeSpec, describeTimeSpec, parseTimeSpec } from './tools/time-spec';
+import { ToolError } from './tools/types';
+
+// Characters of git output embedded per section
+const MAX_SECTION_LENGTH = 20000;
+
+// Snapshots listed in a prompt's history section
+const MAX_LOG_ENTRIES = 100;
+
+const LOG_FORMAT = '--format=%h %cI %s';
+
+interface PromptContext {
+  // Resolve a repository name or path, or throw a ToolError
+  resolveRepo(repo: string): string;
+  // Run a git command string exactly as the git tool would. Throws a
+  // ToolError with the user-facing message on failure.
+  git(repoPath: string, command: string): Promise<string>;
+}
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+// Type aliases rather than interfaces so results are assignable to the SDK's
+// open-ended result schema
+type PromptMessage = {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+};
+
+type PromptResult = {
+  description: string;
+  messages: PromptMessage[];
+};
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  build(args: Args, context: PromptContext): Promise<PromptResult>;
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+function command(...args: string[]): string {
+  return args.map(quoteArgument).join(' ');
+}
+
+function section(title: string, output: string): string {
+  let body = output.trimEnd() || '(no output)';
+  if (body.length > MAX_SECTION_LENGTH) {
+    body = `${body.slice(0, MAX_SECTION_LENGTH)}\n... (truncated; use the git tool to see the rest)`;
+  }
+  return `## ${title}\n\n\`\`\`\n${body}\n\`\`\``;
+}
+
+function userMessage(description: string, text: string): PromptResult {
+  return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/**
+ * The snapshot to compare against for a point in time: the last snapshot at
+ * or before it, or the first snapshot when history starts later. Revisions
+ * are used as given.
+ */
+async function baseRevision(
+  context: PromptContext,
+  repoPath: string,
+  spec: TimeSpec
+): Promise<{ rev: string; note?: string }> {
+  if (spec.kind === 'revision') return { rev: spec.rev };
+
+  const before = (await context.git(repoPath, command('rev-list', '-1', `--before=${spec.date.toISOString()}`, 'HEAD'))).trim();
+  if (before) return { rev: before };
+
+  const roots = (await context.git(repoPath, command('rev-list', '--max-parents=0', 'HEAD'))).trim().split('\n');
+  return {
+    rev: roots[roots.length - 1],
+    note: `No snapshot exists before ${spec.date.toISOString()}, so the comparison starts at the first snapshot.`
+  };
+}
+
+function pathArgs(file: string | undefined): string[] {
+  return file ? ['--', file] : [];
+}
+
+// ----------------------------------------------------------------------------
+// Prompts
+// ----------------------------------------------------------------------------
+
+const whatBrokePrompt: PromptDefinition = {
+  name: 'what_broke',
+  description: 'What broke since it last worked? Collects every change since a known-good time for root-cause analysis.',
+  arguments: [
+    { name: 'repo', description: 'Repository name (from list_repos)', required: true },
+    { name: 'since', description: 'When it last worked: "2 hours ago", "14:30", an ISO timestamp or a commit SHA', required: true },
+    { name: 'file', description: 'Limit the investigation to this file or directory' }
+  ],
+
+  async build(args, context) {
+    const repo = requireString(args, 'repo');
+    const since = parseTimeSpec(requireString(args, 'since'), 'since');
+    const file = optionalString(args, 'file');
+    const repoPath = context.resolveRepo(repo);
+
+    const base = await baseRevision(context, repoPath, since);
+    const history = await context.git(repoPath, command(
+      'log', LOG_FORMAT, '--name-status', `--max-count=${MAX_LOG_ENTRIES}`, `${base.rev}..HEAD`, ...pathArgs(file)
+    ));
+    const diff = await context.git(repoPath, command('diff', base.rev, 'HEAD', ...pathArgs(file)));
+
+    const scope = file ? ` in \`${file}\`` : '';
+    return userMessage(`What broke in ${repo} since ${describeTimeSpec(since)}`, [
+      `Something${scope} in the ShadowGit repository "${repo}" stopped working. ` +
+        `It last worked at ${describeTimeSpec(since)} (snapshot ${base.rev}).`,
+      base.note ?? '',
+      'Below are the snapshots taken since then and the combined diff. Identify the change most likely ' +
+        'to have broken it, cite the snapshot and the lines involved, and suggest a fix. Use the git tool ' +
+        `with repo "${repo}" if you need more detail about an individual snapshot.`,
+      section('Snapshots since it last worked (newest first)', history),
+      section(`Combined diff ${base.rev}..HEAD`, diff)
+    ].filter(Boolean).join('\n\n'));
+  }
+};
+
+const explainRecentChangesPrompt: PromptDefinition = {
+  name: 'explain_recent_changes',
+  description: 'Explain my recent changes: summarizes what was edited in a recent time window and why it likely matters.',
+  arguments: [
+    { name: 'repo', description: 'Repository name (from list_repos)', required: true },
+    { name: 'since', description: 'Start of the window (default: "1 hour ago")' }
+  ],
+
+  async build(args, context) {
+    const repo = requireString(args, 'repo');
+    const since = parseTimeSpec(optionalString(args, 'since') ?? '1 hour ago', 'since');
+    const repoPath = context.resolveRepo(repo);
+
+    const base = await baseRevision(context, repoPath, since);
+    const history = await context.git(repoPath, command('log', LOG_FORMAT, '--stat', `--max-count=${MAX_LOG_ENTRIES}`, `${base.rev}..HEAD`));
+    const diff = await context.git(repoPath, command('diff', base.rev, 'HEAD'));
+
+    return userMessage(`Recent changes in ${repo} since ${describeTimeSpec(since)}`, [
+      `Explain the changes I made in the ShadowGit repository "${repo}" since ${describeTimeSpec(since)}.`,
+      base.note ?? '',
+      'Group related edits into a short narrative of what I was working on, call out anything that looks ' +
+        'unfinished, risky or accidental, and mention files that changed back and forth.',
+      section('Snapshots (newest first)', history),
+      section(`Combined diff ${base.rev}..HEAD`, diff)
+    ].filter(Boolean).join('\n\n'));
+  }
+};
+
+const compareFilePrompt: PromptDefinition = {
+  name: 'compare_file_to_past',
+  description: 'Compare the current version of a file with how it looked N minutes ago.',
+  arguments: [
+    { name: 'repo', description: 'Repository name (from list_repos)', required: true },
+    { name: 'file', description: 'Path of the file, relative to the repository root', required: true },
+    { name: 'minutes', description: 'How many minutes back to compare against (e.g. "30")', required: true }
+  ],
+
+  async build(args, context) {
+    const repo = requireString(args, 'repo');
+    const file = requireString(args, 'file');
+    const minutesText = requireString(args, 'minutes').trim();
+    if (!/^\d+(\.\d+)?$/.test(minutesText) || parseFloat(minutesText) <= 0) {
+      throw new ToolError(`Error: 'minutes' must be a positive number (got '${minutesText}').`);
+    }
+    const since = parseTimeSpec(`${minutesText} minutes ago`, 'minutes');
+    const repoPath = context.resolveRepo(repo);
+
+    const base = await baseRevision(context, repoPath, since);
+    const history = await context.git(repoPath, command('log', LOG_FORMAT, `--max-count=${MAX_LOG_ENTRIES}`, `${base.rev}..HEAD`, '--', file));
+    // Without a second revision, git diff compares against the file on disk
+    const diff = await context.git(repoPath, command('diff', base.rev, '--', file));
+
+    return userMessage(`${file} now vs. ${minutesText} minutes ago`, [
+      `Compare the current version of \`${file}\` in the ShadowGit repository "${repo}" with the version ` +
+        `from ${minutesText} minutes ago (snapshot ${base.rev}).`,
+      base.note ?? '',
+      'Describe what changed in behaviour, not just in text, and point out anything that may have been lost.',
+      section(`Snapshots of ${file} since then (newest first)`, history),
+      section(`Diff from ${base.rev} to the current file`, diff)
+    ].filter(Boolean).join('\n\n'));
+  }
+};
+
+const PROMPTS: PromptDefinition[] = [whatBrokePrompt, explainRecentChangesPrompt, compareFilePrompt];
+
+function listPrompts(): Array<{ name: string; description: string; arguments: PromptArgument[] }> {
+  return PROMPTS.map(({ name, description, arguments: promptArguments }) => ({ name, description, arguments: promptArguments }));
+}
+
+/**
+ * Build a prompt by name. Throws a ToolError for unknown prompts, missing
+ * arguments and git failures.
+ */
+async function getPrompt(name: string, args: Record<string, string> | undefined, context: PromptContext): Promise<PromptResult> {
+  const prompt = PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new ToolError(`Error: Unknown prompt '${name}'. Available prompts: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+  return prompt.build(args ?? {}, context);
+}
+
+export { PROMPTS, PromptContext, PromptResult, getPrompt, listPrompts };
@@ -0,0 +1,211 @@
+// ============================================================================
+// Secret Redaction
+// ============================================================================
+//
+// ShadowGit snapshots everything that is saved, including `.env` edits and
+// pasted API keys, and tool output goes straight into the AI's context. Every
+// result is therefore passed through a set of detectors before it leaves the
+// server. Matches are replaced with a typed placeholder such as
+// `[REDACTED:github-token]`, so the AI can still tell that (and what kind of)
+// a secret changed without seeing it.
+
+interface RedactionPattern {
+  name: string;     // placeholder type, e.g. "internal-token"
+  pattern: string;  // regular expression source
+  flags?: string;   // extra flags; "g" is always added
+}
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+  // Replacement for one match, or null to leave it alone
+  replace(match: RegExpExecArray, placeholder: string): string | null;
+}
+
+interface RedactionResult {
+  text: string;
+  count: number;
+  counts: Record<string, number>;
+}
+
+// Values assigned to these names are treated as secrets when they look random
+const SECRET_NAME = String.raw`[A-Za-z0-9_.-]*(?:_KEY|_SECRET|PASSWORD|PASSWD)[A-Za-z0-9_]*`;
+
+// Minimum length and Shannon entropy (bits per character) of such a value
+const MIN_SECRET_LENGTH = 10;
+const MIN_SECRET_ENTROPY = 3.2;
+
+// Put around a page break inside a private key block: the page ends with
+// PRIVATE_KEY_CUT and the next one starts with PRIVATE_KEY_CONTINUED, so the
+// block is redacted on both pages without taking what follows the page
+const PRIVATE_KEY_CUT = '[private key continues on the next page]';
+const PRIVATE_KEY_CONTINUED = '[private key continued from the previous page]';
+
+const PRIVATE_KEY_BEGIN = String.raw`-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----`;
+const PRIVATE_KEY_END = String.raw`-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----`;
+
+// Either line of a block; also a valid `git grep -E` pattern
+const PRIVATE_KEY_MARKER = `${PRIVATE_KEY_BEGIN}|${PRIVATE_KEY_END}`;
+
+// What a redacted block reads as
+const PRIVATE_KEY_PLACEHOLDER = '[REDACTED:private-key]';
+
+// Values that name a secret instead of containing one
+const SECRET_REFERENCE = /^(\$|process\.env|os\.environ|env\(|getenv|<|\{\{|\*+$|x+$)/i;
+
+function entropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of frequencies.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function whole(name: string, source: string, flags = ''): Detector {
+  return {
+    name,
+    regex: new RegExp(source, `g${flags}`),
+    replace: (_match, placeholder) => placeholder
+  };
+}
+
+function escapeMarker(marker: string): string {
+  return marker.replace(/[[\]]/g, '\\$&');
+}
+
+const BUILT_IN_DETECTORS: readonly Detector[] = [
+  // A block cut off without a marker is redacted up to the end of the output
+  whole(
+    'private-key',
+    String.raw`(${PRIVATE_KEY_BEGIN}|${escapeMarker(PRIVATE_KEY_CONTINUED)})[\s\S]*?` +
+      String.raw`(${PRIVATE_KEY_END}|${escapeMarker(PRIVATE_KEY_CUT)}|$(?![\s\S]))`
+  ),
+  whole('aws-access-key', String.raw`\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[0-9A-Z]{16}\b`),
+  whole('github-token', String.raw`\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b`),
+  whole('slack-token', String.raw`\bxox[abposr]-[A-Za-z0-9-]{10,}`),
+  whole('slack-webhook', String.raw`https://hooks\.slack\.com/services/[A-Za-z0-9/_-]+`),
+  {
+    name: 'secret',
+    regex: new RegExp(String.raw`(\b${SECRET_NAME}["']?\s*[:=]\s*["'\x60]?)([^\s"'\x60,;)]+)`, 'gi'),
+    replace: (match, placeholder) => {
+      const [, assignment, value] = match;
+      if (value.length < MIN_SECRET_LENGTH || SECRET_REFERENCE.test(value) || value.startsWith('[REDACTED:')) return null;
+      if (entropy(value) < MIN_SECRET_ENTROPY) return null;
+      return `${assignment}${placeholder}`;
+    }
+  }
+];
+
+/**
+ * Whether `text` ends inside a private key block, given whether it starts
+ * inside one (continuing the previous page of output).
+ */
+function endsInsidePrivateKey(text: string, startsInside = false): boolean {
+  const markers = text.match(new RegExp(PRIVATE_KEY_MARKER, 'g'));
+  if (!markers) return startsInside;
+  return markers[markers.length - 1].startsWith('-----BEGIN');
+}
+
+function compilePatterns(patterns: readonly RedactionPattern[]): Detector[] {
+  return patterns.map(({ name, pattern, flags = '' }) => whole(name, pattern, flags.replace('g', '')));
+}
+
+function applyDetector(text: string, detector: Detector, counts: Record<string, number>): string {
+  const placeholder = `[REDACTED:${detector.name}]`;
+  const { regex } = detector;
+  regex.lastIndex = 0;
+
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    const replacement = detector.replace(match, placeholder);
+    if (replacement === null) continue;
+    result += text.slice(last, match.index) + replacement;
+    last = match.index + match[0].length;
+    counts[detector.name] = (counts[detector.name] ?? 0) + 1;
+  }
+  return result + text.slice(last);
+}
+
+class Redactor {
+  private readonly detectors: Detector[];
+
+  constructor(patterns: readonly RedactionPattern[] = [], private readonly enabled = true) {
+    this.detectors = [...BUILT_IN_DETECTORS, ...compilePatterns(patterns)];
+  }
+
+  redact(text: string): RedactionResult {
+    const counts: Record<string, number> = {};
+    if (!this.enabled) return { text, count: 0, counts };
+
+    let redacted = text;
+    for (const detector of this.detectors) {
+      redacted = applyDetector(redacted, detector, counts);
+    }
+    const count = Object.values(counts).reduce((total, n) => total + n, 0);
+    return { text: redacted, count, counts };
+  }
+
+  /**
+   * Redact every string inside a JSON-like value (e.g. structured tool
+   * output), adding to `counts`. Structured diffs and blame hold one line
+   * per string, so a private key block is followed from one array item to
+   * the next, separately for each field of the items.
+   */
+  redactValue<T>(value: T, counts: Record<string, number> = {}): T {
+    return this.redactNode(value, counts, new Map(), '');
+  }
+
+  // `inKey` tells, per field path within the items of the enclosing array,
+  // whether the previous item ended inside a private key block
+  private redactNode<T>(value: T, counts: Record<string, number>, inKey: Map<string, boolean>, path: string): T {
+    if (typeof value === 'string') {
+      const startsInside = inKey.get(path) ?? false;
+      inKey.set(path, endsInsidePrivateKey(value, startsInside));
+      const result = this.redact(startsInside ? `${PRIVATE_KEY_CONTINUED}\n${value}` : value);
+      for (const [name, n] of Object.entries(result.counts)) {
+        counts[name] = (counts[name] ?? 0) + n;
+      }
+      return result.text as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      const items = new Map<string, boolean>();
+      return value.map(item => this.redactNode(item, counts, items, '')) as unknown as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactNode(item, counts, inKey, path ? `${path}.${key}` : key)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+function describeRedactions(counts: Record<string, number>): string {
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  const kinds = Object.entries(counts).map(([name, n]) => `${n} ${name}`).join(', ');
+  return `[Redacted ${total} secret${total === 1 ? '' : 's'} from this output: ${kinds}]`;
+}
+
+export {
+  PRIVATE_KEY_CONTINUED,
+  PRIVATE_KEY_CUT,
+  PRIVATE_KEY_MARKER,
+  PRIVATE_KEY_PLACEHOLDER,
+  RedactionPattern,
+  RedactionResult,
+  Redactor,
+  describeRedactions,
+  endsInsidePrivateKey,
+  entropy
+};
@@ -0,0 +1,93 @@
+// ============================================================================
+// Repository Access Policy
+// ============================================================================
+//
+// Besides the repositories registered in repos.json, the tools accept a
+// repository given by path. The `repoAccess` setting decides which paths are
+// reachable:
+//
+//   registered    only repositories listed in repos.json
+//   allowlisted   registered repositories, plus anything under `allowedRoots`
+//   any           any directory on disk (the historical behavior)
+//
+// Paths are compared after realpath canonicalization, so a symlink inside an
+// allowed root cannot point the server at a directory outside it.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+type RepoAccessMode = 'registered' | 'allowlisted' | 'any';
+
+interface RepoAccessPolicy {
+  repoAccess: RepoAccessMode;
+  allowedRoots: string[];
+}
+
+type RepoAccessDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+const REPO_ACCESS_MODES: readonly RepoAccessMode[] = ['registered', 'allowlisted', 'any'];
+
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+}
+
+/**
+ * The real path of a file or directory, with symlinks resolved. Paths that
+ * cannot be resolved (e.g. missing) are only normalized.
+ */
+function canonicalPath(value: string): string {
+  const absolute = path.resolve(expandHome(value));
+  try {
+    return fs.realpathSync.native(absolute);
+  } catch {
+    return absolute;
+  }
+}
+
+function isWithin(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Decide whether a repository path may be queried. `registeredPaths` are the
+ * paths from repos.json; all comparisons use canonical paths.
+ */
+function checkRepoAccess(
+  repoPath: string,
+  policy: RepoAccessPolicy,
+  registeredPaths: Iterable<string>
+): RepoAccessDecision {
+  if (policy.repoAccess === 'any') return { allowed: true };
+
+  const canonical = canonicalPath(repoPath);
+  for (const registered of registeredPaths) {
+    if (canonicalPath(registered) === canonical) return { allowed: true };
+  }
+
+  if (policy.repoAccess === 'registered') {
+    return { allowed: false, reason: 'only repositories registered in the ShadowGit app can be queried' };
+  }
+
+  if (policy.allowedRoots.some(root => isWithin(canonicalPath(root), canonical))) {
+    return { allowed: true };
+  }
+  return {
+    allowed: false,
+    reason: policy.allowedRoots.length > 0
+      ? `the path is neither registered in the ShadowGit app nor inside an allowed root (${policy.allowedRoots.join(', ')})`
+      : 'the path is not registered in the ShadowGit app and no allowed roots are configured'
+  };
+}
+
+export {
+  REPO_ACCESS_MODES,
+  RepoAccessDecision,
+  RepoAccessMode,
+  RepoAccessPolicy,
+  canonicalPath,
+  checkRepoAccess
+};
@@ -0,0 +1,172 @@
+// ============================================================================
+// Repository Registry
+// ============================================================================
+//
+// Tracks the repositories registered in the ShadowGit app's repos.json. The
+// file is watched so repositories added or removed in the app show up without
+// restarting the MCP server. Each reload builds a complete new map and swaps
+// it in at once; a file that cannot be parsed (e.g. caught mid-write) leaves
+// the last good state in place.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+
+interface Repository {
+  name: string;
+  path: string;
+}
+
+interface RepositoryChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+function isRepository(value: unknown): value is Repository {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Repository).name === 'string' &&
+    typeof (value as Repository).path === 'string'
+  );
+}
+
+/**
+ * Parse the contents of repos.json into a name -> path map. Throws if the
+ * content is not a JSON array of {name, path} entries.
+ */
+function parseRepositories(content: string): Map<string, string> {
+  const data: unknown = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error('expected an array of repositories');
+  }
+
+  const repos = new Map<string, string>();
+  data.forEach((entry: unknown, index: number) => {
+    if (!isRepository(entry)) {
+      throw new Error(`entry ${index} is missing a string 'name' or 'path'`);
+    }
+    repos.set(entry.name, entry.path);
+  });
+  return repos;
+}
+
+function diffRepositories(
+  previous: ReadonlyMap<string, string>,
+  next: ReadonlyMap<string, string>
+): RepositoryChanges {
+  const added = Array.from(next.keys()).filter(name => !previous.has(name));
+  const removed = Array.from(previous.keys()).filter(name => !next.has(name));
+  const changed = Array.from(next.keys()).filter(
+    name => previous.has(name) && previous.get(name) !== next.get(name)
+  );
+  return { added, removed, changed };
+}
+
+function formatChanges(changes: RepositoryChanges): string {
+  const parts: string[] = [];
+  if (changes.added.length > 0) parts.push(`added: ${changes.added.join(', ')}`);
+  if (changes.removed.length > 0) parts.push(`removed: ${changes.removed.join(', ')}`);
+  if (changes.changed.length > 0) parts.push(`path changed: ${changes.changed.join(', ')}`);
+  return parts.join('; ');
+}
+
+class RepositoryRegistry {
+  private current: ReadonlyMap<string, string> = new Map(); // name -> path mapping
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly reposPath: string) {}
+
+  get repos(): ReadonlyMap<string, string> {
+    return this.current;
+  }
+
+  /**
+   * Initial load. A missing or unreadable file results in an empty registry.
+   */
+  load(): void {
+    try {
+      if (fs.existsSync(this.reposPath)) {
+        this.current = parseRepositories(fs.readFileSync(this.reposPath, 'utf-8'));
+      }
+    } catch (error) {
+      log('error', `Error reading JSON file ${this.reposPath}: ${error}`);
+    }
+    log('info', `Loaded ${this.current.size} repositories from ${this.reposPath}`);
+  }
+
+  /**
+   * Re-read repos.json and swap in the new map. Returns false, keeping the
+   * previous state, if the file is missing or malformed.
+   */
+  reload(): boolean {
+    let next: Map<string, string>;
+    try {
+      next = parseRepositories(fs.readFileSync(this.reposPath, 'utf-8'));
+    } catch (error) {
+      log('warn', `Ignoring unreadable ${this.reposPath}, keeping ${this.current.size} known repositories: ${error}`);
+      return false;
+    }
+
+    const changes = diffRepositories(this.current, next);
+    this.current = next;
+
+    const summary = formatChanges(changes);
+    if (summary) {
+      log('info', `Reloaded ${next.size} repositories from ${this.reposPath} (${summary})`);
+    } else {
+      log('debug', `Reloaded ${this.reposPath}, no repository changes`);
+    }
+    return true;
+  }
+
+  /**
+   * Watch repos.json for changes. The containing directory is watched rather
+   * than the file itself, since apps typically replace the file atomically
+   * (write + rename), which would orphan a watch on the old inode.
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    const directory = path.dirname(this.reposPath);
+    const fileName = path.basename(this.reposPath);
+    try {
+      this.watcher = fs.watch(directory, (_event, changedFile) => {
+        if (changedFile && changedFile.toString() !== fileName) return;
+        this.scheduleReload();
+      });
+      this.watcher.on('error', (error) => {
+        log('warn', `Stopped watching ${this.reposPath}: ${error}`);
+        this.close();
+      });
+      log('debug', `Watching ${this.reposPath} for changes`);
+    } catch (error) {
+      log('warn', `Cannot watch ${directory} for repository changes: ${error}`);
+    }
+  }
+
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  // Editors and apps often emit several events per save; coalesce them.
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload();
+    }, RELOAD_DEBOUNCE_MS);
+    this.reloadTimer.unref();
+  }
+}
+
+export { Repository, RepositoryChanges, RepositoryRegistry, diffRepositories, parseRepositories };
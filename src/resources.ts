@@ -0,0 +1,289 @@
+// ============================================================================
+// Shadow History Resources
+// ============================================================================
+//
+// Exposes snapshots as MCP resources so clients can attach a historical file
+// or commit to the conversation without a tool call:
+//
+//   shadowgit://<repo>/timeline               recent snapshots
+//   shadowgit://<repo>/commits/<sha>          one snapshot with its diff
+//   shadowgit://<repo>/files/<sha>/<path>     a file as of a snapshot
+//
+// Repository names and path segments are percent-encoded. Commits and files
+// are addressed by SHA only, so their contents never change.
+
+import { DIFF_OUTPUT_FLAGS } from './git-json';
+import { Snapshot, listSnapshots, resolveCommit, shortSha } from './tools/history';
+import { ToolContext, ToolError } from './tools/types';
+
+const SCHEME = 'shadowgit://';
+
+// Resources per resources/list page
+const PAGE_SIZE = 100;
+
+// Snapshots shown in a timeline resource
+const TIMELINE_LENGTH = 200;
+
+const SHA_PATTERN = /^[0-9a-f]{4,64}$/i;
+
+// git's answer to `cat-file blob <sha>:<path>` for a path that is missing from
+// the snapshot or names a directory
+const NOT_A_FILE = /fatal: path '.*' (does not exist|exists on disk, but not) in '|fatal: git cat-file .*: bad file/;
+
+type ResourceUri =
+  | { kind: 'timeline'; repo: string }
+  | { kind: 'commit'; repo: string; sha: string }
+  | { kind: 'file'; repo: string; sha: string; path: string };
+
+interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// Position in the listing: repositories in name order, and within each the
+// timeline (offset 0) followed by its snapshots newest first
+interface ListCursor {
+  repo: string;
+  offset: number;
+}
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SCHEME}{repo}/timeline`,
+    name: 'Snapshot timeline',
+    description: `The ${TIMELINE_LENGTH} most recent ShadowGit snapshots of a repository`,
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: `${SCHEME}{repo}/commits/{sha}`,
+    name: 'Snapshot',
+    description: 'One ShadowGit snapshot: metadata, changed files and the full diff',
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: `${SCHEME}{repo}/files/{sha}/{+path}`,
+    name: 'File at snapshot',
+    description: 'The contents of a file as it was in a ShadowGit snapshot',
+    mimeType: 'text/plain'
+  }
+];
+
+// ----------------------------------------------------------------------------
+// URIs
+// ----------------------------------------------------------------------------
+
+function encodePath(filePath: string): string {
+  return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+function formatResourceUri(resource: ResourceUri): string {
+  const base = `${SCHEME}${encodeURIComponent(resource.repo)}`;
+  switch (resource.kind) {
+    case 'timeline':
+      return `${base}/timeline`;
+    case 'commit':
+      return `${base}/commits/${resource.sha}`;
+    case 'file':
+      return `${base}/files/${resource.sha}/${encodePath(resource.path)}`;
+  }
+}
+
+/**
+ * Parse a shadowgit:// URI. Throws a ToolError for anything malformed.
+ */
+function parseResourceUri(uri: string): ResourceUri {
+  const invalid = (): ToolError => new ToolError(
+    `Error: Invalid resource URI '${uri}'. Expected ${RESOURCE_TEMPLATES.map(t => t.uriTemplate).join(', ')}.`
+  );
+  if (!uri.startsWith(SCHEME)) throw invalid();
+
+  let segments: string[];
+  try {
+    segments = uri.slice(SCHEME.length).split('/').map(decodeURIComponent);
+  } catch {
+    throw invalid();
+  }
+  const [repo, kind, sha, ...pathSegments] = segments;
+  if (!repo) throw invalid();
+
+  if (kind === 'timeline' && segments.length === 2) {
+    return { kind: 'timeline', repo };
+  }
+  if (kind === 'commits' && segments.length === 3 && SHA_PATTERN.test(sha)) {
+    return { kind: 'commit', repo, sha };
+  }
+  if (kind === 'files' && SHA_PATTERN.test(sha ?? '') && pathSegments.length > 0 &&
+      pathSegments.every(segment => segment !== '' && segment !== '.' && segment !== '..')) {
+    return { kind: 'file', repo, sha, path: pathSegments.join('/') };
+  }
+  throw invalid();
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): ListCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor.repo === 'string' && Number.isInteger(cursor.offset) && cursor.offset >= 0) {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ToolError('Error: Invalid pagination cursor.');
+}
+
+// ----------------------------------------------------------------------------
+// Listing
+// ----------------------------------------------------------------------------
+
+function commitEntry(repo: string, snapshot: Snapshot): ResourceEntry {
+  return {
+    uri: formatResourceUri({ kind: 'commit', repo, sha: snapshot.sha }),
+    name: `${repo} @ ${shortSha(snapshot.sha)}: ${snapshot.subject}`,
+    description: `Snapshot from ${snapshot.timestamp}`,
+    mimeType: 'text/plain'
+  };
+}
+
+async function repositorySnapshots(
+  context: ToolContext,
+  repoPath: string,
+  skip: number,
+  count: number
+): Promise<Snapshot[]> {
+  try {
+    return await listSnapshots(context, repoPath, [`--skip=${skip}`, 'HEAD'], [], count);
+  } catch (error) {
+    // A repository without any snapshots yet has no HEAD
+    if (error instanceof ToolError) return [];
+    throw error;
+  }
+}
+
+/**
+ * One page of resources: each repository's timeline followed by its
+ * snapshots, newest first. Repositories that are not tracked are skipped.
+ */
+async function listResources(
+  context: ToolContext,
+  cursorValue?: string
+): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+  const names = Array.from(context.repos.keys()).sort();
+  const cursor = cursorValue ? decodeCursor(cursorValue) : { repo: names[0] ?? '', offset: 0 };
+
+  // Continue after the cursor's repository even if it has since been removed
+  let index = names.indexOf(cursor.repo);
+  let offset = cursor.offset;
+  if (index === -1) {
+    index = names.findIndex(name => name > cursor.repo);
+    offset = 0;
+    if (index === -1) return { resources: [] };
+  }
+
+  const resources: ResourceEntry[] = [];
+  for (; index < names.length; index++, offset = 0) {
+    const repo = names[index];
+    let repoPath: string;
+    try {
+      repoPath = context.resolveRepo(repo);
+    } catch (error) {
+      if (error instanceof ToolError) continue;
+      throw error;
+    }
+
+    if (offset === 0) {
+      if (resources.length === PAGE_SIZE) break;
+      resources.push({
+        uri: formatResourceUri({ kind: 'timeline', repo }),
+        name: `${repo} timeline`,
+        description: `Recent ShadowGit snapshots of ${repo}`,
+        mimeType: 'text/plain'
+      });
+      offset = 1;
+    }
+
+    const room = PAGE_SIZE - resources.length;
+    if (room === 0) break;
+    const snapshots = await repositorySnapshots(context, repoPath, offset - 1, room);
+    resources.push(...snapshots.map(snapshot => commitEntry(repo, snapshot)));
+    offset += snapshots.length;
+    if (snapshots.length === room) break;
+  }
+
+  if (index < names.length) {
+    return { resources, nextCursor: encodeCursor({ repo: names[index], offset }) };
+  }
+  return { resources };
+}
+
+// ----------------------------------------------------------------------------
+// Reading
+// ----------------------------------------------------------------------------
+
+async function readTimeline(context: ToolContext, repo: string, repoPath: string): Promise<string> {
+  const snapshots = await repositorySnapshots(context, repoPath, 0, TIMELINE_LENGTH);
+  if (snapshots.length === 0) {
+    return `${repo} has no ShadowGit snapshots yet.`;
+  }
+  return [
+    `ShadowGit timeline for ${repo} (${snapshots.length} most recent snapshots, newest first)`,
+    '',
+    ...snapshots.map(snapshot => `${snapshot.sha}  ${snapshot.timestamp}  ${snapshot.subject}`)
+  ].join('\n');
+}
+
+/**
+ * Read a shadowgit:// resource. Throws a ToolError for unknown repositories,
+ * snapshots or paths.
+ */
+async function readResource(context: ToolContext, uri: string): Promise<{ contents: ResourceContents[] }> {
+  const resource = parseResourceUri(uri);
+  const repoPath = context.resolveRepo(resource.repo);
+
+  let text: string;
+  switch (resource.kind) {
+    case 'timeline':
+      text = await readTimeline(context, resource.repo, repoPath);
+      break;
+    case 'commit': {
+      const sha = await resolveCommit(context, repoPath, resource.sha);
+      text = await context.git(repoPath, ['show', '--format=fuller', '--stat', '--patch', ...DIFF_OUTPUT_FLAGS, sha, '--']);
+      break;
+    }
+    case 'file': {
+      const sha = await resolveCommit(context, repoPath, resource.sha);
+      try {
+        text = await context.git(repoPath, ['cat-file', 'blob', `${sha}:${resource.path}`]);
+      } catch (error) {
+        if (!(error instanceof ToolError) || !NOT_A_FILE.test(error.message)) throw error;
+        throw new ToolError(`Error: '${resource.path}' is not a file in snapshot ${shortSha(sha)}.`);
+      }
+      if (text.includes('\0')) {
+        throw new ToolError(`Error: '${resource.path}' is a binary file and cannot be read as a resource.`);
+      }
+      break;
+    }
+  }
+
+  return { contents: [{ uri, mimeType: 'text/plain', text }] };
+}
+
+export {
+  RESOURCE_TEMPLATES,
+  ResourceUri,
+  formatResourceUri,
+  listResources,
+  parseResourceUri,
+  readResource
+};
@@ -4,66 +4,104 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { 
   CallToolRequestSchema, 
-  ListToolsRequestSchema 
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import { execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import { BlobIndex } from './blob-index';
+import { DEFAULT_CONFIG, ServerConfig, configPathFromArgs, loadConfig, repoSettings } from './config';
+import { CommandParseError, tokenizeCommand } from './git-command';
+import { PolicyViolationError, checkDeniedFlags, validateGitArguments } from './git-policy';
+import { JsonFormatError, parseJsonOutput, prepareJsonCommand } from './git-json';
+import { GitExecutionError, GitRunOptions, GitRunner, OutputWindow, WindowedOutput } from './git-runner';
+import { log, setLogLevel } from './logger';
+import { ObjectCache, ObjectQuery, isObjectName, objectQuery, resolveQuery } from './object-cache';
+import {
+  CHARS_PER_TOKEN,
+  PAGE_SIZE,
+  condenseOutput,
+  decodeOutputCursor,
+  encodeOutputCursor,
+  pageLength
+} from './output-pages';
+import {
+  PathRules,
+  checkBlameOutput,
+  checkDeniedArguments,
+  filterDiffOutput,
+  filtersDiffOutput,
+  searchesContent
+} from './path-rules';
+import { canonicalPath, checkRepoAccess } from './repo-access';
+import { RepositoryRegistry } from './repository-registry';
+import { getPrompt, listPrompts } from './prompts';
+import { PRIVATE_KEY_CONTINUED, PRIVATE_KEY_CUT, Redactor, describeRedactions, endsInsidePrivateKey } from './redaction';
+import { RESOURCE_TEMPLATES, ResourceUri, listResources, parseResourceUri, readResource } from './resources';
+import { SnapshotWatcher, readHeadCommit } from './snapshot-watcher';
+import { HISTORY_TOOLS } from './tools';
+import { MCPToolResponse, ToolContext, ToolDefinition, ToolError } from './tools/types';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 const SHADOWGIT_DIR = '.shadowgit.git';
-const TIMEOUT_MS = parseInt(process.env.SHADOWGIT_TIMEOUT || '10000', 10); // Default 10 seconds
-const MAX_BUFFER_SIZE = 10 * 1024 * 1024; // 10MB
-const MAX_COMMAND_LENGTH = 1000; // Maximum git command length
+const CONFIG_FILE = 'mcp-config.json'; // Next to repos.json; limits and policies (see config.ts)
+const MIN_MAX_TOKENS = 100; // Smallest useful max_tokens budget for the git tool
+const MAX_MAX_TOKENS = 500000; // Largest max_tokens budget (about 2MB of output)
 const VERSION = '1.0.0';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
-interface Repository {
-  name: string;
-  path: string;
-}
-
 interface GitCommandArgs {
   repo: string;
   command: string;
+  format?: 'text' | 'json';
+  cursor?: unknown;
+  max_tokens?: unknown;
 }
 
-// The actual response format expected by MCP
-type MCPToolResponse = {
-  content: Array<{
-    type: string;
-    text: string;
-  }>;
-};
-
-// ============================================================================
-// Logging
-// ============================================================================
+// Which part of a command's output the git tool returns
+interface GitOutputPage {
+  repo: string;          // as the caller named it, for the next cursor
+  offset: number;        // bytes of output returned by earlier pages
+  head?: string | null;  // HEAD when the first page was read (continuations only)
+  maxTokens?: number;
+  hiding?: string;       // denied file whose diff the page starts inside
+  privateKey?: boolean;  // the page starts inside a private key block
+}
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+// A tokenized and policy-checked command, or the error to report
+type ParsedGitCommand =
+  | { ok: true; argv: string[] }
+  | { ok: false; error: string };
 
-const LOG_LEVELS: Record<LogLevel, number> = {
-  debug: 0,
-  info: 1,
-  warn: 2,
-  error: 3
-};
+// Outcome of running git: its stdout, or the error to report (with git's
+// exit status when it ran and failed)
+type GitResult<T = string> =
+  | { ok: true; output: T }
+  | { ok: false; error: string; exitCode?: number };
 
-const CURRENT_LOG_LEVEL = LOG_LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LOG_LEVELS.info;
+// Which repository of a tracked project a command runs in: the ShadowGit
+// history or the project's own .git
+type GitTarget = 'shadow' | 'real';
 
-const log = (level: LogLevel, message: string): void => {
-  if (LOG_LEVELS[level] >= CURRENT_LOG_LEVEL) {
-    const timestamp = new Date().toISOString();
-    process.stderr.write(`[${timestamp}] [shadowgit-mcp] [${level.toUpperCase()}] ${message}\n`);
-  }
-};
+// A tracked repository's working directory, or the error to report
+type RepositoryLookup =
+  | { ok: true; repoPath: string }
+  | { ok: false; error: string };
 
 // ============================================================================
 // Utility Functions
@@ -97,24 +135,25 @@ function fileExists(filePath: string): boolean {
   }
 }
 
-function readJsonFile<T>(filePath: string, defaultValue: T): T {
-  try {
-    if (!fs.existsSync(filePath)) {
-      return defaultValue;
-    }
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return JSON.parse(content) as T;
-  } catch (error) {
-    log('error', `Error reading JSON file ${filePath}: ${error}`);
-    return defaultValue;
-  }
-}
-
 function getShadowgitPath(repoPath: string): string {
   return path.join(repoPath, SHADOWGIT_DIR);
 }
 
-function getGitEnvironment(repoPath: string): NodeJS.ProcessEnv {
+function getRealGitPath(repoPath: string): string {
+  return path.join(repoPath, '.git');
+}
+
+function getGitEnvironment(repoPath: string, target: GitTarget = 'shadow'): NodeJS.ProcessEnv {
+  if (target === 'real') {
+    // The snapshots' objects are readable from the real repository too, so
+    // one command can compare a real commit with a snapshot
+    return {
+      ...process.env,
+      GIT_DIR: getRealGitPath(repoPath),
+      GIT_WORK_TREE: repoPath,
+      GIT_ALTERNATE_OBJECT_DIRECTORIES: path.join(getShadowgitPath(repoPath), 'objects'),
+    };
+  }
   return {
     ...process.env,
     GIT_DIR: getShadowgitPath(repoPath),
@@ -128,28 +167,18 @@ function getGitEnvironment(repoPath: string): NodeJS.ProcessEnv {
 
 class ShadowGitMCPServer {
   private server: Server;
-  private repos: Map<string, string> = new Map(); // name -> path mapping
+  private registry = new RepositoryRegistry(path.join(getStorageLocation(), 'repos.json'));
   private isShuttingDown = false;
+  private gitRunner: GitRunner;
+  private redactor: Redactor;
+  private blobIndex: BlobIndex;
+  private objectCache: ObjectCache<string | WindowedOutput>;
+  private pathRulesByPatterns = new Map<string, PathRules>();
   
-  // Whitelist of safe read-only git commands
-  private readonly SAFE_COMMANDS = new Set([
-    'log', 'diff', 'show', 'blame', 'grep', 'status',
-    'rev-parse', 'rev-list', 'ls-files', 'cat-file',
-    'diff-tree', 'shortlog', 'reflog', 'describe',
-    'branch', 'tag', 'for-each-ref', 'ls-tree',
-    'merge-base', 'cherry', 'count-objects'
-  ]);
-  
-  // Dangerous arguments to block
-  private readonly BLOCKED_ARGS = [
-    '--exec', '--upload-pack', '--receive-pack',
-    '-c', '--config', '--work-tree', '--git-dir',
-    'push', 'pull', 'fetch', 'commit', 'merge',
-    'rebase', 'reset', 'clean', 'checkout', 'add',
-    'rm', 'mv', 'restore', 'stash', 'remote',
-    'submodule', 'worktree', 'filter-branch',
-    'repack', 'gc', 'prune', 'fsck'
-  ];
+  // Subscribed resource URIs (as the client sent them). Only timelines ever
+  // change; commits and files are addressed by SHA.
+  private subscriptions = new Map<string, ResourceUri>();
+  private snapshotWatcher = new SnapshotWatcher((repo) => this.notifyTimelineUpdated(repo));
   
   // Path traversal patterns to block
   private readonly PATH_TRAVERSAL_PATTERNS = [
@@ -160,7 +189,22 @@ class ShadowGitMCPServer {
     '..%5c'
   ];
 
-  constructor() {
+  // Timeouts, buffer limits and allowed commands, globally and per repository
+  constructor(private readonly config: ServerConfig = DEFAULT_CONFIG) {
+    this.gitRunner = new GitRunner({
+      maxConcurrent: config.maxConcurrent,
+      timeoutMs: config.timeoutMs,
+      maxBufferSize: config.maxBufferSize
+    });
+    this.redactor = new Redactor(config.redactionPatterns, config.redactSecrets);
+    this.blobIndex = new BlobIndex(async (repoPath, argv) => {
+      const result = await this.execute(argv, repoPath, options => this.gitRunner.run(argv, options));
+      return result.ok ? result.output : null;
+    });
+    this.objectCache = new ObjectCache(config.objectCacheSize, output =>
+      typeof output === 'string' ? Buffer.byteLength(output) : output.output.length
+    );
+    
     this.server = new Server(
       {
         name: 'shadowgit-mcp',
@@ -168,25 +212,24 @@ class ShadowGitMCPServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: {
+            subscribe: true
+          },
+          prompts: {}
         }
       }
     );
     
-    this.loadRepositories();
+    this.registry.load();
     this.setupHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
   }
 
-  private loadRepositories(): void {
-    const reposPath = path.join(getStorageLocation(), 'repos.json');
-    const repos: Repository[] = readJsonFile(reposPath, []);
-    
-    // Create name -> path mapping (avoid duplicate path entries)
-    repos.forEach((repo: Repository) => {
-      this.repos.set(repo.name, repo.path);
-    });
-    
-    log('info', `Loaded ${repos.length} repositories from ${reposPath}`);
+  // name -> path mapping, replaced as a whole whenever repos.json changes
+  private get repos(): ReadonlyMap<string, string> {
+    return this.registry.repos;
   }
 
   private isGitCommandArgs(args: unknown): args is GitCommandArgs {
@@ -196,7 +239,8 @@ class ShadowGitMCPServer {
       'repo' in args &&
       'command' in args &&
       typeof (args as GitCommandArgs).repo === 'string' &&
-      typeof (args as GitCommandArgs).command === 'string'
+      typeof (args as GitCommandArgs).command === 'string' &&
+      ['text', 'json', undefined].includes((args as GitCommandArgs).format)
     );
   }
 
@@ -213,7 +257,19 @@ Use list_repos() first to see available repositories.
 
 Example usage:
 - git({repo: "shadowgit-app", command: "log --oneline -5"})
-- git({repo: "/Users/alex/project", command: "diff HEAD~1 HEAD"})`,
+- git({repo: "/Users/alex/project", command: "diff HEAD~1 HEAD"})
+- git({repo: "shadowgit-app", command: "log -5 -p", format: "json"})
+
+With format "json", log/show return commits (sha, author, ISO timestamps,
+message, per-file stats, and the diff when -p is given or for show), and
+diff/diff-tree return files -> hunks -> lines with old/new line numbers.
+Presentation flags such as --oneline or --stat are ignored in JSON mode.
+
+Text output is returned in pages of about ${PAGE_SIZE / 1024}KB. When more output
+follows, the response ends with a cursor; call git again with the same repo
+and command plus that cursor for the next page. Set max_tokens to condense
+each page to a budget: commit headers, stats and file headers are kept, and
+the first hunks of each file are shown before later ones.`,
           
           inputSchema: {
             type: 'object',
@@ -225,6 +281,19 @@ Example usage:
               command: {
                 type: 'string',
                 description: 'Git command to execute (read-only commands only) - REQUIRED'
+              },
+              format: {
+                type: 'string',
+                enum: ['text', 'json'],
+                description: 'Output format: "text" (default, raw git output) or "json" (structured; log, show, diff and diff-tree only)'
+              },
+              cursor: {
+                type: 'string',
+                description: 'Cursor from a previous response to fetch the next page of its output (text format only)'
+              },
+              max_tokens: {
+                type: 'number',
+                description: `Approximate token budget for this page (${MIN_MAX_TOKENS}-${MAX_MAX_TOKENS}); output beyond it is condensed or moved to the next page (text format only)`
               }
             },
             required: ['repo', 'command']  // Both parameters are required
@@ -237,33 +306,166 @@ Example usage:
             type: 'object',
             properties: {}
           }
-        }
+        },
+        ...HISTORY_TOOLS.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema
+        }))
       ]
     }));
 
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Handle tool execution; every result is redacted before it is returned
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      return this.redactToolResponse(await this.callTool(name, args, extra.signal));
+    });
+  }
+
+  private async callTool(name: string, args: unknown, signal?: AbortSignal): Promise<MCPToolResponse> {
+    switch (name) {
+      case 'git':
+        return await this.handleGit(args, signal);
+      case 'list_repos':
+        return await this.handleListRepos();
+      default: {
+        const tool = HISTORY_TOOLS.find(candidate => candidate.name === name);
+        if (tool) {
+          return await this.handleTool(tool, args, signal);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Unknown tool: ${name}`
+            }
+          ]
+        };
+      }
+    }
+  }
+
+  // Replace secrets in a tool result and say how many were removed. The
+  // count covers the text the AI reads; structured content is redacted the
+  // same way.
+  private redactToolResponse(response: MCPToolResponse): MCPToolResponse {
+    const counts: Record<string, number> = {};
+    const content = response.content.map(item => ({ ...item, text: this.redactor.redactValue(item.text, counts) }));
+    if (Object.keys(counts).length > 0) {
+      log('info', `Redacted secrets from tool output: ${JSON.stringify(counts)}`);
+      content.push({ type: 'text', text: describeRedactions(counts) });
+    }
+    return {
+      ...response,
+      content,
+      ...(response.structuredContent ? { structuredContent: this.redactor.redactValue(response.structuredContent) } : {})
+    };
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) =>
+      this.withRequestErrors(() => listResources(this.createToolContext(extra.signal), request.params?.cursor))
+    );
+    
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+    
+    // Resource contents stay as stored apart from redacted secrets; the count
+    // is reported in _meta
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+      this.withRequestErrors(async () => {
+        const result = await readResource(this.createToolContext(extra.signal), request.params.uri);
+        const counts: Record<string, number> = {};
+        const contents = this.redactor.redactValue(result.contents, counts);
+        return Object.keys(counts).length > 0 ? { contents, _meta: { redactions: counts } } : { contents };
+      })
+    );
+    
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) =>
+      this.withRequestErrors(async () => {
+        const { uri } = request.params;
+        const resource = parseResourceUri(uri);
+        const lookup = this.findRepository(resource.repo);
+        if (!lookup.ok) throw new ToolError(lookup.error);
+        
+        this.subscriptions.set(uri, resource);
+        if (resource.kind === 'timeline') {
+          this.snapshotWatcher.watch(resource.repo, getShadowgitPath(lookup.repoPath));
+        }
+        return {};
+      })
+    );
+    
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const resource = this.subscriptions.get(request.params.uri);
+      this.subscriptions.delete(request.params.uri);
       
-      switch (name) {
-        case 'git':
-          return await this.handleGit(args);
-        case 'list_repos':
-          return await this.handleListRepos();
-        default:
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Unknown tool: ${name}`
-              }
-            ]
-          };
+      const stillWatched = Array.from(this.subscriptions.values())
+        .some(other => other.kind === 'timeline' && other.repo === resource?.repo);
+      if (resource?.kind === 'timeline' && !stillWatched) {
+        this.snapshotWatcher.unwatch(resource.repo);
       }
+      return {};
     });
   }
 
-  private async handleGit(args: unknown): Promise<MCPToolResponse> {
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts()
+    }));
+    
+    // Prompts fetch their history through the same parsing, policy checks
+    // and runner as the git tool
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+      this.withRequestErrors(async () => {
+        const prompt = await getPrompt(request.params.name, request.params.arguments, {
+          resolveRepo: (repo) => {
+            const lookup = this.findRepository(repo);
+            if (!lookup.ok) throw new ToolError(lookup.error);
+            return lookup.repoPath;
+          },
+          git: async (repoPath, command) => {
+            const result = await this.runGitCommand(command, repoPath, extra.signal);
+            if (!result.ok) throw new ToolError(result.error);
+            return result.output;
+          }
+        });
+        return {
+          ...prompt,
+          messages: prompt.messages.map(message => {
+            const { text, count, counts } = this.redactor.redact(message.content.text);
+            return { ...message, content: { ...message.content, text: count > 0 ? `${text}\n\n${describeRedactions(counts)}` : text } };
+          })
+        };
+      })
+    );
+  }
+
+  // Called (debounced) when a watched repository gets a new snapshot
+  private notifyTimelineUpdated(repo: string): void {
+    for (const [uri, resource] of this.subscriptions) {
+      if (resource.kind !== 'timeline' || resource.repo !== repo) continue;
+      this.server.sendResourceUpdated({ uri }).catch((error) => {
+        log('warn', `Failed to send resource update for ${uri}: ${error}`);
+      });
+    }
+  }
+
+  // Resource and prompt requests have no isError result, so caller-fixable
+  // problems become JSON-RPC "invalid params" errors
+  private async withRequestErrors<T>(handler: () => Promise<T>): Promise<T> {
+    try {
+      return await handler();
+    } catch (error) {
+      if (error instanceof ToolError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message.replace(/^Error: /, ''));
+      }
+      throw error;
+    }
+  }
+
+  private async handleGit(args: unknown, signal?: AbortSignal): Promise<MCPToolResponse> {
     // Type guard for arguments
     if (!this.isGitCommandArgs(args)) {
       return {
@@ -282,45 +484,37 @@ Use list_repos() to see available repositories.`
     }
     
     // Now args is properly typed as GitCommandArgs
-    const repoPath = this.resolveRepoPath(args.repo);
-    
-    if (!repoPath) {
-      const availableRepos = Array.from(this.repos.keys())
-        .filter(key => !key.startsWith('/')) // Only show names, not full paths
-        .join(', ');
-      
+    const lookup = this.findRepository(args.repo);
+    if (!lookup.ok) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error: Repository '${args.repo}' not found.
-
-Available repositories: ${availableRepos || '(none)'}
-
-Use list_repos() for full details, or provide the full path to the repository.`
+            text: lookup.error
           }
         ]
       };
     }
+    const { repoPath } = lookup;
     
-    // Use existing getShadowgitPath utility instead of hardcoding
-    const shadowGitDir = getShadowgitPath(repoPath);
-    if (!fileExists(shadowGitDir)) {
+    const paging = this.parsePaging(args);
+    if (!paging.ok) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error: No ShadowGit repository found at ${repoPath}
-
-The directory exists but doesn't have a ${SHADOWGIT_DIR} folder.
-This repository may not be tracked by ShadowGit yet.`
+            text: paging.error
           }
         ]
       };
     }
     
+    if (args.format === 'json') {
+      return await this.executeGitJson(args.command, repoPath, signal);
+    }
+    
     // Execute git command
-    const result = await this.executeGit(args.command, repoPath);
+    const result = await this.executeGit(args.command, repoPath, signal, paging.page);
     
     return {
       content: [
@@ -332,6 +526,45 @@ This repository may not be tracked by ShadowGit yet.`
     };
   }
 
+  // Validate the cursor and max_tokens arguments of a git call
+  private parsePaging(args: GitCommandArgs): { ok: true; page: GitOutputPage } | { ok: false; error: string } {
+    const page: GitOutputPage = { repo: args.repo, offset: 0 };
+    if (args.cursor === undefined && args.max_tokens === undefined) {
+      return { ok: true, page };
+    }
+    if (args.format === 'json') {
+      return { ok: false, error: "Error: 'cursor' and 'max_tokens' apply to text output only. Limit JSON output with -n or a path instead." };
+    }
+    
+    if (args.max_tokens !== undefined) {
+      const maxTokens = args.max_tokens;
+      if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < MIN_MAX_TOKENS || maxTokens > MAX_MAX_TOKENS) {
+        return { ok: false, error: `Error: 'max_tokens' must be a whole number between ${MIN_MAX_TOKENS} and ${MAX_MAX_TOKENS}.` };
+      }
+      page.maxTokens = maxTokens;
+    }
+    
+    if (args.cursor !== undefined) {
+      const cursor = typeof args.cursor === 'string' ? decodeOutputCursor(args.cursor) : null;
+      if (!cursor) {
+        return { ok: false, error: 'Error: Invalid cursor. Pass the cursor from the previous git response unchanged.' };
+      }
+      if (cursor.repo !== args.repo || cursor.command !== args.command) {
+        return {
+          ok: false,
+          error: `Error: This cursor belongs to a different call (repo '${cursor.repo}', command '${cursor.command}'). Repeat that repo and command with the cursor.`
+        };
+      }
+      page.offset = cursor.offset;
+      page.head = cursor.head;
+      page.hiding = cursor.hiding;
+      page.privateKey = cursor.privateKey;
+      page.maxTokens ??= cursor.maxTokens;
+    }
+    
+    return { ok: true, page };
+  }
+
   private async handleListRepos(): Promise<MCPToolResponse> {
     if (this.repos.size === 0) {
       return {
@@ -358,6 +591,116 @@ This repository may not be tracked by ShadowGit yet.`
     };
   }
 
+  private async handleTool(tool: ToolDefinition, args: unknown, signal?: AbortSignal): Promise<MCPToolResponse> {
+    const context = this.createToolContext(signal);
+    const toolArgs = typeof args === 'object' && args !== null ? args as Record<string, unknown> : {};
+    try {
+      return await tool.handler(toolArgs, context);
+    } catch (error) {
+      if (error instanceof ToolError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: error.message
+            }
+          ],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  // Git access for tools and resources, going through the same runner and
+  // error messages as the git tool
+  private createToolContext(signal?: AbortSignal): ToolContext {
+    return {
+      signal,
+      repos: this.repos,
+      resolveRepo: (repo) => {
+        const lookup = this.findRepository(repo);
+        if (!lookup.ok) throw new ToolError(lookup.error);
+        return lookup.repoPath;
+      },
+      git: async (repoPath, argv) => {
+        const result = await this.runGit(argv, repoPath, signal);
+        if (!result.ok) throw new ToolError(result.error);
+        return result.output;
+      },
+      gitCheck: async (repoPath, argv) => {
+        const result = await this.runGit(argv, repoPath, signal);
+        if (result.ok) return true;
+        if (result.exitCode === 1) return false;
+        throw new ToolError(result.error);
+      },
+      realGit: async (repoPath, argv) => {
+        if (!fileExists(getRealGitPath(repoPath))) {
+          throw new ToolError(`Error: ${repoPath} has no .git repository of its own to compare with.`);
+        }
+        const result = await this.runGit(argv, repoPath, signal, 'real');
+        if (!result.ok) throw new ToolError(result.error);
+        return result.output;
+      },
+      withSignal: (scoped) => this.createToolContext(scoped)
+    };
+  }
+
+  // Resolve a repository name or path and make sure ShadowGit tracks it
+  private findRepository(repoNameOrPath: string): RepositoryLookup {
+    let repoPath = this.resolveRepoPath(repoNameOrPath);
+    
+    if (!repoPath) {
+      const availableRepos = Array.from(this.repos.keys())
+        .filter(key => !key.startsWith('/')) // Only show names, not full paths
+        .join(', ');
+      const hint = this.config.repoAccess === 'registered'
+        ? 'Use list_repos() for full details.'
+        : 'Use list_repos() for full details, or provide the full path to the repository.';
+      
+      return {
+        ok: false,
+        error: `Error: Repository '${repoNameOrPath}' not found.
+
+Available repositories: ${availableRepos || '(none)'}
+
+${hint}`
+      };
+    }
+    
+    // Paths that are not in repos.json must pass the repoAccess policy
+    const access = checkRepoAccess(repoPath, this.config, this.repos.values());
+    if (!access.allowed) {
+      log('warn', `Blocked repository path by repoAccess policy "${this.config.repoAccess}": ${repoNameOrPath}`);
+      return {
+        ok: false,
+        error: `Error: Repository path '${repoNameOrPath}' is blocked by the repoAccess policy "${this.config.repoAccess}": ${access.reason}.
+
+Use list_repos() to see the repositories you can query.`
+      };
+    }
+    
+    // Under a restrictive policy, run git in the checked (symlink-free) path
+    // rather than in one a symlink could later redirect
+    if (this.config.repoAccess !== 'any' && !this.repos.has(repoNameOrPath)) {
+      repoPath = canonicalPath(repoPath);
+    }
+    
+    // Use existing getShadowgitPath utility instead of hardcoding
+    const shadowGitDir = getShadowgitPath(repoPath);
+    if (!fileExists(shadowGitDir)) {
+      return {
+        ok: false,
+        error: `Error: No ShadowGit repository found at ${repoPath}
+
+The directory exists but doesn't have a ${SHADOWGIT_DIR} folder.
+This repository may not be tracked by ShadowGit yet.`
+      };
+    }
+    
+    return { ok: true, repoPath };
+  }
+
   private resolveRepoPath(repoNameOrPath: string): string | null {
     // Validate input for path traversal attempts
     for (const pattern of this.PATH_TRAVERSAL_PATTERNS) {
@@ -395,73 +738,396 @@ This repository may not be tracked by ShadowGit yet.`
     return null;
   }
 
-  private async executeGit(command: string, repoPath: string): Promise<string> {
+  // Run a git tool command and return one page of its output, with a cursor
+  // for the next page when there is more
+  private async executeGit(
+    command: string,
+    repoPath: string,
+    signal?: AbortSignal,
+    page: GitOutputPage = { repo: repoPath, offset: 0 }
+  ): Promise<string> {
+    const parsed = this.parseGitCommand(command, repoPath);
+    if (!parsed.ok) return parsed.error;
+    const guarded = await this.applyPathRules(parsed.argv, repoPath);
+    if (!guarded.ok) return guarded.error;
+    
+    // A token budget larger than a page reads a larger page
+    const limit = Math.max(PAGE_SIZE, (page.maxTokens ?? 0) * CHARS_PER_TOKEN);
+    const result = await this.runGitWindow(guarded.argv, repoPath, { skip: page.offset, limit }, signal);
+    if (!result.ok) return result.error;
+    
+    const { output, complete } = result.output;
+    let length = pageLength(output, complete);
+    let raw = output.subarray(0, length).toString('utf8');
+    let text = raw;
+    if (page.maxTokens !== undefined) {
+      const condensed = condenseOutput(text, page.maxTokens * CHARS_PER_TOKEN);
+      raw = raw.slice(0, condensed.consumed);
+      length = Buffer.byteLength(raw);
+      text = condensed.text;
+    }
+    
+    // Cut out diffs of denied files; a page can end inside one, and the
+    // next page has to go on hiding it
+    const rules = this.pathRules(repoPath);
+    if (rules.active && parsed.argv[0] === 'blame') {
+      const refused = this.refuseBlameOutput(raw, rules, repoPath);
+      if (refused) return refused.error;
+    }
+    let hiding: string | null = null;
+    let visible = raw;
+    if (rules.active && filtersDiffOutput(parsed.argv[0])) {
+      const filtered = filterDiffOutput(text, rules, page.hiding ?? null);
+      const filteredRaw = text === raw ? filtered : filterDiffOutput(raw, rules, page.hiding ?? null);
+      hiding = filteredRaw.hiding;
+      visible = filteredRaw.text;
+      text = filtered.text;
+    }
+    
+    // Mark a page break inside a private key block, so redaction covers
+    // the block on both pages
+    const inPrivateKey = endsInsidePrivateKey(visible, page.privateKey);
+    if (page.privateKey && text) {
+      text = `${PRIVATE_KEY_CONTINUED}\n${text}`;
+    }
+    
+    if (!text) {
+      text = page.offset > 0 ? '(no more output)' : '(empty output)';
+    }
+    
+    const head = readHeadCommit(getShadowgitPath(repoPath));
+    if (page.offset > 0) {
+      const moved = page.head !== undefined && page.head !== head
+        ? ' New snapshots were taken since the first page, so pages may not line up exactly.'
+        : '';
+      text = `(Continuing from byte ${page.offset} of the output.${moved})\n\n${text}`;
+    }
+    
+    if (!complete || length < output.length) {
+      if (inPrivateKey) text += `\n${PRIVATE_KEY_CUT}`;
+      const cursor = encodeOutputCursor({
+        repo: page.repo,
+        command,
+        offset: page.offset + length,
+        head: page.head !== undefined ? page.head : head,
+        ...(page.maxTokens !== undefined ? { maxTokens: page.maxTokens } : {}),
+        ...(hiding !== null ? { hiding } : {}),
+        ...(inPrivateKey ? { privateKey: true } : {})
+      });
+      text += `\n--- More output follows. Call git again with the same repo and command and cursor: "${cursor}" ---`;
+    }
+    return text;
+  }
+
+  // Parse, policy-check and run a command string from the git tool (or a prompt)
+  private async runGitCommand(command: string, repoPath: string, signal?: AbortSignal): Promise<GitResult> {
+    const parsed = this.parseGitCommand(command, repoPath);
+    if (!parsed.ok) return parsed;
+    return this.runGit(parsed.argv, repoPath, signal);
+  }
+
+  private async executeGitJson(command: string, repoPath: string, signal?: AbortSignal): Promise<MCPToolResponse> {
+    const errorResponse = (text: string): MCPToolResponse => ({
+      content: [{ type: 'text', text }],
+      isError: true
+    });
+    
+    const parsed = this.parseGitCommand(command, repoPath);
+    if (!parsed.ok) return errorResponse(parsed.error);
+    
+    try {
+      const argv = prepareJsonCommand(parsed.argv);
+      const result = await this.runGit(argv, repoPath, signal);
+      if (!result.ok) return errorResponse(result.error);
+      
+      const structured = parseJsonOutput(argv[0], result.output);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(structured, null, 2)
+          }
+        ],
+        structuredContent: structured
+      };
+    } catch (error) {
+      if (error instanceof JsonFormatError) {
+        return errorResponse(`Error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private parseGitCommand(command: string, repoPath: string): ParsedGitCommand {
+    const { maxCommandLength, allowedCommands } = repoSettings(this.config, repoPath, this.repos);
+    
     // Check command length
-    if (command.length > MAX_COMMAND_LENGTH) {
-      return `Error: Command too long (max ${MAX_COMMAND_LENGTH} characters).`;
+    if (command.length > maxCommandLength) {
+      return { ok: false, error: `Error: Command too long (max ${maxCommandLength} characters).` };
     }
     
     // Remove any null bytes or control characters
     const sanitizedCommand = command.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
     
+    // Tokenize with shell quoting rules; shell operators are rejected here
+    let argv: string[];
+    try {
+      argv = tokenizeCommand(sanitizedCommand);
+    } catch (error) {
+      if (error instanceof CommandParseError) {
+        return { ok: false, error: `Error: ${error.message}` };
+      }
+      throw error;
+    }
+    
+    if (argv.length === 0) {
+      return { ok: false, error: 'Error: No git command provided.' };
+    }
+    
     // Safety check 1: Extract and validate command
-    const parts = sanitizedCommand.trim().split(/\s+/);
-    const gitCommand = parts[0];
+    const gitCommand = argv[0];
     
-    if (!this.SAFE_COMMANDS.has(gitCommand)) {
-      return `Error: Command '${gitCommand}' is not allowed. Only read-only commands are permitted.
+    // Whitelist of safe read-only git commands (see git-policy.ts for the
+    // flags each one accepts), possibly narrowed by the configuration
+    if (!allowedCommands.includes(gitCommand)) {
+      return {
+        ok: false,
+        error: `Error: Command '${gitCommand}' is not allowed. Only read-only commands are permitted.
 
-Allowed commands: ${Array.from(this.SAFE_COMMANDS).join(', ')}`;
+Allowed commands: ${allowedCommands.join(', ')}`
+      };
+    }
+    
+    // Safety check 2: Validate every argument against the command's policy
+    try {
+      validateGitArguments(argv);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return { ok: false, error: `Error: ${error.message} (rule: ${error.rule})` };
+      }
+      throw error;
     }
     
-    // Safety check 2: Block dangerous arguments
-    for (const blocked of this.BLOCKED_ARGS) {
-      if (command.includes(blocked)) {
-        return `Error: Argument '${blocked}' is not allowed for safety reasons.`;
+    return { ok: true, argv };
+  }
+
+  // Run a command with the repository's denyPaths rules applied. Every git
+  // call made for a tool, resource or prompt goes through here, so flags no
+  // command may use are checked here too.
+  private async runGit(argv: string[], repoPath: string, signal?: AbortSignal, target: GitTarget = 'shadow'): Promise<GitResult> {
+    try {
+      checkDeniedFlags(argv);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        return { ok: false, error: `Error: ${error.message} (rule: ${error.rule})` };
       }
+      throw error;
     }
     
+    const guarded = await this.applyPathRules(argv, repoPath, target);
+    if (!guarded.ok) return guarded;
+    
+    const result = await this.cached(guarded.argv, repoPath, 'all', signal, command =>
+      this.execute(command, repoPath, options => this.gitRunner.run(command, options), signal, target),
+      target
+    );
+    const rules = this.pathRules(repoPath);
+    if (!result.ok || !rules.active) return result;
+    if (argv[0] === 'blame') {
+      const refused = this.refuseBlameOutput(result.output, rules, repoPath);
+      return refused ?? result;
+    }
+    if (!filtersDiffOutput(argv[0])) return result;
+    return { ok: true, output: filterDiffOutput(result.output, rules).text };
+  }
+  
+  // The error to return instead of blame output that comes from a denied file
+  private refuseBlameOutput(output: string, rules: PathRules, repoPath: string): { ok: false; error: string } | null {
+    try {
+      checkBlameOutput(output, rules);
+      return null;
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        log('warn', `Blocked by denyPaths rules in ${repoPath}: ${error.rule}`);
+        return { ok: false, error: `Error: ${error.message} (rule: ${error.rule})` };
+      }
+      throw error;
+    }
+  }
+
+  private pathRules(repoPath: string): PathRules {
+    const { denyPaths } = repoSettings(this.config, repoPath, this.repos);
+    const key = denyPaths.join('\n');
+    let rules = this.pathRulesByPatterns.get(key);
+    if (!rules) {
+      rules = new PathRules(denyPaths);
+      this.pathRulesByPatterns.set(key, rules);
+    }
+    return rules;
+  }
+
+  // Reject commands that name denied paths or blobs, and make grep skip
+  // denied files. Returns the argv to run. Blobs are looked up in the
+  // snapshot history either way; arguments are resolved where the command runs.
+  private async applyPathRules(argv: string[], repoPath: string, target: GitTarget = 'shadow'): Promise<ParsedGitCommand> {
+    const rules = this.pathRules(repoPath);
+    if (!rules.active) return { ok: true, argv };
+    
+    const resolve = target === 'real'
+      ? async (_repoPath: string, command: string[]): Promise<string | null> => {
+        const result = await this.execute(command, repoPath, options => this.gitRunner.run(command, options), undefined, target);
+        return result.ok ? result.output : null;
+      }
+      : undefined;
+    try {
+      checkDeniedArguments(argv, rules);
+      await this.blobIndex.checkObjectArguments(repoPath, readHeadCommit(getShadowgitPath(repoPath)), argv, rules, resolve);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        log('warn', `Blocked by denyPaths rules in ${repoPath}: ${error.rule}`);
+        return { ok: false, error: `Error: ${error.message} (rule: ${error.rule})` };
+      }
+      throw error;
+    }
+    return { ok: true, argv: searchesContent(argv) ? [...argv, ...rules.excludePathspecs()] : argv };
+  }
+
+  private runGitWindow(
+    argv: string[],
+    repoPath: string,
+    window: OutputWindow,
+    signal?: AbortSignal
+  ): Promise<GitResult<WindowedOutput>> {
+    return this.cached(argv, repoPath, `${window.skip}+${window.limit}`, signal, command =>
+      this.execute(command, repoPath, options => this.gitRunner.runWindow(command, options, window), signal)
+    );
+  }
+
+  // Serve commands on fixed objects from the object cache, keyed on their
+  // resolved form (see object-cache.ts). `variant` tells apart different
+  // reads of the same command, such as output windows; the real repository
+  // has its own configuration, so its entries are kept apart too.
+  private async cached<T extends string | WindowedOutput>(
+    argv: string[],
+    repoPath: string,
+    variant: string,
+    signal: AbortSignal | undefined,
+    run: (argv: string[]) => Promise<GitResult<T>>,
+    target: GitTarget = 'shadow'
+  ): Promise<GitResult<T>> {
+    const query = this.objectCache.enabled ? objectQuery(argv) : null;
+    const resolved = query ? await this.resolveObjectQuery(query, repoPath, signal, target) : null;
+    if (!resolved) return run(argv);
+    
+    const key = [repoPath, target, variant, ...resolved].join('\0');
+    const hit = this.objectCache.get(key);
+    if (hit !== undefined) return { ok: true, output: hit as T };
+    
+    // Run the resolved command, so the output matches the key even if HEAD
+    // moves in the meantime
+    const result = await run(resolved);
+    if (result.ok) this.objectCache.set(key, result.output);
+    return result;
+  }
+
+  // The command with every revision replaced by its full object name, or
+  // null when one does not resolve (e.g. a path given without '--')
+  private async resolveObjectQuery(
+    query: ObjectQuery,
+    repoPath: string,
+    signal?: AbortSignal,
+    target: GitTarget = 'shadow'
+  ): Promise<string[] | null> {
+    const revisions = query.revisions.filter(revision => !isObjectName(revision));
+    const objects = new Map<string, string>();
+    if (revisions.length > 0) {
+      const { timeoutMs, maxBufferSize } = repoSettings(this.config, repoPath, this.repos);
+      let output: string;
+      try {
+        output = await this.gitRunner.run(['rev-parse', ...revisions, '--'], {
+          cwd: repoPath,
+          env: getGitEnvironment(repoPath, target),
+          signal,
+          timeoutMs,
+          maxBufferSize
+        });
+      } catch {
+        log('debug', 'Not caching: revisions did not resolve');
+        return null;
+      }
+      const names = output.split('\n').slice(0, revisions.length);
+      if (!names.every(isObjectName)) return null;
+      revisions.forEach((revision, i) => objects.set(revision, names[i]));
+    }
+    return resolveQuery(query, objects);
+  }
+
+  private async execute<T>(
+    argv: string[],
+    repoPath: string,
+    run: (options: GitRunOptions) => Promise<T>,
+    signal?: AbortSignal,
+    target: GitTarget = 'shadow'
+  ): Promise<GitResult<T>> {
     // Log command execution (sanitized for security)
-    log('debug', `Executing git command in ${repoPath}: ${gitCommand} [args hidden]`);
+    log('debug', `Executing git command in ${repoPath}: ${argv[0]} [args hidden]`);
     
-    // Execute git command with proper environment
+    // Execute git directly (no shell) so the validated argv is exactly what runs.
+    // Commands beyond maxConcurrent wait in the runner's queue.
+    if (this.gitRunner.activeCount >= this.config.maxConcurrent) {
+      log('debug', `Queued behind ${this.gitRunner.queuedCount} waiting command(s)`);
+    }
+    const { timeoutMs, maxBufferSize } = repoSettings(this.config, repoPath, this.repos);
     const startTime = Date.now();
     try {
-      const output = execSync(`git ${sanitizedCommand}`, {
+      const output = await run({
         cwd: repoPath,
-        env: getGitEnvironment(repoPath),
-        encoding: 'utf8',
-        timeout: TIMEOUT_MS,
-        maxBuffer: MAX_BUFFER_SIZE
+        env: getGitEnvironment(repoPath, target),
+        signal,
+        timeoutMs,
+        maxBufferSize
       });
       
       const executionTime = Date.now() - startTime;
       log('debug', `Command completed in ${executionTime}ms`);
-      return output || '(empty output)';
+      return { ok: true, output };
       
     } catch (error: any) {
       const executionTime = Date.now() - startTime;
-      log('error', `Command failed after ${executionTime}ms: ${error.message}`);
+      
+      if (!(error instanceof GitExecutionError)) {
+        log('error', `Command failed after ${executionTime}ms: ${error.message}`);
+        return { ok: false, error: `Error executing git command: ${error.message?.substring(0, 200)}` };
+      }
+      
+      if (error.reason === 'cancelled') {
+        log('info', `Command cancelled by client after ${executionTime}ms`);
+        return { ok: false, error: 'Error: Command was cancelled.' };
+      }
+      
+      // Exit status 1 is how grep and friends say "no match"
+      const exitCode = error.details.exitCode;
+      log(exitCode === 1 ? 'debug' : 'error', `Command failed after ${executionTime}ms: ${error.message}`);
       
       // Handle specific error cases
-      if (error.code === 'ENOENT') {
-        return 'Error: Git is not installed or not in PATH. Please install git and try again.';
+      if (error.reason === 'spawn' && error.details.code === 'ENOENT') {
+        return { ok: false, error: 'Error: Git is not installed or not in PATH. Please install git and try again.' };
       }
-      if (error.signal === 'SIGTERM') {
-        return `Error: Command timed out (${TIMEOUT_MS / 1000} second limit). Try a simpler query.`;
+      if (error.reason === 'timeout') {
+        return { ok: false, error: `Error: Command timed out (${timeoutMs / 1000} second limit). Try a simpler query.` };
       }
-      if (error.code === 'ENOBUFS' || error.message?.includes('maxBuffer')) {
-        return 'Error: Output too large. Try limiting the results (e.g., use -n flag or --max-count).';
+      if (error.reason === 'max-buffer') {
+        return { ok: false, error: 'Error: Output too large. Try limiting the results (e.g., use -n flag or --max-count).' };
       }
-      if (error.status === 128) {
-        const stderr = error.stderr?.toString() || error.message;
+      if (exitCode === 128) {
+        const stderr = error.details.stderr || error.message;
         // Sanitize error messages that might contain sensitive paths
         const sanitizedError = stderr.replace(/\/[^\s]*/g, '[path]');
-        return `Git error: ${sanitizedError}`;
+        return { ok: false, error: `Git error: ${sanitizedError}`, exitCode };
       }
       
       // Generic error
-      return `Error executing git command: ${error.message?.substring(0, 200)}`;
+      return { ok: false, error: `Error executing git command: ${error.message.substring(0, 200)}`, exitCode };
     }
   }
 
@@ -480,8 +1146,16 @@ Allowed commands: ${Array.from(this.SAFE_COMMANDS).join(', ')}`;
     
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+    this.registry.watch();
     log('info', `Server started with ${this.repos.size} repositories`);
-    log('info', `Version: ${VERSION}, Timeout: ${TIMEOUT_MS}ms, Log Level: ${process.env.LOG_LEVEL || 'info'}`);
+    log('info', `Version: ${VERSION}, Timeout: ${this.config.timeoutMs}ms, Max Concurrent: ${this.config.maxConcurrent}, Log Level: ${this.config.logLevel}`);
+    if (this.config.denyPaths.length > 0) {
+      log('info', `Denied paths: ${this.config.denyPaths.join(', ')}`);
+    }
+    const overridden = Object.keys(this.config.repos);
+    if (overridden.length > 0) {
+      log('info', `Per-repository settings for: ${overridden.join(', ')}`);
+    }
   }
   
   private shutdown(signal: string): void {
@@ -489,6 +1163,8 @@ Allowed commands: ${Array.from(this.SAFE_COMMANDS).join(', ')}`;
     this.isShuttingDown = true;
     
     log('info', `Received ${signal}, shutting down gracefully...`);
+    this.registry.close();
+    this.snapshotWatcher.close();
     
     // Give ongoing requests time to complete
     setTimeout(() => {
@@ -502,7 +1178,12 @@ Allowed commands: ${Array.from(this.SAFE_COMMANDS).join(', ')}`;
 // ============================================================================
 
 async function main(): Promise<void> {
-  const server = new ShadowGitMCPServer();
+  // An invalid configuration stops startup with every problem listed
+  const configPath = configPathFromArgs(process.argv.slice(2));
+  const config = loadConfig(configPath ?? path.join(getStorageLocation(), CONFIG_FILE), configPath !== undefined);
+  setLogLevel(config.logLevel);
+  
+  const server = new ShadowGitMCPServer(config);
   await server.start();
 }
 
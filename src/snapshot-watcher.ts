@@ -0,0 +1,144 @@
+// ============================================================================
+// Snapshot Watcher
+// ============================================================================
+//
+// Notices new ShadowGit snapshots without polling git. ShadowGit advances the
+// branch ref in `.shadowgit.git` on every auto-commit, so the ref files are
+// watched and HEAD is re-read (from the ref files, no git process) once the
+// events settle. A callback fires only when the commit HEAD points to
+// actually changed, so index writes and lock files are ignored.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+
+// One save can produce several commits in quick succession
+const SNAPSHOT_DEBOUNCE_MS = 1000;
+
+// Files directly inside the git directory that can move HEAD
+const GIT_DIR_FILES = new Set(['HEAD', 'packed-refs']);
+
+interface WatchedRepository {
+  gitDir: string;
+  watchers: fs.FSWatcher[];
+  timer: NodeJS.Timeout | null;
+  head: string | null;
+}
+
+function readFile(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The commit HEAD points to, read straight from the ref files (loose ref
+ * first, then packed-refs). Null if the repository has no commits.
+ */
+function readHeadCommit(gitDir: string): string | null {
+  const head = readFile(path.join(gitDir, 'HEAD'))?.trim();
+  if (!head) return null;
+  if (!head.startsWith('ref: ')) return head; // detached HEAD
+
+  const ref = head.slice('ref: '.length);
+  const loose = readFile(path.join(gitDir, ref))?.trim();
+  if (loose) return loose;
+
+  const packed = readFile(path.join(gitDir, 'packed-refs')) ?? '';
+  for (const line of packed.split('\n')) {
+    const [sha, name] = line.trim().split(' ');
+    if (name === ref) return sha;
+  }
+  return null;
+}
+
+// Directory holding the loose ref HEAD points to, e.g. refs/heads
+function headRefDirectory(gitDir: string): string {
+  const head = readFile(path.join(gitDir, 'HEAD'))?.trim() ?? '';
+  const ref = head.startsWith('ref: ') ? head.slice('ref: '.length) : 'refs/heads/master';
+  return path.dirname(path.join(gitDir, ref));
+}
+
+class SnapshotWatcher {
+  private readonly repositories = new Map<string, WatchedRepository>();
+
+  constructor(
+    private readonly onSnapshot: (repo: string, head: string) => void,
+    private readonly debounceMs = SNAPSHOT_DEBOUNCE_MS
+  ) {}
+
+  get watchedRepos(): string[] {
+    return Array.from(this.repositories.keys());
+  }
+
+  /**
+   * Start watching a repository's ShadowGit directory. Watching the same
+   * directory again is a no-op; a new directory for the same name replaces
+   * the old watch.
+   */
+  watch(repo: string, gitDir: string): void {
+    const existing = this.repositories.get(repo);
+    if (existing?.gitDir === gitDir) return;
+    if (existing) this.unwatch(repo);
+
+    const entry: WatchedRepository = { gitDir, watchers: [], timer: null, head: readHeadCommit(gitDir) };
+    const targets: Array<[string, (file: string | null) => boolean]> = [
+      [gitDir, file => file === null || GIT_DIR_FILES.has(file)],
+      [headRefDirectory(gitDir), file => file === null || !file.endsWith('.lock')]
+    ];
+
+    for (const [directory, relevant] of targets) {
+      try {
+        const watcher = fs.watch(directory, (_event, changedFile) => {
+          if (relevant(changedFile ? changedFile.toString() : null)) this.schedule(repo, entry);
+        });
+        watcher.on('error', (error) => {
+          log('warn', `Stopped watching ${directory} for snapshots: ${error}`);
+          watcher.close();
+        });
+        entry.watchers.push(watcher);
+      } catch (error) {
+        log('warn', `Cannot watch ${directory} for snapshots: ${error}`);
+      }
+    }
+
+    this.repositories.set(repo, entry);
+    log('debug', `Watching ${repo} for new snapshots`);
+  }
+
+  unwatch(repo: string): void {
+    const entry = this.repositories.get(repo);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.watchers.forEach(watcher => watcher.close());
+    this.repositories.delete(repo);
+    log('debug', `Stopped watching ${repo} for new snapshots`);
+  }
+
+  close(): void {
+    for (const repo of this.watchedRepos) {
+      this.unwatch(repo);
+    }
+  }
+
+  private schedule(repo: string, entry: WatchedRepository): void {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.check(repo, entry);
+    }, this.debounceMs);
+    entry.timer.unref();
+  }
+
+  private check(repo: string, entry: WatchedRepository): void {
+    const head = readHeadCommit(entry.gitDir);
+    if (!head || head === entry.head) return;
+    entry.head = head;
+    log('debug', `New snapshot in ${repo}: ${head.slice(0, 8)}`);
+    this.onSnapshot(repo, head);
+  }
+}
+
+export { SnapshotWatcher, readHeadCommit };
@@ -0,0 +1,282 @@
+// ============================================================================
+// analyze_churn Tool
+// ============================================================================
+//
+// Where was time spent, and where did someone get stuck? Reads the patches
+// of every snapshot in a window once and reports the most edited files and
+// functions (from the function names git puts in hunk headers), snapshots
+// per hour, and "flapping" lines: lines removed and later put back, often
+// several times, which ShadowGit's per-save history makes visible.
+
+import { Commit, parseCommits, prepareJsonCommand } from '../git-json';
+import { optionalNumber, optionalPaths, optionalString, requireString } from './args';
+import { requireHead, shortSha } from './history';
+import { windowArgs } from './summarize-sessions';
+import { describeTimeSpec, parseTimeSpec } from './time-spec';
+import { ToolDefinition, textResponse } from './types';
+
+const DEFAULT_TOP = 10;
+
+// Snapshots read per call; patches make these larger than plain log entries
+const MAX_SCANNED_SNAPSHOTS = 2000;
+
+// Lines too short or without a letter or digit (`}`, `);`, blank) come and
+// go with every edit and say nothing about being stuck
+const MIN_FLAP_LENGTH = 4;
+
+interface FileChurn {
+  path: string;
+  snapshots: number;  // snapshots that changed the file
+  additions: number;
+  deletions: number;
+}
+
+interface FunctionChurn {
+  path: string;
+  name: string;       // function context from the hunk header
+  snapshots: number;
+  lines: number;      // lines added and removed
+}
+
+interface HourActivity {
+  hour: string;       // "2024-05-01T14", in the snapshots' own time zone
+  snapshots: number;
+  lines: number;
+}
+
+interface FlappingLine {
+  path: string;
+  content: string;    // trimmed
+  restored: number;   // times the line was put back after being removed
+  snapshots: string[]; // snapshots that removed or restored it, oldest first
+  first: string;      // ISO 8601
+  last: string;
+}
+
+function isMeaningful(content: string): boolean {
+  return content.length >= MIN_FLAP_LENGTH && /[A-Za-z0-9]/.test(content);
+}
+
+function countBy<T>(items: Map<string, T>, key: string, create: () => T): T {
+  let item = items.get(key);
+  if (!item) {
+    item = create();
+    items.set(key, item);
+  }
+  return item;
+}
+
+/**
+ * Files and functions ranked by the number of snapshots that changed them,
+ * and snapshots and changed lines per hour. `commits` are oldest first.
+ */
+function summarizeChurn(commits: Commit[]): { files: FileChurn[]; functions: FunctionChurn[]; hours: HourActivity[] } {
+  const files = new Map<string, FileChurn>();
+  const functions = new Map<string, FunctionChurn>();
+  const hours = new Map<string, HourActivity>();
+
+  for (const commit of commits) {
+    const hour = countBy(hours, commit.committedAt.slice(0, 13), () => ({
+      hour: commit.committedAt.slice(0, 13), snapshots: 0, lines: 0
+    }));
+    hour.snapshots++;
+
+    for (const stat of commit.files) {
+      const file = countBy(files, stat.path, () => ({ path: stat.path, snapshots: 0, additions: 0, deletions: 0 }));
+      file.snapshots++;
+      file.additions += stat.additions ?? 0;
+      file.deletions += stat.deletions ?? 0;
+      hour.lines += (stat.additions ?? 0) + (stat.deletions ?? 0);
+    }
+
+    const touched = new Set<string>();
+    for (const diff of commit.diff ?? []) {
+      const path = diff.newPath ?? diff.oldPath ?? '';
+      for (const hunk of diff.hunks) {
+        const name = hunk.section?.trim();
+        if (!name) continue;
+        const key = `${path}\0${name}`;
+        const fn = countBy(functions, key, () => ({ path, name, snapshots: 0, lines: 0 }));
+        fn.lines += hunk.lines.filter(line => line.type !== 'context').length;
+        if (!touched.has(key)) fn.snapshots++;
+        touched.add(key);
+      }
+    }
+  }
+
+  const byChurn = <T extends { snapshots: number }>(a: T, b: T, lines: (item: T) => number): number =>
+    b.snapshots - a.snapshots || lines(b) - lines(a);
+  return {
+    files: Array.from(files.values())
+      .sort((a, b) => byChurn(a, b, file => file.additions + file.deletions) || a.path.localeCompare(b.path)),
+    functions: Array.from(functions.values())
+      .sort((a, b) => byChurn(a, b, fn => fn.lines) || a.path.localeCompare(b.path)),
+    hours: Array.from(hours.values()).sort((a, b) => a.hour.localeCompare(b.hour))
+  };
+}
+
+/**
+ * Lines removed in one snapshot and put back in a later one, per file.
+ * A line removed and added in the same snapshot was moved or re-indented,
+ * not changed, and is skipped. `commits` are oldest first.
+ */
+function findFlappingLines(commits: Commit[]): FlappingLine[] {
+  // path -> trimmed content -> the line's history so far; `removedBy` is
+  // set while the line is gone
+  const history = new Map<string, Map<string, { removedBy?: Commit; flap?: FlappingLine }>>();
+  const flapping: FlappingLine[] = [];
+
+  for (const commit of commits) {
+    for (const diff of commit.diff ?? []) {
+      const path = diff.newPath ?? diff.oldPath ?? '';
+      const added = new Set<string>();
+      const removed = new Set<string>();
+      for (const line of diff.hunks.flatMap(hunk => hunk.lines)) {
+        const content = line.content.trim();
+        if (line.type === 'add') added.add(content);
+        if (line.type === 'delete') removed.add(content);
+      }
+
+      const lines = countBy(history, path, () => new Map());
+      for (const content of removed) {
+        if (added.has(content) || !isMeaningful(content)) continue;
+        const state = countBy(lines, content, () => ({}));
+        state.removedBy = commit;
+        if (state.flap) {
+          state.flap.snapshots.push(commit.sha);
+          state.flap.last = commit.committedAt;
+        }
+      }
+      for (const content of added) {
+        const state = lines.get(content);
+        const removedBy = state?.removedBy;
+        if (removed.has(content) || !state || !removedBy) continue;
+        state.removedBy = undefined;
+        if (!state.flap) {
+          // The first restore; the removal before it is where the flap began
+          state.flap = {
+            path, content, restored: 0, snapshots: [removedBy.sha], first: removedBy.committedAt, last: commit.committedAt
+          };
+          flapping.push(state.flap);
+        }
+        state.flap.restored++;
+        state.flap.snapshots.push(commit.sha);
+        state.flap.last = commit.committedAt;
+      }
+    }
+  }
+
+  return flapping.sort((a, b) => b.restored - a.restored || a.path.localeCompare(b.path));
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+const analyzeChurnTool: ToolDefinition = {
+  name: 'analyze_churn',
+  description:
+    'Analyze editing churn in a time window: the most edited files and functions (from hunk headers), ' +
+    'snapshots and changed lines per hour, and "flapping" lines that were removed and later put back one or more times, ' +
+    'a sign of where someone was stuck. `since`/`until` accept "3 hours ago", "yesterday", "14:32", an ISO timestamp, or a commit SHA.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only include snapshots after this time or commit ("yesterday", "3 hours ago", ISO timestamp, SHA)'
+      },
+      until: {
+        type: 'string',
+        description: 'Only include snapshots up to this time or commit (default: latest snapshot)'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only include changes to these files or directories'
+      },
+      top: {
+        type: 'number',
+        description: `Entries listed per ranking (default: ${DEFAULT_TOP})`
+      }
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const sinceArg = optionalString(args, 'since');
+    const untilArg = optionalString(args, 'until');
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const paths = optionalPaths(args);
+    const top = optionalNumber(args, 'top', { min: 1, max: 100, integer: true }) ?? DEFAULT_TOP;
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+
+    // Without context lines each hunk covers only what changed, so the
+    // function in its header is the one that was edited
+    const argv = prepareJsonCommand([
+      'log', '--unified=0', '--no-merges', `--max-count=${MAX_SCANNED_SNAPSHOTS + 1}`,
+      ...windowArgs(since, until, head), '--', ...paths
+    ]);
+    const newestFirst = parseCommits(await context.git(repoPath, argv));
+    const scanTruncated = newestFirst.length > MAX_SCANNED_SNAPSHOTS;
+    const commits = newestFirst.slice(0, MAX_SCANNED_SNAPSHOTS).reverse();
+
+    const { files, functions, hours } = summarizeChurn(commits);
+    const flapping = findFlappingLines(commits);
+
+    const window = [
+      since ? `since ${describeTimeSpec(since)}` : '',
+      until ? `until ${describeTimeSpec(until)}` : ''
+    ].filter(Boolean).join(', ');
+    const lines = [`Churn in ${repo}${window ? ` (${window})` : ''}: ${plural(commits.length, 'snapshot')}`];
+    if (paths.length > 0) {
+      lines.push(`Paths: ${paths.join(', ')}`);
+    }
+    if (scanTruncated) {
+      lines.push(`Note: only the newest ${MAX_SCANNED_SNAPSHOTS} snapshots were read; use 'since'/'until' to look further back.`);
+    }
+
+    lines.push('', `Most edited files (${files.length}):`);
+    lines.push(...(files.length > 0
+      ? files.slice(0, top).map(file => `  ${file.path}  ${plural(file.snapshots, 'snapshot')}, +${file.additions} -${file.deletions}`)
+      : ['  (none)']));
+
+    lines.push('', `Most edited functions (${functions.length}):`);
+    lines.push(...(functions.length > 0
+      ? functions.slice(0, top).map(fn => `  ${fn.path}: ${fn.name}  ${plural(fn.snapshots, 'snapshot')}, ${plural(fn.lines, 'line')}`)
+      : ['  (none found in hunk headers)']));
+
+    lines.push('', 'Snapshots per hour:');
+    lines.push(...(hours.length > 0
+      ? hours.map(hour => `  ${hour.hour}:00  ${plural(hour.snapshots, 'snapshot')}, ${plural(hour.lines, 'line')} changed`)
+      : ['  (none)']));
+
+    lines.push('', `Flapping lines (${flapping.length}):`);
+    lines.push(...(flapping.length > 0
+      ? flapping.slice(0, top).map(flap =>
+        `  ${flap.path}: ${JSON.stringify(flap.content)}  restored ${flap.restored}x ` +
+          `(${flap.first} -> ${flap.last}, ${flap.snapshots.map(shortSha).join(' ')})`)
+      : ['  (none)']));
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      scannedSnapshots: commits.length,
+      scanTruncated,
+      files: files.slice(0, top),
+      functions: functions.slice(0, top),
+      hours,
+      flapping: flapping.slice(0, top),
+      totals: { files: files.length, functions: functions.length, flapping: flapping.length }
+    });
+  }
+};
+
+export { FlappingLine, analyzeChurnTool, findFlappingLines, summarizeChurn };
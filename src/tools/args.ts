@@ -0,0 +1,108 @@
+// ============================================================================
+// Tool Argument Helpers
+// ============================================================================
+//
+// Tool arguments arrive as untyped JSON. These helpers read one field each
+// and throw a ToolError that names the parameter when it has the wrong type.
+
+import { ToolError } from './types';
+
+type Args = Record<string, unknown>;
+
+function requireString(args: Args, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ToolError(`Error: '${name}' parameter is required and must be a non-empty string.`);
+  }
+  return value;
+}
+
+function optionalString(args: Args, name: string): string | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new ToolError(`Error: '${name}' must be a string.`);
+  }
+  return value.trim() === '' ? undefined : value;
+}
+
+function optionalNumber(args: Args, name: string, options: { min?: number; max?: number; integer?: boolean } = {}): number | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || (options.integer && !Number.isInteger(value))) {
+    throw new ToolError(`Error: '${name}' must be ${options.integer ? 'an integer' : 'a number'}.`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new ToolError(`Error: '${name}' must be at least ${options.min}.`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new ToolError(`Error: '${name}' must be at most ${options.max}.`);
+  }
+  return value;
+}
+
+function optionalBoolean(args: Args, name: string): boolean | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new ToolError(`Error: '${name}' must be true or false.`);
+  }
+  return value;
+}
+
+function optionalEnum<T extends string>(args: Args, name: string, allowed: readonly T[]): T | undefined {
+  const value = optionalString(args, name);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new ToolError(`Error: '${name}' must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+}
+
+function optionalStringArray(args: Args, name: string): string[] {
+  const value = args[name];
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new ToolError(`Error: '${name}' must be a string or an array of strings.`);
+  }
+  return value;
+}
+
+/**
+ * Read path filters. Paths are always passed to git after `--`, but leading
+ * dashes are still rejected so they can never be read as options elsewhere.
+ */
+function optionalPaths(args: Args, name = 'paths'): string[] {
+  const paths = optionalStringArray(args, name);
+  for (const item of paths) {
+    if (item === '' || item.startsWith('-') || item.includes('\0')) {
+      throw new ToolError(`Error: Invalid path '${item}' in '${name}'.`);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Read a revision (a commit SHA, branch or expression like HEAD~2). One
+ * starting with a dash would be read by git as an option.
+ */
+function optionalRevision(args: Args, name: string): string | undefined {
+  const value = optionalString(args, name);
+  if (value !== undefined && !/^[^\s-]\S*$/.test(value)) {
+    throw new ToolError(`Error: Invalid revision '${value}' in '${name}'.`);
+  }
+  return value;
+}
+
+export {
+  Args,
+  optionalBoolean,
+  optionalEnum,
+  optionalNumber,
+  optionalPaths,
+  optionalRevision,
+  optionalString,
+  optionalStringArray,
+  requireString
+};
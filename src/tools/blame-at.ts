@@ -0,0 +1,226 @@
+// ============================================================================
+// blame_at Tool
+// ============================================================================
+//
+// `git blame` on a shadow repository names auto-save SHAs, which mean
+// nothing to a person. This tool blames a file as of a snapshot or time and
+// puts each line's snapshot time next to it, with its age relative to the
+// target ("12 min before target"), and groups consecutive lines from the
+// same snapshot, so an assistant can say "these three lines were added
+// right before the bug appeared".
+
+import { optionalNumber, optionalPaths, optionalString, requireString } from './args';
+import { exists, nameAt } from './file-at';
+import { getSnapshot, requireHead, resolveTimeSpec, shortSha } from './history';
+import { describeTimeSpec, formatDuration, parseTimeSpec } from './time-spec';
+import { ToolDefinition, ToolError, textResponse } from './types';
+
+// Lines returned when no end_line is given
+const MAX_LINES = 2000;
+
+interface BlameLine {
+  line: number;       // line number in the target snapshot
+  sha: string;        // snapshot that introduced the line
+  origLine: number;   // line number in that snapshot
+  path: string;       // the file's name in that snapshot
+  timestamp: string;  // ISO 8601 committer date of that snapshot
+  subject: string;
+  content: string;
+}
+
+interface BlameGroup {
+  sha: string;
+  timestamp: string;
+  subject: string;
+  path: string;
+  age: string;        // "12 min before target", "in target"
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+/**
+ * ISO 8601 time in the committer's time zone, as `%cI` prints it, from
+ * blame's `committer-time` (epoch seconds) and `committer-tz` (+hhmm).
+ */
+function isoTime(epochSeconds: number, tz: string): string {
+  const match = /^([+-])(\d{2})(\d{2})$/.exec(tz);
+  if (!match) return new Date(epochSeconds * 1000).toISOString().replace('.000Z', '+00:00');
+  const offsetMinutes = (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10));
+  const local = new Date((epochSeconds + offsetMinutes * 60) * 1000).toISOString().slice(0, 19);
+  return `${local}${match[1]}${match[2]}:${match[3]}`;
+}
+
+/**
+ * Parse `git blame --porcelain` output. Commit details are printed the
+ * first time a commit appears and apply to its later lines too.
+ */
+function parseBlame(output: string): BlameLine[] {
+  const commits = new Map<string, { time: number; tz: string; subject: string; path: string }>();
+  const lines: BlameLine[] = [];
+  let current: { sha: string; origLine: number; line: number } | null = null;
+
+  for (const text of output.split('\n')) {
+    if (text.startsWith('\t')) {
+      if (!current) continue;
+      const commit = commits.get(current.sha)!;
+      lines.push({
+        ...current,
+        path: commit.path,
+        timestamp: isoTime(commit.time, commit.tz),
+        subject: commit.subject,
+        content: text.slice(1)
+      });
+      continue;
+    }
+
+    const header = /^([0-9a-f]{40,64}) (\d+) (\d+)(?: \d+)?$/.exec(text);
+    if (header) {
+      if (!commits.has(header[1])) commits.set(header[1], { time: 0, tz: '+0000', subject: '', path: '' });
+      current = { sha: header[1], origLine: parseInt(header[2], 10), line: parseInt(header[3], 10) };
+      continue;
+    }
+
+    const space = text.indexOf(' ');
+    const key = space === -1 ? text : text.slice(0, space);
+    const value = space === -1 ? '' : text.slice(space + 1);
+    const commit = current && commits.get(current.sha);
+    if (!current || !commit) continue;
+    if (key === 'committer-time') commit.time = parseInt(value, 10);
+    else if (key === 'committer-tz') commit.tz = value;
+    else if (key === 'summary') commit.subject = value;
+    else if (key === 'filename') commit.path = value;
+  }
+  return lines;
+}
+
+function describeAge(timestamp: string, target: { sha: string; timestamp: string }, sha: string): string {
+  if (sha === target.sha) return 'in target';
+  return `${formatDuration(Date.parse(target.timestamp) - Date.parse(timestamp))} before target`;
+}
+
+/**
+ * Runs of consecutive lines introduced by the same snapshot.
+ */
+function groupBlame(lines: BlameLine[], target: { sha: string; timestamp: string }): BlameGroup[] {
+  const groups: BlameGroup[] = [];
+  for (const line of lines) {
+    const last = groups[groups.length - 1];
+    if (last && last.sha === line.sha && last.endLine === line.line - 1) {
+      last.endLine = line.line;
+      last.lines.push(line.content);
+      continue;
+    }
+    groups.push({
+      sha: line.sha,
+      timestamp: line.timestamp,
+      subject: line.subject,
+      path: line.path,
+      age: describeAge(line.timestamp, target, line.sha),
+      startLine: line.line,
+      endLine: line.line,
+      lines: [line.content]
+    });
+  }
+  return groups;
+}
+
+const blameAtTool: ToolDefinition = {
+  name: 'blame_at',
+  description:
+    'Blame a file as of a snapshot or point in time: for every line, the snapshot that introduced it, that snapshot\'s time, ' +
+    'and its age relative to the target ("12 min before target"), with consecutive lines from the same snapshot grouped. ' +
+    '`at` accepts "20 minutes ago", "yesterday", "14:32", an ISO timestamp, or a commit SHA (default: latest snapshot).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      path: {
+        type: 'string',
+        description: 'File path relative to the repository root, as named in the latest snapshot or at the time'
+      },
+      at: {
+        type: 'string',
+        description: 'Point in time: relative time ("20 minutes ago"), time of day ("14:32"), ISO timestamp, or commit SHA (default: latest snapshot)'
+      },
+      start_line: {
+        type: 'number',
+        description: 'First line to blame (1-based, default: 1)'
+      },
+      end_line: {
+        type: 'number',
+        description: `Last line to blame (inclusive, default: end of file, at most ${MAX_LINES} lines)`
+      }
+    },
+    required: ['repo', 'path']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    requireString(args, 'path');
+    const path = optionalPaths(args, 'path')[0].replace(/^(\.\/)+/, '');
+    const atArg = optionalString(args, 'at');
+    const at = atArg === undefined ? undefined : parseTimeSpec(atArg, 'at');
+    const startLine = optionalNumber(args, 'start_line', { min: 1, integer: true }) ?? 1;
+    const endLine = optionalNumber(args, 'end_line', { min: 1, integer: true });
+    if (endLine !== undefined && endLine < startLine) {
+      throw new ToolError(`Error: 'end_line' (${endLine}) must not be before 'start_line' (${startLine}).`);
+    }
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const target = at ? await resolveTimeSpec(context, repoPath, at) : head;
+    if (!target) {
+      throw new ToolError(`Error: No snapshots exist at or before ${describeTimeSpec(at!)}.`);
+    }
+
+    const name = await nameAt(context, repoPath, target, head, path);
+    if (name === null) {
+      throw new ToolError(`Error: '${path}' did not exist yet in snapshot ${shortSha(target)}; it was created later.`);
+    }
+    if (!(await exists(context, repoPath, target, name))) {
+      throw new ToolError(`Error: '${name}' is not a file in snapshot ${shortSha(target)}; use file_at to see a deleted file.`);
+    }
+    const snapshot = await getSnapshot(context, repoPath, target);
+
+    const range = `${startLine},${endLine ?? ''}`;
+    const blamed = parseBlame(await context.git(repoPath, ['blame', '--porcelain', '-L', range, snapshot.sha, '--', name]));
+    const truncated = blamed.length > MAX_LINES;
+    const lines = blamed.slice(0, MAX_LINES);
+    const groups = groupBlame(lines, snapshot);
+    const last = lines.length > 0 ? lines[lines.length - 1].line : startLine - 1;
+    const snapshots = new Set(groups.map(group => group.sha)).size;
+
+    const text = [
+      `${name} at ${shortSha(snapshot.sha)} (${snapshot.timestamp}, ${snapshot.subject})`,
+      ...(name !== path ? [`Named '${name}' at that time; renamed to '${path}' later.`] : []),
+      `Lines ${startLine}-${last}: ${groups.length} group${groups.length === 1 ? '' : 's'} ` +
+        `from ${snapshots} snapshot${snapshots === 1 ? '' : 's'}` +
+        (truncated ? ` (first ${MAX_LINES} lines; use start_line/end_line for more)` : '')
+    ];
+    const width = String(last).length;
+    for (const group of groups) {
+      const lineRange = group.startLine === group.endLine ? `${group.startLine}` : `${group.startLine}-${group.endLine}`;
+      const renamed = group.path && group.path !== name ? `, as ${group.path}` : '';
+      text.push('', `${lineRange}  ${shortSha(group.sha)}  ${group.timestamp}  (${group.age}${renamed})  ${group.subject}`);
+      text.push(...group.lines.map((content, i) => `${String(group.startLine + i).padStart(width)}\t${content}`));
+    }
+
+    return textResponse(text.join('\n'), {
+      repo,
+      path: name,
+      requestedPath: path,
+      snapshot,
+      startLine,
+      endLine: last,
+      truncated,
+      lines: lines.map(line => ({ ...line, age: describeAge(line.timestamp, snapshot, line.sha) })),
+      groups
+    });
+  }
+};
+
+export { BlameGroup, BlameLine, blameAtTool, groupBlame, isoTime, parseBlame };
@@ -0,0 +1,152 @@
+// ============================================================================
+// diff_since Tool
+// ============================================================================
+//
+// "What changed in the last 20 minutes?" without working out SHAs first.
+// `since` and `until` are resolved to the last snapshot at or before each
+// time, then the two snapshots are diffed. Every snapshot in between is listed
+// so the AI can drill into individual saves with the git tool.
+
+import { FileStat, parseNumstatPath } from '../git-json';
+import { optionalPaths, optionalString, requireString } from './args';
+import {
+  Snapshot,
+  emptyTree,
+  getSnapshot,
+  listSnapshots,
+  requireHead,
+  resolveTimeSpec,
+  shortSha
+} from './history';
+import { describeTimeSpec, formatDuration, parseTimeSpec } from './time-spec';
+import { ToolDefinition, ToolError, textResponse } from './types';
+
+// Snapshots listed in one response; the diff itself is always complete
+const MAX_LISTED_SNAPSHOTS = 200;
+
+const DIFF_FLAGS = ['-M', '--no-color', '--no-ext-diff', '--no-textconv'];
+
+function parseNumstat(output: string): FileStat[] {
+  return output
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const [added, deleted, ...rest] = line.split('\t');
+      return {
+        ...parseNumstatPath(rest.join('\t')),
+        additions: added === '-' ? null : parseInt(added, 10),
+        deletions: deleted === '-' ? null : parseInt(deleted, 10)
+      };
+    });
+}
+
+function formatSnapshot(snapshot: Snapshot): string {
+  return `${shortSha(snapshot.sha)}  ${snapshot.timestamp}  ${snapshot.subject}`;
+}
+
+function formatFileStat(file: FileStat): string {
+  const name = file.oldPath ? `${file.oldPath} => ${file.path}` : file.path;
+  const counts = file.additions === null ? 'binary' : `+${file.additions} -${file.deletions}`;
+  return `${name}  ${counts}`;
+}
+
+const diffSinceTool: ToolDefinition = {
+  name: 'diff_since',
+  description:
+    'Show everything that changed in a repository since a point in time. ' +
+    '`since` accepts "20 minutes ago", "yesterday", "14:32", an ISO timestamp, or a commit SHA. ' +
+    'Returns the combined diff, per-file line counts, and the list of snapshots in between.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      since: {
+        type: 'string',
+        description: 'Start point: relative time ("20 minutes ago"), time of day ("14:32"), ISO timestamp, or commit SHA'
+      },
+      until: {
+        type: 'string',
+        description: 'End point in the same formats (default: latest snapshot)'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only include changes to these files or directories'
+      }
+    },
+    required: ['repo', 'since']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const since = parseTimeSpec(requireString(args, 'since'), 'since');
+    const untilArg = optionalString(args, 'until');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const paths = optionalPaths(args);
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+
+    const untilSha = until ? await resolveTimeSpec(context, repoPath, until) : head;
+    if (!untilSha) {
+      throw new ToolError(`Error: No snapshots exist at or before '${untilArg}'.`);
+    }
+    const baseSha = await resolveTimeSpec(context, repoPath, since, untilSha);
+
+    const untilSnapshot = await getSnapshot(context, repoPath, untilSha);
+    const baseSnapshot = baseSha ? await getSnapshot(context, repoPath, baseSha) : null;
+    const diffBase = baseSha ?? await emptyTree(context, repoPath);
+    const range = baseSha ? [`${baseSha}..${untilSha}`] : [untilSha];
+
+    const listed = await listSnapshots(context, repoPath, range, paths, MAX_LISTED_SNAPSHOTS + 1);
+    const truncated = listed.length > MAX_LISTED_SNAPSHOTS;
+    const snapshots = listed.slice(0, MAX_LISTED_SNAPSHOTS);
+
+    const files = parseNumstat(
+      await context.git(repoPath, ['diff', '--numstat', ...DIFF_FLAGS, diffBase, untilSha, '--', ...paths])
+    );
+    const diff = files.length > 0
+      ? await context.git(repoPath, ['diff', ...DIFF_FLAGS, diffBase, untilSha, '--', ...paths])
+      : '';
+
+    const lines: string[] = [];
+    lines.push(`Changes since ${describeTimeSpec(since)} in ${repo}`);
+    if (baseSnapshot) {
+      const span = Date.parse(untilSnapshot.timestamp) - Date.parse(baseSnapshot.timestamp);
+      lines.push(`From: ${formatSnapshot(baseSnapshot)}`);
+      lines.push(`To:   ${formatSnapshot(untilSnapshot)}  (${formatDuration(span)} later)`);
+    } else {
+      lines.push('From: (before the first snapshot)');
+      lines.push(`To:   ${formatSnapshot(untilSnapshot)}`);
+    }
+    if (paths.length > 0) {
+      lines.push(`Paths: ${paths.join(', ')}`);
+    }
+
+    lines.push('', `Snapshots (${snapshots.length}${truncated ? '+, newest shown' : ''}):`);
+    lines.push(...(snapshots.length > 0 ? snapshots.map(s => `  ${formatSnapshot(s)}`) : ['  (none)']));
+
+    lines.push('', `Files changed (${files.length}):`);
+    lines.push(...(files.length > 0 ? files.map(f => `  ${formatFileStat(f)}`) : ['  (none)']));
+
+    if (diff) {
+      lines.push('', diff.trimEnd());
+    }
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      since: describeTimeSpec(since),
+      base: baseSnapshot,
+      until: untilSnapshot,
+      snapshots,
+      snapshotsTruncated: truncated,
+      files,
+      diff
+    });
+  }
+};
+
+export { diffSinceTool, formatFileStat, formatSnapshot, parseNumstat };
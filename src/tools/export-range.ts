@@ -0,0 +1,427 @@
+// ============================================================================
+// export_range Tool
+// ============================================================================
+//
+// "Attach what happened in the editor to the bug report." Bundles the
+// snapshots in a time window into one self-contained document: a markdown
+// report (timeline, stats, per-snapshot diffs, large ones collapsed), an
+// mbox patch series that `git am` can apply, or a JSON document. The
+// document is returned as tool content and never written anywhere; secrets
+// are redacted like every tool result, and diffs are dropped, newest kept
+// first, to keep the document under a size limit.
+//
+// A window can hold more diff than one git call may print, so the snapshots
+// and their stats are listed first and the diffs fetched one snapshot at a
+// time, newest first, only until the size limit is used up.
+
+import { Commit, DIFF_OUTPUT_FLAGS, parseCommits, patchText, prepareJsonCommand } from '../git-json';
+import { optionalEnum, optionalNumber, optionalPaths, optionalString, requireString } from './args';
+import { formatFileStat } from './diff-since';
+import { requireHead, shortSha } from './history';
+import { windowArgs } from './summarize-sessions';
+import { describeTimeSpec, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, ToolError, textResponse } from './types';
+
+const FORMATS = ['markdown', 'mbox', 'json'] as const;
+
+type ExportFormat = typeof FORMATS[number];
+
+const DEFAULT_MAX_SNAPSHOTS = 100;
+
+const DEFAULT_MAX_BYTES = 100 * 1024;
+
+const MAX_MAX_BYTES = 1024 * 1024;
+
+// Markdown diffs longer than this are folded into a <details> block
+const COLLAPSE_LINES = 40;
+
+// Room left for the notes about omitted diffs, whose length is only known
+// once the diffs are chosen
+const NOTE_ALLOWANCE = 200;
+
+interface ExportSnapshot {
+  commit: Commit;
+  patch: string | null;   // the snapshot's diff as printed by git, '' if none,
+                          // null if it was too large to fetch
+  index: number;          // 1-based, oldest first
+}
+
+interface ExportDocument {
+  repo: string;
+  window: { since: string | null; until: string | null };
+  paths: string[];
+  snapshots: ExportSnapshot[];
+  snapshotsTruncated: boolean;
+  totals: { files: number; additions: number; deletions: number };
+}
+
+// A format renders the document as a header, one section per snapshot
+// (with or without its diff) and a footer, so the size of any choice of
+// diffs is the sum of the parts
+interface Renderer {
+  header(doc: ExportDocument): string;
+  section(doc: ExportDocument, snapshot: ExportSnapshot, withDiff: boolean): string;
+  separator: string;
+  footer(doc: ExportDocument, omitted: number): string;
+}
+
+/**
+ * Fetch the diffs of `commits` (newest first) one snapshot at a time until
+ * `maxBytes` of them are fetched. A diff larger than what is left, or than
+ * git may print, is skipped (null) so older, smaller ones can still fit;
+ * one whose line counts already show it cannot fit is not fetched at all.
+ */
+async function fetchPatches(
+  context: ToolContext,
+  repoPath: string,
+  commits: Commit[],
+  paths: string[],
+  maxBytes: number
+): Promise<Array<string | null>> {
+  const patches: Array<string | null> = [];
+  let left = maxBytes;
+  for (const commit of commits) {
+    if (commit.files.length === 0) {
+      patches.push('');
+      continue;
+    }
+    // Every changed line takes at least two bytes, its sign and a newline
+    const changed = commit.files.reduce((sum, file) => sum + (file.additions ?? 0) + (file.deletions ?? 0), 0);
+    if (left <= 0 || 2 * changed > left) {
+      patches.push(null);
+      continue;
+    }
+    let patch: string;
+    try {
+      patch = patchText(
+        await context.git(repoPath, ['show', '--format=', '--patch', ...DIFF_OUTPUT_FLAGS, commit.sha, '--', ...paths]),
+        /^diff --git /m
+      );
+    } catch (error) {
+      if (error instanceof ToolError && /Output too large/.test(error.message)) {
+        patches.push(null);
+        continue;
+      }
+      throw error;
+    }
+    const bytes = Buffer.byteLength(patch, 'utf8');
+    if (bytes > left) {
+      patches.push(null);
+    } else {
+      patches.push(patch);
+      left -= bytes;
+    }
+  }
+  return patches;
+}
+
+function fileTotals(snapshots: ExportSnapshot[]): ExportDocument['totals'] {
+  const files = new Set<string>();
+  let additions = 0;
+  let deletions = 0;
+  for (const { commit } of snapshots) {
+    for (const file of commit.files) {
+      files.add(file.path);
+      additions += file.additions ?? 0;
+      deletions += file.deletions ?? 0;
+    }
+  }
+  return { files: files.size, additions, deletions };
+}
+
+function describeWindow(doc: ExportDocument): string {
+  const parts = [
+    doc.window.since ? `since ${doc.window.since}` : '',
+    doc.window.until ? `until ${doc.window.until}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'all snapshots';
+}
+
+// ----------------------------------------------------------------------------
+// Formats
+// ----------------------------------------------------------------------------
+
+// A code fence longer than any run of backticks in `text`
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+const markdown: Renderer = {
+  header(doc) {
+    const { snapshots, totals } = doc;
+    const first = snapshots[0]?.commit;
+    const last = snapshots[snapshots.length - 1]?.commit;
+    const lines = [
+      `# Editor history: ${doc.repo}`,
+      '',
+      `- Window: ${describeWindow(doc)}`,
+      ...(doc.paths.length > 0 ? [`- Paths: ${doc.paths.join(', ')}`] : []),
+      `- Snapshots: ${snapshots.length}${doc.snapshotsTruncated ? ' (newest only; narrow the window to see older ones)' : ''}` +
+        (first && last ? `, ${first.committedAt} to ${last.committedAt}` : ''),
+      `- Files changed: ${totals.files}, +${totals.additions} -${totals.deletions}`,
+      '',
+      '## Timeline',
+      ''
+    ];
+    if (snapshots.length === 0) {
+      lines.push('No snapshots in this window.');
+    } else {
+      lines.push('| # | Time | Snapshot | Subject | Files | Lines |', '|---|---|---|---|---|---|');
+      for (const { commit, index } of snapshots) {
+        const additions = commit.files.reduce((sum, file) => sum + (file.additions ?? 0), 0);
+        const deletions = commit.files.reduce((sum, file) => sum + (file.deletions ?? 0), 0);
+        lines.push(
+          `| ${index} | ${commit.committedAt} | \`${shortSha(commit.sha)}\` | ${escapeTableCell(commit.subject)} | ` +
+            `${commit.files.length} | +${additions} -${deletions} |`
+        );
+      }
+    }
+    lines.push('', '## Changes', '', '');
+    return lines.join('\n');
+  },
+
+  section(_doc, { commit, patch, index }, withDiff) {
+    const lines = [
+      `### ${index}. ${commit.committedAt} \`${shortSha(commit.sha)}\` ${commit.subject}`,
+      '',
+      ...commit.files.map(file => `- \`${formatFileStat(file)}\``)
+    ];
+    if (patch === '') return lines.join('\n');
+
+    lines.push('');
+    if (!withDiff || patch === null) {
+      lines.push('_Diff omitted to stay under the size limit._');
+      return lines.join('\n');
+    }
+    const diffLines = patch.split('\n').length;
+    const marker = fence(patch);
+    const block = [`${marker}diff`, patch, marker];
+    if (diffLines > COLLAPSE_LINES) {
+      lines.push(`<details><summary>Diff (${diffLines} lines)</summary>`, '', ...block, '', '</details>');
+    } else {
+      lines.push(...block);
+    }
+    return lines.join('\n');
+  },
+
+  separator: '\n\n',
+
+  footer(_doc, omitted) {
+    return omitted > 0 ? `\n\n---\n\n_Diffs of ${omitted} snapshot(s) were omitted to stay under the size limit._\n` : '\n';
+  }
+};
+
+// git's own mbox date format: "Wed, 1 May 2024 10:00:00 +0000"
+function mboxDate(iso: string): string {
+  return new Date(iso).toUTCString().replace(/^(\w+), 0?(\d+)/, '$1, $2').replace('GMT', '+0000');
+}
+
+const mbox: Renderer = {
+  header: () => '',
+
+  section(doc, { commit, patch, index }, withDiff) {
+    const total = doc.snapshots.length;
+    const body = commit.message.split('\n').slice(1).join('\n').trim();
+    const stats = commit.files.map(file => ` ${formatFileStat(file)}`);
+    return [
+      `From ${commit.sha} Mon Sep 17 00:00:00 2001`,
+      `From: ${commit.author.name} <${commit.author.email}>`,
+      `Date: ${mboxDate(commit.authoredAt)}`,
+      `Subject: [PATCH ${index}/${total}] ${commit.subject}`,
+      '',
+      // mboxrd: body lines that look like a message start are quoted
+      ...(body ? [body.replace(/^(>*From )/gm, '>$1'), ''] : []),
+      `Snapshot ${commit.sha} at ${commit.committedAt}`,
+      '---',
+      ...stats,
+      '',
+      ...(patch === '' ? [] : patch !== null && withDiff ? [patch] : ['(diff omitted to stay under the size limit)']),
+      '-- ',
+      'shadowgit-mcp',
+      ''
+    ].join('\n');
+  },
+
+  separator: '\n',
+
+  footer: () => ''
+};
+
+const json: Renderer = {
+  header(doc) {
+    const { snapshots, ...rest } = doc;
+    const head = JSON.stringify({ ...rest, snapshotCount: snapshots.length });
+    return `${head.slice(0, -1)},"snapshots":[`;
+  },
+
+  section(_doc, { commit, patch }, withDiff) {
+    return JSON.stringify({
+      sha: commit.sha,
+      timestamp: commit.committedAt,
+      author: commit.author,
+      subject: commit.subject,
+      message: commit.message,
+      files: commit.files,
+      ...(patch === '' ? {} : patch !== null && withDiff ? { patch } : { patchOmitted: true })
+    });
+  },
+
+  separator: ',',
+
+  footer: (_doc, omitted) => `],"patchesOmitted":${omitted}}\n`
+};
+
+const RENDERERS: Record<ExportFormat, Renderer> = { markdown, mbox, json };
+
+/**
+ * Render the document, keeping the diffs of the newest snapshots that fit
+ * in `maxBytes` (the end of a window is usually where things went wrong).
+ */
+function renderExport(doc: ExportDocument, format: ExportFormat, maxBytes: number): { text: string; omitted: string[] } {
+  const renderer = RENDERERS[format];
+  const size = (text: string): number => Buffer.byteLength(text, 'utf8');
+  const withoutDiffs = doc.snapshots.map(snapshot => renderer.section(doc, snapshot, false));
+  let total = size(renderer.header(doc)) + size(renderer.footer(doc, 0)) + NOTE_ALLOWANCE +
+    withoutDiffs.reduce((sum, section) => sum + size(section), 0) +
+    size(renderer.separator) * Math.max(doc.snapshots.length - 1, 0);
+  if (total > maxBytes) {
+    throw new ToolError(
+      `Error: The export is larger than ${maxBytes} bytes even without diffs (${doc.snapshots.length} snapshots). ` +
+      "Narrow the window with 'since'/'until', filter 'paths', or lower 'max_snapshots'."
+    );
+  }
+
+  const sections = [...withoutDiffs];
+  const omitted: string[] = [];
+  for (let i = doc.snapshots.length - 1; i >= 0; i--) {
+    const snapshot = doc.snapshots[i];
+    if (snapshot.patch === '') continue;
+    if (snapshot.patch === null) {
+      omitted.unshift(snapshot.commit.sha);
+      continue;
+    }
+    const withDiff = renderer.section(doc, snapshot, true);
+    const extra = size(withDiff) - size(sections[i]);
+    if (total + extra <= maxBytes) {
+      sections[i] = withDiff;
+      total += extra;
+    } else {
+      omitted.unshift(snapshot.commit.sha);
+    }
+  }
+
+  return {
+    text: renderer.header(doc) + sections.join(renderer.separator) + renderer.footer(doc, omitted.length),
+    omitted
+  };
+}
+
+const exportRangeTool: ToolDefinition = {
+  name: 'export_range',
+  description:
+    'Export the snapshots in a time window as one self-contained document to attach to a bug report: ' +
+    'a markdown report (timeline, stats, per-snapshot diffs, large ones collapsed), an mbox patch series, or JSON. ' +
+    'The document is returned as text (nothing is written to disk), with secrets redacted; when it would exceed `max_bytes`, ' +
+    'diffs are left out, keeping those of the newest snapshots. `since`/`until` accept "3 hours ago", "yesterday", "14:32", ' +
+    'an ISO timestamp, or a commit SHA.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      format: {
+        type: 'string',
+        enum: [...FORMATS],
+        description: 'Document format (default: markdown)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only include snapshots after this time or commit ("yesterday", "3 hours ago", ISO timestamp, SHA)'
+      },
+      until: {
+        type: 'string',
+        description: 'Only include snapshots up to this time or commit (default: latest snapshot)'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only include changes to these files or directories'
+      },
+      max_snapshots: {
+        type: 'number',
+        description: `Maximum snapshots to include, newest kept (default: ${DEFAULT_MAX_SNAPSHOTS})`
+      },
+      max_bytes: {
+        type: 'number',
+        description: `Size limit of the document in bytes (default: ${DEFAULT_MAX_BYTES}, at most ${MAX_MAX_BYTES})`
+      }
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const format = optionalEnum(args, 'format', FORMATS) ?? 'markdown';
+    const sinceArg = optionalString(args, 'since');
+    const untilArg = optionalString(args, 'until');
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const paths = optionalPaths(args);
+    const maxSnapshots = optionalNumber(args, 'max_snapshots', { min: 1, max: 1000, integer: true }) ?? DEFAULT_MAX_SNAPSHOTS;
+    const maxBytes = optionalNumber(args, 'max_bytes', { min: 1024, max: MAX_MAX_BYTES, integer: true }) ?? DEFAULT_MAX_BYTES;
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+
+    const commits = parseCommits(await context.git(repoPath, prepareJsonCommand([
+      'log', '--no-merges', `--max-count=${maxSnapshots + 1}`, ...windowArgs(since, until, head), '--', ...paths
+    ])));
+    const snapshotsTruncated = commits.length > maxSnapshots;
+    const kept = commits.slice(0, maxSnapshots);
+    const patches = await fetchPatches(context, repoPath, kept, paths, maxBytes);
+    const snapshots = kept.map((commit, i) => ({ commit, patch: patches[i], index: kept.length - i })).reverse();
+
+    const doc: ExportDocument = {
+      repo,
+      window: {
+        since: since ? describeTimeSpec(since) : null,
+        until: until ? describeTimeSpec(until) : null
+      },
+      paths,
+      snapshots,
+      snapshotsTruncated,
+      totals: fileTotals(snapshots)
+    };
+    const { text, omitted } = renderExport(doc, format, maxBytes);
+    const bytes = Buffer.byteLength(text, 'utf8');
+
+    const summary = [
+      `Exported ${snapshots.length} snapshot${snapshots.length === 1 ? '' : 's'} of ${repo} as ${format} (${bytes} bytes).`,
+      ...(snapshotsTruncated ? [`Only the newest ${maxSnapshots} snapshots are included; narrow the window or raise 'max_snapshots'.`] : []),
+      ...(omitted.length > 0
+        ? [`Diffs of ${omitted.length} snapshot(s) were left out to stay under ${maxBytes} bytes; raise 'max_bytes' or narrow the window.`]
+        : [])
+    ].join('\n');
+
+    const response = textResponse(text, {
+      repo,
+      format,
+      bytes,
+      snapshots: snapshots.length,
+      snapshotsTruncated,
+      omittedDiffs: omitted,
+      totals: doc.totals
+    });
+    // The document comes first and stands alone; the summary is for the caller
+    return { ...response, content: [...response.content, { type: 'text', text: summary }] };
+  }
+};
+
+export { ExportFormat, exportRangeTool, renderExport };
@@ -0,0 +1,214 @@
+// ============================================================================
+// file_at Tool
+// ============================================================================
+//
+// "What did this file look like at 14:30?" without guessing `HEAD@{...}`
+// syntax, which reads reflog times rather than snapshot times. `at` is
+// resolved to the last snapshot at or before it, and the file is looked up
+// there under the name it had at the time: renames made later are followed
+// back from the latest snapshot, renames made earlier are followed forward,
+// and a file deleted before `at` is shown as it was just before the deletion.
+
+import { unquotePath } from '../git-json';
+import { optionalNumber, optionalPaths, requireString } from './args';
+import { Snapshot, getSnapshot, requireHead, resolveTimeSpec, shortSha } from './history';
+import { describeTimeSpec, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, ToolError, textResponse } from './types';
+
+// Lines returned when no end_line is given
+const MAX_LINES = 2000;
+
+// Renames followed forward from an old name
+const MAX_RENAMES = 20;
+
+const RECORD_START = '\x1e';
+
+interface NameChange {
+  sha: string;
+  status: string;      // A, D, M, R<score>, C<score>, ...
+  paths: string[];     // [path] or [old, new] for renames and copies
+}
+
+/**
+ * Parse `log --name-status --format=<RECORD_START>%H` output.
+ */
+function parseNameStatus(output: string): NameChange[] {
+  const changes: NameChange[] = [];
+  for (const record of output.split(RECORD_START).slice(1)) {
+    const [sha, ...lines] = record.split('\n');
+    for (const line of lines.filter(Boolean)) {
+      const [status, ...paths] = line.split('\t');
+      changes.push({ sha: sha.trim(), status, paths: paths.map(unquotePath) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * The name `path` (as named in the latest snapshot) had in snapshot `sha`,
+ * following renames made after it; null when the file was created after it.
+ */
+async function nameAt(context: ToolContext, repoPath: string, sha: string, head: string, path: string): Promise<string | null> {
+  if (sha === head) return path;
+  const output = await context.git(repoPath, [
+    'log', '--follow', '-M', '--name-status', `--format=${RECORD_START}%H`, `${sha}..${head}`, '--', path
+  ]);
+  let name = path;
+  for (const change of parseNameStatus(output)) {
+    const current = change.paths[change.paths.length - 1];
+    if (current !== name) continue;
+    if (change.status.startsWith('R')) {
+      name = change.paths[0];
+    } else if (change.status === 'A' || change.status.startsWith('C')) {
+      return null;
+    }
+  }
+  return name;
+}
+
+// The new name of `path` if snapshot `sha` renamed it, else null
+async function renamedTo(context: ToolContext, repoPath: string, sha: string, path: string): Promise<string | null> {
+  const output = await context.git(repoPath, ['diff-tree', '-r', '-M', '--name-status', '--no-commit-id', sha]);
+  for (const line of output.split('\n')) {
+    const [status, from, to] = line.split('\t');
+    if (status?.startsWith('R') && to !== undefined && unquotePath(from) === path) return unquotePath(to);
+  }
+  return null;
+}
+
+// Whether `path` is a file in snapshot `sha` (ls-tree, unlike cat-file -e,
+// tells a missing path apart from a missing snapshot)
+async function exists(context: ToolContext, repoPath: string, sha: string, path: string): Promise<boolean> {
+  const output = await context.git(repoPath, ['ls-tree', '-z', '--full-tree', sha, '--', path]);
+  return output.split('\0').some(entry => / blob [0-9a-f]+\t/.test(entry) && entry.slice(entry.indexOf('\t') + 1) === path);
+}
+
+function numberLines(lines: string[], first: number): string {
+  const width = String(first + lines.length - 1).length;
+  return lines.map((line, i) => `${String(first + i).padStart(width)}\t${line}`).join('\n');
+}
+
+const fileAtTool: ToolDefinition = {
+  name: 'file_at',
+  description:
+    'Read a file as it was at a point in time or in a given snapshot, with line numbers. ' +
+    '`at` accepts "20 minutes ago", "yesterday", "14:32", an ISO timestamp, or a commit SHA, and resolves to the last snapshot at or before it. ' +
+    'The file is found under the name it had then (renames are followed), and a file deleted by then is shown as it was before the deletion. ' +
+    'Returns the content and the snapshot it comes from.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      path: {
+        type: 'string',
+        description: 'File path relative to the repository root, as named in the latest snapshot or at the time'
+      },
+      at: {
+        type: 'string',
+        description: 'Point in time: relative time ("20 minutes ago"), time of day ("14:32"), ISO timestamp, "now", or commit SHA'
+      },
+      start_line: {
+        type: 'number',
+        description: 'First line to return (1-based, default: 1)'
+      },
+      end_line: {
+        type: 'number',
+        description: `Last line to return (inclusive, default: end of file, at most ${MAX_LINES} lines)`
+      }
+    },
+    required: ['repo', 'path', 'at']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    requireString(args, 'path');
+    const path = optionalPaths(args, 'path')[0].replace(/^(\.\/)+/, '');
+    const atArg = requireString(args, 'at');
+    const at = parseTimeSpec(atArg, 'at');
+    const startLine = optionalNumber(args, 'start_line', { min: 1, integer: true }) ?? 1;
+    const endLine = optionalNumber(args, 'end_line', { min: 1, integer: true });
+    if (endLine !== undefined && endLine < startLine) {
+      throw new ToolError(`Error: 'end_line' (${endLine}) must not be before 'start_line' (${startLine}).`);
+    }
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const target = await resolveTimeSpec(context, repoPath, at);
+    if (!target) {
+      throw new ToolError(`Error: No snapshots exist at or before ${describeTimeSpec(at)}.`);
+    }
+
+    const nameThen = await nameAt(context, repoPath, target, head, path);
+    if (nameThen === null) {
+      throw new ToolError(`Error: '${path}' did not exist yet in snapshot ${shortSha(target)}; it was created later.`);
+    }
+    let name = nameThen;
+
+    // Find the file in `target`, following renames made before it, or as it
+    // was before a deletion at or before it
+    const notes: string[] = [];
+    if (name !== path) notes.push(`Named '${name}' at that time; renamed to '${path}' later.`);
+    let source = target;
+    let deletedIn: Snapshot | null = null;
+    for (let renames = 0; !(await exists(context, repoPath, target, name)); renames++) {
+      const lastChange = (await context.git(repoPath, ['log', '-1', '--format=%H', target, '--', name])).trim();
+      if (!lastChange) {
+        throw new ToolError(`Error: '${name}' is not a file in snapshot ${shortSha(target)} or any snapshot before it.`);
+      }
+      const change = await getSnapshot(context, repoPath, lastChange);
+      const newName = renames < MAX_RENAMES ? await renamedTo(context, repoPath, lastChange, name) : null;
+      if (newName !== null) {
+        notes.push(`'${name}' was renamed to '${newName}' in ${shortSha(change.sha)} at ${change.timestamp}.`);
+        name = newName;
+        continue;
+      }
+      if (!(await exists(context, repoPath, `${lastChange}^`, name))) {
+        throw new ToolError(`Error: '${name}' is not a file in snapshot ${shortSha(target)} or any snapshot before it.`);
+      }
+      deletedIn = change;
+      notes.push(`Deleted in ${shortSha(change.sha)} at ${change.timestamp}; showing the last version before that.`);
+      source = (await context.git(repoPath, ['rev-parse', '--verify', '--quiet', `${lastChange}^`])).trim();
+      break;
+    }
+
+    const snapshot = await getSnapshot(context, repoPath, source);
+    const content = await context.git(repoPath, ['cat-file', 'blob', `${snapshot.sha}:${name}`]);
+    if (content.includes('\0')) {
+      throw new ToolError(`Error: '${name}' is a binary file in snapshot ${shortSha(snapshot.sha)} and cannot be shown as text.`);
+    }
+
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    if (startLine > Math.max(lines.length, 1)) {
+      throw new ToolError(`Error: 'start_line' ${startLine} is past the end of the file (${lines.length} lines).`);
+    }
+    const last = Math.min(endLine ?? startLine + MAX_LINES - 1, lines.length);
+    const shown = lines.slice(startLine - 1, last);
+
+    const header = [
+      `${name} at ${shortSha(snapshot.sha)} (${snapshot.timestamp}, ${snapshot.subject})`,
+      ...notes,
+      `Lines ${shown.length === 0 ? 0 : startLine}-${last} of ${lines.length}` +
+        (endLine === undefined && last < lines.length ? ` (use start_line/end_line for more)` : ''),
+      ''
+    ];
+
+    return textResponse(header.join('\n') + numberLines(shown, startLine), {
+      repo,
+      path: name,
+      requestedPath: path,
+      at: describeTimeSpec(at),
+      snapshot,
+      deletedIn,
+      startLine,
+      endLine: last,
+      totalLines: lines.length,
+      content: shown.join('\n')
+    });
+  }
+};
+
+export { exists, fileAtTool, nameAt, parseNameStatus, renamedTo };
@@ -0,0 +1,308 @@
+// ============================================================================
+// find_change Tool
+// ============================================================================
+//
+// Finds the snapshot where a string or pattern first appeared (or went away)
+// by bisecting the shadow history. Each probe is a `git grep` against a commit
+// tree, so only objects are read and the working tree is never touched. When
+// the pattern is absent at both ends of the range (it came and went), a
+// pickaxe scan (`log -S`) finds the snapshots to test instead. The answer is
+// the pair of neighbouring snapshots where the pattern flips, plus the hunks
+// in between that added or removed matching lines.
+
+import { DIFF_OUTPUT_FLAGS, DiffHunk, parseDiff } from '../git-json';
+import { optionalBoolean, optionalEnum, optionalPaths, optionalString, requireString } from './args';
+import { Snapshot, emptyTree, getSnapshot, requireHead, resolveCommit, resolveTimeSpec, shortSha } from './history';
+import { parseTimeSpec } from './time-spec';
+import { ToolDefinition, ToolError, textResponse } from './types';
+
+type FindMode = 'introduced' | 'removed';
+
+const MODES: readonly FindMode[] = ['introduced', 'removed'];
+
+// Snapshots considered per search; the newest are kept
+const MAX_SEARCHED_SNAPSHOTS = 100000;
+
+// Pickaxe candidates examined when bisection cannot be used
+const MAX_PICKAXE_CANDIDATES = 50;
+
+// Matching hunks returned from the boundary diff
+const MAX_HUNKS = 10;
+
+interface MatchingHunk {
+  path: string;
+  hunk: DiffHunk;
+}
+
+interface Bisection {
+  boundary: number; // index of the first snapshot in the "after" state
+  previous: number; // index of the last snapshot in the "before" state
+  checks: number;
+}
+
+/**
+ * Binary search over snapshots ordered newest first. `isAfter(0)` must be
+ * true and `isAfter(last)` false; returns neighbouring indices where the
+ * answer flips. If the pattern flipped several times in the range, any one of
+ * the transitions may be returned, as with `git bisect`.
+ */
+async function bisect(count: number, isAfter: (index: number) => Promise<boolean>): Promise<Bisection> {
+  let after = 0;
+  let before = count - 1;
+  let checks = 0;
+  while (before - after > 1) {
+    const middle = Math.floor((after + before) / 2);
+    checks++;
+    if (await isAfter(middle)) {
+      after = middle;
+    } else {
+      before = middle;
+    }
+  }
+  return { boundary: after, previous: before, checks };
+}
+
+function createMatcher(pattern: string, regex: boolean, ignoreCase: boolean): (line: string) => boolean {
+  if (!regex) {
+    const needle = ignoreCase ? pattern.toLowerCase() : pattern;
+    return line => (ignoreCase ? line.toLowerCase() : line).includes(needle);
+  }
+  try {
+    const expression = new RegExp(pattern, ignoreCase ? 'i' : '');
+    return line => expression.test(line);
+  } catch (error) {
+    throw new ToolError(`Error: Invalid regular expression '${pattern}': ${(error as Error).message}`);
+  }
+}
+
+function formatHunk(match: MatchingHunk): string {
+  const prefix = { context: ' ', add: '+', delete: '-' } as const;
+  return [
+    `--- ${match.path}`,
+    match.hunk.header,
+    ...match.hunk.lines.map(line => `${prefix[line.type]}${line.content}`)
+  ].join('\n');
+}
+
+const findChangeTool: ToolDefinition = {
+  name: 'find_change',
+  description:
+    'Find the snapshot where a string or regex was introduced or removed, by binary search over the shadow history ' +
+    '(or a pickaxe scan when the pattern came and went). ' +
+    'Returns the boundary snapshot, its timestamp, the snapshot before it, and the hunks that added or removed matching lines. ' +
+    'Only commit objects are read; the working tree is never touched.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      pattern: {
+        type: 'string',
+        description: 'Text to look for (a regular expression when regex is true)'
+      },
+      mode: {
+        type: 'string',
+        enum: [...MODES],
+        description: '"introduced": find where the pattern appeared (it must exist in the latest snapshot searched). "removed": find where it disappeared.'
+      },
+      path: {
+        type: 'string',
+        description: 'Only search this file or directory'
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Treat pattern as an extended regular expression (default: false, plain text)'
+      },
+      ignore_case: {
+        type: 'boolean',
+        description: 'Case-insensitive match (default: false)'
+      },
+      since: {
+        type: 'string',
+        description: 'Oldest snapshot to consider, as a time ("yesterday", "2 hours ago") or commit SHA (default: all history)'
+      },
+      until: {
+        type: 'string',
+        description: 'Newest snapshot to consider, as a time or commit SHA (default: latest snapshot)'
+      }
+    },
+    required: ['repo', 'pattern', 'mode']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const pattern = requireString(args, 'pattern');
+    const mode = optionalEnum(args, 'mode', MODES);
+    if (!mode) {
+      throw new ToolError(`Error: 'mode' parameter is required and must be one of: ${MODES.join(', ')}.`);
+    }
+    const paths = optionalPaths(args, 'path');
+    const regex = optionalBoolean(args, 'regex') ?? false;
+    const ignoreCase = optionalBoolean(args, 'ignore_case') ?? false;
+    const sinceArg = optionalString(args, 'since');
+    const untilArg = optionalString(args, 'until');
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const matches = createMatcher(pattern, regex, ignoreCase);
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const end = until ? await resolveTimeSpec(context, repoPath, until) : head;
+    if (!end) {
+      throw new ToolError(`Error: No snapshots exist at or before '${untilArg}'.`);
+    }
+
+    // Candidate snapshots, newest first, each with its first parent
+    let sinceSha: string | undefined;
+    let window: string[];
+    if (since?.kind === 'time') {
+      window = [`--since=${since.date.toISOString()}`, end];
+    } else if (since?.kind === 'revision') {
+      sinceSha = await resolveCommit(context, repoPath, since.rev);
+      window = [`${sinceSha}..${end}`];
+    } else {
+      window = [end];
+    }
+    const revList = ['rev-list', '--first-parent', '--parents', `--max-count=${MAX_SEARCHED_SNAPSHOTS}`, ...window];
+    const chain = (await context.git(repoPath, revList))
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [sha, parent] = line.split(' ');
+        return { sha, parent: parent as string | undefined };
+      });
+    if (sinceSha && !chain.some(entry => entry.sha === sinceSha)) {
+      // `since` itself is the oldest snapshot considered
+      const [, parent] = (await context.git(repoPath, ['rev-list', '--parents', '-1', sinceSha])).trim().split(' ');
+      chain.push({ sha: sinceSha, parent });
+    }
+    if (chain.length === 0) {
+      throw new ToolError('Error: No snapshots in the requested range.');
+    }
+
+    const grepArgs = ['grep', '-q', '-I', regex ? '-E' : '-F', ...(ignoreCase ? ['-i'] : []), '-e', pattern];
+    const present = (sha: string): Promise<boolean> => context.gitCheck(repoPath, [...grepArgs, sha, '--', ...paths]);
+    // "After" is the state the change led to: present when introduced, absent when removed
+    const isAfter = async (index: number): Promise<boolean> => (await present(chain[index].sha)) === (mode === 'introduced');
+
+    const newest = chain[0];
+    const oldest = chain[chain.length - 1];
+    const where = paths.length > 0 ? ` in ${paths.join(', ')}` : '';
+
+    if (!(await isAfter(0))) {
+      throw new ToolError(mode === 'introduced'
+        ? `Error: '${pattern}' is not present${where} in ${shortSha(newest.sha)}, the newest snapshot searched. Use mode "removed" to find where it went away.`
+        : `Error: '${pattern}' is still present${where} in ${shortSha(newest.sha)}, the newest snapshot searched. Use mode "introduced" to find where it appeared.`);
+    }
+
+    let boundarySha: string;
+    let previousSha: string | null;
+    let method: 'bisect' | 'pickaxe' = 'bisect';
+    let checks = 1;
+    const oldestIsAfter = chain.length === 1 || await isAfter(chain.length - 1);
+    if (chain.length > 1) checks++;
+
+    if (!oldestIsAfter) {
+      const result = await bisect(chain.length, isAfter);
+      boundarySha = chain[result.boundary].sha;
+      previousSha = chain[result.previous].sha;
+      checks += result.checks;
+    } else {
+      // The oldest snapshot searched is already in the "after" state. Either
+      // the change happened in it, or the pattern came and went in between.
+      // Nothing is present before the first snapshot.
+      let parentIsBefore = mode === 'introduced';
+      if (oldest.parent) {
+        checks++;
+        parentIsBefore = await present(oldest.parent) !== (mode === 'introduced');
+      }
+
+      if (parentIsBefore) {
+        boundarySha = oldest.sha;
+        previousSha = oldest.parent ?? null;
+      } else if (mode === 'introduced') {
+        throw new ToolError(
+          `Error: '${pattern}' was already present${where} before ${shortSha(oldest.sha)}, ` +
+          'the oldest snapshot searched. Widen the range with an earlier \'since\'.'
+        );
+      } else {
+        // Absent at both ends: ask pickaxe for the snapshots that changed the
+        // number of matches and take the newest one that removed the last
+        method = 'pickaxe';
+        const pickaxe = [
+          'log', '--first-parent', '--format=%H %P', `--max-count=${MAX_PICKAXE_CANDIDATES}`,
+          `-S${pattern}`, ...(regex ? ['--pickaxe-regex'] : []), ...(ignoreCase ? ['-i'] : []),
+          ...window, '--', ...paths
+        ];
+        const candidates = (await context.git(repoPath, pickaxe)).split('\n').filter(Boolean);
+        let found: { sha: string; parent: string } | undefined;
+        for (const line of candidates) {
+          const [sha, parent] = line.split(' ');
+          if (!parent) continue;
+          checks += 2;
+          if (!(await present(sha)) && await present(parent)) {
+            found = { sha, parent };
+            break;
+          }
+        }
+        if (!found) {
+          throw new ToolError(
+            `Error: '${pattern}' is absent${where} from both the newest and the oldest snapshot searched, ` +
+            'and no snapshot in between removed it. Use mode "introduced", or change the range with since/until.'
+          );
+        }
+        boundarySha = found.sha;
+        previousSha = found.parent;
+      }
+    }
+
+    const boundary = await getSnapshot(context, repoPath, boundarySha);
+    const previous: Snapshot | null = previousSha ? await getSnapshot(context, repoPath, previousSha) : null;
+
+    // previousSha is the first parent of the boundary on a first-parent chain
+    const diffBase = previousSha ?? await emptyTree(context, repoPath);
+    const diff = await context.git(repoPath, ['diff', ...DIFF_OUTPUT_FLAGS, diffBase, boundary.sha, '--', ...paths]);
+    const changedType = mode === 'introduced' ? 'add' : 'delete';
+    const hunks: MatchingHunk[] = [];
+    for (const file of parseDiff(diff)) {
+      for (const hunk of file.hunks) {
+        if (hunk.lines.some(line => line.type === changedType && matches(line.content))) {
+          hunks.push({ path: (mode === 'introduced' ? file.newPath : file.oldPath) ?? file.newPath ?? file.oldPath ?? '', hunk });
+        }
+      }
+    }
+
+    const lines = [
+      `'${pattern}' was ${mode}${where} in ${shortSha(boundary.sha)} at ${boundary.timestamp} (${boundary.subject})`,
+      previous
+        ? `Previous snapshot: ${shortSha(previous.sha)} at ${previous.timestamp}`
+        : 'Previous snapshot: none (first snapshot in the repository)',
+      `Searched ${chain.length} snapshot${chain.length === 1 ? '' : 's'} with ${checks} check${checks === 1 ? '' : 's'} (${method === 'bisect' ? 'binary search' : 'pickaxe scan'}).`,
+      ''
+    ];
+    if (hunks.length === 0) {
+      lines.push('No single hunk contains a matching line (the match may span lines, or come from a rename or binary file).');
+    } else {
+      lines.push(...hunks.slice(0, MAX_HUNKS).map(formatHunk));
+      if (hunks.length > MAX_HUNKS) {
+        lines.push(`... and ${hunks.length - MAX_HUNKS} more matching hunks (see git show ${shortSha(boundary.sha)}).`);
+      }
+    }
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      pattern,
+      mode,
+      boundary,
+      previous,
+      searchedSnapshots: chain.length,
+      method,
+      checks,
+      hunks: hunks.slice(0, MAX_HUNKS)
+    });
+  }
+};
+
+export { bisect, createMatcher, findChangeTool };
@@ -0,0 +1,140 @@
+// ============================================================================
+// Shadow History Helpers
+// ============================================================================
+//
+// Building blocks shared by the history tools: resolving times and revisions
+// to snapshot commits, and listing snapshots with their timestamps. ShadowGit
+// commits on every save, so "snapshot" and "commit" are used interchangeably;
+// times always refer to the committer date, which is when the save happened.
+
+import { TimeSpec } from './time-spec';
+import { ToolContext, ToolError } from './types';
+
+interface Snapshot {
+  sha: string;
+  timestamp: string; // ISO 8601 committer date
+  subject: string;
+}
+
+const SNAPSHOT_FORMAT = '--format=%H%x1f%cI%x1f%s';
+
+// How `rev-parse --verify` fails for a revision that names no commit
+const UNKNOWN_REVISION = /fatal: Needed a single revision/;
+
+function parseSnapshots(output: string): Snapshot[] {
+  return output
+    .split('\n')
+    .filter(line => line.includes('\x1f'))
+    .map(line => {
+      const [sha, timestamp, subject] = line.split('\x1f');
+      return { sha, timestamp, subject };
+    });
+}
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 8);
+}
+
+/**
+ * Resolve a revision to a full commit SHA, or throw a ToolError.
+ */
+async function resolveCommit(context: ToolContext, repoPath: string, rev: string): Promise<string> {
+  try {
+    const output = await context.git(repoPath, ['rev-parse', '--verify', `${rev}^{commit}`]);
+    return output.trim();
+  } catch (error) {
+    if (!(error instanceof ToolError) || !UNKNOWN_REVISION.test(error.message)) throw error;
+    throw new ToolError(`Error: '${rev}' is not a known snapshot in this repository.`);
+  }
+}
+
+/**
+ * The latest snapshot reachable from `from` whose commit time is at or
+ * before `date`, or null when history starts after `date`.
+ */
+async function commitAtOrBefore(
+  context: ToolContext,
+  repoPath: string,
+  date: Date,
+  from = 'HEAD'
+): Promise<string | null> {
+  const output = await context.git(repoPath, ['rev-list', '-1', `--before=${date.toISOString()}`, from]);
+  return output.trim() || null;
+}
+
+/**
+ * Resolve a time or revision to a snapshot SHA. Times resolve to the last
+ * snapshot at or before that time (null if there is none).
+ */
+async function resolveTimeSpec(
+  context: ToolContext,
+  repoPath: string,
+  spec: TimeSpec,
+  from = 'HEAD'
+): Promise<string | null> {
+  if (spec.kind === 'revision') {
+    return resolveCommit(context, repoPath, spec.rev);
+  }
+  return commitAtOrBefore(context, repoPath, spec.date, from);
+}
+
+async function getSnapshot(context: ToolContext, repoPath: string, sha: string): Promise<Snapshot> {
+  const output = await context.git(repoPath, ['log', '-1', SNAPSHOT_FORMAT, sha, '--']);
+  const [snapshot] = parseSnapshots(output);
+  if (!snapshot) {
+    throw new ToolError(`Error: Snapshot ${shortSha(sha)} not found.`);
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshots in a revision range (newest first), optionally limited to paths.
+ */
+async function listSnapshots(
+  context: ToolContext,
+  repoPath: string,
+  range: string[],
+  paths: string[] = [],
+  maxCount?: number
+): Promise<Snapshot[]> {
+  const argv = ['log', SNAPSHOT_FORMAT];
+  if (maxCount !== undefined) argv.push(`--max-count=${maxCount}`);
+  argv.push(...range, '--', ...paths);
+  return parseSnapshots(await context.git(repoPath, argv));
+}
+
+/**
+ * SHA of the empty tree in this repository's object format, used as the
+ * "before" side when a range starts before the first snapshot. Computed
+ * without writing anything (hash-object without -w).
+ */
+async function emptyTree(context: ToolContext, repoPath: string): Promise<string> {
+  const output = await context.git(repoPath, ['hash-object', '-t', 'tree', '--stdin']);
+  return output.trim();
+}
+
+/**
+ * Fail early with a clear message when the shadow repository has no commits.
+ */
+async function requireHead(context: ToolContext, repoPath: string): Promise<string> {
+  try {
+    return (await context.git(repoPath, ['rev-parse', '--verify', 'HEAD^{commit}'])).trim();
+  } catch (error) {
+    if (!(error instanceof ToolError) || !UNKNOWN_REVISION.test(error.message)) throw error;
+    throw new ToolError('Error: This repository has no ShadowGit snapshots yet.');
+  }
+}
+
+export {
+  SNAPSHOT_FORMAT,
+  Snapshot,
+  commitAtOrBefore,
+  emptyTree,
+  getSnapshot,
+  listSnapshots,
+  parseSnapshots,
+  requireHead,
+  resolveCommit,
+  resolveTimeSpec,
+  shortSha
+};
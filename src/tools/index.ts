@@ -0,0 +1,37 @@
+// ============================================================================
+// History Tools
+// ============================================================================
+//
+// Tools offered alongside `git` and `list_repos`, in the order they are
+// listed to clients.
+
+import { analyzeChurnTool } from './analyze-churn';
+import { blameAtTool } from './blame-at';
+import { diffSinceTool } from './diff-since';
+import { exportRangeTool } from './export-range';
+import { fileAtTool } from './file-at';
+import { findChangeTool } from './find-change';
+import { proposeRestoreTool } from './propose-restore';
+import { diffRealCommitTool, mapRealCommitTool, snapshotsSinceCommitTool } from './real-repo';
+import { searchAllTool } from './search-all';
+import { summarizeSessionsTool } from './summarize-sessions';
+import { traceLinesTool } from './trace-lines';
+import { ToolDefinition } from './types';
+
+const HISTORY_TOOLS: ToolDefinition[] = [
+  diffSinceTool,
+  summarizeSessionsTool,
+  analyzeChurnTool,
+  findChangeTool,
+  fileAtTool,
+  traceLinesTool,
+  blameAtTool,
+  proposeRestoreTool,
+  snapshotsSinceCommitTool,
+  diffRealCommitTool,
+  mapRealCommitTool,
+  searchAllTool,
+  exportRangeTool
+];
+
+export { HISTORY_TOOLS };
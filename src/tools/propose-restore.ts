@@ -0,0 +1,346 @@
+// ============================================================================
+// propose_restore Tool
+// ============================================================================
+//
+// The usual end of an investigation is "put this file back the way it was at
+// 14:32". The server never writes, so instead of restoring the file it
+// returns a unified diff that takes the working-tree file (or only the hunks
+// in a chosen line range) back to the snapshot, and checks that the patch
+// applies cleanly to the working tree as it is now. The AI applies it with
+// its own editing tools.
+//
+// The check reads the file again rather than trusting the diff, which may
+// have been cached or the file edited since. `git grep` is the one read-only
+// git command that prints a working-tree file line by line.
+//
+// git diffs the snapshot against the working tree with unlimited context, so
+// the output holds the whole current file; it is turned around, and the hunks
+// are cut from it with three lines of context and renumbered for the ones
+// selected.
+
+import { DiffLine, parseDiff } from '../git-json';
+import { optionalNumber, optionalPaths, requireString } from './args';
+import { exists, nameAt } from './file-at';
+import { getSnapshot, requireHead, resolveTimeSpec, shortSha } from './history';
+import { describeTimeSpec, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, ToolError, textResponse } from './types';
+
+// Lines of context around each hunk, as in `git diff`
+const CONTEXT_LINES = 3;
+
+// Enough context for git to print the whole file as one hunk
+const FULL_CONTEXT = '--unified=1000000000';
+
+// A low rename threshold pairs the file with its name in the snapshot even
+// when its content has changed a lot; only those two paths are diffed
+const DIFF_FLAGS = ['-M1%', '--no-color', '--no-ext-diff', '--no-textconv', FULL_CONTEXT];
+
+interface PatchHunk {
+  index: number;      // 1-based position among all hunks of the file
+  oldStart: number;   // lines of the working-tree file
+  oldLines: number;
+  newStart: number;   // lines of the restored file
+  newLines: number;
+  lines: DiffLine[];
+}
+
+interface HunkCheck {
+  index: number;
+  status: 'clean' | 'offset' | 'conflict';
+  offset?: number;    // lines the hunk moved by, when status is 'offset'
+}
+
+/**
+ * Turn snapshot-to-working-tree diff lines into working-tree-to-snapshot
+ * ones, keeping removed lines before added ones in each run of changes.
+ */
+function reverseLines(lines: DiffLine[]): DiffLine[] {
+  const reversed: DiffLine[] = [];
+  let run: DiffLine[] = [];
+  const flush = (): void => {
+    reversed.push(...run.filter(line => line.type === 'delete'), ...run.filter(line => line.type === 'add'));
+    run = [];
+  };
+  for (const { type, content, oldLine, newLine, noNewlineAtEnd } of lines) {
+    const end = noNewlineAtEnd ? { noNewlineAtEnd } : {};
+    if (type === 'context') {
+      flush();
+      reversed.push({ type, content, oldLine: newLine, newLine: oldLine, ...end });
+    } else if (type === 'add') {
+      run.push({ type: 'delete', content, oldLine: newLine, ...end });
+    } else {
+      run.push({ type: 'add', content, newLine: oldLine, ...end });
+    }
+  }
+  flush();
+  return reversed;
+}
+
+/**
+ * Cut a single full-context hunk into hunks with `context` lines of
+ * context, as `git diff -U<context>` would print them. Hunks separated by
+ * at most 2 * `context` unchanged lines are merged.
+ */
+function splitHunks(lines: DiffLine[], context = CONTEXT_LINES): PatchHunk[] {
+  const changes = lines.flatMap((line, i) => (line.type === 'context' ? [] : [i]));
+  const groups: Array<{ first: number; last: number }> = [];
+  for (const i of changes) {
+    const group = groups[groups.length - 1];
+    const gap = group ? lines.slice(group.last + 1, i).filter(line => line.type === 'context').length : Infinity;
+    if (group && gap <= 2 * context) {
+      group.last = i;
+    } else {
+      groups.push({ first: i, last: i });
+    }
+  }
+
+  return groups.map(({ first, last }, i) => {
+    let start = first;
+    while (start > 0 && first - start < context && lines[start - 1].type === 'context') start--;
+    let end = last;
+    while (end < lines.length - 1 && end - last < context && lines[end + 1].type === 'context') end++;
+
+    const hunkLines = lines.slice(start, end + 1);
+    const oldBefore = lines.slice(0, start).filter(line => line.type !== 'add').length;
+    const newBefore = lines.slice(0, start).filter(line => line.type !== 'delete').length;
+    const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+    const newLines = hunkLines.filter(line => line.type !== 'delete').length;
+    return {
+      index: i + 1,
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines
+    };
+  });
+}
+
+/**
+ * Renumber the new side of a subset of hunks so that it describes the file
+ * with only those hunks applied.
+ */
+function renumberHunks(hunks: PatchHunk[]): PatchHunk[] {
+  let delta = 0;
+  return hunks.map(hunk => {
+    const oldBefore = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newBefore = oldBefore + delta;
+    delta += hunk.newLines - hunk.oldLines;
+    return { ...hunk, newStart: hunk.newLines > 0 ? newBefore + 1 : newBefore };
+  });
+}
+
+// Every line of a working-tree file, each printed as `<number>:<line>`
+const READ_LINES = ['grep', '--untracked', '-I', '-h', '-n', '--no-color', '-e', ''];
+
+/**
+ * The lines of the working-tree file as it is now; none when it is missing
+ * or empty (git grep then finds nothing).
+ */
+async function readWorkingTree(context: ToolContext, repoPath: string, path: string): Promise<string[]> {
+  if (!(await context.gitCheck(repoPath, [...READ_LINES, '-q', '--', path]))) return [];
+  const output = await context.git(repoPath, [...READ_LINES, '--', path]);
+  return output.replace(/\n$/, '').split('\n').map(line => line.slice(line.indexOf(':') + 1));
+}
+
+// Last line of the working-tree file a hunk touches
+function lastLine(hunk: PatchHunk): number {
+  return hunk.oldStart + Math.max(hunk.oldLines, 1) - 1;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function formatHunk(hunk: PatchHunk): string {
+  const markers = { context: ' ', add: '+', delete: '-' };
+  const body = hunk.lines.flatMap(line => [
+    `${markers[line.type]}${line.content}`,
+    ...(line.noNewlineAtEnd ? ['\\ No newline at end of file'] : [])
+  ]);
+  return [`@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`, ...body].join('\n');
+}
+
+/**
+ * Check hunks against the current file the way `git apply --check` does:
+ * each hunk's context and removed lines must appear in the file, at the
+ * stated line or moved by an offset, without overlapping an earlier hunk.
+ */
+function checkHunks(hunks: PatchHunk[], current: string[]): HunkCheck[] {
+  let searchFrom = 0;
+  return hunks.map((hunk): HunkCheck => {
+    const preimage = hunk.lines.filter(line => line.type !== 'add').map(line => line.content);
+    const expected = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const matchesAt = (at: number): boolean =>
+      at >= searchFrom && at + preimage.length <= current.length &&
+      preimage.every((line, i) => current[at + i] === line);
+
+    for (let offset = 0; offset <= current.length; offset++) {
+      const at = [expected + offset, expected - offset].find(matchesAt);
+      if (at !== undefined) {
+        searchFrom = at + preimage.length;
+        return offset === 0 ? { index: hunk.index, status: 'clean' } : { index: hunk.index, status: 'offset', offset: at - expected };
+      }
+    }
+    return { index: hunk.index, status: 'conflict' };
+  });
+}
+
+const proposeRestoreTool: ToolDefinition = {
+  name: 'propose_restore',
+  description:
+    'Propose a patch that restores a file, or some of its hunks, to how it was at a point in time or in a given snapshot. ' +
+    'Nothing is written: the result is a unified diff from the current working-tree file to the snapshot version, ' +
+    'plus a check of whether it applies cleanly to the working tree now. Apply it with your own editing tools. ' +
+    '`at` accepts "20 minutes ago", "yesterday", "14:32", an ISO timestamp, or a commit SHA. ' +
+    'Use start_line/end_line to restore only the hunks touching those lines of the current file.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      path: {
+        type: 'string',
+        description: 'File path relative to the repository root, as currently named'
+      },
+      at: {
+        type: 'string',
+        description: 'Version to restore: relative time ("20 minutes ago"), time of day ("14:32"), ISO timestamp, or commit SHA'
+      },
+      start_line: {
+        type: 'number',
+        description: 'Only restore hunks touching this line of the current file or later (1-based)'
+      },
+      end_line: {
+        type: 'number',
+        description: 'Only restore hunks touching this line of the current file or earlier (inclusive)'
+      }
+    },
+    required: ['repo', 'path', 'at']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    requireString(args, 'path');
+    const path = optionalPaths(args, 'path')[0].replace(/^(\.\/)+/, '');
+    const at = parseTimeSpec(requireString(args, 'at'), 'at');
+    const startLine = optionalNumber(args, 'start_line', { min: 1, integer: true });
+    const endLine = optionalNumber(args, 'end_line', { min: 1, integer: true });
+    if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+      throw new ToolError(`Error: 'end_line' (${endLine}) must not be before 'start_line' (${startLine}).`);
+    }
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const target = await resolveTimeSpec(context, repoPath, at);
+    if (!target) {
+      throw new ToolError(`Error: No snapshots exist at or before ${describeTimeSpec(at)}.`);
+    }
+    const snapshot = await getSnapshot(context, repoPath, target);
+
+    // The name the file had in the snapshot; a file created after it is
+    // restored by deleting it
+    const nameThen = (await nameAt(context, repoPath, target, head, path)) ?? path;
+    const paths = nameThen === path ? [path] : [path, nameThen];
+    const output = await context.git(repoPath, ['diff', ...DIFF_FLAGS, target, '--', ...paths]);
+    const files = parseDiff(output);
+    if (files.length === 0 && !(await exists(context, repoPath, target, nameThen))) {
+      throw new ToolError(`Error: '${path}' is not a file in the working tree or in snapshot ${shortSha(target)}.`);
+    }
+
+    // The working-tree file, paired with its version in the snapshot
+    const file = files.find(candidate =>
+      (candidate.oldPath ?? path) === nameThen && (candidate.newPath ?? nameThen) === path
+    );
+    if (files.length > 0 && !file) {
+      throw new ToolError(
+        nameThen === path
+          ? `Error: '${path}' is not a file; propose_restore works on one file at a time.`
+          : `Error: '${path}' was named '${nameThen}' in snapshot ${shortSha(target)} and cannot be matched up with ` +
+            'that version; use file_at to read it instead.'
+      );
+    }
+    if (file?.binary) {
+      throw new ToolError(`Error: '${path}' is a binary file; a text patch cannot restore it.`);
+    }
+
+    const diffLines = reverseLines(file?.hunks.flatMap(hunk => hunk.lines) ?? []);
+    const current = diffLines.filter(line => line.type !== 'add').map(line => line.content);
+    const allHunks = splitHunks(diffLines);
+    if (allHunks.length === 0) {
+      return textResponse(
+        `${path} already matches snapshot ${shortSha(target)} (${snapshot.timestamp}, ${snapshot.subject}); nothing to restore.`,
+        { repo, path, snapshotPath: nameThen, at: describeTimeSpec(at), snapshot, hunks: [], totalHunks: 0, applies: true, patch: '' }
+      );
+    }
+    const selected = renumberHunks(allHunks.filter(hunk =>
+      (startLine === undefined || lastLine(hunk) >= startLine) && (endLine === undefined || hunk.oldStart <= endLine)
+    ));
+    if (selected.length === 0) {
+      throw new ToolError(
+        `Error: No changes to restore in lines ${startLine ?? 1}-${endLine ?? current.length} of '${path}'; ` +
+        `the hunks touch lines ${allHunks.map(hunk => `${hunk.oldStart}-${lastLine(hunk)}`).join(', ')}.`
+      );
+    }
+
+    // A file the diff deletes is missing from the working tree, one it adds
+    // did not exist in the snapshot
+    const whole = selected.length === allHunks.length;
+    const creates = whole && file?.status === 'deleted';
+    const deletes = whole && file?.status === 'added';
+    const mode = /^(?:new|deleted) file mode (\d+)$/m.exec(output)?.[1] ?? '100644';
+    const header = [
+      `diff --git a/${path} b/${path}`,
+      ...(creates ? [`new file mode ${mode}`] : deletes ? [`deleted file mode ${mode}`] : []),
+      `--- ${creates ? '/dev/null' : `a/${path}`}`,
+      `+++ ${deletes ? '/dev/null' : `b/${path}`}`
+    ];
+    const patch = [...header, ...selected.map(formatHunk)].join('\n') + '\n';
+
+    // A file missing from the diff's view of the working tree may still be
+    // on disk, untracked, where a patch creating it would not apply
+    const problems: string[] = [];
+    const checks = checkHunks(selected, await readWorkingTree(context, repoPath, path));
+    for (const check of checks.filter(({ status }) => status === 'conflict')) {
+      problems.push(`Hunk ${check.index} does not match the current file.`);
+    }
+    if (creates) {
+      const untracked = await context.git(repoPath, ['ls-files', '--others', '--', path]);
+      if (untracked.trim()) problems.push(`'${path}' exists in the working tree but is not tracked; the patch would overwrite it.`);
+    }
+    const applies = problems.length === 0;
+
+    const notes = [
+      `Restores ${path} to ${shortSha(target)} (${snapshot.timestamp}, ${snapshot.subject})` +
+        (whole ? '' : `: hunk${selected.length > 1 ? 's' : ''} ${selected.map(hunk => hunk.index).join(', ')} of ${allHunks.length}`),
+      ...(nameThen !== path ? [`The file was named '${nameThen}' in that snapshot; the patch keeps the current name.`] : []),
+      ...(creates ? ['The file does not exist in the working tree; the patch recreates it.'] : []),
+      ...(deletes ? ['The file did not exist yet in that snapshot; the patch deletes it.'] : []),
+      applies
+        ? 'Applies cleanly to the working tree. Nothing has been changed; apply the patch to restore.'
+        : `Does NOT apply cleanly to the working tree:\n${problems.map(problem => `  ${problem}`).join('\n')}`
+    ];
+
+    return textResponse(`${notes.join('\n')}\n\n${patch}`, {
+      repo,
+      path,
+      snapshotPath: nameThen,
+      at: describeTimeSpec(at),
+      snapshot,
+      hunks: selected.map(({ lines, ...hunk }) => ({
+        ...hunk,
+        additions: lines.filter(line => line.type === 'add').length,
+        deletions: lines.filter(line => line.type === 'delete').length
+      })),
+      totalHunks: allHunks.length,
+      applies,
+      checks,
+      problems,
+      patch
+    });
+  }
+};
+
+export { HunkCheck, PatchHunk, checkHunks, proposeRestoreTool, renumberHunks, reverseLines, splitHunks };
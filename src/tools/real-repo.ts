@@ -0,0 +1,288 @@
+// ============================================================================
+// Real Repository Tools
+// ============================================================================
+//
+// Every tracked project has its own .git next to .shadowgit.git. These tools
+// connect the two histories to answer "what did I change since I last
+// committed, step by step?": a real commit is matched to the snapshot with
+// the same tree, or failing that (ShadowGit may track files git ignores) to
+// the last snapshot taken at or before it. The real repository is only read,
+// under the same path rules as the shadow one.
+
+import { FileStat, parseCommits, prepareJsonCommand } from '../git-json';
+import { optionalNumber, optionalPaths, optionalRevision, optionalString, requireString } from './args';
+import { formatFileStat, formatSnapshot, parseNumstat } from './diff-since';
+import { Snapshot, commitAtOrBefore, getSnapshot, requireHead, resolveTimeSpec, shortSha } from './history';
+import { formatDuration, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, ToolError, textResponse } from './types';
+
+// Snapshots searched for a tree matching a real commit, newest first
+const MAX_SCANNED_SNAPSHOTS = 5000;
+
+const DEFAULT_MAX_SNAPSHOTS = 100;
+
+const DIFF_FLAGS = ['-M', '--no-color', '--no-ext-diff', '--no-textconv'];
+
+const TREE_FORMAT = '--format=%H%x1f%T%x1f%cI%x1f%s';
+
+interface RealCommit {
+  sha: string;
+  tree: string;
+  timestamp: string;  // ISO 8601 committer date
+  subject: string;
+}
+
+interface SnapshotMatch {
+  snapshot: Snapshot;
+  // 'tree': the snapshot has exactly the commit's files; 'time': the last
+  // snapshot at or before the commit, when none has its tree
+  match: 'tree' | 'time';
+}
+
+function parseTreeLog(output: string): RealCommit[] {
+  return output
+    .split('\n')
+    .filter(line => line.includes('\x1f'))
+    .map(line => {
+      const [sha, tree, timestamp, subject] = line.split('\x1f');
+      return { sha, tree, timestamp, subject };
+    });
+}
+
+/**
+ * Look up a revision (default HEAD) in the project's own repository.
+ */
+async function getRealCommit(context: ToolContext, repoPath: string, rev = 'HEAD'): Promise<RealCommit> {
+  const [commit] = parseTreeLog(await context.realGit(repoPath, ['log', '-1', TREE_FORMAT, rev, '--']));
+  if (!commit) {
+    throw new ToolError(`Error: '${rev}' is not a commit in the project's own repository.`);
+  }
+  return commit;
+}
+
+/**
+ * The snapshot a real commit corresponds to: among the latest snapshots, the
+ * one with the same tree closest in time to the commit, else the last
+ * snapshot at or before the commit. Null when history starts after it.
+ */
+async function matchSnapshot(context: ToolContext, repoPath: string, commit: RealCommit): Promise<SnapshotMatch | null> {
+  const snapshots = parseTreeLog(
+    await context.git(repoPath, ['log', `--max-count=${MAX_SCANNED_SNAPSHOTS}`, TREE_FORMAT, 'HEAD', '--'])
+  );
+  const committed = Date.parse(commit.timestamp);
+  const distance = (snapshot: RealCommit): number => Math.abs(Date.parse(snapshot.timestamp) - committed);
+  const [sameTree] = snapshots
+    .filter(snapshot => snapshot.tree === commit.tree)
+    .sort((a, b) => distance(a) - distance(b));
+  if (sameTree) {
+    const { sha, timestamp, subject } = sameTree;
+    return { snapshot: { sha, timestamp, subject }, match: 'tree' };
+  }
+
+  const before = await commitAtOrBefore(context, repoPath, new Date(committed));
+  return before ? { snapshot: await getSnapshot(context, repoPath, before), match: 'time' } : null;
+}
+
+function formatCommit(commit: RealCommit): string {
+  return `${shortSha(commit.sha)}  ${commit.timestamp}  ${commit.subject}`;
+}
+
+function describeMatch(commit: RealCommit, found: SnapshotMatch | null): string {
+  if (!found) return 'no snapshot (the commit is older than the snapshot history)';
+  const gap = formatDuration(Date.parse(found.snapshot.timestamp) - Date.parse(commit.timestamp));
+  const how = found.match === 'tree'
+    ? `same files, ${gap} ${Date.parse(found.snapshot.timestamp) > Date.parse(commit.timestamp) ? 'after' : 'before'} the commit`
+    : `no snapshot has the same files; last snapshot before the commit, ${gap} earlier`;
+  return `${formatSnapshot(found.snapshot)}  (${how})`;
+}
+
+function formatFiles(files: FileStat[]): string[] {
+  return files.length > 0 ? files.map(file => `  ${formatFileStat(file)}`) : ['  (none)'];
+}
+
+const REPO_PROPERTY = {
+  type: 'string',
+  description: 'Repository name (use list_repos to see available repositories)'
+};
+
+const COMMIT_PROPERTY = {
+  type: 'string',
+  description: "Commit in the project's own repository: SHA, branch, tag or HEAD~n (default: HEAD)"
+};
+
+// ----------------------------------------------------------------------------
+// snapshots_since_commit
+// ----------------------------------------------------------------------------
+
+const snapshotsSinceCommitTool: ToolDefinition = {
+  name: 'snapshots_since_commit',
+  description:
+    "List every ShadowGit snapshot taken since the last real commit in the project's own .git repository " +
+    '(or a given commit), oldest first, with the files each one changed, plus the net change since the commit. ' +
+    'Answers "what did I change since I last committed, step by step?"',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: REPO_PROPERTY,
+      commit: COMMIT_PROPERTY,
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only include changes to these files or directories'
+      },
+      max_snapshots: {
+        type: 'number',
+        description: `Maximum snapshots to list, newest kept (default: ${DEFAULT_MAX_SNAPSHOTS})`
+      }
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const rev = optionalRevision(args, 'commit') ?? 'HEAD';
+    const paths = optionalPaths(args);
+    const maxSnapshots = optionalNumber(args, 'max_snapshots', { min: 1, max: 1000, integer: true }) ?? DEFAULT_MAX_SNAPSHOTS;
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const commit = await getRealCommit(context, repoPath, rev);
+    const found = await matchSnapshot(context, repoPath, commit);
+
+    const range = found ? [`${found.snapshot.sha}..${head}`] : [head];
+    const newestFirst = parseCommits(await context.git(repoPath, prepareJsonCommand([
+      'log', `--max-count=${maxSnapshots + 1}`, ...range, '--', ...paths
+    ])));
+    const truncated = newestFirst.length > maxSnapshots;
+    const snapshots = newestFirst.slice(0, maxSnapshots).reverse();
+
+    const files = parseNumstat(
+      await context.realGit(repoPath, ['diff', '--numstat', ...DIFF_FLAGS, commit.sha, head, '--', ...paths])
+    );
+
+    const lines = [
+      `Snapshots since commit ${formatCommit(commit)} in ${repo}`,
+      `Matching snapshot: ${describeMatch(commit, found)}`,
+      ...(paths.length > 0 ? [`Paths: ${paths.join(', ')}`] : []),
+      '',
+      `Snapshots since then (${snapshots.length}${truncated ? '+, newest shown' : ''}, oldest first):`
+    ];
+    if (snapshots.length === 0) lines.push('  (none)');
+    for (const snapshot of snapshots) {
+      lines.push(`  ${shortSha(snapshot.sha)}  ${snapshot.committedAt}  ${snapshot.subject}`);
+      lines.push(...snapshot.files.map(file => `      ${formatFileStat(file)}`));
+    }
+    lines.push('', `Files changed from the commit to the latest snapshot (${files.length}):`, ...formatFiles(files));
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      commit,
+      snapshot: found?.snapshot ?? null,
+      match: found?.match ?? null,
+      snapshots: snapshots.map(({ sha, committedAt, subject, files: changed }) => ({
+        sha, timestamp: committedAt, subject, files: changed
+      })),
+      snapshotsTruncated: truncated,
+      files
+    });
+  }
+};
+
+// ----------------------------------------------------------------------------
+// diff_real_commit
+// ----------------------------------------------------------------------------
+
+const diffRealCommitTool: ToolDefinition = {
+  name: 'diff_real_commit',
+  description:
+    "Diff a commit in the project's own .git repository (default: HEAD) against a ShadowGit snapshot " +
+    '(default: the latest). `at` accepts "20 minutes ago", "yesterday", "14:32", an ISO timestamp, or a snapshot SHA. ' +
+    'Returns per-file line counts and the diff from the commit to the snapshot.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: REPO_PROPERTY,
+      commit: COMMIT_PROPERTY,
+      at: {
+        type: 'string',
+        description: 'Snapshot to compare with: relative time ("20 minutes ago"), time of day ("14:32"), ISO timestamp, or snapshot SHA (default: latest)'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only include changes to these files or directories'
+      }
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const rev = optionalRevision(args, 'commit') ?? 'HEAD';
+    const atArg = optionalString(args, 'at');
+    const at = atArg === undefined ? undefined : parseTimeSpec(atArg, 'at');
+    const paths = optionalPaths(args);
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const target = at ? await resolveTimeSpec(context, repoPath, at) : head;
+    if (!target) {
+      throw new ToolError(`Error: No snapshots exist at or before '${atArg}'.`);
+    }
+    const snapshot = await getSnapshot(context, repoPath, target);
+    const commit = await getRealCommit(context, repoPath, rev);
+
+    const files = parseNumstat(
+      await context.realGit(repoPath, ['diff', '--numstat', ...DIFF_FLAGS, commit.sha, snapshot.sha, '--', ...paths])
+    );
+    const diff = files.length > 0
+      ? await context.realGit(repoPath, ['diff', ...DIFF_FLAGS, commit.sha, snapshot.sha, '--', ...paths])
+      : '';
+
+    const lines = [
+      `Real commit ${formatCommit(commit)}`,
+      `Snapshot    ${formatSnapshot(snapshot)}`,
+      ...(paths.length > 0 ? [`Paths: ${paths.join(', ')}`] : []),
+      '',
+      `Files changed (${files.length}):`,
+      ...formatFiles(files),
+      ...(diff ? ['', diff.trimEnd()] : [])
+    ];
+
+    return textResponse(lines.join('\n'), { repo, commit, snapshot, files, diff });
+  }
+};
+
+// ----------------------------------------------------------------------------
+// map_real_commit
+// ----------------------------------------------------------------------------
+
+const mapRealCommitTool: ToolDefinition = {
+  name: 'map_real_commit',
+  description:
+    "Find the ShadowGit snapshot that corresponds to a commit in the project's own .git repository (default: HEAD): " +
+    'the snapshot with exactly the same files, or else the last snapshot taken at or before the commit.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: REPO_PROPERTY,
+      commit: COMMIT_PROPERTY
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const rev = optionalRevision(args, 'commit') ?? 'HEAD';
+
+    const repoPath = context.resolveRepo(repo);
+    await requireHead(context, repoPath);
+    const commit = await getRealCommit(context, repoPath, rev);
+    const found = await matchSnapshot(context, repoPath, commit);
+
+    const text = [`Real commit ${formatCommit(commit)}`, `Snapshot    ${describeMatch(commit, found)}`].join('\n');
+    return textResponse(text, { repo, commit, snapshot: found?.snapshot ?? null, match: found?.match ?? null });
+  }
+};
+
+export { RealCommit, SnapshotMatch, diffRealCommitTool, mapRealCommitTool, matchSnapshot, snapshotsSinceCommitTool };
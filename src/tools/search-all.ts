@@ -0,0 +1,379 @@
+// ============================================================================
+// search_all Tool
+// ============================================================================
+//
+// Searches every registered repository (or a chosen subset) at once, for when
+// the AI remembers some code but not which project it was in. Three methods
+// are offered: a pickaxe scan for snapshots that changed how often a string
+// occurs (`log -S`), a scan for snapshots whose diff touches lines matching a
+// regex (`log -G`), and a `git grep` of each repository's latest snapshot.
+// Repositories are searched concurrently under one time limit; repositories
+// that are not tracked, have no snapshots or run out of time are listed as
+// skipped instead of failing the whole call.
+
+import { DIFF_OUTPUT_FLAGS, parseDiff } from '../git-json';
+import { PRIVATE_KEY_MARKER, PRIVATE_KEY_PLACEHOLDER } from '../redaction';
+import { optionalBoolean, optionalEnum, optionalNumber, optionalPaths, optionalString, optionalStringArray, requireString } from './args';
+import { createMatcher } from './find-change';
+import { getSnapshot, shortSha } from './history';
+import { formatDuration, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, ToolError, textResponse } from './types';
+
+type SearchMethod = 'pickaxe' | 'diff' | 'grep';
+
+const METHODS: readonly SearchMethod[] = ['pickaxe', 'diff', 'grep'];
+
+const DEFAULT_MAX_RESULTS = 20;
+const MAX_MAX_RESULTS = 200;
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const MAX_TIMEOUT_SECONDS = 300;
+
+// Characters of a matching line shown in the text output
+const MAX_LINE_LENGTH = 200;
+
+interface SearchMatch {
+  commit: string;
+  timestamp: string;  // ISO 8601 committer date of the snapshot
+  subject: string;
+  path: string;
+  line: number | null;
+  change: 'add' | 'delete' | 'match';  // grep matches are neither added nor removed
+  text: string;
+}
+
+interface RepositoryResult {
+  repo: string;
+  matches: SearchMatch[];
+  truncated: boolean;  // more matches than max_results
+}
+
+interface SkippedRepository {
+  repo: string;
+  reason: string;
+}
+
+// structuredContent of a search_all result
+type SearchAllResult = {
+  pattern: string;
+  method: SearchMethod;
+  elapsedMs: number;
+  results: RepositoryResult[];  // repositories with matches
+  noMatches: string[];
+  skipped: SkippedRepository[];
+};
+
+interface SearchQuery {
+  pattern: string;
+  method: SearchMethod;
+  regex: boolean;
+  ignoreCase: boolean;
+  paths: string[];
+  since?: Date;
+  maxResults: number;
+}
+
+const RECORD_START = '\x1e';
+const FS = '\x1f';
+
+/**
+ * Parse `log -p` output whose commits start with a RECORD_START line of
+ * `%H%x1f%cI%x1f%s`, keeping the added and removed lines that match.
+ */
+function parseLogMatches(output: string, matches: (line: string) => boolean): SearchMatch[] {
+  const results: SearchMatch[] = [];
+  for (const record of output.split(RECORD_START).slice(1)) {
+    const newline = record.indexOf('\n');
+    const [commit, timestamp, subject] = (newline === -1 ? record : record.slice(0, newline)).split(FS);
+    for (const file of parseDiff(newline === -1 ? '' : record.slice(newline + 1))) {
+      for (const hunk of file.hunks) {
+        for (const line of hunk.lines) {
+          if (line.type === 'context' || !matches(line.content)) continue;
+          results.push({
+            commit,
+            timestamp,
+            subject,
+            path: (line.type === 'add' ? file.newPath : file.oldPath) ?? file.newPath ?? file.oldPath ?? '',
+            line: (line.type === 'add' ? line.newLine : line.oldLine) ?? null,
+            change: line.type,
+            text: line.content
+          });
+        }
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Parse `git grep -z -n <sha>` output: `<sha>:<path>\0<line>\0<text>`.
+ */
+function parseGrepMatches(output: string, snapshot: { sha: string; timestamp: string; subject: string }): SearchMatch[] {
+  const prefix = `${snapshot.sha}:`;
+  return output
+    .split('\n')
+    .filter(line => line.startsWith(prefix))
+    .map(line => {
+      const [path, number, ...text] = line.slice(prefix.length).split('\0');
+      return {
+        commit: snapshot.sha,
+        timestamp: snapshot.timestamp,
+        subject: snapshot.subject,
+        path,
+        line: parseInt(number, 10) || null,
+        change: 'match' as const,
+        text: text.join('\0')
+      };
+    });
+}
+
+// Whether a line lies inside a private key block, given the block's marker
+// lines in the same file. The marker lines themselves count as inside.
+function insidePrivateKey(markers: SearchMatch[], line: number): boolean {
+  let inside = false;
+  for (const marker of markers) {
+    if (marker.line === null || marker.line > line) break;
+    if (marker.line === line) return true;
+    inside = /-----BEGIN /.test(marker.text);
+  }
+  return inside;
+}
+
+/**
+ * Hide matches that are lines of a private key. Each match is a single line,
+ * so the key detector applied to tool output never sees the BEGIN line of the
+ * block around a body line; instead, the marker lines of the matched files are
+ * looked up in the snapshot the line comes from (the parent, for a removed
+ * line) and the lines between them replaced.
+ */
+async function hidePrivateKeyLines(context: ToolContext, repoPath: string, matches: SearchMatch[]): Promise<SearchMatch[]> {
+  const byRevision = new Map<string, SearchMatch[]>();
+  for (const match of matches) {
+    if (match.line === null) continue;
+    const revision = match.change === 'delete' ? `${match.commit}^` : match.commit;
+    byRevision.set(revision, [...(byRevision.get(revision) ?? []), match]);
+  }
+
+  const hidden = new Set<SearchMatch>();
+  await Promise.all(Array.from(byRevision, async ([revision, revisionMatches]) => {
+    const paths = Array.from(new Set(revisionMatches.map(match => match.path)));
+    const grep = ['grep', '-z', '-n', '-I', '--no-color', '-E', '-e', PRIVATE_KEY_MARKER, revision, '--', ...paths];
+    if (!(await context.gitCheck(repoPath, ['grep', '-q', ...grep.slice(1)]))) return;
+    const markers = parseGrepMatches(await context.git(repoPath, grep), { sha: revision, timestamp: '', subject: '' });
+    for (const match of revisionMatches) {
+      if (insidePrivateKey(markers.filter(marker => marker.path === match.path), match.line as number)) hidden.add(match);
+    }
+  }));
+  return matches.map(match => hidden.has(match) ? { ...match, text: PRIVATE_KEY_PLACEHOLDER } : match);
+}
+
+/**
+ * Up to maxResults + 1 matches, the extra one telling the caller there are
+ * more. The log methods read the history in pages of snapshots until enough
+ * lines matched, since one snapshot can match many times or not at all.
+ */
+async function searchRepository(context: ToolContext, repoPath: string, query: SearchQuery): Promise<SearchMatch[]> {
+  const { pattern, method, regex, ignoreCase, paths, maxResults } = query;
+  const caseFlag = ignoreCase ? ['-i'] : [];
+
+  if (method === 'grep') {
+    const snapshot = await getSnapshot(context, repoPath, 'HEAD');
+    const grep = ['grep', '-z', '-n', '-I', '--no-color', regex ? '-E' : '-F', ...caseFlag, '-e', pattern, snapshot.sha, '--', ...paths];
+    const found = await context.gitCheck(repoPath, ['grep', '-q', ...grep.slice(1)]);
+    if (!found) return [];
+    return hidePrivateKeyLines(context, repoPath, parseGrepMatches(await context.git(repoPath, grep), snapshot).slice(0, maxResults + 1));
+  }
+
+  const search = method === 'pickaxe'
+    ? [`-S${pattern}`, ...(regex ? ['--pickaxe-regex'] : [])]
+    : [`-G${pattern}`];
+  // Pickaxe finds changes in how often the text occurs, so the lines to show
+  // are the ones containing it; -G already means a matching line changed
+  const matcher = createMatcher(pattern, regex || method === 'diff', ignoreCase);
+  const pageSize = maxResults + 1;
+  const matches: SearchMatch[] = [];
+  for (let skip = 0; matches.length <= maxResults; skip += pageSize) {
+    const log = [
+      'log', '--first-parent', `--format=${RECORD_START}%H${FS}%cI${FS}%s`, `--max-count=${pageSize}`, `--skip=${skip}`,
+      ...search, ...caseFlag, '-p', '-U0', ...DIFF_OUTPUT_FLAGS,
+      ...(query.since ? [`--since=${query.since.toISOString()}`] : []),
+      'HEAD', '--', ...paths
+    ];
+    const output = await context.git(repoPath, log);
+    matches.push(...parseLogMatches(output, matcher));
+    if (output.split(RECORD_START).length - 1 < pageSize) break;
+  }
+  return hidePrivateKeyLines(context, repoPath, matches.slice(0, maxResults + 1));
+}
+
+function formatMatch(match: SearchMatch): string {
+  const marker = { add: '+', delete: '-', match: ' ' }[match.change];
+  const text = match.text.trim();
+  const shown = text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}...` : text;
+  const location = match.line === null ? match.path : `${match.path}:${match.line}`;
+  return `  ${shortSha(match.commit)}  ${match.timestamp}  ${location}  ${marker} ${shown}`;
+}
+
+// First line of an error message, without the "Error: " prefix
+function skipReason(message: string): string {
+  return message.split('\n')[0].replace(/^Error: /, '').trim();
+}
+
+const searchAllTool: ToolDefinition = {
+  name: 'search_all',
+  description:
+    'Search the ShadowGit history of every registered repository (or a subset) at once, to find which project had some code. ' +
+    'Methods: "pickaxe" finds snapshots that added or removed occurrences of the text (git log -S), ' +
+    '"diff" finds snapshots whose changes touch lines matching a regex (git log -G), ' +
+    'and "grep" searches the files of each repository\'s latest snapshot (git grep). ' +
+    'Returns matches grouped by repository, newest first, with commit, timestamp, path and matching line. ' +
+    'Repositories are searched concurrently under one time limit; untracked ones are skipped with a note.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Text to look for (a regular expression when regex is true, and always for method "diff")'
+      },
+      method: {
+        type: 'string',
+        enum: [...METHODS],
+        description: 'How to search (default: "pickaxe")'
+      },
+      repos: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only search these repositories, by name or path (default: all registered repositories)'
+      },
+      path: {
+        type: 'string',
+        description: 'Only search this file or directory within each repository'
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Treat pattern as an extended regular expression (default: false, plain text)'
+      },
+      ignore_case: {
+        type: 'boolean',
+        description: 'Case-insensitive match (default: false)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only search snapshots after this time, e.g. "yesterday" or "2 days ago" (pickaxe and diff only)'
+      },
+      max_results: {
+        type: 'number',
+        description: `Matches per repository (default: ${DEFAULT_MAX_RESULTS}, max: ${MAX_MAX_RESULTS})`
+      },
+      timeout_seconds: {
+        type: 'number',
+        description: `Time limit for the whole search (default: ${DEFAULT_TIMEOUT_SECONDS}, max: ${MAX_TIMEOUT_SECONDS})`
+      }
+    },
+    required: ['pattern']
+  },
+
+  async handler(args, context) {
+    const pattern = requireString(args, 'pattern');
+    const method = optionalEnum(args, 'method', METHODS) ?? 'pickaxe';
+    const selected = optionalStringArray(args, 'repos');
+    const paths = optionalPaths(args, 'path');
+    const regex = optionalBoolean(args, 'regex') ?? false;
+    const ignoreCase = optionalBoolean(args, 'ignore_case') ?? false;
+    const sinceArg = optionalString(args, 'since');
+    const maxResults = optionalNumber(args, 'max_results', { min: 1, max: MAX_MAX_RESULTS, integer: true }) ?? DEFAULT_MAX_RESULTS;
+    const timeoutSeconds = optionalNumber(args, 'timeout_seconds', { min: 1, max: MAX_TIMEOUT_SECONDS }) ?? DEFAULT_TIMEOUT_SECONDS;
+
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    if (since?.kind === 'revision') {
+      throw new ToolError(`Error: 'since' must be a time for search_all, since commit SHAs differ between repositories.`);
+    }
+    if (since && method === 'grep') {
+      throw new ToolError(`Error: 'since' does not apply to method "grep", which searches the latest snapshots.`);
+    }
+    // Fail on an invalid regex before starting any search
+    createMatcher(pattern, regex || method === 'diff', ignoreCase);
+
+    const repos = selected.length > 0 ? Array.from(new Set(selected)) : Array.from(context.repos.keys()).sort();
+    if (repos.length === 0) {
+      throw new ToolError('Error: No repositories are registered. Add repositories through the ShadowGit application.');
+    }
+    const query: SearchQuery = { pattern, method, regex, ignoreCase, paths, since: since?.date, maxResults };
+
+    // One deadline for every repository, also ended by the client cancelling
+    const deadline = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      deadline.abort();
+    }, timeoutSeconds * 1000);
+    const cancel = (): void => deadline.abort();
+    context.signal?.addEventListener('abort', cancel);
+    if (context.signal?.aborted) cancel();
+    const scoped = context.withSignal(deadline.signal);
+
+    const started = Date.now();
+    const results: RepositoryResult[] = [];
+    const skipped: SkippedRepository[] = [];
+    try {
+      await Promise.all(repos.map(async repo => {
+        try {
+          const repoPath = scoped.resolveRepo(repo);
+          const matches = await searchRepository(scoped, repoPath, query);
+          results.push({ repo, matches: matches.slice(0, maxResults), truncated: matches.length > maxResults });
+        } catch (error) {
+          if (!(error instanceof ToolError)) throw error;
+          const reason = deadline.signal.aborted
+            ? (timedOut ? `timed out after ${formatDuration(timeoutSeconds * 1000)}` : 'cancelled')
+            : skipReason(error.message);
+          skipped.push({ repo, reason });
+        }
+      }));
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', cancel);
+    }
+    const elapsedMs = Date.now() - started;
+
+    // Repositories with the most recent match first, then by name
+    const newest = (result: RepositoryResult): string => result.matches[0]?.timestamp ?? '';
+    for (const result of results) {
+      result.matches.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+    }
+    const found = results
+      .filter(result => result.matches.length > 0)
+      .sort((a, b) => Date.parse(newest(b)) - Date.parse(newest(a)) || a.repo.localeCompare(b.repo));
+    const empty = results.filter(result => result.matches.length === 0).map(result => result.repo).sort();
+    skipped.sort((a, b) => a.repo.localeCompare(b.repo));
+
+    const total = found.reduce((sum, result) => sum + result.matches.length, 0);
+    const lines = [
+      `Found ${total} match${total === 1 ? '' : 'es'} for '${pattern}' in ${found.length} of ${repos.length} ` +
+        `repositor${repos.length === 1 ? 'y' : 'ies'} (${method}, ${(elapsedMs / 1000).toFixed(1)} s).`
+    ];
+    for (const result of found) {
+      lines.push('', `${result.repo} (${result.matches.length}${result.truncated ? '+' : ''} match${result.matches.length === 1 ? '' : 'es'})`);
+      lines.push(...result.matches.map(formatMatch));
+      if (result.truncated) {
+        lines.push(`  ... more matches not shown; search ${result.repo} alone or raise max_results.`);
+      }
+    }
+    if (empty.length > 0) {
+      lines.push('', `No matches: ${empty.join(', ')}`);
+    }
+    if (skipped.length > 0) {
+      lines.push('', 'Skipped:', ...skipped.map(entry => `  ${entry.repo}: ${entry.reason}`));
+    }
+
+    const structured: SearchAllResult = {
+      pattern,
+      method,
+      elapsedMs,
+      results: found,
+      noMatches: empty,
+      skipped
+    };
+    return textResponse(lines.join('\n'), structured);
+  }
+};
+
+export { RepositoryResult, SearchAllResult, SearchMatch, SkippedRepository, parseGrepMatches, parseLogMatches, searchAllTool };
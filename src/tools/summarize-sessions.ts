@@ -0,0 +1,261 @@
+// ============================================================================
+// summarize_sessions Tool
+// ============================================================================
+//
+// ShadowGit commits on every save, so the gaps between snapshots show when
+// someone was actually working. Snapshots closer together than the idle gap
+// form one editing session; each session is summarized (time span, files,
+// lines) so the AI can pick a range before drilling in with the git tool.
+
+import { Commit, parseCommits, prepareJsonCommand } from '../git-json';
+import { optionalNumber, optionalPaths, optionalString, requireString } from './args';
+import { emptyTree, requireHead, shortSha } from './history';
+import { TimeSpec, describeTimeSpec, formatDuration, parseTimeSpec } from './time-spec';
+import { ToolContext, ToolDefinition, textResponse } from './types';
+
+const DEFAULT_IDLE_GAP_MINUTES = 30;
+const DEFAULT_MAX_SESSIONS = 20;
+
+// Snapshots read per call. Busy repositories have thousands per day, so older
+// history needs a narrower `since`/`until` window.
+const MAX_SCANNED_SNAPSHOTS = 5000;
+
+// Files listed per session in the text output (structured output has all)
+const MAX_LISTED_FILES = 10;
+
+interface SessionFile {
+  path: string;
+  additions: number;
+  deletions: number;
+  snapshots: number; // snapshots that touched this file
+}
+
+interface Session {
+  start: string;       // ISO 8601, first snapshot
+  end: string;         // ISO 8601, last snapshot
+  durationMs: number;
+  snapshots: number;
+  firstSha: string;
+  lastSha: string;
+  baseSha: string;     // state before the session (parent of the first snapshot, or the empty tree)
+  files: SessionFile[];
+  additions: number;   // summed over all snapshots
+  deletions: number;
+  net: { files: number; additions: number; deletions: number }; // baseSha..lastSha
+}
+
+/**
+ * Split chronological commits into sessions wherever the time between two
+ * consecutive snapshots exceeds `idleGapMs`.
+ */
+function groupSessions(commits: Commit[], idleGapMs: number): Commit[][] {
+  const groups: Commit[][] = [];
+  let previousTime: number | null = null;
+
+  for (const commit of commits) {
+    const time = Date.parse(commit.committedAt);
+    if (previousTime === null || time - previousTime > idleGapMs) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(commit);
+    previousTime = time;
+  }
+
+  return groups;
+}
+
+function summarizeFiles(commits: Commit[]): SessionFile[] {
+  const files = new Map<string, SessionFile>();
+  for (const commit of commits) {
+    for (const stat of commit.files) {
+      const file = files.get(stat.path) ?? { path: stat.path, additions: 0, deletions: 0, snapshots: 0 };
+      file.additions += stat.additions ?? 0;
+      file.deletions += stat.deletions ?? 0;
+      file.snapshots++;
+      files.set(stat.path, file);
+    }
+  }
+  // Most edited first
+  return Array.from(files.values())
+    .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions) || a.path.localeCompare(b.path));
+}
+
+function sumStats(files: SessionFile[]): { additions: number; deletions: number } {
+  return files.reduce(
+    (total, file) => ({
+      additions: total.additions + file.additions,
+      deletions: total.deletions + file.deletions
+    }),
+    { additions: 0, deletions: 0 }
+  );
+}
+
+function parseShortstat(output: string): { files: number; additions: number; deletions: number } {
+  const count = (pattern: RegExp): number => parseInt(pattern.exec(output)?.[1] ?? '0', 10);
+  return {
+    files: count(/(\d+) files? changed/),
+    additions: count(/(\d+) insertions?\(\+\)/),
+    deletions: count(/(\d+) deletions?\(-\)/)
+  };
+}
+
+/**
+ * log arguments selecting snapshots between two time specs. Times become
+ * --since/--until (committer date); revisions become the range ends.
+ */
+function windowArgs(since: TimeSpec | undefined, until: TimeSpec | undefined, head: string): string[] {
+  const args: string[] = [];
+  const end = until?.kind === 'revision' ? until.rev : head;
+  if (since?.kind === 'time') args.push(`--since=${since.date.toISOString()}`);
+  if (until?.kind === 'time') args.push(`--until=${until.date.toISOString()}`);
+  args.push(since?.kind === 'revision' ? `${since.rev}..${end}` : end);
+  return args;
+}
+
+async function buildSession(
+  context: ToolContext,
+  repoPath: string,
+  commits: Commit[],
+  paths: string[],
+  emptyTreeSha: () => Promise<string>
+): Promise<Session> {
+  const first = commits[0];
+  const last = commits[commits.length - 1];
+  const baseSha = first.parents[0] ?? await emptyTreeSha();
+  const shortstat = await context.git(repoPath, [
+    'diff', '--shortstat', '--no-ext-diff', '--no-textconv', baseSha, last.sha, '--', ...paths
+  ]);
+  const files = summarizeFiles(commits);
+
+  return {
+    start: first.committedAt,
+    end: last.committedAt,
+    durationMs: Date.parse(last.committedAt) - Date.parse(first.committedAt),
+    snapshots: commits.length,
+    firstSha: first.sha,
+    lastSha: last.sha,
+    baseSha,
+    files,
+    ...sumStats(files),
+    net: parseShortstat(shortstat)
+  };
+}
+
+function formatSession(session: Session, index: number): string {
+  const lines = [
+    `${index}. ${session.start} -> ${session.end} (${formatDuration(session.durationMs)}), ` +
+      `${session.snapshots} snapshot${session.snapshots === 1 ? '' : 's'}`,
+    `   Range: ${shortSha(session.baseSha)}..${shortSha(session.lastSha)}`,
+    `   Lines: +${session.additions} -${session.deletions} across snapshots; ` +
+      `net ${session.net.files} file${session.net.files === 1 ? '' : 's'}, +${session.net.additions} -${session.net.deletions}`
+  ];
+  const listed = session.files.slice(0, MAX_LISTED_FILES)
+    .map(file => `${file.path} (+${file.additions} -${file.deletions})`);
+  const more = session.files.length - listed.length;
+  lines.push(`   Files (${session.files.length}): ${listed.join(', ')}${more > 0 ? `, and ${more} more` : ''}`);
+  return lines.join('\n');
+}
+
+const summarizeSessionsTool: ToolDefinition = {
+  name: 'summarize_sessions',
+  description:
+    'Group ShadowGit snapshots into editing sessions separated by idle gaps. ' +
+    'Each session lists its start/end time, number of snapshots, files touched, lines added/removed, ' +
+    'and the net diff size, with a commit range to pass to the git tool or diff_since.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only include snapshots after this time or commit ("yesterday", "3 hours ago", ISO timestamp, SHA)'
+      },
+      until: {
+        type: 'string',
+        description: 'Only include snapshots up to this time or commit (default: latest snapshot)'
+      },
+      idle_gap_minutes: {
+        type: 'number',
+        description: `Minutes without a snapshot that end a session (default: ${DEFAULT_IDLE_GAP_MINUTES})`
+      },
+      max_sessions: {
+        type: 'number',
+        description: `Return at most this many of the most recent sessions (default: ${DEFAULT_MAX_SESSIONS})`
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only count snapshots that touched these files or directories'
+      }
+    },
+    required: ['repo']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const sinceArg = optionalString(args, 'since');
+    const untilArg = optionalString(args, 'until');
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const idleGapMinutes = optionalNumber(args, 'idle_gap_minutes', { min: 1, max: 24 * 60 }) ?? DEFAULT_IDLE_GAP_MINUTES;
+    const maxSessions = optionalNumber(args, 'max_sessions', { min: 1, max: 200, integer: true }) ?? DEFAULT_MAX_SESSIONS;
+    const paths = optionalPaths(args);
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+
+    const argv = prepareJsonCommand([
+      'log', `--max-count=${MAX_SCANNED_SNAPSHOTS + 1}`, ...windowArgs(since, until, head), '--', ...paths
+    ]);
+    const newestFirst = parseCommits(await context.git(repoPath, argv));
+    const scanTruncated = newestFirst.length > MAX_SCANNED_SNAPSHOTS;
+    const commits = newestFirst.slice(0, MAX_SCANNED_SNAPSHOTS).reverse();
+
+    const groups = groupSessions(commits, idleGapMinutes * 60 * 1000);
+    const omitted = Math.max(0, groups.length - maxSessions);
+
+    let emptyTreeSha: string | undefined;
+    const getEmptyTree = async (): Promise<string> => (emptyTreeSha ??= await emptyTree(context, repoPath));
+    const sessions: Session[] = [];
+    for (const group of groups.slice(omitted)) {
+      sessions.push(await buildSession(context, repoPath, group, paths, getEmptyTree));
+    }
+
+    const window = [
+      since ? `since ${describeTimeSpec(since)}` : '',
+      until ? `until ${describeTimeSpec(until)}` : ''
+    ].filter(Boolean).join(', ');
+    const lines = [
+      `Editing sessions in ${repo}${window ? ` (${window})` : ''}, idle gap ${idleGapMinutes} min: ` +
+        `${groups.length} session${groups.length === 1 ? '' : 's'}, ${commits.length} snapshots`
+    ];
+    if (paths.length > 0) {
+      lines.push(`Paths: ${paths.join(', ')}`);
+    }
+    if (scanTruncated) {
+      lines.push(`Note: only the newest ${MAX_SCANNED_SNAPSHOTS} snapshots were read; use 'since'/'until' to look further back.`);
+    }
+    if (omitted > 0) {
+      lines.push(`Showing the ${sessions.length} most recent sessions (${omitted} older omitted; raise max_sessions to see them).`);
+    }
+    lines.push('');
+    lines.push(sessions.length > 0
+      ? sessions.map((session, i) => formatSession(session, omitted + i + 1)).join('\n\n')
+      : 'No snapshots in this range.');
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      idleGapMinutes,
+      totalSessions: groups.length,
+      omittedSessions: omitted,
+      scannedSnapshots: commits.length,
+      scanTruncated,
+      sessions
+    });
+  }
+};
+
+export { Session, groupSessions, parseShortstat, summarizeSessionsTool, windowArgs };
@@ -0,0 +1,116 @@
+// ============================================================================
+// Time Specifications
+// ============================================================================
+//
+// History tools accept a point in time the way people say it: "20 minutes
+// ago", "yesterday", "14:32", an ISO timestamp, or a revision (SHA, HEAD~3).
+// Times are resolved here against the server clock; revisions are left for
+// git to resolve.
+
+import { ToolError } from './types';
+
+type TimeSpec =
+  | { kind: 'time'; date: Date }
+  | { kind: 'revision'; rev: string };
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  s: 'second', sec: 'second', secs: 'second', second: 'second', seconds: 'second',
+  m: 'minute', min: 'minute', mins: 'minute', minute: 'minute', minutes: 'minute',
+  h: 'hour', hr: 'hour', hrs: 'hour', hour: 'hour', hours: 'hour',
+  d: 'day', day: 'day', days: 'day',
+  w: 'week', week: 'week', weeks: 'week'
+};
+
+// "20 minutes ago", "20min ago", "an hour ago", "1.5 hours ago"
+const RELATIVE = /^(\d+(?:\.\d+)?|an?|one)\s*([a-z]+)\s+ago$/i;
+
+// "14:32" or "14:32:05", meaning the most recent such time of day
+const TIME_OF_DAY = /^(?:at\s+)?(\d{1,2}):(\d{2})(?::(\d{2}))?$/i;
+
+// Dates that Date.parse understands reliably: ISO 8601 and "YYYY-MM-DD hh:mm"
+const ABSOLUTE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Revisions are passed to git as arguments, so they must not look like options
+const REVISION = /^[^\s-][^\s]*$/;
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Parse a time expression or revision. Throws a ToolError naming the
+ * parameter when the value is neither.
+ */
+function parseTimeSpec(value: string, name: string, now: Date = new Date()): TimeSpec {
+  const text = value.trim();
+  const lower = text.toLowerCase();
+
+  if (lower === 'now') return { kind: 'time', date: now };
+  if (lower === 'today') return { kind: 'time', date: startOfDay(now) };
+  if (lower === 'yesterday') {
+    const date = startOfDay(now);
+    date.setDate(date.getDate() - 1);
+    return { kind: 'time', date };
+  }
+
+  const relative = RELATIVE.exec(lower);
+  if (relative) {
+    const unit = UNIT_ALIASES[relative[2]];
+    if (!unit) {
+      throw new ToolError(`Error: Unknown time unit '${relative[2]}' in '${name}'. Use seconds, minutes, hours, days or weeks.`);
+    }
+    const amount = /^\d/.test(relative[1]) ? parseFloat(relative[1]) : 1;
+    return { kind: 'time', date: new Date(now.getTime() - amount * UNIT_MS[unit]) };
+  }
+
+  const timeOfDay = TIME_OF_DAY.exec(lower);
+  if (timeOfDay) {
+    const date = new Date(now);
+    date.setHours(parseInt(timeOfDay[1], 10), parseInt(timeOfDay[2], 10), parseInt(timeOfDay[3] ?? '0', 10), 0);
+    if (date.getTime() > now.getTime()) date.setDate(date.getDate() - 1);
+    return { kind: 'time', date };
+  }
+
+  if (ABSOLUTE.test(text)) {
+    const date = new Date(text.replace(' ', 'T'));
+    if (!Number.isNaN(date.getTime())) return { kind: 'time', date };
+  }
+
+  if (REVISION.test(text)) {
+    return { kind: 'revision', rev: text };
+  }
+
+  throw new ToolError(
+    `Error: Could not understand '${value}' for '${name}'. Use a relative time ("20 minutes ago"), a time of day ("14:32"), an ISO timestamp, or a commit SHA.`
+  );
+}
+
+function describeTimeSpec(spec: TimeSpec): string {
+  return spec.kind === 'time' ? spec.date.toISOString() : spec.rev;
+}
+
+/**
+ * Human-readable distance between two instants: "12 min", "3 h 5 min".
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(Math.abs(ms) / 1000);
+  if (totalSeconds < 60) return `${totalSeconds} s`;
+  const totalMinutes = Math.round(totalSeconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours < 48) return minutes ? `${hours} h ${minutes} min` : `${hours} h`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+export { TimeSpec, describeTimeSpec, formatDuration, parseTimeSpec };
@@ -0,0 +1,230 @@
+// ============================================================================
+// trace_lines Tool
+// ============================================================================
+//
+// "When did these lines change, and how?" `git log -L` answers it, following
+// the lines through edits above them and through renames, but its output is
+// awkward to read back and it walks the whole history, which easily runs
+// into the command timeout on a long snapshot history. This tool runs it
+// from the snapshot at the end of a time window (where the line numbers and
+// path are read), bounded by the window and a snapshot count, and returns
+// one entry per snapshot with the hunk and where the lines were at the time.
+
+import { DIFF_OUTPUT_FLAGS, DiffFile, parseDiff, patchText } from '../git-json';
+import { optionalNumber, optionalString, requireString } from './args';
+import { exists, renamedTo } from './file-at';
+import { requireHead, resolveTimeSpec, shortSha } from './history';
+import { describeTimeSpec, parseTimeSpec } from './time-spec';
+import { ToolDefinition, ToolError, textResponse } from './types';
+
+const DEFAULT_MAX_SNAPSHOTS = 50;
+
+const RECORD_START = '\x1e';
+
+const TRACE_FORMAT = `--format=${RECORD_START}%H%x1f%cI%x1f%s%x1f`;
+
+interface TracedChange {
+  sha: string;
+  timestamp: string;  // ISO 8601 committer date
+  subject: string;
+  path: string;       // the file's name in this snapshot
+  startLine: number;  // the traced lines in this snapshot; endLine is
+  endLine: number;    // startLine - 1 when the snapshot removed them all
+  additions: number;
+  deletions: number;
+  hunk: string;       // the change to the traced lines, as printed by git
+}
+
+/**
+ * Parse `log -L` output written with TRACE_FORMAT, newest first.
+ */
+function parseTrace(output: string): TracedChange[] {
+  const changes: TracedChange[] = [];
+  for (const record of output.split(RECORD_START).slice(1)) {
+    const [sha, timestamp, subject, ...rest] = record.split('\x1f');
+    const patch = rest.join('\x1f');
+    const [file]: DiffFile[] = parseDiff(patch.slice(Math.max(patch.search(/^diff --git /m), 0)));
+    if (!file || file.hunks.length === 0) continue;
+
+    const first = file.hunks[0];
+    const last = file.hunks[file.hunks.length - 1];
+    changes.push({
+      sha,
+      timestamp,
+      subject,
+      path: file.newPath ?? file.oldPath ?? '',
+      startLine: first.newStart,
+      endLine: last.newStart + last.newLines - 1,
+      additions: file.additions,
+      deletions: file.deletions,
+      hunk: patchText(patch, /^@@ /m)
+    });
+  }
+  return changes;
+}
+
+/**
+ * The `-L` argument for a line range or a function. Function names are
+ * regular expressions to git and end at the first unescaped ':'.
+ */
+function lineRangeArg(path: string, range: { startLine: number; endLine: number } | { functionName: string }): string {
+  if ('functionName' in range) {
+    return `:${range.functionName.replace(/:/g, '\\:')}:${path}`;
+  }
+  return `${range.startLine},${range.endLine}:${path}`;
+}
+
+function describeRange(change: TracedChange): string {
+  if (change.endLine < change.startLine) return `lines removed (before line ${change.startLine})`;
+  return change.startLine === change.endLine ? `line ${change.startLine}` : `lines ${change.startLine}-${change.endLine}`;
+}
+
+const traceLinesTool: ToolDefinition = {
+  name: 'trace_lines',
+  description:
+    'Trace the history of a line range or a function in a file (git log -L): every snapshot that changed those lines, ' +
+    'newest first, with its time, the hunk, and the line range and file name at that point, following renames. ' +
+    'Line numbers and path refer to the snapshot at the end of the window (default: latest). ' +
+    'Use `since`/`until` ("3 hours ago", "yesterday", "14:32", ISO timestamp, or SHA) to bound the work on long histories.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repo: {
+        type: 'string',
+        description: 'Repository name (use list_repos to see available repositories)'
+      },
+      path: {
+        type: 'string',
+        description: 'File path relative to the repository root, as named at the end of the window'
+      },
+      start_line: {
+        type: 'number',
+        description: 'First line to trace (1-based); use this or `function`'
+      },
+      end_line: {
+        type: 'number',
+        description: 'Last line to trace (default: start_line)'
+      },
+      function: {
+        type: 'string',
+        description: 'Trace the function whose first line matches this regular expression (e.g. a function name) instead of a line range'
+      },
+      since: {
+        type: 'string',
+        description: 'Only include snapshots after this time or commit ("yesterday", "3 hours ago", ISO timestamp, SHA)'
+      },
+      until: {
+        type: 'string',
+        description: 'Trace back from the last snapshot at or before this time or commit (default: latest snapshot)'
+      },
+      max_snapshots: {
+        type: 'number',
+        description: `Maximum snapshots to return, newest first (default: ${DEFAULT_MAX_SNAPSHOTS})`
+      }
+    },
+    required: ['repo', 'path']
+  },
+
+  async handler(args, context) {
+    const repo = requireString(args, 'repo');
+    const path = requireString(args, 'path').replace(/^(\.\/)+/, '');
+    const startLine = optionalNumber(args, 'start_line', { min: 1, integer: true });
+    const endLine = optionalNumber(args, 'end_line', { min: 1, integer: true });
+    const functionName = optionalString(args, 'function');
+    const sinceArg = optionalString(args, 'since');
+    const untilArg = optionalString(args, 'until');
+    const since = sinceArg === undefined ? undefined : parseTimeSpec(sinceArg, 'since');
+    const until = untilArg === undefined ? undefined : parseTimeSpec(untilArg, 'until');
+    const maxSnapshots = optionalNumber(args, 'max_snapshots', { min: 1, max: 500, integer: true }) ?? DEFAULT_MAX_SNAPSHOTS;
+
+    if (functionName !== undefined && (startLine !== undefined || endLine !== undefined)) {
+      throw new ToolError("Error: Give either 'function' or 'start_line'/'end_line', not both.");
+    }
+    if (functionName === undefined && startLine === undefined) {
+      throw new ToolError("Error: 'start_line' or 'function' parameter is required.");
+    }
+    if (functionName !== undefined && (functionName === '' || /[\n\r]/.test(functionName))) {
+      throw new ToolError("Error: 'function' must be a single-line regular expression.");
+    }
+    if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+      throw new ToolError(`Error: 'end_line' (${endLine}) must not be before 'start_line' (${startLine}).`);
+    }
+
+    const repoPath = context.resolveRepo(repo);
+    const head = await requireHead(context, repoPath);
+    const end = until ? await resolveTimeSpec(context, repoPath, until) : head;
+    if (!end) {
+      throw new ToolError(`Error: No snapshots exist at or before ${describeTimeSpec(until!)}.`);
+    }
+
+    // git reports a path missing from the starting snapshot without saying
+    // where the file went
+    if (!(await exists(context, repoPath, end, path))) {
+      const lastChange = (await context.git(repoPath, ['log', '-1', '--format=%H', end, '--', path])).trim();
+      if (!lastChange) {
+        throw new ToolError(`Error: '${path}' is not a file in snapshot ${shortSha(end)} or any snapshot before it.`);
+      }
+      const newName = await renamedTo(context, repoPath, lastChange, path);
+      throw new ToolError(newName !== null
+        ? `Error: '${path}' is not a file in snapshot ${shortSha(end)}; it was renamed to '${newName}' in ${shortSha(lastChange)}, trace that instead.`
+        : `Error: '${path}' is not a file in snapshot ${shortSha(end)}; use file_at to see a deleted file.`);
+    }
+
+    const range = functionName !== undefined
+      ? { functionName }
+      : { startLine: startLine!, endLine: endLine ?? startLine! };
+    const argv = ['log', '-L', lineRangeArg(path, range), TRACE_FORMAT, ...DIFF_OUTPUT_FLAGS, `--max-count=${maxSnapshots + 1}`];
+    if (since?.kind === 'time') argv.push(`--since=${since.date.toISOString()}`);
+    argv.push(since?.kind === 'revision' ? `${since.rev}..${end}` : end, '--');
+
+    let output: string;
+    try {
+      output = await context.git(repoPath, argv);
+    } catch (error) {
+      if (error instanceof ToolError && /timed out/.test(error.message)) {
+        throw new ToolError(`${error.message} Use 'since' to trace a shorter window, or trace fewer lines.`);
+      }
+      throw error;
+    }
+    const newestFirst = parseTrace(output);
+    const truncated = newestFirst.length > maxSnapshots;
+    const changes = newestFirst.slice(0, maxSnapshots);
+
+    const traced = 'functionName' in range
+      ? `function /${range.functionName}/ in ${path}`
+      : `${path} ${range.startLine === range.endLine ? `line ${range.startLine}` : `lines ${range.startLine}-${range.endLine}`}`;
+    const lines = [
+      `History of ${traced} (as of snapshot ${shortSha(end)}) in ${repo}: ` +
+        `${changes.length}${truncated ? '+' : ''} snapshot${changes.length === 1 ? '' : 's'}, newest first`
+    ];
+    if (since) {
+      lines.push(`Since: ${describeTimeSpec(since)}`);
+    }
+    if (truncated) {
+      lines.push(`Note: only the newest ${maxSnapshots} are shown; raise 'max_snapshots' or use 'since'/'until' to see older changes.`);
+    }
+    if (changes.length === 0) {
+      lines.push('', 'No snapshot in the window changed these lines.');
+    }
+    for (const change of changes) {
+      const renamed = change.path !== path ? ` (as ${change.path})` : '';
+      lines.push(
+        '',
+        `${shortSha(change.sha)}  ${change.timestamp}  ${change.subject}`,
+        `${describeRange(change)}${renamed}  +${change.additions} -${change.deletions}`,
+        change.hunk
+      );
+    }
+
+    return textResponse(lines.join('\n'), {
+      repo,
+      path,
+      snapshot: end,
+      ...('functionName' in range ? { function: range.functionName } : { startLine: range.startLine, endLine: range.endLine }),
+      changes,
+      truncated
+    });
+  }
+};
+
+export { TracedChange, lineRangeArg, parseTrace, traceLinesTool };
@@ -0,0 +1,73 @@
+// ============================================================================
+// Tool Types
+// ============================================================================
+//
+// Shared shapes for the history tools in this directory. Each tool module
+// exports a ToolDefinition; the server lists it and calls its handler with a
+// ToolContext that runs git the same way the `git` tool does (same runner,
+// queue, timeout and cancellation).
+
+// The actual response format expected by MCP
+type MCPToolResponse = {
+  content: Array<{
+    type: string;
+    text: string;
+  }>;
+  // Typed result for structured calls (e.g. git with format "json"). The same
+  // data is serialized into `content` for clients that only read text.
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * Thrown by tool handlers for problems the caller can fix (bad arguments,
+ * unknown repository, git errors). The message is shown to the AI as-is.
+ */
+class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+interface ToolContext {
+  signal?: AbortSignal;
+  // Registered repositories, name -> path
+  repos: ReadonlyMap<string, string>;
+  // Resolve a repository name or path to a ShadowGit-tracked directory.
+  // Throws a ToolError naming the available repositories otherwise.
+  resolveRepo(repo: string): string;
+  // Run git (internal argv, not policy-checked) in a tracked repository and
+  // return stdout. Throws a ToolError with the user-facing message on failure.
+  git(repoPath: string, argv: string[]): Promise<string>;
+  // Run a git command used as a yes/no question (grep -q, merge-base
+  // --is-ancestor): true on exit status 0, false on 1. Anything else throws
+  // a ToolError like git() does.
+  gitCheck(repoPath: string, argv: string[]): Promise<boolean>;
+  // Run git like git() but in the project's own .git repository, where the
+  // snapshots can be named too. Throws a ToolError when the project has none.
+  realGit(repoPath: string, argv: string[]): Promise<string>;
+  // The same context with git calls cancelled by `signal` instead (e.g. a
+  // deadline covering several calls, linked to this context's signal)
+  withSignal(signal: AbortSignal): ToolContext;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  handler(args: Record<string, unknown>, context: ToolContext): Promise<MCPToolResponse>;
+}
+
+function textResponse(text: string, structuredContent?: Record<string, unknown>): MCPToolResponse {
+  return {
+    content: [{ type: 'text', text }],
+    ...(structuredContent ? { structuredContent } : {})
+  };
+}
+
+export { MCPToolResponse, ToolContext, ToolDefinition, ToolError, textResponse };
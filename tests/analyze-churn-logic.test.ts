@@ -0,0 +1,165 @@
+// Tests for reporting edit churn over a time window
+
+import { describe, it, expect } from '@jest/globals';
+import { Commit, DiffFile, DiffLine } from '../src/git-json';
+import { analyzeChurnTool, findFlappingLines, summarizeChurn } from '../src/tools/analyze-churn';
+import { ToolError } from '../src/tools/types';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const RS = '\x1e';
+
+function hunkLines(removed: string[], added: string[]): DiffLine[] {
+  return [
+    ...removed.map(content => ({ type: 'delete' as const, content })),
+    ...added.map(content => ({ type: 'add' as const, content }))
+  ];
+}
+
+function fileDiff(path: string, section: string | undefined, removed: string[], added: string[]): DiffFile {
+  return {
+    oldPath: path,
+    newPath: path,
+    status: 'modified',
+    binary: false,
+    additions: added.length,
+    deletions: removed.length,
+    hunks: [{ header: '@@ -1 +1 @@', oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, section, lines: hunkLines(removed, added) }]
+  };
+}
+
+function commit(sha: string, committedAt: string, diff: DiffFile[]): Commit {
+  const person = { name: 'Dev', email: 'dev@example.com' };
+  return {
+    sha,
+    parents: [],
+    author: person,
+    authoredAt: committedAt,
+    committer: person,
+    committedAt,
+    subject: 'Auto-save',
+    message: 'Auto-save',
+    files: diff.map(file => ({ path: file.newPath!, additions: file.additions, deletions: file.deletions })),
+    diff
+  };
+}
+
+// `compute(1)` is changed to `compute(2)` and back twice
+const COMMITS = [
+  commit('c1', '2024-05-01T10:10:00Z', [fileDiff('app.ts', 'function alpha() {', ['x = compute(1);'], ['x = compute(2);'])]),
+  commit('c2', '2024-05-01T10:20:00Z', [fileDiff('app.ts', 'function alpha() {', ['x = compute(2);'], ['x = compute(1);'])]),
+  commit('c3', '2024-05-01T11:05:00Z', [
+    fileDiff('app.ts', 'function beta() {', ['return 2;'], ['return 3;']),
+    fileDiff('util.ts', undefined, ['}'], ['  done();', '}'])
+  ]),
+  commit('c4', '2024-05-01T11:10:00Z', [fileDiff('app.ts', 'function alpha() {', ['x = compute(1);'], ['x = compute(2);'])]),
+  commit('c5', '2024-05-01T11:20:00Z', [fileDiff('app.ts', 'function alpha() {', ['x = compute(2);'], ['x = compute(1);'])])
+];
+
+// One snapshot in the JSON log format (see prepareJsonCommand), with its patch
+function jsonCommit(sha: string, timestamp: string, removed: string, added: string): string {
+  const header = [sha, '', 'Dev', 'dev@example.com', timestamp, 'Dev', 'dev@example.com', timestamp, 'Auto-save'].join(FS);
+  const patch = [
+    'diff --git a/app.ts b/app.ts', 'index 1111111..2222222 100644', '--- a/app.ts', '+++ b/app.ts',
+    '@@ -2 +2 @@ function alpha() {', `-${removed}`, `+${added}`
+  ].join('\n');
+  return `${RS}${header}${FS}\n\n1\t1\tapp.ts\n${patch}\n`;
+}
+
+function createContext(): ScriptedContext {
+  return scriptedContext(argv => {
+    switch (argv[0]) {
+      case 'rev-parse': return 'c3\n';
+      case 'log':
+        return jsonCommit('c3', '2024-05-01T10:20:00Z', '  old();', '  current();') +
+          jsonCommit('c2', '2024-05-01T10:10:00Z', '  current();', '  old();') +
+          jsonCommit('c1', '2024-05-01T09:50:00Z', '  old();', '  current();');
+    }
+  });
+}
+
+describe('summarizeChurn', () => {
+  it('should rank files and functions by the snapshots that changed them', () => {
+    const { files, functions, hours } = summarizeChurn(COMMITS);
+
+    expect(files).toEqual([
+      { path: 'app.ts', snapshots: 5, additions: 5, deletions: 5 },
+      { path: 'util.ts', snapshots: 1, additions: 2, deletions: 1 }
+    ]);
+    expect(functions).toEqual([
+      { path: 'app.ts', name: 'function alpha() {', snapshots: 4, lines: 8 },
+      { path: 'app.ts', name: 'function beta() {', snapshots: 1, lines: 2 }
+    ]);
+    expect(hours).toEqual([
+      { hour: '2024-05-01T10', snapshots: 2, lines: 4 },
+      { hour: '2024-05-01T11', snapshots: 3, lines: 9 }
+    ]);
+  });
+});
+
+describe('findFlappingLines', () => {
+  it('should count lines put back after being removed, from the first removal', () => {
+    const flapping = findFlappingLines(COMMITS);
+
+    expect(flapping[0]).toEqual({
+      path: 'app.ts',
+      content: 'x = compute(1);',
+      restored: 2,
+      snapshots: ['c1', 'c2', 'c4', 'c5'],
+      first: '2024-05-01T10:10:00Z',
+      last: '2024-05-01T11:20:00Z'
+    });
+    expect(flapping[1]).toMatchObject({ content: 'x = compute(2);', restored: 1, snapshots: ['c2', 'c4', 'c5'] });
+  });
+
+  it('should ignore moved lines and lines without content', () => {
+    const moved = [
+      commit('m1', '2024-05-01T10:00:00Z', [fileDiff('a.ts', undefined, ['keep();', '}'], ['keep();'])]),
+      commit('m2', '2024-05-01T10:05:00Z', [fileDiff('a.ts', undefined, [], ['}'])]),
+      commit('m3', '2024-05-01T10:10:00Z', [fileDiff('a.ts', undefined, ['keep();'], ['  keep();'])])
+    ];
+    expect(findFlappingLines(moved)).toEqual([]);
+  });
+});
+
+describe('analyze_churn', () => {
+  it('should read the window with patches and no context lines', async () => {
+    const { context, git } = createContext();
+    const result = await analyzeChurnTool.handler({ repo: 'app', since: '2024-05-01T09:00:00Z', paths: ['src'] }, context);
+    const text = result.content[0].text;
+
+    expect(git).toHaveBeenLastCalledWith('/work/app', expect.arrayContaining([
+      'log', '--unified=0', '--since=2024-05-01T09:00:00.000Z', 'c3', '--patch', '--', 'src'
+    ]));
+    expect(text).toContain('Most edited files (1):\n  app.ts  3 snapshots, +3 -3');
+    expect(text).toContain('app.ts: function alpha() {  3 snapshots, 6 lines');
+    expect(text).toContain('  2024-05-01T09:00  1 snapshot, 2 lines changed\n  2024-05-01T10:00  2 snapshots');
+    expect(text).toContain('app.ts: "current();"  restored 1x (2024-05-01T10:10:00Z -> 2024-05-01T10:20:00Z, c2 c3)');
+    expect(result.structuredContent).toMatchObject({ scannedSnapshots: 3, scanTruncated: false, totals: { flapping: 2 } });
+  });
+
+  it('should reject an invalid ranking size', async () => {
+    const { context } = createContext();
+    await expect(analyzeChurnTool.handler({ repo: 'app', top: 0 }, context)).rejects.toThrow(ToolError);
+  });
+});
+
+describe('analyze_churn against git', () => {
+  const body = (call: string): string => `function alpha() {\n  ${call}\n}\n`;
+  const repo = useShadowRepo(repo => {
+    repo.save('2024-05-01T09:50:00Z', { 'app.js': body('old();') });
+    repo.save('2024-05-01T10:00:00Z', { 'app.js': body('current();') });
+    repo.save('2024-05-01T10:10:00Z', { 'app.js': body('old();') });
+    repo.save('2024-05-01T10:20:00Z', { 'app.js': body('current();') });
+  });
+
+  it('should find the edited function and the lines put back', async () => {
+    const result = await analyzeChurnTool.handler({ repo: repo.path, since: '2024-05-01T09:55:00Z' }, repo.context());
+
+    const text = result.content[0].text;
+    expect(text).toContain('app.js: function alpha() {  3 snapshots, 6 lines');
+    expect(text).toContain('app.js: "current();"  restored 1x');
+    expect(result.structuredContent).toMatchObject({ scannedSnapshots: 3, totals: { files: 1, flapping: 2 } });
+  });
+});
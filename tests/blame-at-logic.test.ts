@@ -0,0 +1,141 @@
+// Tests for blaming a file as of a snapshot
+
+import { describe, it, expect } from '@jest/globals';
+import { blameAtTool, groupBlame, isoTime, parseBlame } from '../src/tools/blame-at';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, hasOption, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+
+const SHA_1 = '1'.repeat(40);
+const SHA_2 = '2'.repeat(40);
+const SHA_3 = '3'.repeat(40);
+
+function commitInfo(time: number, summary: string, filename: string): string[] {
+  return [
+    'author Dev', 'author-mail <dev@example.com>', `author-time ${time}`, 'author-tz +0000',
+    'committer Dev', 'committer-mail <dev@example.com>', `committer-time ${time}`, 'committer-tz +0200',
+    `summary ${summary}`, `filename ${filename}`
+  ];
+}
+
+// Lines 1-2 and 4 from SHA_1 (10:00 UTC, as old.ts), line 3 from SHA_2
+// (11:48 UTC), line 5 from the target SHA_3 (12:00 UTC)
+const PORCELAIN = [
+  `${SHA_1} 1 1 2`, ...commitInfo(1714557600, 'Auto-save 1', 'old.ts'), '\tfunction alpha() {',
+  `${SHA_1} 2 2`, '\t  const x = 1;',
+  `${SHA_2} 3 3 1`, ...commitInfo(1714564080, 'Auto-save 2', 'app.ts'), '\t  debugger;',
+  `${SHA_1} 3 4 1`, 'filename old.ts', '\t  return x;',
+  `${SHA_3} 5 5 1`, ...commitInfo(1714564800, 'Auto-save 3', 'app.ts'), '\t}',
+  ''
+].join('\n');
+
+function createContext(): ScriptedContext {
+  return scriptedContext(argv => {
+    switch (argv[0]) {
+      case 'rev-parse': {
+        const [rev] = revisionsOf(argv);
+        return `${rev === 'HEAD^{commit}' ? SHA_3 : rev.replace('^{commit}', '')}\n`;
+      }
+      case 'rev-list': return `${SHA_2}\n`;
+      case 'log':
+        if (hasOption(argv, '--follow')) return '';
+        return `${revisionsOf(argv)[0]}${FS}2024-05-01T14:00:00+02:00${FS}Auto-save\n`;
+      case 'ls-tree': return pathsOf(argv)[0] === 'app.ts' ? '100644 blob 0123abcd\tapp.ts\0' : '';
+      case 'blame': return PORCELAIN;
+    }
+  });
+}
+
+describe('isoTime', () => {
+  it('should print the time in the committer time zone like %cI', () => {
+    expect(isoTime(1714557600, '+0200')).toBe('2024-05-01T12:00:00+02:00');
+    expect(isoTime(1714557600, '-0530')).toBe('2024-05-01T04:30:00-05:30');
+    expect(isoTime(1714557600, '+0000')).toBe('2024-05-01T10:00:00+00:00');
+  });
+});
+
+describe('parseBlame', () => {
+  it('should carry commit details to later lines of the same commit', () => {
+    const lines = parseBlame(PORCELAIN);
+
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toEqual({
+      line: 2, sha: SHA_1, origLine: 2, path: 'old.ts', timestamp: '2024-05-01T12:00:00+02:00', subject: 'Auto-save 1', content: '  const x = 1;'
+    });
+    expect(lines[3]).toMatchObject({ line: 4, sha: SHA_1, origLine: 3, subject: 'Auto-save 1' });
+    expect(lines[2]).toMatchObject({ sha: SHA_2, path: 'app.ts', timestamp: '2024-05-01T13:48:00+02:00', content: '  debugger;' });
+  });
+});
+
+describe('groupBlame', () => {
+  it('should group consecutive lines from the same snapshot with their age', () => {
+    const groups = groupBlame(parseBlame(PORCELAIN), { sha: SHA_3, timestamp: '2024-05-01T14:00:00+02:00' });
+
+    expect(groups.map(({ sha, startLine, endLine, age }) => ({ sha, startLine, endLine, age }))).toEqual([
+      { sha: SHA_1, startLine: 1, endLine: 2, age: '2 h before target' },
+      { sha: SHA_2, startLine: 3, endLine: 3, age: '12 min before target' },
+      { sha: SHA_1, startLine: 4, endLine: 4, age: '2 h before target' },
+      { sha: SHA_3, startLine: 5, endLine: 5, age: 'in target' }
+    ]);
+    expect(groups[0].lines).toEqual(['function alpha() {', '  const x = 1;']);
+  });
+});
+
+describe('blame_at', () => {
+  it('should blame the file in the latest snapshot by default', async () => {
+    const { context, git } = createContext();
+    const result = await blameAtTool.handler({ repo: 'app', path: './app.ts', start_line: 1 }, context);
+    const text = result.content[0].text;
+
+    expect(git).toHaveBeenLastCalledWith('/work/app', ['blame', '--porcelain', '-L', '1,', SHA_3, '--', 'app.ts']);
+    expect(text).toContain('Lines 1-5: 4 groups from 3 snapshots');
+    expect(text).toContain('3  22222222  2024-05-01T13:48:00+02:00  (12 min before target)  Auto-save 2\n3\t  debugger;');
+    expect(text).toContain('1-2  11111111  2024-05-01T12:00:00+02:00  (2 h before target, as old.ts)  Auto-save 1');
+    expect(result.structuredContent).toMatchObject({
+      path: 'app.ts',
+      snapshot: { sha: SHA_3 },
+      lines: [{ line: 1 }, { line: 2 }, { line: 3, age: '12 min before target' }, { line: 4 }, { line: 5 }],
+      truncated: false
+    });
+  });
+
+  it('should reject files missing from the snapshot and reversed ranges', async () => {
+    const { context } = createContext();
+    await expect(blameAtTool.handler({ repo: 'app', path: 'gone.ts' }, context))
+      .rejects.toThrow("'gone.ts' is not a file in snapshot 33333333; use file_at to see a deleted file.");
+    await expect(blameAtTool.handler({ repo: 'app', path: 'app.ts', start_line: 4, end_line: 3 }, context))
+      .rejects.toThrow("'end_line' (3) must not be before 'start_line' (4)");
+  });
+
+  it('should resolve a time to the last snapshot at or before it', async () => {
+    const { context, git } = createContext();
+    await blameAtTool.handler({ repo: 'app', path: 'app.ts', at: '2024-05-01T12:00:00Z', end_line: 3 }, context);
+
+    expect(git).toHaveBeenCalledWith('/work/app', ['rev-list', '-1', '--before=2024-05-01T12:00:00.000Z', 'HEAD']);
+    expect(git).toHaveBeenLastCalledWith('/work/app', ['blame', '--porcelain', '-L', '1,3', SHA_2, '--', 'app.ts']);
+  });
+});
+
+describe('blame_at against git', () => {
+  let first = '';
+  let second = '';
+  const repo = useShadowRepo(repo => {
+    first = repo.save('2024-05-01T10:00:00Z', { 'old.ts': 'function alpha() {\n  return 1;\n}\n' });
+    second = repo.save('2024-05-01T11:00:00Z', { 'old.ts': null, 'app.ts': 'function alpha() {\n  return 2;\n}\n' });
+    repo.save('2024-05-01T12:00:00Z', { 'notes.md': 'later\n' });
+  });
+
+  it('should blame each line on the snapshot that wrote it, across a rename', async () => {
+    const result = await blameAtTool.handler({ repo: repo.path, path: 'app.ts' }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({
+      path: 'app.ts',
+      lines: [
+        { line: 1, sha: first, path: 'old.ts' },
+        { line: 2, sha: second, content: '  return 2;' },
+        { line: 3, sha: first, path: 'old.ts' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// Tests for the blob index behind the denyPaths object checks
+// Git is replaced by a fake reader that answers from canned output
+
+import { describe, it, expect } from '@jest/globals';
+import { BlobIndex, GitReader } from '../src/blob-index';
+import { PathRules } from '../src/path-rules';
+
+const SECRET = 'a'.repeat(40);
+const SOURCE = 'b'.repeat(40);
+const SHARED = 'c'.repeat(40);
+const NEWER = 'd'.repeat(40);
+const NULL = '0'.repeat(40);
+
+function raw(entries: [string, string, string][]): string {
+  return entries.map(([oldSha, newSha, file]) => `:100644 100644 ${oldSha} ${newSha} M\0${file}\0`).join('\n');
+}
+
+function fakeGit(history: Record<string, string>, objects: Record<string, { type: string; sha: string }> = {}) {
+  const calls: string[][] = [];
+  const git: GitReader = async (_repoPath, argv) => {
+    calls.push(argv);
+    if (argv[0] === 'log') return history[argv[argv.length - 1]] ?? null;
+    const object = objects[argv[argv.length - 1]];
+    if (argv[0] === 'cat-file') return object ? `${object.type}\n` : null;
+    if (argv[0] === 'rev-parse') return object ? `${object.sha}\n` : null;
+    return null;
+  };
+  return { git, calls };
+}
+
+const rules = new PathRules(['.env*']);
+
+describe('BlobIndex', () => {
+  const history = {
+    one: raw([[NULL, SECRET, '.env'], [NULL, SOURCE, 'src/app.ts'], [NULL, SHARED, 'src/empty.ts']]),
+    two: raw([[NULL, SHARED, '.env.example']]),
+    'one..two': raw([[NULL, SHARED, '.env.example']]),
+    'two..three': raw([[SOURCE, NEWER, 'src/app.ts']])
+  };
+
+  it('should classify blobs by the paths they appeared at', async () => {
+    const index = new BlobIndex(fakeGit(history).git);
+    expect(await index.blobStatus('/repo', 'one', SECRET, rules)).toBe('denied');
+    expect(await index.blobStatus('/repo', 'one', SOURCE, rules)).toBe('allowed');
+    expect(await index.blobStatus('/repo', 'one', NEWER, rules)).toBe('unknown');
+  });
+
+  it('should deny a blob once it appears at any denied path', async () => {
+    const index = new BlobIndex(fakeGit(history).git);
+    expect(await index.blobStatus('/repo', 'one', SHARED, rules)).toBe('allowed');
+    expect(await index.blobStatus('/repo', 'two', SHARED, rules)).toBe('denied');
+  });
+
+  it('should extend the index incrementally when HEAD moves', async () => {
+    const { git, calls } = fakeGit(history);
+    const index = new BlobIndex(git);
+    await index.blobStatus('/repo', 'two', SECRET, rules);
+    expect(await index.blobStatus('/repo', 'three', NEWER, rules)).toBe('allowed');
+    expect(calls.map(argv => argv[argv.length - 1])).toEqual(['two', 'two..three']);
+
+    await index.blobStatus('/repo', 'three', SOURCE, rules);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should rebuild when the previous HEAD is gone', async () => {
+    const { git, calls } = fakeGit({ ...history, 'rewritten': raw([[NULL, NEWER, '.env']]) });
+    const index = new BlobIndex(git);
+    expect(await index.blobStatus('/repo', 'one', SECRET, rules)).toBe('denied');
+    expect(await index.blobStatus('/repo', 'rewritten', SECRET, rules)).toBe('unknown');
+    expect(await index.blobStatus('/repo', 'rewritten', NEWER, rules)).toBe('denied');
+    expect(calls.map(argv => argv[argv.length - 1])).toEqual(['one', 'one..rewritten', 'rewritten']);
+  });
+
+  it('should reject denied and unknown blobs named in a command', async () => {
+    const objects = {
+      [SECRET]: { type: 'blob', sha: SECRET },
+      'HEAD:src/app.ts': { type: 'blob', sha: SOURCE },
+      [NEWER]: { type: 'blob', sha: NEWER },
+      HEAD: { type: 'commit', sha: 'e'.repeat(40) }
+    };
+    const index = new BlobIndex(fakeGit(history, objects).git);
+    await expect(index.checkObjectArguments('/repo', 'one', ['cat-file', '-p', SECRET], rules))
+      .rejects.toMatchObject({ rule: 'deny-paths.objects', message: expect.stringContaining('content of a file denied') });
+    await expect(index.checkObjectArguments('/repo', 'one', ['show', NEWER], rules))
+      .rejects.toMatchObject({ rule: 'deny-paths.objects', message: expect.stringContaining('not a file in the snapshot history') });
+    await expect(index.checkObjectArguments('/repo', 'one', ['show', 'HEAD:src/app.ts', 'HEAD'], rules)).resolves.toBeUndefined();
+  });
+
+  it('should reject subtrees for commands that print paths relative to them', async () => {
+    const objects = { 'HEAD:config': { type: 'tree', sha: 'f'.repeat(40) } };
+    const index = new BlobIndex(fakeGit(history, objects).git);
+    await expect(index.checkObjectArguments('/repo', 'one', ['grep', 'token', 'HEAD:config'], rules))
+      .rejects.toMatchObject({ rule: 'deny-paths.subtree', message: expect.stringContaining("'grep HEAD -- config'") });
+    await expect(index.checkObjectArguments('/repo', 'one', ['show', 'HEAD:config'], rules)).resolves.toBeUndefined();
+  });
+
+  it('should resolve arguments with the given reader but check them against the snapshot history', async () => {
+    const { git, calls } = fakeGit(history);
+    const resolver = fakeGit({}, { 'main:.env': { type: 'blob', sha: SECRET }, main: { type: 'commit', sha: 'e'.repeat(40) } });
+    const index = new BlobIndex(git);
+    await expect(index.checkObjectArguments('/repo', 'one', ['cat-file', '-p', 'main:.env'], rules, resolver.git))
+      .rejects.toMatchObject({ rule: 'deny-paths.objects' });
+    await expect(index.checkObjectArguments('/repo', 'one', ['diff', 'main', 'HEAD'], rules, resolver.git)).resolves.toBeUndefined();
+    expect(calls.map(([command]) => command)).toEqual(['log']);
+  });
+
+  it('should not run git without rules', async () => {
+    const { git, calls } = fakeGit(history);
+    await new BlobIndex(git).checkObjectArguments('/repo', 'one', ['cat-file', '-p', SECRET], new PathRules([]));
+    expect(calls).toEqual([]);
+  });
+});
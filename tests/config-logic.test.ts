@@ -0,0 +1,220 @@
+// Tests for mcp-config.json loading, validation and overrides
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  applyEnvironment,
+  configPathFromArgs,
+  loadConfig,
+  parseConfig,
+  repoSettings
+} from '../src/config';
+
+jest.mock('fs');
+
+const problemsOf = (action: () => unknown): string[] => {
+  try {
+    action();
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  throw new Error('expected a ConfigError');
+};
+
+describe('parseConfig', () => {
+  it('should merge settings over the defaults', () => {
+    const config = parseConfig({ timeoutMs: 30000, logLevel: 'debug', repos: { app: { maxBufferSize: 1024 } } }, 'test');
+    expect(config).toEqual({
+      ...DEFAULT_CONFIG,
+      timeoutMs: 30000,
+      logLevel: 'debug',
+      repos: { app: { maxBufferSize: 1024 } }
+    });
+  });
+
+  it('should report every unknown key and invalid value at once', () => {
+    const problems = problemsOf(() => parseConfig({
+      timeout: 5,
+      maxBufferSize: '10MB',
+      logLevel: 'loud',
+      allowedCommands: ['log', 'push'],
+      repos: { app: { maxConcurrent: 2, timeoutMs: -1 }, other: true }
+    }, 'mcp-config.json'));
+
+    expect(problems).toEqual([
+      expect.stringContaining("Unknown key 'timeout'"),
+      "'maxBufferSize' must be a positive integer (got \"10MB\")",
+      expect.stringContaining("'logLevel' must be one of debug, info, warn, error"),
+      expect.stringContaining("'allowedCommands' contains unsupported commands: push"),
+      expect.stringContaining("Unknown key 'repos.app.maxConcurrent'"),
+      "'repos.app.timeoutMs' must be a positive integer (got -1)",
+      "'repos.other' must be an object"
+    ]);
+  });
+
+  it('should validate the repository access policy', () => {
+    expect(parseConfig({ repoAccess: 'allowlisted', allowedRoots: ['~/work', '/srv/repos'] }, 'test'))
+      .toMatchObject({ repoAccess: 'allowlisted', allowedRoots: ['~/work', '/srv/repos'] });
+    expect(problemsOf(() => parseConfig({ repoAccess: 'some', allowedRoots: ['work'] }, 'test'))).toEqual([
+      "'repoAccess' must be one of registered, allowlisted, any (got \"some\")",
+      "'allowedRoots' must contain absolute paths (got \"work\")"
+    ]);
+    expect(problemsOf(() => parseConfig({ allowedRoots: ['/srv'] }, 'test')))
+      .toEqual(['\'allowedRoots\' only applies when \'repoAccess\' is "allowlisted"']);
+  });
+
+  it('should validate redaction settings', () => {
+    const patterns = [{ name: 'internal-token', pattern: 'itk_[a-z0-9]{32}', flags: 'i' }];
+    expect(parseConfig({ redactSecrets: false, redactionPatterns: patterns }, 'test'))
+      .toMatchObject({ redactSecrets: false, redactionPatterns: patterns });
+    expect(problemsOf(() => parseConfig({
+      redactSecrets: 'no',
+      redactionPatterns: [{ name: 'bad name', pattern: '(', flags: 'g', kind: 'x' }]
+    }, 'test'))).toEqual([
+      "'redactSecrets' must be true or false (got \"no\")",
+      "'redactionPatterns'[0] has unknown keys: kind (expected name, pattern, flags)",
+      "'redactionPatterns'[0].name must be a word such as \"internal-token\" (letters, digits and dashes)",
+      "'redactionPatterns'[0].flags may only contain i, m, s and u",
+      expect.stringMatching(/^'redactionPatterns'\[0\]\.pattern is not a valid regular expression/)
+    ]);
+  });
+
+  it('should validate the object cache size', () => {
+    expect(parseConfig({ objectCacheSize: 0 }, 'test')).toMatchObject({ objectCacheSize: 0 });
+    expect(problemsOf(() => parseConfig({ objectCacheSize: -1 }, 'test')))
+      .toEqual(["'objectCacheSize' must be a non-negative integer (got -1)"]);
+  });
+
+  it('should validate deny patterns', () => {
+    expect(parseConfig({ denyPaths: ['.env*', 'secrets/**', '.env*'] }, 'test'))
+      .toMatchObject({ denyPaths: ['.env*', 'secrets/**'] });
+    expect(problemsOf(() => parseConfig({ denyPaths: '.env' }, 'test')))
+      .toEqual(["'denyPaths' must be an array of gitignore-style path patterns"]);
+    expect(problemsOf(() => parseConfig({ denyPaths: ['', '# keys', '!.env.example'] }, 'test'))).toEqual([
+      "'denyPaths' contains an empty pattern or comment (\"\")",
+      "'denyPaths' contains an empty pattern or comment (\"# keys\")",
+      "'denyPaths' cannot contain negated patterns (\"!.env.example\"); list only the paths to deny"
+    ]);
+  });
+
+  it('should reject a configuration that is not an object', () => {
+    expect(problemsOf(() => parseConfig([], 'test'))).toEqual(['The configuration must be a JSON object']);
+  });
+});
+
+describe('applyEnvironment', () => {
+  it('should let environment variables override the file', () => {
+    const config = applyEnvironment(
+      { ...DEFAULT_CONFIG, timeoutMs: 30000 },
+      { SHADOWGIT_TIMEOUT: '5000', SHADOWGIT_MAX_CONCURRENT: '2', LOG_LEVEL: 'WARN' }
+    );
+    expect(config).toMatchObject({ timeoutMs: 5000, maxConcurrent: 2, logLevel: 'warn' });
+  });
+
+  it('should report invalid environment values', () => {
+    expect(problemsOf(() => applyEnvironment(DEFAULT_CONFIG, { SHADOWGIT_TIMEOUT: '10s' })))
+      .toEqual(['SHADOWGIT_TIMEOUT must be a positive integer (got "10s")']);
+  });
+});
+
+describe('loadConfig', () => {
+  let mockExistsSync: jest.MockedFunction<typeof fs.existsSync>;
+  let mockReadFileSync: jest.MockedFunction<typeof fs.readFileSync>;
+  let stderrSpy: jest.SpiedFunction<typeof process.stderr.write>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
+    mockReadFileSync = fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>;
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+  });
+
+  it('should use the defaults when the default file is missing', () => {
+    mockExistsSync.mockReturnValue(false);
+    expect(loadConfig('/home/u/.shadowgit/mcp-config.json', false, {})).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('should fail when an explicit --config file is missing', () => {
+    mockExistsSync.mockReturnValue(false);
+    expect(problemsOf(() => loadConfig('/etc/shadowgit.json', true, {}))).toEqual(['The file does not exist']);
+  });
+
+  it('should report files that are not JSON', () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue('{ timeoutMs: 1 }');
+    expect(problemsOf(() => loadConfig('/etc/shadowgit.json', true, {}))[0]).toMatch(/^Cannot read the file as JSON/);
+  });
+});
+
+describe('configPathFromArgs', () => {
+  it('should read --config in both forms', () => {
+    expect(configPathFromArgs(['--config', '/etc/a.json'])).toBe('/etc/a.json');
+    expect(configPathFromArgs(['--config=/etc/b.json'])).toBe('/etc/b.json');
+    expect(configPathFromArgs([])).toBeUndefined();
+  });
+
+  it('should reject --config without a path', () => {
+    expect(problemsOf(() => configPathFromArgs(['--config']))).toEqual(['--config requires a file path']);
+  });
+});
+
+describe('repoSettings', () => {
+  const config = parseConfig({
+    timeoutMs: 20000,
+    repos: {
+      app: { timeoutMs: 60000, allowedCommands: ['log'] },
+      '/work/lib': { maxCommandLength: 200 }
+    }
+  }, 'test');
+  const repos = new Map([['app', '/work/app'], ['lib', '/work/lib']]);
+
+  // /work/link is a symlink to /work/app
+  beforeEach(() => {
+    const mockRealpath = fs.realpathSync.native as unknown as jest.MockedFunction<(value: fs.PathLike) => string>;
+    mockRealpath.mockImplementation(value => value === '/work/link' ? '/work/app' : String(value));
+  });
+
+  it('should apply overrides matched by repository name or path', () => {
+    expect(repoSettings(config, '/work/app', repos)).toMatchObject({ timeoutMs: 60000, allowedCommands: ['log'] });
+    expect(repoSettings(config, '/work/lib', repos)).toMatchObject({ timeoutMs: 20000, maxCommandLength: 200 });
+  });
+
+  it('should apply overrides to other spellings of the repository path', () => {
+    expect(repoSettings(config, '/work/app/', repos)).toMatchObject({ timeoutMs: 60000, allowedCommands: ['log'] });
+    expect(repoSettings(config, '/work/link', repos)).toMatchObject({ timeoutMs: 60000, allowedCommands: ['log'] });
+    expect(repoSettings(config, '/work/../work/lib', repos)).toMatchObject({ maxCommandLength: 200 });
+  });
+
+  it('should use the global settings for other repositories', () => {
+    expect(repoSettings(config, '/work/other', repos)).toEqual({
+      timeoutMs: 20000,
+      maxBufferSize: DEFAULT_CONFIG.maxBufferSize,
+      maxCommandLength: DEFAULT_CONFIG.maxCommandLength,
+      allowedCommands: DEFAULT_CONFIG.allowedCommands,
+      denyPaths: []
+    });
+  });
+
+  it('should add per-repository deny patterns to the global ones', () => {
+    const denying = parseConfig({
+      denyPaths: ['.env*'],
+      repos: { app: { denyPaths: ['deploy/keys/', '.env*'] } }
+    }, 'test');
+    expect(repoSettings(denying, '/work/app', repos).denyPaths).toEqual(['.env*', 'deploy/keys/']);
+    expect(repoSettings(denying, '/work/lib', repos).denyPaths).toEqual(['.env*']);
+  });
+
+  it('should add per-repository deny patterns for other spellings of the repository path', () => {
+    const denying = parseConfig({ repos: { app: { denyPaths: ['.env*'] }, '/work/lib': { denyPaths: ['keys/'] } } }, 'test');
+    expect(repoSettings(denying, '/work/app/', repos).denyPaths).toEqual(['.env*']);
+    expect(repoSettings(denying, '/work/link', repos).denyPaths).toEqual(['.env*']);
+    expect(repoSettings(denying, '/work/lib/.', repos).denyPaths).toEqual(['keys/']);
+  });
+});
@@ -0,0 +1,134 @@
+// Tests for the diff_since tool against a scripted git
+
+import { describe, it, expect } from '@jest/globals';
+import { diffSinceTool, parseNumstat } from '../src/tools/diff-since';
+import { ToolError } from '../src/tools/types';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, callsFor, hasOption, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const BASE = 'b'.repeat(40);
+const HEAD = 'h'.repeat(40);
+const MIDDLE = 'm'.repeat(40);
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Answers git calls by subcommand; `answers` overrides individual ones
+function createContext(answers: Record<string, string | Error> = {}): ScriptedContext {
+  const defaults: Record<string, string> = {
+    'rev-parse': `${HEAD}\n`,
+    'rev-list': `${BASE}\n`,
+    'hash-object': `${EMPTY_TREE}\n`,
+    'log': `${HEAD}${FS}2024-05-01T10:20:00Z${FS}save 3\n${MIDDLE}${FS}2024-05-01T10:10:00Z${FS}save 2\n`,
+    'diff-numstat': '3\t1\tsrc/app.ts\n-\t-\tlogo.png\n',
+    'diff': 'diff --git a/src/app.ts b/src/app.ts\n'
+  };
+  return scriptedContext(argv => {
+    let key = argv[0];
+    if (argv[0] === 'log' && hasOption(argv, '-1')) {
+      const [sha] = revisionsOf(argv);
+      return `${sha}${FS}${sha === HEAD ? '2024-05-01T10:20:00Z' : '2024-05-01T10:00:00Z'}${FS}save\n`;
+    }
+    if (argv[0] === 'diff' && hasOption(argv, '--numstat')) key = 'diff-numstat';
+    const answer = key in answers ? answers[key] : defaults[key];
+    if (answer instanceof Error) throw answer;
+    return answer ?? '';
+  });
+}
+
+describe('parseNumstat', () => {
+  it('should parse counts, binaries and renames', () => {
+    expect(parseNumstat('3\t1\ta.ts\n-\t-\tlogo.png\n1\t1\tsrc/{old => new}.ts\n')).toEqual([
+      { path: 'a.ts', additions: 3, deletions: 1 },
+      { path: 'logo.png', additions: null, deletions: null },
+      { path: 'src/new.ts', oldPath: 'src/old.ts', additions: 1, deletions: 1 }
+    ]);
+  });
+});
+
+describe('diff_since', () => {
+  it('should diff the last snapshot before `since` against HEAD', async () => {
+    const { context, git } = createContext();
+    const result = await diffSinceTool.handler({ repo: 'app', since: '20 minutes ago' }, context);
+
+    const [revList] = callsFor(git, 'rev-list');
+    expect(hasOption(revList, '-1')).toBe(true);
+    expect(optionOf(revList, '--before')).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(revisionsOf(revList)).toEqual([HEAD]);
+
+    const diffs = callsFor(git, 'diff');
+    expect(diffs[0]).toEqual(expect.arrayContaining(['--numstat', BASE, HEAD]));
+    expect(diffs[1]).toEqual(expect.arrayContaining([BASE, HEAD, '--']));
+
+    const text = result.content[0].text;
+    expect(text).toContain('Snapshots (2):');
+    expect(text).toContain('src/app.ts  +3 -1');
+    expect(text).toContain('logo.png  binary');
+    expect(text).toContain('(20 min later)');
+    expect(result.structuredContent).toMatchObject({
+      base: { sha: BASE },
+      until: { sha: HEAD },
+      snapshots: [{ sha: HEAD, subject: 'save 3' }, { sha: MIDDLE, subject: 'save 2' }],
+      snapshotsTruncated: false
+    });
+  });
+
+  it('should pass path filters after --', async () => {
+    const { context, git } = createContext();
+    await diffSinceTool.handler({ repo: 'app', since: '1 hour ago', paths: ['src'] }, context);
+
+    for (const argv of [...callsFor(git, 'diff'), ...callsFor(git, 'log').filter(a => !hasOption(a, '-1'))]) {
+      expect(pathsOf(argv)).toEqual(['src']);
+    }
+  });
+
+  it('should diff from the empty tree when `since` predates all snapshots', async () => {
+    const { context, git } = createContext({ 'rev-list': '' });
+    const result = await diffSinceTool.handler({ repo: 'app', since: 'yesterday' }, context);
+
+    expect(callsFor(git, 'diff')[0]).toEqual(expect.arrayContaining([EMPTY_TREE, HEAD]));
+    expect(result.content[0].text).toContain('From: (before the first snapshot)');
+    expect(result.structuredContent).toMatchObject({ base: null });
+  });
+
+  it('should resolve a SHA without looking at timestamps', async () => {
+    const { context, git } = createContext();
+    await diffSinceTool.handler({ repo: 'app', since: 'abc1234' }, context);
+
+    expect(callsFor(git, 'rev-list')).toHaveLength(0);
+    expect(callsFor(git, 'rev-parse')).toContainEqual(['rev-parse', '--verify', 'abc1234^{commit}']);
+  });
+
+  it('should report unknown revisions and empty histories', async () => {
+    const unknown = createContext({ 'rev-parse': new ToolError('Git error: fatal: Needed a single revision') });
+    await expect(diffSinceTool.handler({ repo: 'app', since: 'abc1234' }, unknown.context))
+      .rejects.toThrow('no ShadowGit snapshots yet');
+  });
+
+  it('should validate arguments before running git', async () => {
+    const { context, git } = createContext();
+    await expect(diffSinceTool.handler({ repo: 'app' }, context)).rejects.toThrow("'since' parameter is required");
+    await expect(diffSinceTool.handler({ repo: 'app', since: '--all' }, context)).rejects.toThrow(ToolError);
+    await expect(diffSinceTool.handler({ repo: 'app', since: 'today', paths: ['--output=x'] }, context))
+      .rejects.toThrow("Invalid path '--output=x'");
+    await expect(diffSinceTool.handler({ repo: 'other', since: 'today' }, context)).rejects.toThrow('not found');
+    expect(git).not.toHaveBeenCalled();
+  });
+});
+
+describe('diff_since against git', () => {
+  const repo = useShadowRepo(repo => {
+    repo.save('2024-05-01T10:00:00Z', { 'src/app.ts': 'const retries = 3;\n' });
+    repo.save('2024-05-01T10:10:00Z', { 'src/app.ts': 'const retries = 5;\n', 'notes.md': 'draft\n' });
+    repo.save('2024-05-01T10:20:00Z', { 'notes.md': null });
+  });
+
+  it('should diff the last snapshot before `since` against the latest', async () => {
+    const result = await diffSinceTool.handler({ repo: repo.path, since: '2024-05-01T10:05:00Z' }, repo.context());
+
+    const text = result.content[0].text;
+    expect(text).toContain('Snapshots (2):');
+    expect(text).toContain('src/app.ts  +1 -1');
+    expect(text).toContain('+const retries = 5;');
+    expect(text).not.toContain('notes.md');
+  });
+});
@@ -0,0 +1,204 @@
+// Tests for exporting a time range as markdown, mbox or JSON
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCommits } from '../src/git-json';
+import { exportRangeTool, renderExport } from '../src/tools/export-range';
+import { ToolError } from '../src/tools/types';
+import { useShadowRepo } from './shadow-repo';
+import { GitMock, ScriptedContext, callsFor, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const RS = '\x1e';
+
+// The diff of app.ts in one snapshot, as git prints it
+function appPatch(lines: string[]): string {
+  return [
+    'diff --git a/app.ts b/app.ts', 'index 1111111..2222222 100644', '--- a/app.ts', '+++ b/app.ts',
+    `@@ -1,${lines.length} +1,${lines.length} @@`, ...lines
+  ].join('\n');
+}
+
+// One snapshot in the JSON log format (see prepareJsonCommand) changing
+// app.ts by `numstat`; `body` lines follow the subject
+function jsonCommit(sha: string, timestamp: string, body = '', numstat = '1\t1'): string {
+  const header = [sha, '', 'Dev', 'dev@example.com', timestamp, 'Dev', 'dev@example.com', timestamp, `Auto-save${body}`].join(FS);
+  return `${RS}${header}${FS}\n\n${numstat}\tapp.ts\n`;
+}
+
+// c2 ends with a blank context line
+const PATCHES: Record<string, string> = {
+  c3: appPatch(['-b', '+c', ...Array.from({ length: 50 }, (_, i) => ` line ${i}`)]),
+  c2: appPatch(['-a', '+b ```', ' ']),
+  c1: appPatch(['-x', '+a'])
+};
+
+// Newest first, as git log prints them
+const LOG = [
+  jsonCommit('c3', '2024-05-01T10:20:00Z'),
+  jsonCommit('c2', '2024-05-01T10:10:00Z', '\n\nFrom the editor'),
+  jsonCommit('c1', '2024-05-01T10:00:00Z')
+].join('');
+
+function exportDocument() {
+  const commits = parseCommits(LOG);
+  const snapshots = commits.map((commit, i) => ({ commit, patch: PATCHES[commit.sha], index: commits.length - i })).reverse();
+  return {
+    repo: 'app',
+    window: { since: '2024-05-01T09:00:00.000Z', until: null },
+    paths: [],
+    snapshots,
+    snapshotsTruncated: false,
+    totals: { files: 1, additions: 3, deletions: 3 }
+  };
+}
+
+// `show` prints each snapshot's patch, or fails for those in `tooLarge`
+function createContext(log = LOG, tooLarge: string[] = []): ScriptedContext {
+  return scriptedContext(argv => {
+    switch (argv[0]) {
+      case 'rev-parse': return 'c3\n';
+      case 'log': return log;
+      case 'show': {
+        const [sha] = revisionsOf(argv);
+        if (tooLarge.includes(sha)) throw new ToolError('Error: Output too large. Try limiting the results (e.g., use -n flag or --max-count).');
+        return `\n${PATCHES[sha]}\n`;
+      }
+    }
+  });
+}
+
+// The snapshots whose diffs were fetched, in order
+function shown(git: GitMock): string[] {
+  return callsFor(git, 'show').map(argv => revisionsOf(argv)[0]);
+}
+
+describe('renderExport', () => {
+  it('should render a markdown report with a timeline and collapsed large diffs', () => {
+    const { text, omitted } = renderExport(exportDocument(), 'markdown', 100 * 1024);
+
+    expect(omitted).toEqual([]);
+    expect(text).toContain('- Window: since 2024-05-01T09:00:00.000Z\n- Snapshots: 3, 2024-05-01T10:00:00Z to 2024-05-01T10:20:00Z');
+    expect(text).toContain('| 2 | 2024-05-01T10:10:00Z | `c2` | Auto-save | 1 | +1 -1 |');
+    expect(text).toContain('### 3. 2024-05-01T10:20:00Z `c3` Auto-save\n\n- `app.ts  +1 -1`\n\n<details><summary>Diff (57 lines)</summary>');
+    // A fence longer than the backticks in the diff
+    expect(text).toContain('````diff\ndiff --git a/app.ts b/app.ts');
+  });
+
+  it('should keep the diffs of the newest snapshots that fit under the limit', () => {
+    const doc = exportDocument();
+    const full = Buffer.byteLength(renderExport(doc, 'markdown', 100 * 1024).text);
+
+    // 200 bytes are kept free for the omission note
+    const oneShort = renderExport(doc, 'markdown', full + 199);
+    expect(oneShort.omitted).toEqual(['c1']);
+    expect(oneShort.text).toContain('<details><summary>Diff (57 lines)</summary>');
+    expect(oneShort.text).toContain('_Diffs of 1 snapshot(s) were omitted to stay under the size limit._');
+    expect(Buffer.byteLength(oneShort.text)).toBeLessThanOrEqual(full + 199);
+
+    // A large diff that does not fit is left out, smaller older ones still fit
+    const tight = renderExport(doc, 'markdown', full - 100);
+    expect(tight.omitted).toEqual(['c3']);
+    expect(tight.text).toContain('+b ```');
+
+    expect(() => renderExport(doc, 'markdown', 300)).toThrow('larger than 300 bytes even without diffs');
+  });
+
+  it('should render an mbox patch series in order', () => {
+    const { text } = renderExport(exportDocument(), 'mbox', 100 * 1024);
+    const messages = text.split(/^(?=From c\d )/m);
+
+    expect(messages.map(message => message.split('\n')[0])).toEqual([
+      'From c1 Mon Sep 17 00:00:00 2001', 'From c2 Mon Sep 17 00:00:00 2001', 'From c3 Mon Sep 17 00:00:00 2001'
+    ]);
+    expect(messages[1]).toContain('From: Dev <dev@example.com>\nDate: Wed, 1 May 2024 10:10:00 +0000\nSubject: [PATCH 2/3] Auto-save\n');
+    expect(messages[1]).toContain('\n>From the editor\n');
+    expect(messages[1]).toContain('---\n app.ts  +1 -1\n\ndiff --git a/app.ts b/app.ts\n');
+    expect(messages[1]).toMatch(/\n\+b ```\n \n-- \nshadowgit-mcp\n\n$/);
+  });
+
+  it('should render valid JSON, marking omitted patches', () => {
+    const doc = exportDocument();
+    const full = renderExport(doc, 'json', 100 * 1024).text;
+    const parsed = JSON.parse(renderExport(doc, 'json', Buffer.byteLength(full) + 199).text);
+
+    expect(parsed).toMatchObject({ repo: 'app', snapshotCount: 3, patchesOmitted: 1 });
+    expect(parsed.snapshots.map((snapshot: { sha: string }) => snapshot.sha)).toEqual(['c1', 'c2', 'c3']);
+    expect(parsed.snapshots[0]).toMatchObject({ patchOmitted: true, files: [{ path: 'app.ts', additions: 1 }] });
+    expect(parsed.snapshots[2].patch).toMatch(/^diff --git/);
+  });
+});
+
+describe('export_range', () => {
+  it('should export the window and summarize the export separately', async () => {
+    const { context, git } = createContext();
+    const result = await exportRangeTool.handler(
+      { repo: 'app', format: 'mbox', since: '2024-05-01T09:00:00Z', paths: ['src'], max_snapshots: 2 },
+      context
+    );
+
+    const [logArgv] = callsFor(git, 'log');
+    expect(logArgv).toEqual(expect.arrayContaining(['log', '--max-count=3', '--since=2024-05-01T09:00:00.000Z', 'c3', '--', 'src']));
+    expect(logArgv).not.toContain('--patch');
+    expect(shown(git)).toEqual(['c3', 'c2']);
+    expect(git).toHaveBeenCalledWith('/work/app', expect.arrayContaining(['show', '--format=', '--patch', 'c3', '--', 'src']));
+    expect(result.content).toHaveLength(2);
+    expect(result.content[0].text).toMatch(/^From c2 .*\n[\s\S]*Subject: \[PATCH 1\/2\]/);
+    expect(result.content[1].text).toContain('Exported 2 snapshots of app as mbox');
+    expect(result.content[1].text).toContain('Only the newest 2 snapshots are included');
+    expect(result.structuredContent).toMatchObject({ format: 'mbox', snapshots: 2, snapshotsTruncated: true, omittedDiffs: [] });
+  });
+
+  it('should not fetch diffs that cannot fit, keeping those of older snapshots', async () => {
+    // c3 changed 3000 lines, more than 4096 bytes of diff
+    const log = [
+      jsonCommit('c3', '2024-05-01T10:20:00Z', '', '3000\t0'),
+      jsonCommit('c2', '2024-05-01T10:10:00Z'),
+      jsonCommit('c1', '2024-05-01T10:00:00Z')
+    ].join('');
+    const { context, git } = createContext(log);
+    const result = await exportRangeTool.handler({ repo: 'app', format: 'json', max_bytes: 4096 }, context);
+
+    expect(shown(git)).toEqual(['c2', 'c1']);
+    expect(result.structuredContent).toMatchObject({ omittedDiffs: ['c3'] });
+  });
+
+  it('should leave out a diff too large for git to print', async () => {
+    const { context } = createContext(LOG, ['c3']);
+    const result = await exportRangeTool.handler({ repo: 'app', format: 'json' }, context);
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(result.structuredContent).toMatchObject({ omittedDiffs: ['c3'] });
+    expect(parsed.snapshots[2]).toMatchObject({ sha: 'c3', patchOmitted: true });
+    // Only newlines are trimmed: c2 ends with a blank context line
+    expect(parsed.snapshots[1].patch).toBe(PATCHES.c2);
+  });
+
+  it('should reject unknown formats', async () => {
+    const { context } = createContext();
+    await expect(exportRangeTool.handler({ repo: 'app', format: 'pdf' }, context)).rejects.toThrow(ToolError);
+  });
+});
+
+describe('export_range against git', () => {
+  const repo = useShadowRepo(repo => {
+    repo.save('2024-05-01T10:00:00Z', { 'src/app.ts': 'const retries = 3;\n' });
+    repo.save('2024-05-01T10:10:00Z', { 'src/app.ts': 'const retries = 5;\n' });
+    repo.save('2024-05-01T10:20:00Z', { 'src/app.ts': 'const retries = 5;\nexport { retries };\n', 'notes.md': 'x\n' });
+  });
+
+  it('should export each snapshot in the window with its diff', async () => {
+    const result = await exportRangeTool.handler(
+      { repo: repo.path, format: 'json', since: '2024-05-01T10:05:00Z', paths: ['src'] },
+      repo.context()
+    );
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.snapshots.map((snapshot: { timestamp: string }) => snapshot.timestamp)).toEqual([
+      '2024-05-01T10:10:00+00:00', '2024-05-01T10:20:00+00:00'
+    ]);
+    expect(parsed.snapshots[0].patch).toContain('-const retries = 3;\n+const retries = 5;');
+    expect(parsed.snapshots[1].patch).toContain('+export { retries };');
+    expect(parsed.snapshots[1].patch).not.toContain('notes.md');
+    expect(result.structuredContent).toMatchObject({ snapshots: 2, omittedDiffs: [] });
+  });
+});
@@ -0,0 +1,200 @@
+// Tests for reading a file as of a point in time, following renames
+
+import { describe, it, expect } from '@jest/globals';
+import { fileAtTool, parseNameStatus } from '../src/tools/file-at';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, hasOption, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const RS = '\x1e';
+
+interface FakeCommit {
+  sha: string;
+  time: string;
+  subject: string;
+  files: Record<string, string>;
+  changes: string[];  // name-status lines
+}
+
+// c1 adds old.ts and gone.ts, c2 edits old.ts, c3 renames old.ts to new.ts
+// and deletes gone.ts, c4 edits new.ts
+const HISTORY: FakeCommit[] = [
+  {
+    sha: 'c1', time: '2024-05-01T10:00:00Z', subject: 'one',
+    files: { 'old.ts': 'a\nb\nc\n', 'gone.ts': 'bye\n' },
+    changes: ['A\told.ts', 'A\tgone.ts']
+  },
+  {
+    sha: 'c2', time: '2024-05-01T11:00:00Z', subject: 'two',
+    files: { 'old.ts': 'a\nB\nc\nd\n', 'gone.ts': 'bye\n' },
+    changes: ['M\told.ts']
+  },
+  {
+    sha: 'c3', time: '2024-05-01T12:00:00Z', subject: 'three',
+    files: { 'new.ts': 'a\nB\nc\nd\n' },
+    changes: ['R100\told.ts\tnew.ts', 'D\tgone.ts']
+  },
+  {
+    sha: 'c4', time: '2024-05-01T13:00:00Z', subject: 'four',
+    files: { 'new.ts': 'a\nB\nc\nd\ne\n', 'logo.png': 'PNG\0data' },
+    changes: ['M\tnew.ts', 'A\tlogo.png']
+  }
+];
+
+// A commit by name, or `cN^` for its parent
+function commit(rev: string): FakeCommit {
+  const sha = rev.endsWith('^') ? `c${Number(rev[1]) - 1}` : rev;
+  const found = HISTORY.find(c => c.sha === sha);
+  if (!found) throw new Error(`unknown commit ${sha}`);
+  return found;
+}
+
+function touches(c: FakeCommit, path: string): boolean {
+  return c.changes.some(line => line.split('\t').slice(1).includes(path));
+}
+
+function createContext(): ScriptedContext {
+  return scriptedContext(argv => {
+    const [rev] = revisionsOf(argv);
+    const [path] = pathsOf(argv);
+    switch (argv[0]) {
+      case 'rev-parse':
+        if (rev === 'HEAD^{commit}') return 'c4\n';
+        return `${commit(rev.replace('^{commit}', '')).sha}\n`;
+      case 'rev-list': {
+        const before = new Date(optionOf(argv, '--before')!);
+        const match = HISTORY.filter(c => new Date(c.time) <= before).pop();
+        return match ? `${match.sha}\n` : '';
+      }
+      case 'log': {
+        if (hasOption(argv, '--follow')) {
+          // Commits after the range start that touched the file, newest first
+          const [from, head] = rev.split('..');
+          let name = path;
+          let output = '';
+          for (const c of HISTORY.slice(HISTORY.indexOf(commit(from)) + 1, HISTORY.indexOf(commit(head)) + 1).reverse()) {
+            const line = c.changes.find(change => change.split('\t').slice(1).pop() === name);
+            if (!line) continue;
+            output += `${RS}${c.sha}\n\n${line}\n`;
+            if (line.startsWith('R')) name = line.split('\t')[1];
+          }
+          return output;
+        }
+        if (optionOf(argv, '--format') === '%H') {
+          const upTo = HISTORY.slice(0, HISTORY.indexOf(commit(rev)) + 1);
+          return upTo.filter(c => touches(c, path)).pop()?.sha ?? '';
+        }
+        const c = commit(rev);
+        return `${c.sha}${FS}${c.time}${FS}${c.subject}\n`;
+      }
+      case 'diff-tree': return commit(rev).changes.join('\n') + '\n';
+      case 'ls-tree': return path in commit(rev).files ? `100644 blob 0123abcd\t${path}\0` : '';
+      case 'cat-file': {
+        const [sha, name] = revisionsOf(argv)[1].split(':');
+        return commit(sha).files[name];
+      }
+    }
+  });
+}
+
+describe('parseNameStatus', () => {
+  it('should parse changes per commit, including renames', () => {
+    const output = `${RS}abc\n\nR087\tsrc/a.ts\tsrc/b.ts\n${RS}def\n\nA\t"sp ace.ts"\n`;
+    expect(parseNameStatus(output)).toEqual([
+      { sha: 'abc', status: 'R087', paths: ['src/a.ts', 'src/b.ts'] },
+      { sha: 'def', status: 'A', paths: ['sp ace.ts'] }
+    ]);
+  });
+});
+
+describe('file_at', () => {
+  it('should read the file from the last snapshot at or before the time', async () => {
+    const { context } = createContext();
+    const result = await fileAtTool.handler({ repo: 'app', path: 'new.ts', at: '2024-05-01T13:30:00Z' }, context);
+
+    expect(result.content[0].text).toContain('new.ts at c4 (2024-05-01T13:00:00Z, four)');
+    expect(result.content[0].text).toContain('5\te');
+    expect(result.structuredContent).toMatchObject({ path: 'new.ts', totalLines: 5, deletedIn: null });
+  });
+
+  it('should follow a later rename back to the old name', async () => {
+    const { context } = createContext();
+    const result = await fileAtTool.handler({ repo: 'app', path: 'new.ts', at: '2024-05-01T11:30:00Z' }, context);
+
+    expect(result.structuredContent).toMatchObject({
+      path: 'old.ts',
+      requestedPath: 'new.ts',
+      snapshot: { sha: 'c2' },
+      content: 'a\nB\nc\nd'
+    });
+    expect(result.content[0].text).toContain("Named 'old.ts' at that time; renamed to 'new.ts' later.");
+  });
+
+  it('should follow an earlier rename forward from the old name', async () => {
+    const { context } = createContext();
+    const result = await fileAtTool.handler({ repo: 'app', path: 'old.ts', at: '2024-05-01T13:30:00Z' }, context);
+
+    expect(result.structuredContent).toMatchObject({ path: 'new.ts', requestedPath: 'old.ts', snapshot: { sha: 'c4' } });
+    expect(result.content[0].text).toContain("'old.ts' was renamed to 'new.ts' in c3");
+  });
+
+  it('should show a deleted file as it was before the deletion', async () => {
+    const { context } = createContext();
+    const result = await fileAtTool.handler({ repo: 'app', path: 'gone.ts', at: '2024-05-01T12:30:00Z' }, context);
+
+    expect(result.structuredContent).toMatchObject({
+      snapshot: { sha: 'c2' },
+      deletedIn: { sha: 'c3' },
+      content: 'bye'
+    });
+    expect(result.content[0].text).toContain('Deleted in c3');
+  });
+
+  it('should return the requested line range', async () => {
+    const { context } = createContext();
+    const result = await fileAtTool.handler({ repo: 'app', path: 'new.ts', at: 'c4', start_line: 2, end_line: 3 }, context);
+
+    expect(result.content[0].text).toContain('Lines 2-3 of 5\n2\tB\n3\tc');
+    expect(result.structuredContent).toMatchObject({ startLine: 2, endLine: 3, content: 'B\nc' });
+  });
+
+  it('should reject paths that never existed, binary files and ranges past the end', async () => {
+    const { context } = createContext();
+    await expect(fileAtTool.handler({ repo: 'app', path: 'nope.ts', at: 'c4' }, context))
+      .rejects.toThrow("'nope.ts' is not a file in snapshot c4");
+    await expect(fileAtTool.handler({ repo: 'app', path: 'logo.png', at: 'c4' }, context))
+      .rejects.toThrow('is a binary file');
+    await expect(fileAtTool.handler({ repo: 'app', path: 'new.ts', at: 'c4', start_line: 9 }, context))
+      .rejects.toThrow("'start_line' 9 is past the end of the file (5 lines)");
+  });
+
+  it('should reject files created after the time and times before history', async () => {
+    const { context } = createContext();
+    await expect(fileAtTool.handler({ repo: 'app', path: 'logo.png', at: '2024-05-01T12:30:00Z' }, context))
+      .rejects.toThrow('it was created later');
+    await expect(fileAtTool.handler({ repo: 'app', path: 'new.ts', at: '2024-05-01T09:00:00Z' }, context))
+      .rejects.toThrow('No snapshots exist at or before');
+  });
+});
+
+describe('file_at against git', () => {
+  let renamed = '';
+  const repo = useShadowRepo(repo => {
+    repo.save('2024-05-01T10:00:00Z', { 'old.ts': 'a\nb\nc\n', 'gone.ts': 'bye\n' });
+    repo.save('2024-05-01T11:00:00Z', { 'old.ts': 'a\nB\nc\n' });
+    renamed = repo.save('2024-05-01T12:00:00Z', { 'old.ts': null, 'new.ts': 'a\nB\nc\n', 'gone.ts': null });
+    repo.save('2024-05-01T13:00:00Z', { 'new.ts': 'a\nB\nc\nd\n' });
+  });
+
+  it('should follow a later rename back to the old name', async () => {
+    const result = await fileAtTool.handler({ repo: repo.path, path: 'new.ts', at: '2024-05-01T11:30:00Z' }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({ path: 'old.ts', requestedPath: 'new.ts', content: 'a\nB\nc' });
+  });
+
+  it('should show a deleted file as it was before the deletion', async () => {
+    const result = await fileAtTool.handler({ repo: repo.path, path: 'gone.ts', at: '2024-05-01T13:30:00Z' }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({ deletedIn: { sha: renamed }, content: 'bye' });
+  });
+});
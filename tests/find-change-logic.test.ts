@@ -0,0 +1,144 @@
+// Tests for locating the snapshot where a pattern appeared or disappeared
+
+import { describe, it, expect } from '@jest/globals';
+import { bisect, findChangeTool } from '../src/tools/find-change';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, callsFor, hasOption, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+
+// A linear history c1 (oldest) .. cN; `present[i]` says whether the pattern
+// exists in c(i+1)
+function createContext(present: boolean[], pickaxe: string[] = []): ScriptedContext {
+  const shas = present.map((_, i) => `c${i + 1}`);
+  const head = shas[shas.length - 1];
+  return scriptedContext(argv => {
+    const [rev] = revisionsOf(argv);
+    switch (argv[0]) {
+      case 'rev-parse': return `${rev === 'HEAD^{commit}' ? head : rev.replace('^{commit}', '')}\n`;
+      case 'rev-list':
+        return shas.map((sha, i) => (i > 0 ? `${sha} ${shas[i - 1]}` : sha)).reverse().join('\n') + '\n';
+      case 'log':
+        if (hasOption(argv, '-1')) return `${rev}${FS}2024-05-01T10:00:00Z${FS}Auto-save\n`;
+        return pickaxe.join('\n');
+      case 'hash-object': return 'empty-tree\n';
+      case 'diff':
+        return [
+          'diff --git a/src/app.ts b/src/app.ts',
+          '--- a/src/app.ts',
+          '+++ b/src/app.ts',
+          '@@ -1,2 +1,2 @@',
+          ' keep',
+          '-old();',
+          '+debugger;',
+          '@@ -10 +10 @@',
+          '-a',
+          '+b',
+          ''
+        ].join('\n');
+    }
+  }, {
+    gitCheck: argv => present[shas.indexOf(revisionsOf(argv)[0])]
+  });
+}
+
+describe('bisect', () => {
+  it('should find the neighbouring pair where the answer flips', async () => {
+    // Newest first: indices 0..6 are "after", 7..99 are "before"
+    const isAfter = jest.fn(async (index: number) => index <= 6);
+    const result = await bisect(100, isAfter);
+    expect(result).toMatchObject({ boundary: 6, previous: 7 });
+    expect(result.checks).toBeLessThanOrEqual(7);
+  });
+
+  it('should not probe when the range has two snapshots', async () => {
+    const isAfter = jest.fn(async () => true);
+    expect(await bisect(2, isAfter)).toEqual({ boundary: 0, previous: 1, checks: 0 });
+    expect(isAfter).not.toHaveBeenCalled();
+  });
+});
+
+describe('find_change', () => {
+  it('should bisect to the snapshot that introduced the pattern', async () => {
+    const { context, gitCheck } = createContext([false, false, false, true, true, true, true, true]);
+    const result = await findChangeTool.handler({ repo: 'app', pattern: 'debugger;', mode: 'introduced' }, context);
+
+    expect(result.structuredContent).toMatchObject({
+      boundary: { sha: 'c4' },
+      previous: { sha: 'c3' },
+      method: 'bisect',
+      searchedSnapshots: 8
+    });
+    expect(gitCheck.mock.calls.length).toBeLessThan(8);
+    const [, probe] = gitCheck.mock.calls[0];
+    expect(probe[0]).toBe('grep');
+    expect(['-q', '-I', '-F'].every(flag => hasOption(probe, flag))).toBe(true);
+    expect(optionOf(probe, '-e')).toBe('debugger;');
+
+    const text = result.content[0].text;
+    expect(text).toContain("'debugger;' was introduced in c4");
+    expect(text).toContain('+debugger;');
+    expect(text).not.toContain('@@ -10 +10 @@');
+  });
+
+  it('should find a removal and show the deleted lines', async () => {
+    const { context } = createContext([true, true, true, false, false]);
+    const result = await findChangeTool.handler({ repo: 'app', pattern: 'old\\(\\)', regex: true, mode: 'removed' }, context);
+
+    expect(result.structuredContent).toMatchObject({ boundary: { sha: 'c4' }, previous: { sha: 'c3' } });
+    expect(result.content[0].text).toContain('-old();');
+  });
+
+  it('should report a pattern introduced in the first snapshot', async () => {
+    const { context } = createContext([true, true, true]);
+    const result = await findChangeTool.handler({ repo: 'app', pattern: 'x', mode: 'introduced' }, context);
+    expect(result.structuredContent).toMatchObject({ boundary: { sha: 'c1' }, previous: null });
+  });
+
+  it('should fall back to pickaxe when the pattern came and went', async () => {
+    const { context, git } = createContext([false, true, true, false, false], ['c5 c4', 'c4 c3', 'c2 c1']);
+    const result = await findChangeTool.handler({ repo: 'app', pattern: 'TODO', mode: 'removed', ignore_case: true, path: 'src' }, context);
+
+    expect(result.structuredContent).toMatchObject({ boundary: { sha: 'c4' }, previous: { sha: 'c3' }, method: 'pickaxe' });
+    const logArgv = callsFor(git, 'log').find(argv => !hasOption(argv, '-1'))!;
+    expect(logArgv).toEqual(expect.arrayContaining(['-STODO', '-i']));
+    expect(pathsOf(logArgv)).toEqual(['src']);
+  });
+
+  it('should explain when the newest snapshot is in the wrong state', async () => {
+    const { context } = createContext([true, false]);
+    await expect(findChangeTool.handler({ repo: 'app', pattern: 'x', mode: 'introduced' }, context))
+      .rejects.toThrow('Use mode "removed"');
+
+    const absent = createContext([false, false]);
+    await expect(findChangeTool.handler({ repo: 'app', pattern: 'x', mode: 'removed' }, absent.context))
+      .rejects.toThrow('no snapshot in between removed it');
+  });
+
+  it('should validate arguments', async () => {
+    const { context } = createContext([true]);
+    await expect(findChangeTool.handler({ repo: 'app', pattern: 'x' }, context)).rejects.toThrow("'mode' parameter is required");
+    await expect(findChangeTool.handler({ repo: 'app', pattern: '(', regex: true, mode: 'introduced' }, context))
+      .rejects.toThrow('Invalid regular expression');
+    await expect(findChangeTool.handler({ repo: 'app', pattern: 'x', mode: 'introduced', regex: 'yes' }, context))
+      .rejects.toThrow("'regex' must be true or false");
+  });
+});
+
+describe('find_change against git', () => {
+  let added = '';
+  const repo = useShadowRepo(repo => {
+    repo.save('2024-05-01T10:00:00Z', { 'src/app.ts': 'run();\n' });
+    repo.save('2024-05-01T10:10:00Z', { 'src/app.ts': 'run();\nlog();\n' });
+    added = repo.save('2024-05-01T10:20:00Z', { 'src/app.ts': 'run();\ndebugger;\nlog();\n' });
+    repo.save('2024-05-01T10:30:00Z', { 'README.md': 'app\n' });
+    repo.save('2024-05-01T10:40:00Z', { 'src/app.ts': 'run();\ndebugger;\nlog();\nstop();\n' });
+  });
+
+  it('should bisect to the snapshot that introduced the pattern', async () => {
+    const result = await findChangeTool.handler({ repo: repo.path, pattern: 'debugger;', mode: 'introduced' }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({ boundary: { sha: added }, method: 'bisect', searchedSnapshots: 5 });
+    expect(result.content[0].text).toContain('+debugger;');
+  });
+});
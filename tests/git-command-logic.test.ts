@@ -0,0 +1,129 @@
+// Tests for git command tokenization
+// git-command.ts has no MCP SDK dependency, so it is imported directly
+
+import { describe, it, expect } from '@jest/globals';
+import { CommandParseError, quoteArgument, tokenizeCommand } from '../src/git-command';
+
+describe('tokenizeCommand', () => {
+  describe('Argument Splitting', () => {
+    it('should split on spaces and tabs', () => {
+      expect(tokenizeCommand('log  --oneline\t-5')).toEqual(['log', '--oneline', '-5']);
+    });
+
+    it('should ignore leading and trailing whitespace', () => {
+      expect(tokenizeCommand('  status  ')).toEqual(['status']);
+    });
+
+    it('should return no arguments for an empty command', () => {
+      expect(tokenizeCommand('')).toEqual([]);
+      expect(tokenizeCommand('   ')).toEqual([]);
+    });
+
+    it('should keep double-quoted arguments together', () => {
+      expect(tokenizeCommand('log --grep="fix login"')).toEqual(['log', '--grep=fix login']);
+    });
+
+    it('should keep single-quoted arguments together', () => {
+      expect(tokenizeCommand("grep 'hello world' -- src")).toEqual(['grep', 'hello world', '--', 'src']);
+    });
+
+    it('should concatenate adjacent quoted and unquoted parts', () => {
+      expect(tokenizeCommand(`show HEAD:"my file".txt`)).toEqual(['show', 'HEAD:my file.txt']);
+    });
+
+    it('should keep empty quoted arguments', () => {
+      expect(tokenizeCommand('log --grep=""')).toEqual(['log', '--grep=']);
+      expect(tokenizeCommand("grep ''")).toEqual(['grep', '']);
+    });
+
+    it('should handle backslash escapes outside quotes', () => {
+      expect(tokenizeCommand('show HEAD:my\\ file.txt')).toEqual(['show', 'HEAD:my file.txt']);
+      expect(tokenizeCommand('grep a\\|b')).toEqual(['grep', 'a|b']);
+    });
+
+    it('should only treat POSIX escapes as escapes inside double quotes', () => {
+      expect(tokenizeCommand('grep "a\\"b"')).toEqual(['grep', 'a"b']);
+      expect(tokenizeCommand('grep "\\d+"')).toEqual(['grep', '\\d+']);
+      expect(tokenizeCommand('grep "cost: \\$5"')).toEqual(['grep', 'cost: $5']);
+    });
+
+    it('should treat everything inside single quotes literally', () => {
+      expect(tokenizeCommand("grep '$(whoami); `id` | a\\b'")).toEqual(['grep', '$(whoami); `id` | a\\b']);
+    });
+
+    it('should allow operator characters inside quotes', () => {
+      expect(tokenizeCommand('log -G "foo|bar" --grep="a;b"')).toEqual(['log', '-G', 'foo|bar', '--grep=a;b']);
+    });
+
+    it('should leave reflog selectors intact', () => {
+      expect(tokenizeCommand('show HEAD@{1}:src/app.ts')).toEqual(['show', 'HEAD@{1}:src/app.ts']);
+    });
+  });
+
+  describe('Malformed Input', () => {
+    it('should reject unterminated quotes', () => {
+      expect(() => tokenizeCommand('log --grep="fix')).toThrow('Unterminated double quote');
+      expect(() => tokenizeCommand("log --grep='fix")).toThrow('Unterminated single quote');
+    });
+
+    it('should reject a trailing backslash', () => {
+      expect(() => tokenizeCommand('log \\')).toThrow('Trailing backslash');
+    });
+  });
+
+  describe('Injection Payloads', () => {
+    const payloads = [
+      'log; rm -rf /',
+      'log ; cat /etc/passwd',
+      'log && touch /tmp/pwned',
+      'log || touch /tmp/pwned',
+      'log | sh',
+      'log & curl evil.example',
+      'log $(touch /tmp/pwned)',
+      'log `touch /tmp/pwned`',
+      'log --grep=$(id)',
+      'log --grep="$(id)"',
+      'log --grep="`id`"',
+      'log --format=${HOME}',
+      'log $HOME',
+      'log > /tmp/out',
+      'log >> ~/.bashrc',
+      'log < /etc/passwd',
+      'log 2>/dev/null',
+      'show HEAD <(id)',
+      'log (id)',
+      'log\nrm -rf /',
+      'log\r\nrm -rf /',
+      'log "a"; id',
+      "log 'a'|id"
+    ];
+
+    it.each(payloads)('should reject %j', (payload) => {
+      expect(() => tokenizeCommand(payload)).toThrow(CommandParseError);
+    });
+
+    it('should name the offending character', () => {
+      expect(() => tokenizeCommand('log; id')).toThrow("';'");
+      expect(() => tokenizeCommand('log\nid')).toThrow('newline');
+    });
+
+    it('should not turn escaped operators into separate commands', () => {
+      // Escaped operators are literal arguments, never command separators
+      expect(tokenizeCommand('log \\; id')).toEqual(['log', ';', 'id']);
+      expect(tokenizeCommand('grep \\$\\(id\\)')).toEqual(['grep', '$(id)']);
+    });
+  });
+});
+
+describe('quoteArgument', () => {
+  it('should leave plain arguments alone', () => {
+    expect(quoteArgument('--before=2024-05-01T10:00:00.000Z')).toBe('--before=2024-05-01T10:00:00.000Z');
+    expect(quoteArgument('HEAD~3')).toBe('HEAD~3');
+  });
+
+  it('should round-trip anything through tokenizeCommand', () => {
+    const values = ['my file.ts', "it's", '$(id)', 'a;b|c', '"quoted"', 'back\\slash', 'tab\there', ''];
+    const command = ['diff', '--', ...values].map(quoteArgument).join(' ');
+    expect(tokenizeCommand(command)).toEqual(['diff', '--', ...values]);
+  });
+});
@@ -0,0 +1,188 @@
+// Tests for the structured (format: "json") git output mode
+
+import { describe, it, expect } from '@jest/globals';
+import { JsonFormatError, parseCommits, parseDiff, parseJsonOutput, prepareJsonCommand } from '../src/git-json';
+
+const RS = '\x1e';
+const FS = '\x1f';
+
+const commitRecord = (fields: string[], trailer: string): string =>
+  `${RS}${fields.join(FS)}${FS}${trailer}`;
+
+const SAMPLE_DIFF = [
+  'diff --git a/f.txt b/f.txt',
+  'index 4c5fd91..1b0b6e2 100644',
+  '--- a/f.txt',
+  '+++ b/f.txt',
+  '@@ -1,3 +1,4 @@ function main() {',
+  ' one',
+  '-two',
+  '+2',
+  ' three',
+  '+four',
+  '\\ No newline at end of file',
+  'diff --git a/bin.dat b/bin.dat',
+  'new file mode 100644',
+  'index 0000000..7f5a2e3',
+  'Binary files /dev/null and b/bin.dat differ',
+  'diff --git "a/src/my file.ts" b/src/renamed.ts',
+  'similarity index 90%',
+  'rename from "src/my file.ts"',
+  'rename to src/renamed.ts',
+  'index 587be6b..2f1c2a4 100644',
+  '--- "a/src/my file.ts"',
+  '+++ b/src/renamed.ts',
+  '@@ -5 +5 @@',
+  '-old',
+  '+new',
+  'diff --git a/gone.txt b/gone.txt',
+  'deleted file mode 100644',
+  'index 587be6b..0000000',
+  '--- a/gone.txt',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  ''
+].join('\n');
+
+describe('prepareJsonCommand', () => {
+  it('should request a delimited format and numstat for log', () => {
+    const argv = prepareJsonCommand(['log', '-5']);
+    expect(argv[0]).toBe('log');
+    expect(argv).toContain('-5');
+    expect(argv).toContain('--numstat');
+    expect(argv.some(arg => arg.startsWith('--format=%x1e%H'))).toBe(true);
+    expect(argv).not.toContain('--patch');
+  });
+
+  it('should include the patch for log -p and for show', () => {
+    expect(prepareJsonCommand(['log', '-p'])).toContain('--patch');
+    expect(prepareJsonCommand(['show', 'HEAD'])).toContain('--patch');
+  });
+
+  it('should leave the patch out of show when the caller asked for stats only', () => {
+    expect(prepareJsonCommand(['show', '--stat', 'HEAD'])).not.toContain('--patch');
+    expect(prepareJsonCommand(['show', '-s', 'HEAD'])).not.toContain('--patch');
+  });
+
+  it('should drop presentation flags and their separate values', () => {
+    const argv = prepareJsonCommand(['log', '--oneline', '--graph', '--date', 'relative', '--stat', 'main']);
+    expect(argv).not.toContain('--oneline');
+    expect(argv).not.toContain('--graph');
+    expect(argv).not.toContain('relative');
+    expect(argv).not.toContain('--stat');
+    expect(argv).toContain('main');
+  });
+
+  it('should keep paths after -- last', () => {
+    const argv = prepareJsonCommand(['diff', 'HEAD~1', '--', 'src/app.ts']);
+    expect(argv.slice(-2)).toEqual(['--', 'src/app.ts']);
+    expect(argv.indexOf('--patch')).toBeLessThan(argv.indexOf('--'));
+  });
+
+  it('should suppress the commit id line for diff-tree', () => {
+    expect(prepareJsonCommand(['diff-tree', 'HEAD'])).toEqual(expect.arrayContaining(['-r', '--no-commit-id', '--patch']));
+  });
+
+  it('should reject commands without a JSON form', () => {
+    expect(() => prepareJsonCommand(['blame', 'file.txt'])).toThrow(JsonFormatError);
+  });
+});
+
+describe('parseDiff', () => {
+  const files = parseDiff(SAMPLE_DIFF);
+
+  it('should parse every file', () => {
+    expect(files.map(file => [file.status, file.oldPath, file.newPath])).toEqual([
+      ['modified', 'f.txt', 'f.txt'],
+      ['added', null, 'bin.dat'],
+      ['renamed', 'src/my file.ts', 'src/renamed.ts'],
+      ['deleted', 'gone.txt', null]
+    ]);
+  });
+
+  it('should number hunk lines on both sides', () => {
+    const [hunk] = files[0].hunks;
+    expect(hunk).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4, section: 'function main() {' });
+    expect(hunk.lines).toEqual([
+      { type: 'context', content: 'one', oldLine: 1, newLine: 1 },
+      { type: 'delete', content: 'two', oldLine: 2 },
+      { type: 'add', content: '2', newLine: 2 },
+      { type: 'context', content: 'three', oldLine: 3, newLine: 3 },
+      { type: 'add', content: 'four', newLine: 4, noNewlineAtEnd: true }
+    ]);
+    expect(files[0]).toMatchObject({ additions: 2, deletions: 1 });
+  });
+
+  it('should default omitted hunk lengths to one line', () => {
+    expect(files[2].hunks[0]).toMatchObject({ oldStart: 5, oldLines: 1, newStart: 5, newLines: 1 });
+  });
+
+  it('should flag binary files', () => {
+    expect(files[1]).toMatchObject({ binary: true, hunks: [] });
+  });
+
+  it('should decode quoted paths with octal escapes', () => {
+    const [file] = parseDiff([
+      'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+      '--- "a/caf\\303\\251.txt"',
+      '+++ "b/caf\\303\\251.txt"',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b'
+    ].join('\n'));
+    expect(file.newPath).toBe('café.txt');
+  });
+});
+
+describe('parseCommits', () => {
+  const output = [
+    commitRecord(
+      ['abc123', 'def456', 'Ada', 'ada@example.com', '2024-05-01T10:00:00+02:00', 'Ada', 'ada@example.com', '2024-05-01T10:00:05+02:00', 'Fix login\n\nDetails here\n'],
+      '\n\n3\t1\tsrc/login.ts\n-\t-\tlogo.png\n2\t0\tsrc/{old => new}/util.ts\n\n' + SAMPLE_DIFF
+    ),
+    commitRecord(
+      ['def456', '', 'Ada', 'ada@example.com', '2024-05-01T09:00:00+02:00', 'Ada', 'ada@example.com', '2024-05-01T09:00:00+02:00', 'Initial\n'],
+      '\n\n1\t0\tREADME.md\n'
+    )
+  ].join('');
+
+  const commits = parseCommits(output);
+
+  it('should parse commit metadata', () => {
+    expect(commits).toHaveLength(2);
+    expect(commits[0]).toMatchObject({
+      sha: 'abc123',
+      parents: ['def456'],
+      author: { name: 'Ada', email: 'ada@example.com' },
+      authoredAt: '2024-05-01T10:00:00+02:00',
+      subject: 'Fix login',
+      message: 'Fix login\n\nDetails here'
+    });
+    expect(commits[1].parents).toEqual([]);
+  });
+
+  it('should parse per-file stats including binaries and renames', () => {
+    expect(commits[0].files).toEqual([
+      { path: 'src/login.ts', additions: 3, deletions: 1 },
+      { path: 'logo.png', additions: null, deletions: null },
+      { path: 'src/new/util.ts', oldPath: 'src/old/util.ts', additions: 2, deletions: 0 }
+    ]);
+  });
+
+  it('should attach the parsed diff only when a patch was printed', () => {
+    expect(commits[0].diff).toHaveLength(4);
+    expect(commits[1].diff).toBeUndefined();
+  });
+});
+
+describe('parseJsonOutput', () => {
+  it('should wrap results by command', () => {
+    expect(parseJsonOutput('diff', '')).toEqual({ command: 'diff', files: [] });
+    expect(parseJsonOutput('log', '')).toEqual({ command: 'log', commits: [] });
+  });
+
+  it('should reject show output that contains no commits', () => {
+    expect(() => parseJsonOutput('show', 'plain file contents\n')).toThrow('commits only');
+  });
+});
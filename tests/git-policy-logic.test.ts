@@ -0,0 +1,163 @@
+// Tests for the per-subcommand git argument policy
+// git-policy.ts has no MCP SDK dependency, so it is imported directly
+
+import { describe, it, expect } from '@jest/globals';
+import { tokenizeCommand } from '../src/git-command';
+import { COMMAND_POLICIES, PolicyViolationError, checkDeniedFlags, validateGitArguments } from '../src/git-policy';
+
+const validate = (command: string): void => validateGitArguments(tokenizeCommand(command));
+
+const ruleFor = (command: string): string | undefined => {
+  try {
+    validate(command);
+    return undefined;
+  } catch (error) {
+    if (error instanceof PolicyViolationError) return error.rule;
+    throw error;
+  }
+};
+
+describe('validateGitArguments', () => {
+  it('should have a policy for every safe command', () => {
+    expect(Object.keys(COMMAND_POLICIES).sort()).toEqual([
+      'blame', 'branch', 'cat-file', 'cherry', 'count-objects', 'describe', 'diff', 'diff-tree',
+      'for-each-ref', 'grep', 'log', 'ls-files', 'ls-tree', 'merge-base', 'reflog', 'rev-list',
+      'rev-parse', 'shortlog', 'show', 'status', 'tag'
+    ]);
+  });
+
+  describe('Allowed Commands', () => {
+    const allowed = [
+      'log --oneline -5',
+      'log --grep=commit',
+      'log --grep "fix login" --author=alex',
+      'log -n 10 --since="2 hours ago" --stat -- src/app.ts',
+      'log -p -M90% --follow -- file.ts',
+      'log -L 10,20:src/app.ts',
+      'log -S "needle" --pickaxe-regex',
+      'log --format=%H%x09%s',
+      'diff --cached',
+      'diff HEAD~1 HEAD --stat=120',
+      'diff -U5 --word-diff=color a b',
+      'diff --no-ext-diff --no-textconv',
+      'show abc123 --name-status',
+      'show HEAD:src/app.ts',
+      'grep add',
+      'grep -in "TODO" HEAD -- src',
+      'grep -e-pattern-with-dash',
+      'blame -L 1,20 file.txt',
+      'status -sb',
+      'status -uno',
+      'shortlog -sn',
+      'rev-parse --abbrev-ref HEAD',
+      'rev-list --count HEAD',
+      'ls-files --cached',
+      'cat-file -p HEAD',
+      'diff-tree -r --no-commit-id --name-only HEAD',
+      'reflog show -5',
+      'describe --tags --always',
+      'branch',
+      'branch --list',
+      'branch -a -vv',
+      'branch --list "feature/*"',
+      'branch --contains abc123',
+      'tag',
+      'tag -l',
+      'tag --list "v1.*"',
+      'tag -n3 -l',
+      'for-each-ref --sort=-committerdate --count 5 refs/heads',
+      'ls-tree -r --name-only HEAD',
+      'merge-base --is-ancestor a b',
+      'cherry -v',
+      'count-objects -vH'
+    ];
+
+    it.each(allowed)('should allow %j', (command) => {
+      expect(() => validate(command)).not.toThrow();
+    });
+  });
+
+  describe('Rejected Commands', () => {
+    const rejected: Array<[string, string]> = [
+      ['diff --output=/some/file', 'no-file-output'],
+      ['log -p --output /tmp/x', 'no-file-output'],
+      ['diff --ext-diff', 'no-external-programs'],
+      ['show --textconv HEAD:file', 'no-external-programs'],
+      ['cat-file --filters HEAD:file', 'no-external-programs'],
+      ['grep --open-files-in-pager=vim foo', 'no-external-programs'],
+      ['log --exec=rm', 'no-external-programs'],
+      ['log --git-dir=/other/git', 'no-repository-override'],
+      ['log --work-tree=/other/path', 'no-repository-override'],
+      ['diff --no-index /etc/passwd /dev/null', 'no-outside-files'],
+      ['blame --contents /etc/passwd file', 'no-outside-files'],
+      ['log -c core.editor=vim', 'log.allowed-flags'],
+      ['grep -O foo', 'grep.allowed-flags'],
+      ['grep -f /etc/passwd', 'grep.allowed-flags'],
+      ['log --outp=/tmp/x', 'log.allowed-flags'],
+      ['branch -D x', 'branch.allowed-flags'],
+      ['branch -d x', 'branch.allowed-flags'],
+      ['branch -m old new', 'branch.allowed-flags'],
+      ['branch --set-upstream-to=origin/main', 'branch.allowed-flags'],
+      ['branch newname', 'branch.list-only'],
+      ['branch -a newname', 'branch.list-only'],
+      ['branch --sort=refname newname', 'branch.list-only'],
+      ['tag -d x', 'tag.allowed-flags'],
+      ['tag -a v1 -m msg', 'tag.allowed-flags'],
+      ['tag v1.0', 'tag.list-only'],
+      ['reflog expire --all', 'reflog.read-only-actions'],
+      ['reflog delete HEAD@{1}', 'reflog.read-only-actions'],
+      ['count-objects extra', 'count-objects.no-arguments'],
+      ['commit -m test', 'safe-commands']
+    ];
+
+    it.each(rejected)('should reject %j with rule %s', (command, rule) => {
+      expect(ruleFor(command)).toBe(rule);
+    });
+
+    it('should not hide an option behind a flag that takes a value', () => {
+      // --grep takes a value, but the next token looks like an option so it is validated
+      expect(ruleFor('log --grep --output=/tmp/x')).toBe('no-file-output');
+      expect(ruleFor('status -u --output=/tmp/x')).toBe('no-file-output');
+    });
+
+    it('should not validate arguments after -- as options', () => {
+      expect(ruleFor('log -- --output=file')).toBeUndefined();
+    });
+
+    it('should reject diff paths outside the work tree, which git would diff as --no-index', () => {
+      expect(ruleFor('diff /tmp/outside.txt /dev/null')).toBe('no-outside-files');
+      expect(ruleFor('diff HEAD -- ../other/file')).toBe('no-outside-files');
+      expect(ruleFor('diff src/../../secret.txt README.md')).toBe('no-outside-files');
+      expect(ruleFor('diff HEAD~1..HEAD -- src/../README.md ./lib')).toBeUndefined();
+    });
+
+    it('should reject bundled short flags that are not all allowed', () => {
+      expect(ruleFor('branch -vD x')).toBe('branch.allowed-flags');
+    });
+  });
+});
+
+describe('checkDeniedFlags', () => {
+  const deniedRule = (argv: string[]): string | undefined => {
+    try {
+      checkDeniedFlags(argv);
+      return undefined;
+    } catch (error) {
+      if (error instanceof PolicyViolationError) return error.rule;
+      throw error;
+    }
+  };
+
+  it('should reject denied flags in commands built for tools', () => {
+    expect(deniedRule(['log', '-1', '--format=%H', '--output=/tmp/x', 'HEAD', '--'])).toBe('no-file-output');
+    expect(deniedRule(['diff', '--numstat', '--ext-diff', 'a', 'b'])).toBe('no-external-programs');
+    expect(deniedRule(['diff', 'HEAD', '--', '../outside.txt'])).toBe('no-outside-files');
+  });
+
+  it('should allow options outside the git tool\'s allowlists and skip option values', () => {
+    expect(deniedRule(['log', '-L', '2,5:app.ts', '--patch', '--no-ext-diff', 'HEAD', '--'])).toBeUndefined();
+    expect(deniedRule(['grep', '-n', '-e', '--output', 'HEAD', '--', 'src'])).toBeUndefined();
+    expect(deniedRule(['log', '--grep', '--output', 'HEAD'])).toBeUndefined();
+    expect(deniedRule(['log', '-1', '--end-of-options', '--output=/tmp/x'])).toBeUndefined();
+  });
+});
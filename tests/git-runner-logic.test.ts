@@ -0,0 +1,197 @@
+// Tests for the asynchronous git runner
+// child_process.spawn is replaced by fake processes controlled by each test
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { GitExecutionError, GitRunner } from '../src/git-runner';
+
+jest.mock('child_process');
+
+class FakeChild extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  kill = jest.fn((signal?: string) => {
+    setImmediate(() => this.emit('close', null, signal));
+    return true;
+  });
+
+  succeed(output: string): void {
+    this.stdout.emit('data', Buffer.from(output));
+    this.emit('close', 0);
+  }
+
+  failWith(exitCode: number, stderr: string): void {
+    this.stderr.emit('data', Buffer.from(stderr));
+    this.emit('close', exitCode);
+  }
+}
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('GitRunner', () => {
+  let mockSpawn: jest.MockedFunction<typeof spawn>;
+  let children: FakeChild[];
+  let runner: GitRunner;
+  const runOptions = { cwd: '/test/repo', env: {} };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    children = [];
+    mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+    mockSpawn.mockImplementation((() => {
+      const child = new FakeChild();
+      children.push(child);
+      return child;
+    }) as any);
+    runner = new GitRunner({ maxConcurrent: 2, timeoutMs: 1000, maxBufferSize: 16 });
+  });
+
+  it('should spawn git with the argv and no shell', async () => {
+    const result = runner.run(['log', '--grep=fix login'], runOptions);
+    await flush();
+    children[0].succeed('abc123');
+
+    await expect(result).resolves.toBe('abc123');
+    expect(mockSpawn).toHaveBeenCalledWith(
+      'git',
+      ['log', '--grep=fix login'],
+      expect.objectContaining({ cwd: '/test/repo' })
+    );
+    expect(mockSpawn.mock.calls[0][2]).not.toHaveProperty('shell');
+  });
+
+  it('should queue commands beyond the concurrency limit', async () => {
+    const results = [
+      runner.run(['log'], runOptions),
+      runner.run(['diff'], runOptions),
+      runner.run(['show'], runOptions)
+    ];
+    await flush();
+
+    expect(children).toHaveLength(2);
+    expect(runner.activeCount).toBe(2);
+    expect(runner.queuedCount).toBe(1);
+
+    children[1].succeed('diff output');
+    await flush();
+    expect(children).toHaveLength(3);
+    expect(mockSpawn.mock.calls[2][1]).toEqual(['show']);
+
+    children[0].succeed('log output');
+    children[2].succeed('show output');
+    await expect(Promise.all(results)).resolves.toEqual(['log output', 'diff output', 'show output']);
+    expect(runner.activeCount).toBe(0);
+  });
+
+  it('should kill a running command when its request is cancelled', async () => {
+    const controller = new AbortController();
+    const result = runner.run(['log', '-p'], { ...runOptions, signal: controller.signal });
+    await flush();
+
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ reason: 'cancelled' });
+    expect(children[0].kill).toHaveBeenCalledWith('SIGTERM');
+  });
+
+  it('should drop a queued command when its request is cancelled', async () => {
+    const controller = new AbortController();
+    const running = [runner.run(['log'], runOptions), runner.run(['log'], runOptions)];
+    const queued = runner.run(['grep', 'foo'], { ...runOptions, signal: controller.signal });
+    await flush();
+
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ reason: 'cancelled' });
+    expect(runner.queuedCount).toBe(0);
+    children[0].succeed('');
+    children[1].succeed('');
+    await Promise.all(running);
+    expect(children).toHaveLength(2);
+  });
+
+  it('should not start a command whose request was already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runner.run(['log'], { ...runOptions, signal: controller.signal }))
+      .rejects.toMatchObject({ reason: 'cancelled' });
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+
+  it('should kill commands that exceed the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const result = runner.run(['log'], runOptions);
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+      children[0].emit('close', null, 'SIGTERM');
+
+      await expect(result).rejects.toMatchObject({ reason: 'timeout' });
+      expect(children[0].kill).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should kill commands whose output exceeds the buffer limit', async () => {
+    const result = runner.run(['log'], runOptions);
+    await flush();
+    children[0].stdout.emit('data', Buffer.from('x'.repeat(32)));
+
+    await expect(result).rejects.toMatchObject({ reason: 'max-buffer' });
+    expect(children[0].kill).toHaveBeenCalled();
+  });
+
+  it('should keep only the requested window of output once git succeeds', async () => {
+    const result = runner.runWindow(['log', '-p'], runOptions, { skip: 5, limit: 10 });
+    await flush();
+    children[0].stdout.emit('data', Buffer.from('0123456789'));
+    children[0].stdout.emit('data', Buffer.from('abcdefghijklmnopqrstuvwxyz'));
+    children[0].emit('close', 0);
+
+    const { output, complete } = await result;
+    expect(output.toString()).toBe('56789abcde');
+    expect(complete).toBe(false);
+    expect(children[0].kill).not.toHaveBeenCalled();
+  });
+
+  it('should not return a window of output from a command that fails later', async () => {
+    const result = runner.runWindow(['diff', 'a', 'b'], runOptions, { skip: 0, limit: 10 });
+    await flush();
+    children[0].stdout.emit('data', Buffer.from('x'.repeat(32)));
+    children[0].failWith(128, 'fatal: bad revision');
+
+    await expect(result).rejects.toMatchObject({ reason: 'exit', details: { exitCode: 128 } });
+  });
+
+  it('should report a window that reaches the end of the output as complete', async () => {
+    const result = runner.runWindow(['log'], runOptions, { skip: 20, limit: 100 });
+    await flush();
+    children[0].succeed('x'.repeat(32));
+
+    const { output, complete } = await result;
+    expect(output.toString()).toBe('x'.repeat(12));
+    expect(complete).toBe(true);
+  });
+
+  it('should report the exit code and stderr of failed commands', async () => {
+    const result = runner.run(['show', 'nope'], runOptions);
+    await flush();
+    children[0].failWith(128, 'fatal: bad revision');
+
+    const error = await result.catch(e => e);
+    expect(error).toBeInstanceOf(GitExecutionError);
+    expect(error.reason).toBe('exit');
+    expect(error.details).toEqual({ exitCode: 128, stderr: 'fatal: bad revision' });
+  });
+
+  it('should report spawn failures', async () => {
+    const result = runner.run(['log'], runOptions);
+    await flush();
+    children[0].emit('error', Object.assign(new Error('spawn git ENOENT'), { code: 'ENOENT' }));
+
+    await expect(result).rejects.toMatchObject({ reason: 'spawn', details: { code: 'ENOENT' } });
+  });
+});
@@ -0,0 +1,106 @@
+// Tests for the git tool's command handling: commands go through
+// parseGitCommand and executeGit with the git process runner replaced, so
+// a payload that got past the checks would show up as a runner call.
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import './mcp-sdk-mock';
+import { DEFAULT_CONFIG } from '../src/config';
+import { ShadowGitMCPServer } from '../src/shadowgit-mcp-server';
+
+type ParsedGitCommand = { ok: true; argv: string[] } | { ok: false; error: string };
+
+// The private parts of the server these tests drive
+interface GitToolInternals {
+  gitRunner: {
+    run: (argv: string[], options: unknown) => Promise<string>;
+    runWindow: (argv: string[], options: unknown, window: { skip: number; limit: number }) => Promise<{ output: Buffer; complete: boolean }>;
+  };
+  parseGitCommand(command: string, repoPath: string): ParsedGitCommand;
+  executeGit(command: string, repoPath: string): Promise<string>;
+}
+
+const REPO = '/work/app';
+
+describe('git tool', () => {
+  let server: GitToolInternals;
+  let runWindow: jest.Mock<GitToolInternals['gitRunner']['runWindow']>;
+  let stderrSpy: jest.SpiedFunction<typeof process.stderr.write>;
+
+  beforeEach(() => {
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+    server = new ShadowGitMCPServer() as unknown as GitToolInternals;
+    runWindow = jest.fn(async () => ({ output: Buffer.from('commit abc123\n'), complete: true }));
+    server.gitRunner.runWindow = runWindow;
+    server.gitRunner.run = jest.fn(async () => '');
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+  });
+
+  describe('shell injection', () => {
+    it.each([
+      ['log; rm -rf /', "Shell metacharacter ';'"],
+      ['log | sh', "Shell metacharacter '|'"],
+      ['log && touch /tmp/pwned', "Shell metacharacter '&'"],
+      ['log $(touch /tmp/pwned)', "Shell metacharacter '$'"],
+      ['log `id`', "Shell metacharacter '`'"],
+      ['log --grep="$(id)"', "Shell expansion character '$'"],
+      ['log > /tmp/out', "Shell metacharacter '>'"]
+    ])('should reject %j without running git', async (command, reason) => {
+      const result = await server.executeGit(command, REPO);
+
+      expect(result).toContain(reason);
+      expect(runWindow).not.toHaveBeenCalled();
+    });
+
+    it('should pass quoted arguments to git as single arguments', async () => {
+      expect(server.parseGitCommand(`log --grep="fix login" --author='a; b'`, REPO)).toEqual({
+        ok: true,
+        argv: ['log', '--grep=fix login', '--author=a; b']
+      });
+
+      const result = await server.executeGit('log --grep="fix login"', REPO);
+      expect(result).toContain('commit abc123');
+      expect(runWindow).toHaveBeenCalledWith(['log', '--grep=fix login'], expect.objectContaining({ cwd: REPO }), expect.anything());
+    });
+  });
+
+  describe('argument policy', () => {
+    it.each([
+      ['commit -m x', 'safe-commands'],
+      ['log --output=/tmp/pwned', 'no-file-output'],
+      ['log --exec=id', 'no-external-programs'],
+      ['log --git-dir=/other/.git', 'no-repository-override'],
+      ['diff /tmp/outside.txt /dev/null', 'no-outside-files'],
+      ['branch -D main', 'branch.allowed-flags']
+    ])('should reject %j without running git', async (command, rule) => {
+      const result = await server.executeGit(command, REPO);
+
+      expect(result).toMatch(/^Error: /);
+      if (rule !== 'safe-commands') expect(result).toContain(`(rule: ${rule})`);
+      expect(runWindow).not.toHaveBeenCalled();
+    });
+
+    it('should drop control characters before checking the command', () => {
+      expect(server.parseGitCommand('log\x00 --oneline\x1b', REPO)).toEqual({ ok: true, argv: ['log', '--oneline'] });
+    });
+  });
+
+  describe('per-repository settings', () => {
+    beforeEach(() => {
+      server = new ShadowGitMCPServer({
+        ...DEFAULT_CONFIG,
+        repos: { [REPO]: { allowedCommands: ['log', 'show'], denyPaths: ['.env*'] } }
+      }) as unknown as GitToolInternals;
+      server.gitRunner.runWindow = runWindow;
+      server.gitRunner.run = jest.fn(async () => '');
+    });
+
+    it.each([REPO, `${REPO}/`, `${REPO}/.`, '/work/../work/app'])('should apply them to the repository named %j', async repoPath => {
+      expect(await server.executeGit('show HEAD:.env', repoPath)).toContain('(rule: deny-paths)');
+      expect(await server.executeGit('diff HEAD~1', repoPath)).toContain("Command 'diff' is not allowed");
+      expect(runWindow).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+// Tests for the snapshot helpers shared by the history tools
+
+import { describe, it, expect } from '@jest/globals';
+import { requireHead, resolveCommit } from '../src/tools/history';
+import { ToolContext, ToolError } from '../src/tools/types';
+import { scriptedContext } from './tool-context';
+
+const SHA = 'a'.repeat(40);
+
+// A repository whose rev-parse answers with `answer`
+function createContext(answer: string | Error): ToolContext {
+  return scriptedContext(() => {
+    if (answer instanceof Error) throw answer;
+    return answer;
+  }).context;
+}
+
+describe('resolveCommit', () => {
+  it('should resolve a revision to a commit', async () => {
+    await expect(resolveCommit(createContext(`${SHA}\n`), '/work/app', 'abc1234')).resolves.toBe(SHA);
+  });
+
+  it('should explain revisions that name no commit', async () => {
+    const context = createContext(new ToolError('Git error: fatal: Needed a single revision'));
+    await expect(resolveCommit(context, '/work/app', 'abc1234')).rejects.toThrow("'abc1234' is not a known snapshot");
+  });
+
+  it.each([
+    'Error: Command was cancelled.',
+    'Error: Command timed out (10 second limit). Try a simpler query.',
+    'Error: Output too large. Try limiting the results (e.g., use -n flag or --max-count).',
+    "Error: 'abc1234' is the content of a file denied by the denyPaths rules. (rule: deny-paths.objects)"
+  ])('should pass on %j unchanged', async message => {
+    await expect(resolveCommit(createContext(new ToolError(message)), '/work/app', 'abc1234')).rejects.toThrow(message);
+  });
+});
+
+describe('requireHead', () => {
+  it('should explain a repository without snapshots', async () => {
+    const context = createContext(new ToolError('Git error: fatal: Needed a single revision'));
+    await expect(requireHead(context, '/work/app')).rejects.toThrow('no ShadowGit snapshots yet');
+  });
+
+  it('should pass on other failures unchanged', async () => {
+    const context = createContext(new ToolError('Error: Command was cancelled.'));
+    await expect(requireHead(context, '/work/app')).rejects.toThrow('Error: Command was cancelled.');
+  });
+});
@@ -0,0 +1,22 @@
+// Import before the server: the MCP SDK is ESM-only and cannot be loaded by
+// jest, and the server only needs its classes to exist.
+
+import { jest } from '@jest/globals';
+
+jest.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: jest.fn().mockImplementation(() => ({ setRequestHandler: jest.fn() }))
+}));
+jest.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({ StdioServerTransport: jest.fn() }));
+jest.mock('@modelcontextprotocol/sdk/types.js', () => ({
+  CallToolRequestSchema: {},
+  ErrorCode: { InvalidParams: -32602 },
+  GetPromptRequestSchema: {},
+  ListPromptsRequestSchema: {},
+  ListResourcesRequestSchema: {},
+  ListResourceTemplatesRequestSchema: {},
+  ListToolsRequestSchema: {},
+  McpError: class McpError extends Error {},
+  ReadResourceRequestSchema: {},
+  SubscribeRequestSchema: {},
+  UnsubscribeRequestSchema: {}
+}));
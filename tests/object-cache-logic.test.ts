@@ -0,0 +1,103 @@
+// Tests for the object cache: which commands are cacheable, how their
+// revisions are resolved, and the byte-bounded LRU
+
+import { describe, it, expect } from '@jest/globals';
+import { ObjectCache, isObjectName, objectQuery, resolveQuery } from '../src/object-cache';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+
+function resolved(argv: string[]): string[] | null {
+  const query = objectQuery(argv);
+  if (!query) return null;
+  const objects = new Map(query.revisions.map((revision, i) => [revision, [A, B][i] ?? revision]));
+  return resolveQuery(query, objects);
+}
+
+describe('objectQuery', () => {
+  it('should resolve the revisions of commands on fixed objects', () => {
+    expect(objectQuery(['show', 'HEAD~1', '--stat'])?.revisions).toEqual(['HEAD~1']);
+    expect(resolved(['show', 'HEAD~1', '--stat'])).toEqual(['show', A, '--stat']);
+    expect(resolved(['diff', 'HEAD~2', 'HEAD', '--', 'src'])).toEqual(['diff', A, B, '--', 'src']);
+    expect(resolved(['ls-tree', '-r', 'HEAD', 'src/'])).toEqual(['ls-tree', '-r', A, 'src/']);
+    expect(resolved(['cat-file', 'blob', 'HEAD:src/app.ts'])).toEqual(['cat-file', 'blob', `${A}:src/app.ts`]);
+    expect(resolved(['diff-tree', '-r', '^HEAD~3', 'HEAD'])).toEqual(['diff-tree', '-r', `^${A}`, B]);
+  });
+
+  it('should resolve both ends of a range, defaulting to HEAD', () => {
+    expect(resolved(['diff', 'main~2..main'])).toEqual(['diff', `${A}..${B}`]);
+    expect(resolved(['diff', 'HEAD~2...'])).toEqual(['diff', `${A}...${B}`]);
+    expect(objectQuery(['diff', '..HEAD'])?.revisions).toEqual(['HEAD']);
+  });
+
+  it('should pin a bare show to HEAD', () => {
+    expect(resolved(['show', '--stat'])).toEqual(['show', '--stat', A]);
+    expect(resolved(['show', '--', 'src'])).toEqual(['show', A, '--', 'src']);
+  });
+
+  it('should not cache commands that read the working tree or index', () => {
+    expect(objectQuery(['diff'])).toBeNull();
+    expect(objectQuery(['diff', 'HEAD'])).toBeNull();
+    expect(objectQuery(['diff', '--cached', 'HEAD~1', 'HEAD'])).toBeNull();
+    expect(objectQuery(['show', ':src/app.ts'])).toBeNull();
+    expect(objectQuery(['ls-tree'])).toBeNull();
+  });
+
+  it('should not cache output that shows refs or relative times', () => {
+    expect(objectQuery(['show', '--decorate', 'HEAD'])).toBeNull();
+    expect(objectQuery(['show', '--format=%h %ar', 'HEAD'])).toBeNull();
+    expect(objectQuery(['show', '--pretty=format:%d', 'HEAD'])).toBeNull();
+    expect(objectQuery(['show', '--date=relative', 'HEAD'])).toBeNull();
+    expect(objectQuery(['show', '--all'])).toBeNull();
+    expect(objectQuery(['show', '--date=iso', '--format=%h %ad', 'HEAD'])).not.toBeNull();
+  });
+
+  it('should not cache other commands or multi-commit revisions', () => {
+    expect(objectQuery(['log', A])).toBeNull();
+    expect(objectQuery(['grep', 'token', A])).toBeNull();
+    expect(objectQuery(['show', 'HEAD^@'])).toBeNull();
+    expect(objectQuery(['diff-tree', 'HEAD^!'])).toBeNull();
+  });
+
+  it('should recognize full object names', () => {
+    expect(isObjectName(A)).toBe(true);
+    expect(isObjectName('c'.repeat(64))).toBe(true);
+    expect(isObjectName('abc123')).toBe(false);
+    expect(isObjectName('HEAD')).toBe(false);
+  });
+});
+
+describe('ObjectCache', () => {
+  const cache = (maxBytes: number) => new ObjectCache<string>(maxBytes, value => value.length);
+
+  it('should return stored values and count hits and misses', () => {
+    const objects = cache(1000);
+    expect(objects.get('a')).toBeUndefined();
+    objects.set('a', 'output');
+    expect(objects.get('a')).toBe('output');
+    expect(objects.stats()).toEqual({ hits: 1, misses: 1, entries: 1, bytes: 7 });
+  });
+
+  it('should evict the least recently used entries beyond the byte limit', () => {
+    const objects = cache(160);
+    for (const key of ['a', 'b', 'c', 'd']) objects.set(key, 'x'.repeat(39));
+    objects.get('a');
+    objects.set('e', 'x'.repeat(39));
+    expect(objects.get('b')).toBeUndefined();
+    for (const key of ['a', 'c', 'd', 'e']) expect(objects.get(key)).toBeDefined();
+    expect(objects.stats().bytes).toBe(160);
+  });
+
+  it('should not keep values larger than a quarter of the limit', () => {
+    const objects = cache(100);
+    objects.set('a', 'x'.repeat(30));
+    expect(objects.get('a')).toBeUndefined();
+  });
+
+  it('should store nothing when disabled', () => {
+    const objects = cache(0);
+    objects.set('a', 'x');
+    expect(objects.enabled).toBe(false);
+    expect(objects.stats().entries).toBe(0);
+  });
+});
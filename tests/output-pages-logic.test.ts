@@ -0,0 +1,103 @@
+// Tests for git tool output pagination and token-budgeted condensing
+
+import { describe, it, expect } from '@jest/globals';
+import { condenseOutput, decodeOutputCursor, encodeOutputCursor, pageLength } from '../src/output-pages';
+
+const hunk = (line: number, size = 3): string[] => [
+  `@@ -${line},${size} +${line},${size} @@`,
+  ...Array.from({ length: size }, (_, i) => (i === 1 ? `+changed ${line}` : ` line ${line + i}`))
+];
+
+const fileDiff = (name: string, hunks: number): string[] => [
+  `diff --git a/${name} b/${name}`,
+  `--- a/${name}`,
+  `+++ b/${name}`,
+  ...Array.from({ length: hunks }, (_, i) => hunk(i * 10 + 1)).flat()
+];
+
+const commit = (sha: string, files: string[][]): string[] => [
+  `commit ${sha.repeat(40 / sha.length)}`,
+  'Date:   Mon May 6 10:00:00 2024 +0000',
+  '',
+  '    Auto-save',
+  '',
+  ...files.flat()
+];
+
+describe('output cursors', () => {
+  it('should round-trip a cursor', () => {
+    const cursor = { repo: 'app', command: 'log -p', offset: 4096, head: 'abc123', maxTokens: 2000 };
+    expect(decodeOutputCursor(encodeOutputCursor(cursor))).toEqual(cursor);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeOutputCursor('not a cursor')).toBeNull();
+    const negative = encodeOutputCursor({ repo: 'app', command: 'log', offset: -1, head: null });
+    expect(decodeOutputCursor(negative)).toBeNull();
+  });
+
+  it('should reject cursors that were edited', () => {
+    const [payload, mac] = encodeOutputCursor({ repo: 'app', command: 'log -p', offset: 0, head: null, hiding: '.env' }).split('.');
+    const edited = Buffer.from(JSON.stringify({ repo: 'app', command: 'log -p', offset: 0, head: null })).toString('base64url');
+    expect(decodeOutputCursor(`${edited}.${mac}`)).toBeNull();
+    expect(decodeOutputCursor(payload)).toBeNull();
+  });
+});
+
+describe('pageLength', () => {
+  it('should return complete output whole', () => {
+    expect(pageLength(Buffer.from('a\nb'), true)).toBe(3);
+  });
+
+  it('should end a partial page at the last commit or file boundary', () => {
+    const data = Buffer.from('commit 1\nline one\nline two\nline three\ndiff --git a/x b/x\n+part');
+    expect(data.subarray(0, pageLength(data, false)).toString()).toBe('commit 1\nline one\nline two\nline three\n');
+  });
+
+  it('should fall back to the last line break', () => {
+    const data = Buffer.from('diff --git a/x b/x\nline one\nline t');
+    expect(pageLength(data, false)).toBe('diff --git a/x b/x\nline one\n'.length);
+  });
+
+  it('should not split a multi-byte character in one long line', () => {
+    const data = Buffer.from('aaé').subarray(0, 3); // cut inside the é
+    expect(pageLength(data, false)).toBe(2);
+  });
+});
+
+describe('condenseOutput', () => {
+  it('should leave output within the budget unchanged', () => {
+    const text = commit('a', [fileDiff('a.ts', 2)]).join('\n') + '\n';
+    expect(condenseOutput(text, text.length)).toEqual({ text, consumed: text.length, omittedHunks: 0 });
+  });
+
+  it('should show the first hunk of every file before later hunks', () => {
+    const text = commit('a', [fileDiff('a.ts', 8), fileDiff('b.ts', 8)]).join('\n') + '\n';
+    const result = condenseOutput(text, 600);
+
+    expect(result.consumed).toBe(text.length);
+    expect(result.text).toContain('diff --git a/a.ts b/a.ts');
+    expect(result.text).toContain('diff --git a/b.ts b/b.ts');
+    expect(result.text.match(/^@@ -1,3/gm)).toHaveLength(2);
+    expect(result.text).toMatch(/\[\.\.\. \d more hunks \(\d+ lines\) omitted to fit max_tokens/);
+    expect(result.omittedHunks).toBeGreaterThan(0);
+    expect(result.text.length).toBeLessThanOrEqual(600);
+  });
+
+  it('should leave whole commits that do not fit for the next page', () => {
+    const first = commit('a', [fileDiff('a.ts', 1)]).join('\n') + '\n';
+    const text = first + commit('b', [fileDiff('b.ts', 1)]).join('\n') + '\n';
+    const result = condenseOutput(text, first.length + 150);
+
+    expect(result.text).toBe(first);
+    expect(result.consumed).toBe(first.length);
+    expect(text.slice(result.consumed)).toMatch(/^commit b{40}/);
+  });
+
+  it('should cut unstructured output at a line break', () => {
+    const text = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+    const result = condenseOutput(text, 50);
+    expect(result.text).toBe('line 0\nline 1\nline 2\nline 3\nline 4\nline 5\nline 6\n');
+    expect(result.consumed).toBe(result.text.length);
+  });
+});
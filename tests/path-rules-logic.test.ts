@@ -0,0 +1,242 @@
+// Tests for the denyPaths rules: path matching, argument checks and the
+// filtering of diff output
+
+import { describe, it, expect } from '@jest/globals';
+import { PolicyViolationError } from '../src/git-policy';
+import { PathRules, checkBlameOutput, checkDeniedArguments, filterDiffOutput, objectArguments, searchesContent } from '../src/path-rules';
+
+const rules = new PathRules(['.env*', 'secrets/**', '*.pem', '/config/local.json']);
+
+function violation(argv: string[]): PolicyViolationError | null {
+  try {
+    checkDeniedArguments(argv, rules);
+    return null;
+  } catch (error) {
+    return error as PolicyViolationError;
+  }
+}
+
+describe('PathRules', () => {
+  it('should match unanchored patterns at any depth', () => {
+    expect(rules.match('.env')).toBe('.env*');
+    expect(rules.match('packages/api/.env.local')).toBe('.env*');
+    expect(rules.match('certs/server.pem')).toBe('*.pem');
+    expect(rules.match('src/environment.ts')).toBeNull();
+  });
+
+  it('should match anchored patterns from the repository root only', () => {
+    expect(rules.match('secrets/key.txt')).toBe('secrets/**');
+    expect(rules.match('secrets/nested/key.txt')).toBe('secrets/**');
+    expect(rules.match('app/secrets/key.txt')).toBeNull();
+    expect(rules.match('config/local.json')).toBe('/config/local.json');
+    expect(rules.match('app/config/local.json')).toBeNull();
+  });
+
+  it('should deny everything inside a denied directory', () => {
+    const directoryRules = new PathRules(['private']);
+    expect(directoryRules.match('private')).toBe('private');
+    expect(directoryRules.match('private/notes.md')).toBe('private');
+    expect(directoryRules.match('docs/private/notes.md')).toBe('private');
+    expect(directoryRules.match('privateer.ts')).toBeNull();
+  });
+
+  it('should normalize paths before matching', () => {
+    expect(rules.match('./secrets//key.txt')).toBe('secrets/**');
+    expect(rules.match('secrets\\key.txt')).toBe('secrets/**');
+    expect(rules.match('x/../secrets/key.txt')).toBe('secrets/**');
+    expect(rules.match('src/./a/../../config/local.json')).toBe('/config/local.json');
+  });
+
+  it('should be inactive without patterns', () => {
+    expect(new PathRules([]).active).toBe(false);
+    expect(rules.active).toBe(true);
+  });
+
+  it('should build exclude pathspecs for each pattern and its contents', () => {
+    expect(new PathRules(['.env*', '/secrets/']).excludePathspecs()).toEqual([
+      ':(top,exclude,glob)**/.env*',
+      ':(top,exclude,glob)**/.env*/**',
+      ':(top,exclude,glob)secrets',
+      ':(top,exclude,glob)secrets/**'
+    ]);
+  });
+});
+
+describe('checkDeniedArguments', () => {
+  it('should reject denied paths and revision:path arguments', () => {
+    expect(violation(['diff', 'HEAD~1', '--', '.env'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['show', 'HEAD~3:secrets/key.txt'])?.message).toContain(
+      "Path 'secrets/key.txt' is denied by the denyPaths rule \"secrets/**\""
+    );
+    expect(violation(['cat-file', '-p', ':0:.env.local'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['log', '--', ':(top)certs/server.pem'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['blame', 'secrets/key.txt'])).toMatchObject({ rule: 'deny-paths' });
+  });
+
+  it('should resolve .. in paths and reject paths leaving the repository', () => {
+    expect(violation(['blame', 'HEAD', '--', 'x/../secrets/key'])?.message).toContain("Path 'secrets/key' is denied");
+    expect(violation(['show', 'HEAD:src/../.env'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['log', '-L', '1,5:a/../.env'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['diff', 'HEAD', '--', '../tree/secrets/key'])?.message).toContain('leaves the repository');
+    expect(violation(['log', 'HEAD~3..HEAD', '--', 'src/../README.md'])).toBeNull();
+  });
+
+  it('should reject line-range logs of denied files', () => {
+    expect(violation(['log', '-L', '1,5:.env'])).toMatchObject({ rule: 'deny-paths' });
+    expect(violation(['log', '-L1,5:src/app.ts'])).toBeNull();
+    expect(violation(['blame', '-L', '1,5', 'src/app.ts'])).toBeNull();
+  });
+
+  it('should allow other paths, exclude pathspecs and grep patterns', () => {
+    expect(violation(['diff', 'HEAD~1', '--', 'src/app.ts'])).toBeNull();
+    expect(violation(['log', '--', '.', ':(exclude).env'])).toBeNull();
+    expect(violation(['grep', '.env', 'HEAD'])).toBeNull();
+    expect(violation(['grep', '-e', 'token', 'HEAD', '--', '.env'])).toMatchObject({ rule: 'deny-paths' });
+  });
+
+  it('should reject diff options whose output cannot be filtered', () => {
+    for (const argv of [
+      ['log', '-p', '--graph'],
+      ['diff', '--no-prefix'],
+      ['show', '--src-prefix=x/'],
+      ['show', '--color'],
+      ['diff', '--relative=src'],
+      ['log', '-p', '--word-diff']
+    ]) {
+      expect(violation(argv)).toMatchObject({ rule: 'deny-paths.output-format' });
+    }
+    expect(violation(['show', '--color=never', '--src-prefix=a/', '--relative'])).toBeNull();
+  });
+
+  it('should reject dumping every object with cat-file', () => {
+    expect(violation(['cat-file', '--batch-all-objects', '--batch'])).toMatchObject({ rule: 'deny-paths.output-format' });
+    expect(violation(['cat-file', '--batch-all-objects', '--batch-check'])).toBeNull();
+  });
+
+  it('should allow everything without rules', () => {
+    expect(() => checkDeniedArguments(['show', 'HEAD:.env', '--graph'], new PathRules([]))).not.toThrow();
+  });
+});
+
+describe('searchesContent', () => {
+  it('should find grep and pickaxe searches', () => {
+    expect(searchesContent(['grep', 'token', 'HEAD'])).toBe(true);
+    expect(searchesContent(['log', '-STOPSECRET', '--oneline'])).toBe(true);
+    expect(searchesContent(['log', '-G', 'token', '--', 'src'])).toBe(true);
+    expect(searchesContent(['rev-list', '--find-object=abc123', 'HEAD'])).toBe(true);
+    expect(searchesContent(['log', '--grep=token'])).toBe(false);
+    expect(searchesContent(['blame', '-s', 'src/app.ts'])).toBe(false);
+  });
+});
+
+describe('checkBlameOutput', () => {
+  it('should reject porcelain output from a denied file', () => {
+    const entry = (filename: string): string => `${'1'.repeat(40)} 1 1 1\nsummary Save\nfilename ${filename}\n\tcontent`;
+    expect(() => checkBlameOutput(entry('src/app.ts'), rules)).not.toThrow();
+    expect(() => checkBlameOutput(entry('secrets/key'), rules)).toThrow('denied by the denyPaths rule "secrets/**"');
+    expect(() => checkBlameOutput(entry('"secrets/k\\303\\251y"'), rules)).toThrow(PolicyViolationError);
+  });
+});
+
+describe('objectArguments', () => {
+  it('should return the revisions whose content a command prints', () => {
+    expect(objectArguments(['show', 'abc123', '--stat'])).toEqual(['abc123']);
+    expect(objectArguments(['diff', 'HEAD~1', 'HEAD', '--', 'src'])).toEqual(['HEAD~1', 'HEAD']);
+    expect(objectArguments(['cat-file', '-p', 'abc123'])).toEqual(['abc123']);
+    expect(objectArguments(['cat-file', 'blob', 'abc123:src/a.ts'])).toEqual(['abc123:src/a.ts']);
+    expect(objectArguments(['grep', 'token', 'HEAD'])).toEqual(['HEAD']);
+    expect(objectArguments(['grep', '-e', 'token', 'HEAD'])).toEqual(['HEAD']);
+  });
+
+  it('should ignore commands that only print metadata', () => {
+    expect(objectArguments(['log', 'abc123'])).toEqual([]);
+    expect(objectArguments(['rev-parse', 'HEAD'])).toEqual([]);
+  });
+});
+
+describe('filterDiffOutput', () => {
+  const logOutput = [
+    'commit 1111111',
+    '',
+    '    Save files',
+    '',
+    'diff --git a/.env b/.env',
+    'index e69de29..d95f3ad 100644',
+    '--- a/.env',
+    '+++ b/.env',
+    '@@ -0,0 +1 @@',
+    '+API_TOKEN=value',
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1234567..89abcde 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1 +1 @@',
+    '-old',
+    '+new',
+    ''
+  ].join('\n');
+
+  it('should replace the diff of a denied file with a note', () => {
+    const result = filterDiffOutput(logOutput, rules);
+    expect(result.text).not.toContain('API_TOKEN');
+    expect(result.text).toContain('[diff of .env hidden: denied by the denyPaths rule ".env*"]');
+    expect(result.text).toContain('diff --git a/src/app.ts b/src/app.ts\nindex 1234567..89abcde 100644');
+    expect(result.text.startsWith('commit 1111111\n\n    Save files\n\n')).toBe(true);
+    expect(result.hiddenFiles).toBe(1);
+    expect(result.hiding).toBeNull();
+  });
+
+  it('should hide renames into a denied path', () => {
+    const text = [
+      'diff --git a/config.txt b/.env.local',
+      'similarity index 90%',
+      'rename from config.txt',
+      'rename to .env.local',
+      '@@ -1 +1 @@',
+      '-a',
+      '+SECRET=b',
+      'commit 2222222'
+    ].join('\n');
+    const result = filterDiffOutput(text, rules);
+    expect(result.text).toBe('[diff of .env.local hidden: denied by the denyPaths rule ".env*"]\ncommit 2222222');
+  });
+
+  it('should hide binary patches across their blank lines', () => {
+    const text = [
+      'diff --git a/secrets/blob.bin b/secrets/blob.bin',
+      'new file mode 100644',
+      'index 0000000..abcdef0',
+      'GIT binary patch',
+      'literal 12',
+      'zcmZ?wbhEHb',
+      '',
+      'literal 0',
+      'HcmV?d00001',
+      '',
+      'diff --git a/src/app.ts b/src/app.ts'
+    ].join('\n');
+    const result = filterDiffOutput(text, rules);
+    expect(result.text).toBe(
+      '[diff of secrets/blob.bin hidden: denied by the denyPaths rule "secrets/**"]\ndiff --git a/src/app.ts b/src/app.ts'
+    );
+  });
+
+  it('should continue hiding a diff across pages', () => {
+    const first = filterDiffOutput('diff --git a/.env b/.env\n@@ -1,3 +1,3 @@\n-A=1', rules);
+    expect(first.hiding).toBe('.env');
+
+    const second = filterDiffOutput('+A=2\n context\ndiff --git a/src/app.ts b/src/app.ts', rules, first.hiding);
+    expect(second.text).toBe('[diff of .env hidden: denied by the denyPaths rule ".env*"]\ndiff --git a/src/app.ts b/src/app.ts');
+    expect(second.hiding).toBeNull();
+  });
+
+  it('should hide diffs whose file name cannot be read', () => {
+    const result = filterDiffOutput('diff --git "a/unterminated\n+x', rules);
+    expect(result.text).toContain('its file name could not be read');
+  });
+
+  it('should leave output without denied files unchanged', () => {
+    const text = logOutput.split('\n').slice(10).join('\n');
+    expect(filterDiffOutput(text, rules)).toEqual({ text, hiding: null, hiddenFiles: 0 });
+  });
+});
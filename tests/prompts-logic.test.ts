@@ -0,0 +1,95 @@
+// Tests for the debugging prompts
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { tokenizeCommand } from '../src/git-command';
+import { validateGitArguments } from '../src/git-policy';
+import { PromptContext, getPrompt, listPrompts } from '../src/prompts';
+import { ToolError } from '../src/tools/types';
+
+const BASE = 'b'.repeat(40);
+
+// Every command is tokenized and policy-checked like a git tool call
+function createContext(answers: { before?: string; diff?: string } = {}): { context: PromptContext; commands: string[][] } {
+  const commands: string[][] = [];
+  const context: PromptContext = {
+    resolveRepo: (repo) => {
+      if (repo !== 'app') throw new ToolError(`Error: Repository '${repo}' not found.`);
+      return '/work/app';
+    },
+    git: jest.fn(async (_repoPath: string, command: string) => {
+      const argv = tokenizeCommand(command);
+      validateGitArguments(argv);
+      commands.push(argv);
+      if (argv[0] === 'rev-list') {
+        return argv.includes('--max-parents=0') ? 'root1\n' : answers.before ?? `${BASE}\n`;
+      }
+      if (argv[0] === 'log') return 'abc1234 2024-05-01T10:00:00Z Auto-save\n';
+      return answers.diff ?? 'diff --git a/src/app.ts b/src/app.ts\n-old\n+new\n';
+    })
+  };
+  return { context, commands };
+}
+
+describe('listPrompts', () => {
+  it('should describe each prompt and its arguments', () => {
+    const prompts = listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['what_broke', 'explain_recent_changes', 'compare_file_to_past']);
+    expect(prompts[0].arguments).toContainEqual(expect.objectContaining({ name: 'repo', required: true }));
+  });
+});
+
+describe('getPrompt', () => {
+  it('should embed the history since it last worked', async () => {
+    const { context, commands } = createContext();
+    const result = await getPrompt('what_broke', { repo: 'app', since: '2 hours ago', file: 'src/my file.ts' }, context);
+
+    expect(commands[0].slice(0, 2)).toEqual(['rev-list', '-1']);
+    expect(commands[1]).toEqual(expect.arrayContaining(['log', `${BASE}..HEAD`]));
+    expect(commands[1].slice(-2)).toEqual(['--', 'src/my file.ts']);
+    expect(commands[2]).toEqual(['diff', BASE, 'HEAD', '--', 'src/my file.ts']);
+
+    const text = result.messages[0].content.text;
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('in `src/my file.ts`');
+    expect(text).toContain('abc1234 2024-05-01T10:00:00Z Auto-save');
+    expect(text).toContain('+new');
+  });
+
+  it('should use a given SHA as the known-good snapshot', async () => {
+    const { context, commands } = createContext();
+    await getPrompt('what_broke', { repo: 'app', since: 'abc1234' }, context);
+    expect(commands.map(argv => argv[0])).toEqual(['log', 'diff']);
+    expect(commands[1]).toEqual(['diff', 'abc1234', 'HEAD']);
+  });
+
+  it('should start from the first snapshot when the window predates history', async () => {
+    const { context, commands } = createContext({ before: '' });
+    const result = await getPrompt('explain_recent_changes', { repo: 'app' }, context);
+    expect(commands[1]).toContain('--max-parents=0');
+    expect(commands[3]).toEqual(['diff', 'root1', 'HEAD']);
+    expect(result.messages[0].content.text).toContain('comparison starts at the first snapshot');
+  });
+
+  it('should compare the file on disk with an older snapshot', async () => {
+    const { context, commands } = createContext();
+    const result = await getPrompt('compare_file_to_past', { repo: 'app', file: 'src/app.ts', minutes: '30' }, context);
+    expect(commands[2]).toEqual(['diff', BASE, '--', 'src/app.ts']);
+    expect(result.description).toBe('src/app.ts now vs. 30 minutes ago');
+  });
+
+  it('should truncate very long sections', async () => {
+    const { context } = createContext({ diff: 'x'.repeat(50000) });
+    const result = await getPrompt('what_broke', { repo: 'app', since: 'abc1234' }, context);
+    expect(result.messages[0].content.text).toContain('(truncated; use the git tool to see the rest)');
+    expect(result.messages[0].content.text.length).toBeLessThan(25000);
+  });
+
+  it('should reject unknown prompts and bad arguments', async () => {
+    const { context } = createContext();
+    await expect(getPrompt('nope', {}, context)).rejects.toThrow("Unknown prompt 'nope'");
+    await expect(getPrompt('what_broke', { repo: 'app' }, context)).rejects.toThrow("'since' parameter is required");
+    await expect(getPrompt('compare_file_to_past', { repo: 'app', file: 'a.ts', minutes: 'ten' }, context))
+      .rejects.toThrow("'minutes' must be a positive number");
+    await expect(getPrompt('explain_recent_changes', { repo: 'other' }, context)).rejects.toThrow("Repository 'other' not found");
+  });
+});
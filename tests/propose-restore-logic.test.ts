@@ -0,0 +1,238 @@
+// Tests for proposing patches that restore a file to a snapshot
+
+import { describe, it, expect } from '@jest/globals';
+import { DiffLine } from '../src/git-json';
+import { checkHunks, proposeRestoreTool, renumberHunks, reverseLines, splitHunks } from '../src/tools/propose-restore';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, callsFor, hasOption, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+
+function context(content: string): DiffLine {
+  return { type: 'context', content };
+}
+
+function added(content: string): DiffLine {
+  return { type: 'add', content };
+}
+
+function deleted(content: string): DiffLine {
+  return { type: 'delete', content };
+}
+
+// Rows 1..20 of the working-tree file, with row 3 edited and row 17 added
+const WORKING_TREE_LINES: DiffLine[] = Array.from({ length: 20 }, (_, i) => {
+  const row = `row ${i + 1}`;
+  if (i === 2) return [deleted(row), added('row three')];
+  if (i === 16) return [added(row)];
+  return [context(row)];
+}).flat();
+
+// Snapshot-to-working-tree diff of app.ts with full context
+function fullDiff(header: string[], lines: string[]): string {
+  const oldLines = lines.filter(line => !line.startsWith('+')).length;
+  const newLines = lines.filter(line => !line.startsWith('-')).length;
+  return [
+    ...header,
+    `@@ -${oldLines ? 1 : 0},${oldLines} +${newLines ? 1 : 0},${newLines} @@`,
+    ...lines,
+    ''
+  ].join('\n');
+}
+
+const MODIFIED_DIFF = fullDiff(
+  ['diff --git a/app.ts b/app.ts', 'index 1111111..2222222 100644', '--- a/app.ts', '+++ b/app.ts'],
+  [' keep 1', ' keep 2', '-old();', '+debugger;', ' keep 3', ' keep 4', ' keep 5', ' keep 6', ' keep 7', ' keep 8', ' keep 9', '+extra();']
+);
+
+// The working-tree file a full-context diff was made from
+function workingTreeOf(diff: string): string[] {
+  const lines = diff.split('\n');
+  return lines.slice(lines.findIndex(line => line.startsWith('@@ ')) + 1)
+    .filter(line => line.startsWith(' ') || line.startsWith('+'))
+    .map(line => line.slice(1));
+}
+
+function createContext(diff: string, { untracked = '', exists = true, workingTree = workingTreeOf(diff) } = {}): ScriptedContext {
+  return scriptedContext(argv => {
+    const [rev] = revisionsOf(argv);
+    switch (argv[0]) {
+      case 'rev-parse': return `${rev === 'HEAD^{commit}' ? 'c2' : rev.replace('^{commit}', '')}\n`;
+      case 'log':
+        if (hasOption(argv, '--follow')) return '';
+        return `${rev}${FS}2024-05-01T10:00:00Z${FS}Auto-save\n`;
+      case 'diff': return diff;
+      case 'ls-tree': return exists ? `100644 blob 0123abcd\t${pathsOf(argv)[0]}\0` : '';
+      case 'ls-files': return untracked;
+      case 'grep': return workingTree.map((line, i) => `${i + 1}:${line}\n`).join('');
+    }
+  }, {
+    gitCheck: argv => argv[0] !== 'grep' || workingTree.length > 0
+  });
+}
+
+describe('reverseLines', () => {
+  it('should swap added and removed lines, keeping removals first', () => {
+    expect(reverseLines([context('a'), deleted('old'), added('new'), added('more'), context('b')])).toEqual([
+      { type: 'context', content: 'a' },
+      { type: 'delete', content: 'new' },
+      { type: 'delete', content: 'more' },
+      { type: 'add', content: 'old' },
+      { type: 'context', content: 'b' }
+    ]);
+  });
+});
+
+describe('splitHunks', () => {
+  it('should cut hunks with three lines of context', () => {
+    const hunks = splitHunks(WORKING_TREE_LINES);
+    expect(hunks.map(({ index, oldStart, oldLines, newStart, newLines }) => ({ index, oldStart, oldLines, newStart, newLines })))
+      .toEqual([
+        { index: 1, oldStart: 1, oldLines: 6, newStart: 1, newLines: 6 },
+        { index: 2, oldStart: 14, oldLines: 6, newStart: 14, newLines: 7 }
+      ]);
+    expect(hunks[0].lines.map(line => line.content)).toEqual(['row 1', 'row 2', 'row 3', 'row three', 'row 4', 'row 5', 'row 6']);
+  });
+
+  it('should merge changes separated by up to six unchanged lines', () => {
+    const lines = [deleted('a'), ...Array.from({ length: 6 }, (_, i) => context(`${i}`)), deleted('b')];
+    expect(splitHunks(lines)).toHaveLength(1);
+    expect(splitHunks([...lines.slice(0, 7), context('6'), deleted('b')])).toHaveLength(2);
+  });
+
+  it('should number an insertion into an empty file from line 0', () => {
+    expect(splitHunks([added('a'), added('b')])).toMatchObject([{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 }]);
+  });
+});
+
+describe('renumberHunks', () => {
+  it('should shift the new side by the selected hunks only', () => {
+    const [first, second] = splitHunks([deleted('x'), ...Array.from({ length: 10 }, (_, i) => context(`${i}`)), added('y')]);
+    expect(renumberHunks([first, second])[1]).toMatchObject({ oldStart: 9, newStart: 8 });
+    expect(renumberHunks([second])[0]).toMatchObject({ oldStart: 9, newStart: 9 });
+  });
+});
+
+describe('checkHunks', () => {
+  const hunks = splitHunks(WORKING_TREE_LINES);
+  const current = WORKING_TREE_LINES.filter(line => line.type !== 'add').map(line => line.content);
+
+  it('should accept hunks that match the current file', () => {
+    expect(checkHunks(hunks, current)).toEqual([
+      { index: 1, status: 'clean' },
+      { index: 2, status: 'clean' }
+    ]);
+  });
+
+  it('should find hunks that moved and report those that no longer match', () => {
+    const moved = ['new first line', ...current];
+    expect(checkHunks(hunks, moved)).toEqual([
+      { index: 1, status: 'offset', offset: 1 },
+      { index: 2, status: 'offset', offset: 1 }
+    ]);
+
+    const edited = current.map(line => (line === 'row 15' ? 'row fifteen' : line));
+    expect(checkHunks(hunks, edited)).toEqual([
+      { index: 1, status: 'clean' },
+      { index: 2, status: 'conflict' }
+    ]);
+  });
+});
+
+describe('propose_restore', () => {
+  it('should return a patch from the working tree back to the snapshot', async () => {
+    const { context, git } = createContext(MODIFIED_DIFF);
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1' }, context);
+    const text = result.content[0].text;
+
+    const [diff] = callsFor(git, 'diff');
+    expect(revisionsOf(diff)).toEqual(['c1']);
+    expect(pathsOf(diff)).toEqual(['app.ts']);
+    expect(text).toContain('Applies cleanly to the working tree.');
+    expect(text).toContain('--- a/app.ts\n+++ b/app.ts\n@@ -1,6 +1,6 @@\n keep 1\n keep 2\n-debugger;\n+old();');
+    expect(text).toContain('@@ -8,4 +8,3 @@\n keep 7\n keep 8\n keep 9\n-extra();');
+    expect(result.structuredContent).toMatchObject({ totalHunks: 2, applies: true, problems: [] });
+  });
+
+  it('should restore only the hunks touching the line range', async () => {
+    const { context } = createContext(MODIFIED_DIFF);
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1', start_line: 10 }, context);
+
+    expect(result.content[0].text).toContain('hunk 2 of 2');
+    expect(result.content[0].text).not.toContain('debugger');
+    expect(result.structuredContent).toMatchObject({ hunks: [{ index: 2, oldStart: 8, newStart: 8, deletions: 1 }] });
+
+    await expect(proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1', start_line: 7, end_line: 7 }, context))
+      .rejects.toThrow('the hunks touch lines 1-6, 8-11');
+  });
+
+  it('should recreate a file missing from the working tree', async () => {
+    const diff = fullDiff(
+      ['diff --git a/app.ts b/app.ts', 'deleted file mode 100755', 'index 1111111..0000000', '--- a/app.ts', '+++ /dev/null'],
+      ['-one', '-two']
+    );
+    const { context } = createContext(diff);
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1' }, context);
+
+    expect(result.content[0].text).toContain('new file mode 100755\n--- /dev/null\n+++ b/app.ts\n@@ -0,0 +1,2 @@\n+one\n+two');
+    expect(result.structuredContent).toMatchObject({ applies: true });
+  });
+
+  it('should check the patch against the working-tree file as it is now', async () => {
+    // The file was edited again after the diff was taken
+    const edited = workingTreeOf(MODIFIED_DIFF).map(line => line === 'debugger;' ? 'console.log(1);' : line);
+    const { context, git } = createContext(MODIFIED_DIFF, { workingTree: edited });
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1' }, context);
+
+    expect(callsFor(git, 'grep').map(argv => [hasOption(argv, '--untracked'), pathsOf(argv)])).toContainEqual([true, ['app.ts']]);
+    expect(result.content[0].text).toContain('Does NOT apply cleanly');
+    expect(result.structuredContent).toMatchObject({
+      applies: false,
+      checks: [{ index: 1, status: 'conflict' }, { index: 2, status: 'clean' }],
+      problems: ['Hunk 1 does not match the current file.']
+    });
+  });
+
+  it('should not apply over an untracked file of the same name', async () => {
+    const diff = fullDiff(
+      ['diff --git a/app.ts b/app.ts', 'deleted file mode 100644', '--- a/app.ts', '+++ /dev/null'],
+      ['-one']
+    );
+    const { context } = createContext(diff, { untracked: 'app.ts\n' });
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1' }, context);
+
+    expect(result.content[0].text).toContain('Does NOT apply cleanly');
+    expect(result.structuredContent).toMatchObject({ applies: false, problems: [expect.stringContaining('not tracked')] });
+  });
+
+  it('should report a file that already matches and reject unknown or binary files', async () => {
+    const { context } = createContext('');
+    const result = await proposeRestoreTool.handler({ repo: 'app', path: 'app.ts', at: 'c1' }, context);
+    expect(result.content[0].text).toContain('already matches snapshot c1');
+
+    const missing = createContext('', { exists: false });
+    await expect(proposeRestoreTool.handler({ repo: 'app', path: 'nope.ts', at: 'c1' }, missing.context))
+      .rejects.toThrow("'nope.ts' is not a file in the working tree or in snapshot c1");
+
+    const binary = createContext('diff --git a/logo.png b/logo.png\nindex 1..2 100644\nBinary files a/logo.png and b/logo.png differ\n');
+    await expect(proposeRestoreTool.handler({ repo: 'app', path: 'logo.png', at: 'c1' }, binary.context))
+      .rejects.toThrow('is a binary file');
+  });
+});
+
+describe('propose_restore against git', () => {
+  let first = '';
+  const repo = useShadowRepo(repo => {
+    first = repo.save('2024-05-01T10:00:00Z', { 'app.ts': 'one\ntwo\nthree\n' });
+    repo.save('2024-05-01T10:10:00Z', { 'app.ts': 'one\n2\nthree\n' });
+    // Edited since the last snapshot
+    repo.write({ 'app.ts': 'one\n2\nthree\nfour\n' });
+  });
+
+  it('should propose a patch from the working tree back to the snapshot', async () => {
+    const result = await proposeRestoreTool.handler({ repo: repo.path, path: 'app.ts', at: first }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({ applies: true, totalHunks: 1 });
+    expect(result.content[0].text).toContain('@@ -1,4 +1,3 @@\n one\n-2\n+two\n three\n-four');
+  });
+});
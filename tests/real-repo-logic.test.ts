@@ -0,0 +1,163 @@
+// Tests for connecting ShadowGit history with the project's own repository
+
+import { describe, it, expect } from '@jest/globals';
+import { diffRealCommitTool, mapRealCommitTool, snapshotsSinceCommitTool } from '../src/tools/real-repo';
+import { ToolError } from '../src/tools/types';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, callsFor, hasOption, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const RS = '\x1e';
+
+// Snapshots s1..s4 (10:00..13:00); s2 has the tree `tree-b`
+const SNAPSHOTS = [
+  ['s4', 'tree-d', '2024-05-01T13:00:00Z', 'Auto-save 4'],
+  ['s3', 'tree-c', '2024-05-01T12:00:00Z', 'Auto-save 3'],
+  ['s2', 'tree-b', '2024-05-01T11:00:00Z', 'Auto-save 2'],
+  ['s1', 'tree-a', '2024-05-01T10:00:00Z', 'Auto-save 1']
+];
+
+// Real commits: `HEAD` has the tree of s2 but was made later; `HEAD~1` matches no snapshot
+const REAL_COMMITS: Record<string, string[]> = {
+  HEAD: ['r2', 'tree-b', '2024-05-01T11:20:00Z', 'Add feature'],
+  'HEAD~1': ['r1', 'tree-x', '2024-05-01T10:30:00Z', 'Initial commit'],
+  old: ['r0', 'tree-y', '2024-04-01T10:00:00Z', 'Ancient']
+};
+
+// One snapshot in the JSON log format (see prepareJsonCommand)
+function jsonCommit(sha: string, timestamp: string, subject: string, file: string): string {
+  return `${RS}${[sha, '', 'Dev', 'dev@example.com', timestamp, 'Dev', 'dev@example.com', timestamp, subject].join(FS)}${FS}\n\n3\t1\t${file}\n`;
+}
+
+function createContext(): ScriptedContext {
+  return scriptedContext(argv => {
+    const [rev] = revisionsOf(argv);
+    switch (argv[0]) {
+      case 'rev-parse': return `${rev === 'HEAD^{commit}' ? 's4' : rev.replace('^{commit}', '')}\n`;
+      case 'rev-list': {
+        const before = Date.parse(optionOf(argv, '--before')!);
+        return SNAPSHOTS.find(([, , timestamp]) => Date.parse(timestamp) <= before)?.[0] ?? '';
+      }
+      case 'log':
+        if (hasOption(argv, '--numstat')) {
+          return rev === 's2..s4'
+            ? jsonCommit('s4', '2024-05-01T13:00:00Z', 'Auto-save 4', 'src/b.ts') +
+              jsonCommit('s3', '2024-05-01T12:00:00Z', 'Auto-save 3', 'src/a.ts')
+            : '';
+        }
+        if (hasOption(argv, '-1')) {
+          const [sha, , timestamp, subject] = SNAPSHOTS.find(([sha]) => sha === rev)!;
+          return `${sha}${FS}${timestamp}${FS}${subject}\n`;
+        }
+        return SNAPSHOTS.map(fields => fields.join(FS)).join('\n') + '\n';
+    }
+  }, {
+    realGit: argv => {
+      if (argv[0] === 'log') {
+        const [rev] = revisionsOf(argv);
+        const commit = REAL_COMMITS[rev];
+        if (!commit) throw new ToolError(`Git error: fatal: bad revision '${rev}'`);
+        return commit.join(FS) + '\n';
+      }
+      if (argv[0] === 'diff' && hasOption(argv, '--numstat')) return '3\t1\tsrc/a.ts\n2\t0\tsrc/b.ts\n';
+      if (argv[0] === 'diff') return 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b\n';
+    }
+  });
+}
+
+describe('map_real_commit', () => {
+  it('should match the snapshot with the same tree', async () => {
+    const { context } = createContext();
+    const result = await mapRealCommitTool.handler({ repo: 'app' }, context);
+
+    expect(result.structuredContent).toMatchObject({ commit: { sha: 'r2' }, snapshot: { sha: 's2' }, match: 'tree' });
+    expect(result.content[0].text).toContain('same files, 20 min before the commit');
+  });
+
+  it('should fall back to the last snapshot before the commit', async () => {
+    const { context } = createContext();
+    const result = await mapRealCommitTool.handler({ repo: 'app', commit: 'HEAD~1' }, context);
+
+    expect(result.structuredContent).toMatchObject({ snapshot: { sha: 's1' }, match: 'time' });
+    expect(result.content[0].text).toContain('no snapshot has the same files; last snapshot before the commit, 30 min earlier');
+  });
+
+  it('should report commits older than the snapshot history and unknown revisions', async () => {
+    const { context } = createContext();
+    const result = await mapRealCommitTool.handler({ repo: 'app', commit: 'old' }, context);
+    expect(result.structuredContent).toMatchObject({ snapshot: null, match: null });
+
+    await expect(mapRealCommitTool.handler({ repo: 'app', commit: 'nope' }, context)).rejects.toThrow("bad revision 'nope'");
+    await expect(mapRealCommitTool.handler({ repo: 'app', commit: '--output=/tmp/x' }, context))
+      .rejects.toThrow("Invalid revision '--output=/tmp/x' in 'commit'");
+  });
+});
+
+describe('snapshots_since_commit', () => {
+  it('should list the snapshots after the matching one, oldest first, and the net change', async () => {
+    const { context, realGit } = createContext();
+    const result = await snapshotsSinceCommitTool.handler({ repo: 'app' }, context);
+    const text = result.content[0].text;
+
+    expect(text).toContain('Snapshots since then (2, oldest first):\n  s3  2024-05-01T12:00:00Z  Auto-save 3\n      src/a.ts  +3 -1\n  s4');
+    expect(text).toContain('Files changed from the commit to the latest snapshot (2):');
+    expect(callsFor(realGit, 'diff').map(revisionsOf)).toContainEqual(['r2', 's4']);
+    expect(result.structuredContent).toMatchObject({
+      snapshot: { sha: 's2' },
+      snapshots: [{ sha: 's3' }, { sha: 's4' }],
+      files: [{ path: 'src/a.ts' }, { path: 'src/b.ts' }]
+    });
+  });
+});
+
+describe('diff_real_commit', () => {
+  it('should diff the real commit against the snapshot at the given time', async () => {
+    const { context, realGit } = createContext();
+    const result = await diffRealCommitTool.handler({ repo: 'app', at: '2024-05-01T12:30:00Z', paths: ['src'] }, context);
+
+    const diff = callsFor(realGit, 'diff').find(argv => !hasOption(argv, '--numstat'))!;
+    expect(revisionsOf(diff)).toEqual(['r2', 's3']);
+    expect(pathsOf(diff)).toEqual(['src']);
+    expect(result.content[0].text).toContain('Snapshot    s3  2024-05-01T12:00:00Z  Auto-save 3');
+    expect(result.content[0].text).toContain('+++ b/src/a.ts');
+  });
+
+  it('should reject times before the first snapshot', async () => {
+    const { context } = createContext();
+    await expect(diffRealCommitTool.handler({ repo: 'app', at: '2024-04-01T00:00:00Z' }, context))
+      .rejects.toThrow('No snapshots exist at or before');
+  });
+});
+
+describe('real repository tools against git', () => {
+  let committed = '';
+  let saved = '';
+  const repo = useShadowRepo(repo => {
+    saved = repo.save('2024-05-01T10:00:00Z', { 'src/a.ts': 'a\n' });
+    committed = repo.commitReal('2024-05-01T10:05:00Z', 'Initial commit');
+    repo.save('2024-05-01T10:10:00Z', { 'src/a.ts': 'b\n' });
+    repo.save('2024-05-01T10:20:00Z', { 'src/b.ts': 'new\n' });
+  });
+
+  it('should map the real commit to the snapshot with its files', async () => {
+    const result = await mapRealCommitTool.handler({ repo: repo.path }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({ commit: { sha: committed }, snapshot: { sha: saved }, match: 'tree' });
+  });
+
+  it('should list the snapshots saved since the real commit', async () => {
+    const result = await snapshotsSinceCommitTool.handler({ repo: repo.path }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({
+      snapshots: [{ timestamp: '2024-05-01T10:10:00+00:00' }, { timestamp: '2024-05-01T10:20:00+00:00' }],
+      files: [{ path: 'src/a.ts', additions: 1, deletions: 1 }, { path: 'src/b.ts', additions: 1, deletions: 0 }]
+    });
+  });
+
+  it('should diff the real commit against a snapshot', async () => {
+    const result = await diffRealCommitTool.handler({ repo: repo.path, at: '2024-05-01T10:15:00Z' }, repo.context());
+
+    expect(result.content[0].text).toContain('-a\n+b');
+    expect(result.content[0].text).not.toContain('src/b.ts');
+  });
+});
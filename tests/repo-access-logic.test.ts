@@ -0,0 +1,66 @@
+// Tests for the repoAccess policy on repository paths
+// Uses real temporary directories so symlinks are resolved by the OS
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { canonicalPath, checkRepoAccess } from '../src/repo-access';
+
+describe('checkRepoAccess', () => {
+  let base: string;
+  let registered: string;
+  let root: string;
+  let inside: string;
+  let outside: string;
+  let escape: string;
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'repo-access-')));
+    registered = path.join(base, 'registered');
+    root = path.join(base, 'root');
+    inside = path.join(root, 'project');
+    outside = path.join(base, 'outside');
+    escape = path.join(root, 'escape');
+    [registered, inside, outside].forEach(dir => fs.mkdirSync(dir, { recursive: true }));
+    fs.symlinkSync(outside, escape);
+  });
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it('should allow any path in "any" mode', () => {
+    expect(checkRepoAccess(outside, { repoAccess: 'any', allowedRoots: [] }, [])).toEqual({ allowed: true });
+  });
+
+  it('should allow only registered repositories in "registered" mode', () => {
+    const policy = { repoAccess: 'registered' as const, allowedRoots: [] };
+    expect(checkRepoAccess(`${registered}/`, policy, [registered])).toEqual({ allowed: true });
+    expect(checkRepoAccess(inside, policy, [registered])).toEqual({
+      allowed: false,
+      reason: 'only repositories registered in the ShadowGit app can be queried'
+    });
+  });
+
+  it('should allow paths under an allowed root in "allowlisted" mode', () => {
+    const policy = { repoAccess: 'allowlisted' as const, allowedRoots: [root] };
+    expect(checkRepoAccess(inside, policy, [])).toEqual({ allowed: true });
+    expect(checkRepoAccess(registered, policy, [registered])).toEqual({ allowed: true });
+    expect(checkRepoAccess(outside, policy, [])).toMatchObject({ allowed: false });
+    expect(checkRepoAccess(`${root}-sibling`, policy, [])).toMatchObject({ allowed: false });
+  });
+
+  it('should not let a symlink inside an allowed root escape it', () => {
+    const decision = checkRepoAccess(escape, { repoAccess: 'allowlisted', allowedRoots: [root] }, []);
+    expect(decision).toEqual({
+      allowed: false,
+      reason: `the path is neither registered in the ShadowGit app nor inside an allowed root (${root})`
+    });
+  });
+
+  it('should resolve symlinks and normalize missing paths', () => {
+    expect(canonicalPath(escape)).toBe(outside);
+    expect(canonicalPath(`${base}/missing/../other`)).toBe(path.join(base, 'other'));
+  });
+});
@@ -0,0 +1,175 @@
+// Tests for repos.json loading and hot reload
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import { RepositoryRegistry, diffRepositories, parseRepositories } from '../src/repository-registry';
+
+jest.mock('fs');
+
+describe('RepositoryRegistry', () => {
+  const reposPath = '/home/testuser/.shadowgit/repos.json';
+  let mockExistsSync: jest.MockedFunction<typeof fs.existsSync>;
+  let mockReadFileSync: jest.MockedFunction<typeof fs.readFileSync>;
+  let mockWatch: jest.MockedFunction<typeof fs.watch>;
+  let stderrSpy: jest.SpiedFunction<typeof process.stderr.write>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
+    mockReadFileSync = fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>;
+    mockWatch = fs.watch as jest.MockedFunction<typeof fs.watch>;
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(JSON.stringify([
+      { name: 'test-repo', path: '/test/repo' },
+      { name: 'another-repo', path: '/another/repo' }
+    ]));
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+  });
+
+  const logged = (): string => stderrSpy.mock.calls.map(call => String(call[0])).join('');
+
+  describe('parseRepositories', () => {
+    it('should build a name to path map', () => {
+      const repos = parseRepositories('[{"name": "a", "path": "/a"}]');
+      expect(Array.from(repos.entries())).toEqual([['a', '/a']]);
+    });
+
+    it('should reject truncated JSON', () => {
+      expect(() => parseRepositories('[{"name": "a", "pa')).toThrow();
+    });
+
+    it('should reject content that is not a list of repositories', () => {
+      expect(() => parseRepositories('{}')).toThrow('expected an array');
+      expect(() => parseRepositories('[{"name": "a"}]')).toThrow('entry 0');
+    });
+  });
+
+  describe('diffRepositories', () => {
+    it('should report added, removed and moved repositories', () => {
+      const previous = new Map([['a', '/a'], ['b', '/b'], ['c', '/c']]);
+      const next = new Map([['a', '/a'], ['c', '/new/c'], ['d', '/d']]);
+      expect(diffRepositories(previous, next)).toEqual({
+        added: ['d'],
+        removed: ['b'],
+        changed: ['c']
+      });
+    });
+  });
+
+  describe('load', () => {
+    it('should load repositories at startup', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+      expect(registry.repos.get('test-repo')).toBe('/test/repo');
+      expect(registry.repos.size).toBe(2);
+    });
+
+    it('should start empty when repos.json does not exist', () => {
+      mockExistsSync.mockReturnValue(false);
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+      expect(registry.repos.size).toBe(0);
+    });
+  });
+
+  describe('reload', () => {
+    it('should swap in the new repository map and log the difference', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+      const before = registry.repos;
+
+      mockReadFileSync.mockReturnValue(JSON.stringify([
+        { name: 'test-repo', path: '/test/repo' },
+        { name: 'new-repo', path: '/new/repo' }
+      ]));
+
+      expect(registry.reload()).toBe(true);
+      expect(Array.from(registry.repos.keys())).toEqual(['test-repo', 'new-repo']);
+      expect(before.has('another-repo')).toBe(true); // the old map is replaced, not mutated
+      expect(logged()).toContain('added: new-repo; removed: another-repo');
+    });
+
+    it('should keep the last good state when the file is mid-write', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+
+      mockReadFileSync.mockReturnValue('[{"name": "test-repo", "pa');
+
+      expect(registry.reload()).toBe(false);
+      expect(registry.repos.size).toBe(2);
+      expect(logged()).toContain('keeping 2 known repositories');
+    });
+
+    it('should keep the last good state when the file is briefly missing', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+
+      mockReadFileSync.mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' });
+      });
+
+      expect(registry.reload()).toBe(false);
+      expect(registry.repos.size).toBe(2);
+    });
+  });
+
+  describe('watch', () => {
+    let listener: (event: string, fileName: string | null) => void;
+    const fakeWatcher = { on: jest.fn(), close: jest.fn() };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockWatch.mockImplementation(((_dir: string, callback: typeof listener) => {
+        listener = callback;
+        return fakeWatcher;
+      }) as any);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should watch the directory containing repos.json', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.watch();
+      expect(mockWatch).toHaveBeenCalledWith('/home/testuser/.shadowgit', expect.any(Function));
+      registry.close();
+      expect(fakeWatcher.close).toHaveBeenCalled();
+    });
+
+    it('should reload once per burst of change events', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+      registry.watch();
+      mockReadFileSync.mockClear();
+      mockReadFileSync.mockReturnValue('[{"name": "only-repo", "path": "/only"}]');
+
+      listener('rename', 'repos.json.tmp');
+      listener('rename', 'repos.json');
+      listener('change', 'repos.json');
+      expect(mockReadFileSync).not.toHaveBeenCalled();
+
+      jest.runAllTimers();
+      expect(mockReadFileSync).toHaveBeenCalledTimes(1);
+      expect(Array.from(registry.repos.keys())).toEqual(['only-repo']);
+      registry.close();
+    });
+
+    it('should ignore changes to other files', () => {
+      const registry = new RepositoryRegistry(reposPath);
+      registry.load();
+      registry.watch();
+      mockReadFileSync.mockClear();
+
+      listener('change', 'settings.json');
+      jest.runAllTimers();
+      expect(mockReadFileSync).not.toHaveBeenCalled();
+      registry.close();
+    });
+  });
+});
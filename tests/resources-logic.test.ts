@@ -0,0 +1,154 @@
+// Tests for the shadowgit:// resources
+
+import { describe, it, expect } from '@jest/globals';
+import { formatResourceUri, listResources, parseResourceUri, readResource } from '../src/resources';
+import { ToolError } from '../src/tools/types';
+import { ScriptedContext, optionOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+
+// Repositories with `count` snapshots each (s<count> newest); 'untracked'
+// has no .shadowgit.git
+function createContext(counts: Record<string, number>): ScriptedContext {
+  const scripted = scriptedContext((argv, repoPath) => {
+    const repo = repoPath.replace('/work/', '');
+    switch (argv[0]) {
+      case 'log': {
+        const skip = Number(optionOf(argv, '--skip') ?? 0);
+        const max = Number(optionOf(argv, '--max-count') ?? 1000);
+        if (counts[repo] === 0) throw new ToolError("Git error: fatal: ambiguous argument 'HEAD'");
+        const lines: string[] = [];
+        for (let n = counts[repo] - skip; n > 0 && lines.length < max; n--) {
+          lines.push(`${repo}-${n}${FS}2024-05-01T10:00:00Z${FS}save ${n}`);
+        }
+        return lines.join('\n');
+      }
+      case 'rev-parse':
+        return `${'a'.repeat(40)}\n`;
+      case 'show':
+        return 'commit aaaa\n\n    save\n';
+      case 'cat-file': {
+        const object = revisionsOf(argv)[1];
+        if (object.endsWith(':logo.png')) return 'PNG\0\0';
+        if (object.endsWith(':src')) throw new ToolError(`Git error: fatal: git cat-file ${object}: bad file`);
+        if (object.endsWith(':gone.ts')) throw new ToolError(`Git error: fatal: path 'gone.ts' does not exist in '${object.split(':')[0]}'`);
+        if (object.endsWith(':dump.sql')) throw new ToolError('Error: Output too large. Try limiting the results (e.g., use -n flag or --max-count).');
+        return 'export const x = 1;\n';
+      }
+    }
+  }, {
+    repos: [...Object.keys(counts), 'untracked']
+  });
+  const { context } = scripted;
+  const resolveRepo = context.resolveRepo;
+  context.resolveRepo = repo => {
+    if (!(repo in counts)) throw new ToolError(`Error: Repository '${repo}' not found.`);
+    return resolveRepo(repo);
+  };
+  return scripted;
+}
+
+describe('resource URIs', () => {
+  it('should round-trip each kind', () => {
+    const resources = [
+      { kind: 'timeline' as const, repo: 'my app' },
+      { kind: 'commit' as const, repo: 'app', sha: 'abc1234' },
+      { kind: 'file' as const, repo: 'app', sha: 'abc1234', path: 'src/dir with space/a#b.ts' }
+    ];
+    for (const resource of resources) {
+      expect(parseResourceUri(formatResourceUri(resource))).toEqual(resource);
+    }
+    expect(formatResourceUri(resources[0])).toBe('shadowgit://my%20app/timeline');
+    expect(formatResourceUri(resources[2])).toBe('shadowgit://app/files/abc1234/src/dir%20with%20space/a%23b.ts');
+  });
+
+  it('should reject malformed URIs', () => {
+    for (const uri of [
+      'file:///etc/passwd',
+      'shadowgit://app',
+      'shadowgit://app/commits/HEAD',
+      'shadowgit://app/commits/abc1234/extra',
+      'shadowgit://app/files/abc1234',
+      'shadowgit://app/files/abc1234/../secret',
+      'shadowgit://app/files/abc1234/a//b',
+      'shadowgit://app/timeline/%E0%A4%A'
+    ]) {
+      expect(() => parseResourceUri(uri)).toThrow(ToolError);
+    }
+  });
+});
+
+describe('listResources', () => {
+  it('should list each timeline followed by its snapshots', async () => {
+    const { context } = createContext({ app: 2, lib: 1 });
+    const page = await listResources(context);
+
+    expect(page.resources.map(resource => resource.uri)).toEqual([
+      'shadowgit://app/timeline',
+      'shadowgit://app/commits/app-2',
+      'shadowgit://app/commits/app-1',
+      'shadowgit://lib/timeline',
+      'shadowgit://lib/commits/lib-1'
+    ]);
+    expect(page.resources[1].name).toBe('app @ app-2: save 2');
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should paginate across repositories', async () => {
+    const { context } = createContext({ app: 150, lib: 120, empty: 0 });
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await listResources(context, cursor);
+      expect(page.resources.length).toBeLessThanOrEqual(100);
+      seen.push(...page.resources.map(resource => resource.uri));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor && pages < 10);
+
+    expect(pages).toBe(3);
+    expect(seen).toHaveLength(1 + 150 + 1 + 1 + 120);
+    expect(new Set(seen).size).toBe(seen.length);
+    expect(seen).toContain('shadowgit://empty/timeline');
+    expect(seen.some(uri => uri.includes('untracked'))).toBe(false);
+  });
+
+  it('should reject a cursor it did not issue', async () => {
+    const { context } = createContext({ app: 1 });
+    await expect(listResources(context, 'not-a-cursor')).rejects.toThrow('Invalid pagination cursor');
+  });
+});
+
+describe('readResource', () => {
+  it('should read a file at a snapshot from the object database', async () => {
+    const { context, git } = createContext({ app: 1 });
+    const result = await readResource(context, 'shadowgit://app/files/abc1234/src/app.ts');
+
+    expect(result.contents).toEqual([
+      { uri: 'shadowgit://app/files/abc1234/src/app.ts', mimeType: 'text/plain', text: 'export const x = 1;\n' }
+    ]);
+    expect(git).toHaveBeenCalledWith('/work/app', ['cat-file', 'blob', `${'a'.repeat(40)}:src/app.ts`]);
+  });
+
+  it('should read commits and timelines', async () => {
+    const { context } = createContext({ app: 3 });
+    expect((await readResource(context, 'shadowgit://app/commits/abc1234')).contents[0].text).toContain('commit aaaa');
+    const timeline = (await readResource(context, 'shadowgit://app/timeline')).contents[0].text;
+    expect(timeline).toContain('3 most recent snapshots');
+    expect(timeline).toContain('app-3  2024-05-01T10:00:00Z  save 3');
+  });
+
+  it('should explain directories, binaries and unknown repositories', async () => {
+    const { context } = createContext({ app: 1 });
+    await expect(readResource(context, 'shadowgit://app/files/abc1234/src')).rejects.toThrow("'src' is not a file");
+    await expect(readResource(context, 'shadowgit://app/files/abc1234/gone.ts')).rejects.toThrow("'gone.ts' is not a file in snapshot aaaaaaaa");
+    await expect(readResource(context, 'shadowgit://app/files/abc1234/logo.png')).rejects.toThrow('binary file');
+    await expect(readResource(context, 'shadowgit://other/timeline')).rejects.toThrow("Repository 'other' not found");
+  });
+
+  it('should pass on other git failures unchanged', async () => {
+    const { context } = createContext({ app: 1 });
+    await expect(readResource(context, 'shadowgit://app/files/abc1234/dump.sql')).rejects.toThrow(/^Error: Output too large/);
+  });
+});
@@ -0,0 +1,139 @@
+// A temporary ShadowGit-tracked project for running the history tools against
+// real git. Tools get the server's own ToolContext, so policy checks, output
+// filters and error messages are the ones clients see.
+
+import { afterAll, beforeAll, jest } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import './mcp-sdk-mock';
+import { DEFAULT_CONFIG, ServerConfig } from '../src/config';
+import { ShadowGitMCPServer } from '../src/shadowgit-mcp-server';
+import { ToolContext } from '../src/tools/types';
+
+// Files to write (string) or delete (null), by path within the project
+type FileChanges = Record<string, string | null>;
+
+// Git identity and configuration for the fixture's own commits, independent
+// of the machine's
+const FIXTURE_ENV = {
+  GIT_AUTHOR_NAME: 'ShadowGit',
+  GIT_AUTHOR_EMAIL: 'shadowgit@example.com',
+  GIT_COMMITTER_NAME: 'ShadowGit',
+  GIT_COMMITTER_EMAIL: 'shadowgit@example.com',
+  GIT_CONFIG_GLOBAL: os.devNull,
+  GIT_CONFIG_NOSYSTEM: '1'
+};
+
+class ShadowRepo {
+  private root: string | undefined;
+
+  // The project directory; the shadow repository is its .shadowgit.git
+  get path(): string {
+    if (!this.root) throw new Error('The repository is only created before the tests run');
+    return path.join(this.root, 'project');
+  }
+
+  create(): void {
+    this.root = fs.mkdtempSync(path.join(os.tmpdir(), 'shadowgit-test-'));
+    fs.mkdirSync(this.path);
+    this.run('shadow', ['init', '-q', '-b', 'main']);
+    fs.writeFileSync(path.join(this.path, '.shadowgit.git', 'info', 'exclude'), '.shadowgit.git\n');
+  }
+
+  remove(): void {
+    if (this.root) fs.rmSync(this.root, { recursive: true, force: true });
+    this.root = undefined;
+  }
+
+  /**
+   * Change files and save a snapshot at `time`, as the ShadowGit app does on
+   * every save. Returns the snapshot's SHA.
+   */
+  save(time: string, changes: FileChanges, subject = 'Auto-save'): string {
+    this.write(changes);
+    this.run('shadow', ['add', '-A']);
+    this.run('shadow', ['commit', '-q', '--allow-empty', '-m', subject], time);
+    return this.run('shadow', ['rev-parse', 'HEAD']).trim();
+  }
+
+  /**
+   * Commit the project's current files to its own .git repository (created
+   * on first use), as the user would. Returns the commit's SHA.
+   */
+  commitReal(time: string, message: string): string {
+    if (!fs.existsSync(path.join(this.path, '.git'))) {
+      this.run('real', ['init', '-q', '-b', 'main']);
+      fs.writeFileSync(path.join(this.path, '.git', 'info', 'exclude'), '.shadowgit.git\n');
+    }
+    this.run('real', ['add', '-A']);
+    this.run('real', ['commit', '-q', '--allow-empty', '-m', message], time);
+    return this.run('real', ['rev-parse', 'HEAD']).trim();
+  }
+
+  write(changes: FileChanges): void {
+    for (const [name, content] of Object.entries(changes)) {
+      const file = path.join(this.path, name);
+      if (content === null) {
+        fs.rmSync(file, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, content);
+      }
+    }
+  }
+
+  /**
+   * The server's ToolContext, with this project allowed by path.
+   */
+  context(config: Partial<ServerConfig> = {}): ToolContext {
+    const server = new ShadowGitMCPServer({ ...DEFAULT_CONFIG, repoAccess: 'any', ...config });
+    return (server as unknown as { createToolContext(): ToolContext }).createToolContext();
+  }
+
+  private run(target: 'shadow' | 'real', argv: string[], time?: string): string {
+    return execFileSync('git', argv, {
+      cwd: this.path,
+      encoding: 'utf8',
+      env: {
+        ...process.env,
+        ...FIXTURE_ENV,
+        GIT_DIR: path.join(this.path, target === 'shadow' ? '.shadowgit.git' : '.git'),
+        GIT_WORK_TREE: this.path,
+        ...(time ? { GIT_AUTHOR_DATE: time, GIT_COMMITTER_DATE: time } : {})
+      }
+    });
+  }
+}
+
+/**
+ * A ShadowRepo for the tests of the surrounding describe block: created and
+ * filled by `setup` before they run, deleted after. Server log lines are kept
+ * off stderr meanwhile, and repositories registered on this machine out of
+ * the server's view.
+ */
+function useShadowRepo(setup: (repo: ShadowRepo) => void): ShadowRepo {
+  const repo = new ShadowRepo();
+  let stderrSpy: jest.SpiedFunction<typeof process.stderr.write>;
+  let dataHome: string | undefined;
+
+  beforeAll(() => {
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+    dataHome = process.env.XDG_DATA_HOME;
+    repo.create();
+    process.env.XDG_DATA_HOME = path.dirname(repo.path);
+    setup(repo);
+  });
+
+  afterAll(() => {
+    repo.remove();
+    if (dataHome === undefined) delete process.env.XDG_DATA_HOME;
+    else process.env.XDG_DATA_HOME = dataHome;
+    stderrSpy.mockRestore();
+  });
+
+  return repo;
+}
+
+export { FileChanges, ShadowRepo, useShadowRepo };
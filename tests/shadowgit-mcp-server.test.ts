@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { ShadowGitMCPServer } from '../src/shadowgit-mcp-server';
+import { GitExecutionError } from '../src/git-runner';
+import { DEFAULT_CONFIG } from '../src/config';
 
 // Mock child_process
 jest.mock('child_process', () => ({
-  execSync: jest.fn()
+  spawn: jest.fn()
 }));
 
 // Mock fs
@@ -19,7 +21,7 @@ jest.mock('os', () => ({
 
 describe('ShadowGitMCPServer', () => {
   let server: ShadowGitMCPServer;
-  let mockExecSync: jest.Mock;
+  let mockRun: jest.Mock<(...args: any[]) => Promise<string>>;
   let mockExistsSync: jest.Mock;
   let mockReadFileSync: jest.Mock;
 
@@ -28,9 +30,7 @@ describe('ShadowGitMCPServer', () => {
     jest.clearAllMocks();
     
     // Get mock references
-    const childProcess = require('child_process');
     const fs = require('fs');
-    mockExecSync = childProcess.execSync as jest.Mock;
     mockExistsSync = fs.existsSync as jest.Mock;
     mockReadFileSync = fs.readFileSync as jest.Mock;
     
@@ -43,6 +43,20 @@ describe('ShadowGitMCPServer', () => {
     
     // Create server instance
     server = new ShadowGitMCPServer();
+    
+    // Replace the git process runner
+    mockRun = jest.fn<(...args: any[]) => Promise<string>>();
+    // @ts-ignore - accessing private member for testing
+    server.gitRunner.run = mockRun;
+    // Paged git tool output reads the same mocked output one window at a time
+    // @ts-ignore - accessing private member for testing
+    server.gitRunner.runWindow = async (argv: string[], options: unknown, window: { skip: number; limit: number }) => {
+      const output = Buffer.from(await mockRun(argv, options));
+      return {
+        output: output.subarray(window.skip, window.skip + window.limit),
+        complete: output.length <= window.skip + window.limit
+      };
+    };
   });
 
   describe('Security Tests', () => {
@@ -56,7 +70,7 @@ describe('ShadowGitMCPServer', () => {
         // @ts-ignore - accessing private method for testing
         const result = await server.executeGit(cmd, '/test/repo');
         expect(result).toContain('not allowed');
-        expect(mockExecSync).not.toHaveBeenCalled();
+        expect(mockRun).not.toHaveBeenCalled();
       }
     });
 
@@ -72,7 +86,7 @@ describe('ShadowGitMCPServer', () => {
         // @ts-ignore - accessing private method for testing
         const result = await server.executeGit(args, '/test/repo');
         expect(result).toContain('not allowed');
-        expect(mockExecSync).not.toHaveBeenCalled();
+        expect(mockRun).not.toHaveBeenCalled();
       }
     });
 
@@ -88,7 +102,7 @@ describe('ShadowGitMCPServer', () => {
         'tag --list'
       ];
       
-      mockExecSync.mockReturnValue('mock output');
+      mockRun.mockResolvedValue('mock output');
       
       for (const cmd of safeCommands) {
         // @ts-ignore - accessing private method for testing
@@ -120,6 +134,17 @@ describe('ShadowGitMCPServer', () => {
       expect(path).toBe('/test/repo');
     });
 
+    it('should block unregistered paths under the registered-only policy', async () => {
+      const restricted = new ShadowGitMCPServer({ ...DEFAULT_CONFIG, repoAccess: 'registered' });
+      
+      // @ts-ignore - accessing private method for testing
+      const blocked = await restricted.handleGit({ repo: '/other/repo', command: 'log' });
+      expect(blocked.content[0].text).toContain('blocked by the repoAccess policy "registered"');
+      
+      // @ts-ignore - accessing private method for testing
+      expect(restricted.findRepository('test-repo')).toEqual({ ok: true, repoPath: '/test/repo' });
+    });
+
     it('should return null for non-existent repository', () => {
       // @ts-ignore - accessing private method for testing
       const path = server.resolveRepoPath('non-existent');
@@ -155,7 +180,7 @@ describe('ShadowGitMCPServer', () => {
     });
 
     it('should execute valid git commands', async () => {
-      mockExecSync.mockReturnValue('commit abc123\ncommit def456');
+      mockRun.mockResolvedValue('commit abc123\ncommit def456');
       mockExistsSync.mockReturnValue(true);
       
       // @ts-ignore - accessing private method for testing
@@ -164,22 +189,80 @@ describe('ShadowGitMCPServer', () => {
         command: 'log --oneline' 
       });
       expect(result.content[0].text).toContain('abc123');
-      expect(mockExecSync).toHaveBeenCalledWith(
-        'git log --oneline',
+      expect(mockRun).toHaveBeenCalledWith(
+        ['log', '--oneline'],
         expect.objectContaining({
-          cwd: '/test/repo',
-          encoding: 'utf8'
+          cwd: '/test/repo'
         })
       );
     });
 
-    it('should handle git command errors gracefully', async () => {
-      mockExecSync.mockImplementation(() => {
-        const error: any = new Error('Git error');
-        error.status = 128;
-        error.stderr = 'fatal: bad revision';
-        throw error;
+    it('should return structured output for format json', async () => {
+      mockRun.mockResolvedValue('diff --git a/f.txt b/f.txt\n--- a/f.txt\n+++ b/f.txt\n@@ -1 +1 @@\n-a\n+b\n');
+      
+      // @ts-ignore - accessing private method for testing
+      const result = await server.handleGit({ 
+        repo: 'test-repo', 
+        command: 'diff HEAD~1 --stat',
+        format: 'json'
+      });
+      expect(result.structuredContent).toMatchObject({
+        command: 'diff',
+        files: [{ newPath: 'f.txt', additions: 1, deletions: 1 }]
       });
+      expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+      expect(mockRun.mock.calls[0][0]).not.toContain('--stat');
+    });
+
+    it('should reject format json for commands without a JSON form', async () => {
+      // @ts-ignore - accessing private method for testing
+      const result = await server.handleGit({ repo: 'test-repo', command: 'blame f.txt', format: 'json' });
+      expect(result.isError).toBe(true);
+      expect(mockRun).not.toHaveBeenCalled();
+    });
+
+    it('should page large output and continue from a cursor', async () => {
+      mockRun.mockResolvedValue('line of output\n'.repeat(10000));
+      
+      // @ts-ignore - accessing private method for testing
+      const first = await server.handleGit({ repo: 'test-repo', command: 'log -p' });
+      const cursor = /cursor: "([^"]+)"/.exec(first.content[0].text)?.[1];
+      expect(cursor).toBeDefined();
+      
+      // @ts-ignore - accessing private method for testing
+      const second = await server.handleGit({ repo: 'test-repo', command: 'log -p', cursor });
+      expect(second.content[0].text).toContain('Continuing from byte');
+      expect(second.content[0].text).not.toContain('More output follows');
+      expect(first.content[0].text.length + second.content[0].text.length).toBeGreaterThan(150000);
+    });
+
+    it('should reject a cursor from a different command', async () => {
+      mockRun.mockResolvedValue('line of output\n'.repeat(10000));
+      
+      // @ts-ignore - accessing private method for testing
+      const first = await server.handleGit({ repo: 'test-repo', command: 'log -p' });
+      const cursor = /cursor: "([^"]+)"/.exec(first.content[0].text)?.[1];
+      
+      // @ts-ignore - accessing private method for testing
+      const result = await server.handleGit({ repo: 'test-repo', command: 'log', cursor });
+      expect(result.content[0].text).toContain('belongs to a different call');
+    });
+
+    it('should redact secrets from tool output and report the count', async () => {
+      mockRun.mockResolvedValue(`+GITHUB_TOKEN=ghp_${'a1B2c3D4e5'.repeat(4)}\n`);
+      
+      // @ts-ignore - accessing private method for testing
+      const result = server.redactToolResponse(await server.callTool('git', { repo: 'test-repo', command: 'show HEAD' }));
+      expect(result.content[0].text).toContain('+GITHUB_TOKEN=[REDACTED:github-token]');
+      expect(result.content[0].text).not.toContain('ghp_');
+      expect(result.content[1].text).toBe('[Redacted 1 secret from this output: 1 github-token]');
+    });
+
+    it('should handle git command errors gracefully', async () => {
+      mockRun.mockRejectedValue(new GitExecutionError('Git error', 'exit', {
+        exitCode: 128,
+        stderr: 'fatal: bad revision'
+      }));
       
       // @ts-ignore - accessing private method for testing
       const result = await server.executeGit('log', '/test/repo');
@@ -188,21 +271,37 @@ describe('ShadowGitMCPServer', () => {
     });
 
     it('should handle timeout errors', async () => {
-      mockExecSync.mockImplementation(() => {
-        const error: any = new Error('Timeout');
-        error.signal = 'SIGTERM';
-        throw error;
-      });
+      mockRun.mockRejectedValue(new GitExecutionError('Timeout', 'timeout'));
       
       // @ts-ignore - accessing private method for testing
       const result = await server.executeGit('log', '/test/repo');
       expect(result).toContain('timed out');
     });
+
+    it('should pass the request abort signal to the runner', async () => {
+      mockRun.mockResolvedValue('output');
+      const controller = new AbortController();
+      
+      // @ts-ignore - accessing private method for testing
+      await server.handleGit({ repo: 'test-repo', command: 'log' }, controller.signal);
+      expect(mockRun).toHaveBeenCalledWith(
+        ['log'],
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should report cancelled commands', async () => {
+      mockRun.mockRejectedValue(new GitExecutionError('Command cancelled', 'cancelled'));
+      
+      // @ts-ignore - accessing private method for testing
+      const result = await server.executeGit('log', '/test/repo');
+      expect(result).toContain('cancelled');
+    });
   });
 
   describe('Environment Setup', () => {
     it('should set correct git environment variables', async () => {
-      mockExecSync.mockReturnValue('output');
+      mockRun.mockResolvedValue('output');
       mockExistsSync.mockReturnValue(true);
       
       // @ts-ignore - accessing private method for testing
@@ -211,8 +310,8 @@ describe('ShadowGitMCPServer', () => {
         command: 'log' 
       });
       
-      expect(mockExecSync).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(mockRun).toHaveBeenCalledWith(
+        expect.any(Array),
         expect.objectContaining({
           env: expect.objectContaining({
             GIT_DIR: '/test/repo/.shadowgit.git',
@@ -223,39 +322,17 @@ describe('ShadowGitMCPServer', () => {
     });
 
     it('should enforce 10 second timeout', async () => {
-      mockExecSync.mockReturnValue('output');
-      mockExistsSync.mockReturnValue(true);
-      
-      // @ts-ignore - accessing private method for testing
-      await server.handleGit({ 
-        repo: 'test-repo', 
-        command: 'log' 
-      });
-      
-      expect(mockExecSync).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          timeout: 10000
-        })
-      );
+      // @ts-ignore - accessing private member for testing
+      expect(server.gitRunner.options).toEqual(expect.objectContaining({
+        timeoutMs: 10000
+      }));
     });
 
     it('should limit output to 10MB', async () => {
-      mockExecSync.mockReturnValue('output');
-      mockExistsSync.mockReturnValue(true);
-      
-      // @ts-ignore - accessing private method for testing
-      await server.handleGit({ 
-        repo: 'test-repo', 
-        command: 'log' 
-      });
-      
-      expect(mockExecSync).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({
-          maxBuffer: 10 * 1024 * 1024
-        })
-      );
+      // @ts-ignore - accessing private member for testing
+      expect(server.gitRunner.options).toEqual(expect.objectContaining({
+        maxBufferSize: 10 * 1024 * 1024
+      }));
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,117 @@
+// Tests for detecting new ShadowGit snapshots from ref file changes
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import { SnapshotWatcher, readHeadCommit } from '../src/snapshot-watcher';
+
+jest.mock('fs');
+
+const GIT_DIR = '/work/app/.shadowgit.git';
+const SHA_1 = '1'.repeat(40);
+const SHA_2 = '2'.repeat(40);
+
+describe('SnapshotWatcher', () => {
+  let files: Record<string, string>;
+  let listeners: Map<string, (event: string, fileName: string | null) => void>;
+  let stderrSpy: jest.SpiedFunction<typeof process.stderr.write>;
+  const fakeWatcher = { on: jest.fn(), close: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+    files = {
+      [`${GIT_DIR}/HEAD`]: 'ref: refs/heads/main\n',
+      [`${GIT_DIR}/refs/heads/main`]: `${SHA_1}\n`
+    };
+    (fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>).mockImplementation(((filePath: string) => {
+      if (!(filePath in files)) throw new Error(`ENOENT: ${filePath}`);
+      return files[filePath];
+    }) as any);
+
+    listeners = new Map();
+    (fs.watch as jest.MockedFunction<typeof fs.watch>).mockImplementation(((directory: string, callback: any) => {
+      listeners.set(directory, callback);
+      return fakeWatcher;
+    }) as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    stderrSpy.mockRestore();
+  });
+
+  describe('readHeadCommit', () => {
+    it('should follow HEAD to a loose ref', () => {
+      expect(readHeadCommit(GIT_DIR)).toBe(SHA_1);
+    });
+
+    it('should fall back to packed-refs', () => {
+      delete files[`${GIT_DIR}/refs/heads/main`];
+      files[`${GIT_DIR}/packed-refs`] = `# pack-refs with: peeled fully-peeled sorted\n${SHA_2} refs/heads/main\n`;
+      expect(readHeadCommit(GIT_DIR)).toBe(SHA_2);
+    });
+
+    it('should return null before the first commit', () => {
+      delete files[`${GIT_DIR}/refs/heads/main`];
+      expect(readHeadCommit(GIT_DIR)).toBeNull();
+    });
+  });
+
+  it('should watch the git directory and the branch ref directory', () => {
+    const watcher = new SnapshotWatcher(jest.fn());
+    watcher.watch('app', GIT_DIR);
+    expect(Array.from(listeners.keys())).toEqual([GIT_DIR, `${GIT_DIR}/refs/heads`]);
+    expect(watcher.watchedRepos).toEqual(['app']);
+
+    watcher.close();
+    expect(fakeWatcher.close).toHaveBeenCalledTimes(2);
+    expect(watcher.watchedRepos).toEqual([]);
+  });
+
+  it('should notify once per burst of commits', () => {
+    const onSnapshot = jest.fn();
+    const watcher = new SnapshotWatcher(onSnapshot);
+    watcher.watch('app', GIT_DIR);
+    const refs = listeners.get(`${GIT_DIR}/refs/heads`)!;
+
+    files[`${GIT_DIR}/refs/heads/main`] = `${'3'.repeat(40)}\n`;
+    refs('rename', 'main.lock');
+    refs('rename', 'main');
+    files[`${GIT_DIR}/refs/heads/main`] = `${SHA_2}\n`;
+    refs('rename', 'main');
+    expect(onSnapshot).not.toHaveBeenCalled();
+
+    jest.runAllTimers();
+    expect(onSnapshot).toHaveBeenCalledTimes(1);
+    expect(onSnapshot).toHaveBeenCalledWith('app', SHA_2);
+    watcher.close();
+  });
+
+  it('should ignore events that do not move HEAD', () => {
+    const onSnapshot = jest.fn();
+    const watcher = new SnapshotWatcher(onSnapshot);
+    watcher.watch('app', GIT_DIR);
+
+    listeners.get(GIT_DIR)!('change', 'index');
+    listeners.get(`${GIT_DIR}/refs/heads`)!('rename', 'main.lock');
+    listeners.get(GIT_DIR)!('change', 'packed-refs');
+    jest.runAllTimers();
+    expect(onSnapshot).not.toHaveBeenCalled();
+    watcher.close();
+  });
+
+  it('should stop notifying after unwatch', () => {
+    const onSnapshot = jest.fn();
+    const watcher = new SnapshotWatcher(onSnapshot);
+    watcher.watch('app', GIT_DIR);
+    const refs = listeners.get(`${GIT_DIR}/refs/heads`)!;
+
+    files[`${GIT_DIR}/refs/heads/main`] = `${SHA_2}\n`;
+    refs('rename', 'main');
+    watcher.unwatch('app');
+    jest.runAllTimers();
+    expect(onSnapshot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+// Tests for grouping snapshots into editing sessions
+
+import { describe, it, expect } from '@jest/globals';
+import { Commit } from '../src/git-json';
+import { groupSessions, parseShortstat, summarizeSessionsTool } from '../src/tools/summarize-sessions';
+import { useShadowRepo } from './shadow-repo';
+import { ScriptedContext, callsFor, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const RS = '\x1e';
+const FS = '\x1f';
+const MINUTE = 60 * 1000;
+
+const commit = (sha: string, committedAt: string, parents: string[] = []): Commit => ({
+  sha,
+  parents,
+  author: { name: 'Ada', email: 'ada@example.com' },
+  authoredAt: committedAt,
+  committer: { name: 'Ada', email: 'ada@example.com' },
+  committedAt,
+  subject: 'Auto-save',
+  message: 'Auto-save',
+  files: []
+});
+
+// One record of the delimited log format requested by prepareJsonCommand
+const logRecord = (sha: string, parent: string, committedAt: string, numstat: string): string =>
+  `${RS}${[sha, parent, 'Ada', 'ada@example.com', committedAt, 'Ada', 'ada@example.com', committedAt, 'Auto-save\n'].join(FS)}${FS}\n\n${numstat}`;
+
+// Newest first, as git log prints it: two sessions separated by a long break
+const LOG_OUTPUT = [
+  logRecord('c4', 'c3', '2024-05-01T15:10:00Z', '1\t1\tsrc/app.ts\n'),
+  logRecord('c3', 'c2', '2024-05-01T15:00:00Z', '4\t0\tsrc/app.ts\n2\t2\tREADME.md\n'),
+  logRecord('c2', 'c1', '2024-05-01T10:05:00Z', '-\t-\tlogo.png\n'),
+  logRecord('c1', '', '2024-05-01T10:00:00Z', '10\t0\tsrc/app.ts\n')
+].join('');
+
+function createContext(logOutput = LOG_OUTPUT): ScriptedContext {
+  return scriptedContext(argv => {
+    switch (argv[0]) {
+      case 'rev-parse': return 'c4\n';
+      case 'hash-object': return 'empty-tree\n';
+      case 'log': return logOutput;
+      case 'diff': return ' 2 files changed, 5 insertions(+), 2 deletions(-)\n';
+    }
+  });
+}
+
+describe('groupSessions', () => {
+  it('should start a new session after an idle gap', () => {
+    const commits = [
+      commit('a', '2024-05-01T10:00:00Z'),
+      commit('b', '2024-05-01T10:20:00Z'),
+      commit('c', '2024-05-01T11:00:00Z'),
+      commit('d', '2024-05-01T11:29:00Z')
+    ];
+    expect(groupSessions(commits, 30 * MINUTE).map(group => group.map(c => c.sha))).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(groupSessions(commits, 60 * MINUTE)).toHaveLength(1);
+    expect(groupSessions([], 30 * MINUTE)).toEqual([]);
+  });
+});
+
+describe('parseShortstat', () => {
+  it('should read each count when present', () => {
+    expect(parseShortstat(' 3 files changed, 10 insertions(+), 1 deletion(-)\n')).toEqual({ files: 3, additions: 10, deletions: 1 });
+    expect(parseShortstat(' 1 file changed, 2 insertions(+)\n')).toEqual({ files: 1, additions: 2, deletions: 0 });
+    expect(parseShortstat('')).toEqual({ files: 0, additions: 0, deletions: 0 });
+  });
+});
+
+describe('summarize_sessions', () => {
+  it('should summarize each session chronologically', async () => {
+    const { context, git } = createContext();
+    const result = await summarizeSessionsTool.handler({ repo: 'app' }, context);
+
+    const sessions = (result.structuredContent as any).sessions;
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({
+      start: '2024-05-01T10:00:00Z',
+      end: '2024-05-01T10:05:00Z',
+      snapshots: 2,
+      firstSha: 'c1',
+      lastSha: 'c2',
+      baseSha: 'empty-tree',
+      additions: 10,
+      deletions: 0,
+      net: { files: 2, additions: 5, deletions: 2 }
+    });
+    expect(sessions[1]).toMatchObject({ firstSha: 'c3', lastSha: 'c4', baseSha: 'c2', additions: 7, deletions: 3 });
+    expect(sessions[1].files).toEqual([
+      { path: 'src/app.ts', additions: 5, deletions: 1, snapshots: 2 },
+      { path: 'README.md', additions: 2, deletions: 2, snapshots: 1 }
+    ]);
+
+    expect(callsFor(git, 'diff').map(revisionsOf)).toEqual([['empty-tree', 'c2'], ['c2', 'c4']]);
+    expect(result.content[0].text).toContain('2 sessions, 4 snapshots');
+    expect(result.content[0].text).toContain('(5 min), 2 snapshots');
+  });
+
+  it('should honour the idle gap and keep only the most recent sessions', async () => {
+    const { context } = createContext();
+    const merged = await summarizeSessionsTool.handler({ repo: 'app', idle_gap_minutes: 600 }, context);
+    expect((merged.structuredContent as any).sessions).toHaveLength(1);
+
+    const latest = await summarizeSessionsTool.handler({ repo: 'app', max_sessions: 1 }, context);
+    expect(latest.structuredContent).toMatchObject({ totalSessions: 2, omittedSessions: 1 });
+    expect((latest.structuredContent as any).sessions[0].firstSha).toBe('c3');
+    expect(latest.content[0].text).toContain('1 older omitted');
+  });
+
+  it('should translate the time window and paths into log arguments', async () => {
+    const { context, git } = createContext();
+    await summarizeSessionsTool.handler({ repo: 'app', since: 'abc123', until: '2024-05-01T12:00:00Z', paths: ['src'] }, context);
+
+    const [logArgv] = callsFor(git, 'log');
+    expect(optionOf(logArgv, '--until')).toBe('2024-05-01T12:00:00.000Z');
+    expect(revisionsOf(logArgv)).toEqual(['abc123..c4']);
+    expect(pathsOf(logArgv)).toEqual(['src']);
+  });
+
+  it('should report an empty range', async () => {
+    const { context } = createContext('');
+    const result = await summarizeSessionsTool.handler({ repo: 'app', since: '1 hour ago' }, context);
+    expect(result.content[0].text).toContain('No snapshots in this range.');
+  });
+
+  it('should validate numeric options', async () => {
+    const { context } = createContext();
+    await expect(summarizeSessionsTool.handler({ repo: 'app', idle_gap_minutes: 0 }, context)).rejects.toThrow("'idle_gap_minutes' must be at least 1");
+    await expect(summarizeSessionsTool.handler({ repo: 'app', max_sessions: 2.5 }, context)).rejects.toThrow("'max_sessions' must be an integer");
+  });
+});
+
+describe('summarize_sessions against git', () => {
+  const shas: string[] = [];
+  const repo = useShadowRepo(repo => {
+    shas.push(repo.save('2024-05-01T10:00:00Z', { 'src/app.ts': 'one\n' }));
+    shas.push(repo.save('2024-05-01T10:05:00Z', { 'src/app.ts': 'one\ntwo\n' }));
+    shas.push(repo.save('2024-05-01T15:00:00Z', { 'src/app.ts': 'one\n', 'README.md': 'app\n' }));
+  });
+
+  it('should group the snapshots into sessions with their net change', async () => {
+    const result = await summarizeSessionsTool.handler({ repo: repo.path }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({
+      sessions: [
+        { snapshots: 2, firstSha: shas[0], lastSha: shas[1], net: { files: 1, additions: 2, deletions: 0 } },
+        { snapshots: 1, firstSha: shas[2], baseSha: shas[1], net: { files: 2, additions: 1, deletions: 1 } }
+      ]
+    });
+  });
+});
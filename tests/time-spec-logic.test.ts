@@ -0,0 +1,59 @@
+// Tests for parsing the time expressions accepted by the history tools
+
+import { describe, it, expect } from '@jest/globals';
+import { formatDuration, parseTimeSpec } from '../src/tools/time-spec';
+import { ToolError } from '../src/tools/types';
+
+const NOW = new Date(2024, 4, 1, 10, 0, 0); // 1 May 2024 10:00 local time
+
+const timeOf = (value: string): Date => {
+  const spec = parseTimeSpec(value, 'since', NOW);
+  if (spec.kind !== 'time') throw new Error(`expected a time for ${value}`);
+  return spec.date;
+};
+
+describe('parseTimeSpec', () => {
+  it('should parse relative times', () => {
+    expect(timeOf('20 minutes ago')).toEqual(new Date(2024, 4, 1, 9, 40, 0));
+    expect(timeOf('20min ago')).toEqual(new Date(2024, 4, 1, 9, 40, 0));
+    expect(timeOf('an hour ago')).toEqual(new Date(2024, 4, 1, 9, 0, 0));
+    expect(timeOf('1.5 hours ago')).toEqual(new Date(2024, 4, 1, 8, 30, 0));
+    expect(timeOf('2 days ago')).toEqual(new Date(2024, 3, 29, 10, 0, 0));
+  });
+
+  it('should parse named days', () => {
+    expect(timeOf('now')).toEqual(NOW);
+    expect(timeOf('today')).toEqual(new Date(2024, 4, 1, 0, 0, 0));
+    expect(timeOf('Yesterday')).toEqual(new Date(2024, 3, 30, 0, 0, 0));
+  });
+
+  it('should resolve a time of day to its most recent occurrence', () => {
+    expect(timeOf('09:15')).toEqual(new Date(2024, 4, 1, 9, 15, 0));
+    expect(timeOf('14:32')).toEqual(new Date(2024, 3, 30, 14, 32, 0));
+  });
+
+  it('should parse ISO timestamps', () => {
+    expect(timeOf('2024-04-30T12:00:00Z').toISOString()).toBe('2024-04-30T12:00:00.000Z');
+    expect(timeOf('2024-04-30 12:00')).toEqual(new Date(2024, 3, 30, 12, 0, 0));
+  });
+
+  it('should treat anything else that looks like a revision as one', () => {
+    expect(parseTimeSpec('abc1234', 'since', NOW)).toEqual({ kind: 'revision', rev: 'abc1234' });
+    expect(parseTimeSpec('HEAD~3', 'since', NOW)).toEqual({ kind: 'revision', rev: 'HEAD~3' });
+  });
+
+  it('should reject option-like values and unknown units', () => {
+    expect(() => parseTimeSpec('--all', 'since', NOW)).toThrow(ToolError);
+    expect(() => parseTimeSpec('two weeks', 'since', NOW)).toThrow("Could not understand 'two weeks' for 'since'");
+    expect(() => parseTimeSpec('3 fortnights ago', 'since', NOW)).toThrow("Unknown time unit 'fortnights'");
+  });
+});
+
+describe('formatDuration', () => {
+  it('should pick a readable unit', () => {
+    expect(formatDuration(42 * 1000)).toBe('42 s');
+    expect(formatDuration(12 * 60 * 1000)).toBe('12 min');
+    expect(formatDuration((3 * 60 + 5) * 60 * 1000)).toBe('3 h 5 min');
+    expect(formatDuration(72 * 60 * 60 * 1000)).toBe('3 days');
+  });
+});
@@ -0,0 +1,114 @@
+// Shared fixtures for the history tool tests: a ToolContext whose git calls
+// are answered by a script, and helpers that read a git call by meaning
+// (revisions, paths, option values) rather than by argument position, so the
+// scripts do not depend on the order the tools happen to pass arguments in.
+
+import { jest } from '@jest/globals';
+import { ToolContext, ToolError } from '../src/tools/types';
+
+type GitMock = jest.Mock<(repoPath: string, argv: string[]) => Promise<string>>;
+type GitCheckMock = jest.Mock<(repoPath: string, argv: string[]) => Promise<boolean>>;
+
+// Answers one git call; undefined fails the call as unexpected
+type GitScript = (argv: string[], repoPath: string) => string | undefined | Promise<string | undefined>;
+
+interface ScriptOptions {
+  // Registered repository names, each at /work/<name> (default: app)
+  repos?: string[];
+  gitCheck?: (argv: string[], repoPath: string) => boolean | Promise<boolean>;
+  realGit?: GitScript;
+}
+
+interface ScriptedContext {
+  context: ToolContext;
+  git: GitMock;
+  gitCheck: GitCheckMock;
+  realGit: GitMock;
+}
+
+// Options the tools pass with a separate value argument
+const VALUE_OPTIONS = new Set(['-L', '-e']);
+
+function answered(script: GitScript): (repoPath: string, argv: string[]) => Promise<string> {
+  return async (repoPath, argv) => {
+    const answer = await script(argv, repoPath);
+    if (answer === undefined) throw new ToolError(`unexpected git ${argv.join(' ')}`);
+    return answer;
+  };
+}
+
+/**
+ * A ToolContext for registered repositories at /work/<name>. Git calls go to
+ * `git`; gitCheck answers true and realGit fails unless scripted too.
+ */
+function scriptedContext(git: GitScript, options: ScriptOptions = {}): ScriptedContext {
+  const names = options.repos ?? ['app'];
+  const repos = new Map(names.map(name => [name, `/work/${name}`]));
+  const mocks = {
+    git: jest.fn(answered(git)),
+    gitCheck: jest.fn(async (repoPath: string, argv: string[]) => options.gitCheck ? options.gitCheck(argv, repoPath) : true),
+    realGit: jest.fn(answered(options.realGit ?? (() => undefined)))
+  };
+  const context: ToolContext = {
+    repos,
+    resolveRepo: (repo) => {
+      const repoPath = repos.get(repo) ?? Array.from(repos.values()).find(value => value === repo);
+      if (!repoPath) throw new ToolError(`Error: Repository '${repo}' not found.`);
+      return repoPath;
+    },
+    ...mocks,
+    withSignal: () => context
+  };
+  return { context, ...mocks };
+}
+
+// The arguments after the subcommand and before `--` that are not options
+// (revisions, mostly)
+function revisionsOf(argv: string[]): string[] {
+  const end = argv.includes('--') ? argv.indexOf('--') : argv.length;
+  const revisions: string[] = [];
+  for (let i = 1; i < end; i++) {
+    if (VALUE_OPTIONS.has(argv[i])) i++;
+    else if (!argv[i].startsWith('-')) revisions.push(argv[i]);
+  }
+  return revisions;
+}
+
+// The arguments after `--`
+function pathsOf(argv: string[]): string[] {
+  return argv.includes('--') ? argv.slice(argv.indexOf('--') + 1) : [];
+}
+
+// The value of `--name=value`, or of `-x value` for the separate-value options
+function optionOf(argv: string[], name: string): string | undefined {
+  const end = argv.includes('--') ? argv.indexOf('--') : argv.length;
+  for (let i = 1; i < end; i++) {
+    if (VALUE_OPTIONS.has(name) && argv[i] === name) return argv[i + 1];
+    if (argv[i].startsWith(`${name}=`)) return argv[i].slice(name.length + 1);
+  }
+  return undefined;
+}
+
+// Whether a flag appears before `--`
+function hasOption(argv: string[], name: string): boolean {
+  const end = argv.includes('--') ? argv.indexOf('--') : argv.length;
+  return argv.slice(1, end).includes(name);
+}
+
+// The git calls a mock received for one subcommand, as argv
+function callsFor(git: GitMock, subcommand: string): string[][] {
+  return git.mock.calls.map(call => call[1]).filter(argv => argv[0] === subcommand);
+}
+
+export {
+  GitCheckMock,
+  GitMock,
+  GitScript,
+  ScriptedContext,
+  callsFor,
+  hasOption,
+  optionOf,
+  pathsOf,
+  revisionsOf,
+  scriptedContext
+};
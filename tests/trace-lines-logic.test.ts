@@ -0,0 +1,154 @@
+// Tests for tracing the history of a line range
+
+import { describe, it, expect } from '@jest/globals';
+import { lineRangeArg, parseTrace, traceLinesTool } from '../src/tools/trace-lines';
+import { ToolError } from '../src/tools/types';
+import { useShadowRepo } from './shadow-repo';
+import { GitMock, ScriptedContext, callsFor, hasOption, optionOf, pathsOf, revisionsOf, scriptedContext } from './tool-context';
+
+const FS = '\x1f';
+const RS = '\x1e';
+
+function record(sha: string, timestamp: string, path: string, hunk: string[]): string {
+  return `${RS}${sha}${FS}${timestamp}${FS}Auto-save${FS}\n\n` +
+    [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, ...hunk, ''].join('\n');
+}
+
+// `alpha` moved down a line in c3 (app.ts renamed to main.ts before it);
+// c1 created it
+const TRACE = [
+  record('c3', '2024-05-01T12:10:00Z', 'main.ts', ['@@ -1,4 +2,4 @@', ' function alpha() {', '   const x = compute(1);', '-  return x;', '+  return x * 2;', ' }']),
+  record('c2', '2024-05-01T11:20:00Z', 'app.ts', ['@@ -1,4 +1,4 @@', ' function alpha() {', '-  const x = compute(2);', '+  const x = compute(1);', '   return x;', ' }']),
+  `${RS}c1${FS}2024-05-01T10:00:00Z${FS}Auto-save${FS}\n\n` +
+    ['diff --git a/app.ts b/app.ts', '--- /dev/null', '+++ b/app.ts', '@@ -0,0 +1,4 @@', '+function alpha() {', '+  const x = compute(1);', '+  return x;', '+}', ''].join('\n')
+].join('');
+
+// Files in every snapshot; app.ts was renamed to main.ts in c2 when only
+// main.ts is given
+function createContext(output: string | Error = TRACE, files = ['app.ts', 'main.ts']): ScriptedContext {
+  return scriptedContext(argv => {
+    const [rev] = revisionsOf(argv);
+    const [path] = pathsOf(argv);
+    switch (argv[0]) {
+      case 'rev-parse': return `${rev === 'HEAD^{commit}' ? 'c3' : rev.replace('^{commit}', '')}\n`;
+      case 'rev-list': return 'c2\n';
+      case 'ls-tree': return files.includes(path) ? `100644 blob 0123abcd\t${path}\0` : '';
+      case 'diff-tree': return 'R100\tapp.ts\tmain.ts\n';
+      case 'log':
+        if (hasOption(argv, '-1')) return path === 'never.ts' ? '' : 'c2\n';
+        if (output instanceof Error) throw output;
+        return output;
+    }
+  });
+}
+
+// The last trace the tool ran
+function lastTrace(git: GitMock): string[] {
+  return callsFor(git, 'log').filter(argv => hasOption(argv, '-L')).pop()!;
+}
+
+describe('parseTrace', () => {
+  it('should read each snapshot with the range and name the lines had there', () => {
+    const changes = parseTrace(TRACE);
+
+    expect(changes.map(({ sha, path, startLine, endLine, additions, deletions }) => ({ sha, path, startLine, endLine, additions, deletions })))
+      .toEqual([
+        { sha: 'c3', path: 'main.ts', startLine: 2, endLine: 5, additions: 1, deletions: 1 },
+        { sha: 'c2', path: 'app.ts', startLine: 1, endLine: 4, additions: 1, deletions: 1 },
+        { sha: 'c1', path: 'app.ts', startLine: 1, endLine: 4, additions: 4, deletions: 0 }
+      ]);
+    expect(changes[0].hunk).toBe('@@ -1,4 +2,4 @@\n function alpha() {\n   const x = compute(1);\n-  return x;\n+  return x * 2;\n }');
+    expect(parseTrace(record('c4', '2024-05-01T12:20:00Z', 'main.ts', ['@@ -5,2 +5,2 @@', '-}', '+};', ' ']))[0].hunk)
+      .toBe('@@ -5,2 +5,2 @@\n-}\n+};\n ');
+  });
+});
+
+describe('lineRangeArg', () => {
+  it('should build line and function ranges, escaping colons in function names', () => {
+    expect(lineRangeArg('src/a.ts', { startLine: 3, endLine: 7 })).toBe('3,7:src/a.ts');
+    expect(lineRangeArg('src/a.cc', { functionName: 'Foo::bar' })).toBe(':Foo\\:\\:bar:src/a.cc');
+  });
+});
+
+describe('trace_lines', () => {
+  it('should trace the lines back from the latest snapshot', async () => {
+    const { context, git } = createContext();
+    const result = await traceLinesTool.handler({ repo: 'app', path: './main.ts', start_line: 2, end_line: 5, max_snapshots: 2 }, context);
+    const text = result.content[0].text;
+
+    const trace = lastTrace(git);
+    expect(optionOf(trace, '-L')).toBe('2,5:main.ts');
+    expect(optionOf(trace, '--max-count')).toBe('3');
+    expect(revisionsOf(trace)).toEqual(['c3']);
+    expect(text).toContain('History of main.ts lines 2-5 (as of snapshot c3) in app: 2+ snapshots, newest first');
+    expect(text).toContain('c3  2024-05-01T12:10:00Z  Auto-save\nlines 2-5  +1 -1\n@@ -1,4 +2,4 @@');
+    expect(text).toContain('c2  2024-05-01T11:20:00Z  Auto-save\nlines 1-4 (as app.ts)  +1 -1');
+    expect(result.structuredContent).toMatchObject({ truncated: true, changes: [{ sha: 'c3' }, { sha: 'c2' }] });
+  });
+
+  it('should bound the walk by the window', async () => {
+    const { context, git } = createContext('');
+    const result = await traceLinesTool.handler(
+      { repo: 'app', path: 'app.ts', function: 'alpha', since: '2024-05-01T09:00:00Z', until: '2024-05-01T11:30:00Z' },
+      context
+    );
+
+    const trace = lastTrace(git);
+    expect(optionOf(trace, '-L')).toBe(':alpha:app.ts');
+    expect(optionOf(trace, '--since')).toBe('2024-05-01T09:00:00.000Z');
+    expect(revisionsOf(trace)).toEqual(['c2']);
+    expect(result.content[0].text).toContain('No snapshot in the window changed these lines.');
+
+    await traceLinesTool.handler({ repo: 'app', path: 'app.ts', start_line: 1, since: 'c1' }, context);
+    expect(revisionsOf(lastTrace(git))).toEqual(['c1..c3']);
+  });
+
+  it('should suggest a window when git times out', async () => {
+    const { context } = createContext(new ToolError('Error: Command timed out (10 second limit). Try a simpler query.'));
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'app.ts', start_line: 1 }, context))
+      .rejects.toThrow("Use 'since' to trace a shorter window");
+  });
+
+  it('should point from an old, deleted or unknown path to the file to trace', async () => {
+    const { context } = createContext(TRACE, ['main.ts']);
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'app.ts', start_line: 1 }, context))
+      .rejects.toThrow("'app.ts' is not a file in snapshot c3; it was renamed to 'main.ts' in c2, trace that instead.");
+
+    const deleted = createContext(TRACE, []);
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'gone.ts', start_line: 1 }, deleted.context))
+      .rejects.toThrow("'gone.ts' is not a file in snapshot c3; use file_at to see a deleted file.");
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'never.ts', start_line: 1 }, deleted.context))
+      .rejects.toThrow("'never.ts' is not a file in snapshot c3 or any snapshot before it.");
+  });
+
+  it('should reject missing, conflicting or reversed ranges', async () => {
+    const { context } = createContext();
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'app.ts' }, context))
+      .rejects.toThrow("'start_line' or 'function' parameter is required");
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'app.ts', start_line: 1, function: 'alpha' }, context))
+      .rejects.toThrow('not both');
+    await expect(traceLinesTool.handler({ repo: 'app', path: 'app.ts', start_line: 5, end_line: 2 }, context))
+      .rejects.toThrow("'end_line' (2) must not be before 'start_line' (5)");
+  });
+});
+
+describe('trace_lines against git', () => {
+  const shas: string[] = [];
+  const repo = useShadowRepo(repo => {
+    shas.push(repo.save('2024-05-01T10:00:00Z', { 'app.ts': 'function alpha() {\n  return 1;\n}\n' }));
+    shas.push(repo.save('2024-05-01T11:00:00Z', { 'app.ts': '// app\nfunction alpha() {\n  return 1;\n}\n' }));
+    shas.push(repo.save('2024-05-01T12:00:00Z', { 'app.ts': '// app\nfunction alpha() {\n  return 2;\n}\n' }));
+  });
+
+  it('should trace the lines back through the snapshots that changed them', async () => {
+    const result = await traceLinesTool.handler({ repo: repo.path, path: 'app.ts', start_line: 2, end_line: 4 }, repo.context());
+
+    expect(result.structuredContent).toMatchObject({
+      truncated: false,
+      changes: [
+        { sha: shas[2], startLine: 2, endLine: 4, additions: 1, deletions: 1 },
+        { sha: shas[0], startLine: 1, endLine: 3, additions: 3, deletions: 0 }
+      ]
+    });
+  });
+});